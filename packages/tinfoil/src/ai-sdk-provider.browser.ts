@@ -1,11 +1,24 @@
 import { createOpenAICompatible } from "@ai-sdk/openai-compatible";
 import { TINFOIL_CONFIG } from "./config.js";
+import type { VerificationPolicy, ReleaseSelector, TinfoilEndpoints, RouterPlatform, RouterPattern, VerificationProgressListener } from "./verifier.js";
+import type { ConnectionPoolOptions } from "./pinned-tls-fetch.js";
 import { SecureClient } from "./secure-client.browser.js";
 
 interface CreateTinfoilAIOptions {
   baseURL?: string;
   enclaveURL?: string;
   configRepo?: string;
+  policy?: VerificationPolicy;
+  release?: ReleaseSelector;
+  endpoints?: Partial<TinfoilEndpoints>;
+  fetch?: typeof fetch;
+  region?: string;
+  platform?: RouterPlatform;
+  allowedRouters?: readonly RouterPattern[];
+  onProgress?: VerificationProgressListener;
+  challenge?: boolean;
+  connectionPool?: ConnectionPoolOptions;
+  retryNonIdempotent?: boolean;
 }
 
 export async function createTinfoilAI(apiKey: string, options: CreateTinfoilAIOptions = {}) {
@@ -17,6 +30,17 @@ export async function createTinfoilAI(apiKey: string, options: CreateTinfoilAIOp
     baseURL,
     enclaveURL,
     configRepo,
+    policy: options.policy,
+    release: options.release,
+    endpoints: options.endpoints,
+    fetch: options.fetch,
+    region: options.region,
+    platform: options.platform,
+    allowedRouters: options.allowedRouters,
+    onProgress: options.onProgress,
+    challenge: options.challenge,
+    connectionPool: options.connectionPool,
+    retryNonIdempotent: options.retryNonIdempotent,
   });
 
   await secureClient.ready();
@@ -0,0 +1,264 @@
+import { parseArgs } from "node:util";
+import { readFile } from "node:fs/promises";
+import { gunzipSync } from "node:zlib";
+import { Verifier, Report, PredicateType, discoverRouters, fetchRouter } from "./verifier.js";
+import type { AttestationDocument, RouterPlatform, VerificationDocument } from "./verifier.js";
+import { TinfoilAI } from "./tinfoil-ai.js";
+import { TINFOIL_CONFIG } from "./config.js";
+
+const USAGE = `Usage: tinfoil <command> [options]
+
+Commands:
+  verify [--enclave <host>] [--repo <owner/repo>] [--challenge] [--json]
+      Verify an enclave (default: a router from the ATC) and print the verification document;
+      --challenge asks for a report bound to a fresh nonce
+  inspect-report <file>
+      Decode an SEV-SNP report: raw bytes, base64, gzip, or an attestation document as JSON
+  routers [--region <region>] [--platform <snp|tdx>] [--json]
+      List the routers advertised by the ATC
+  chat [--model <model>] [--enclave <host>] [--repo <owner/repo>] <prompt>
+      Send one chat completion through TinfoilAI (reads the prompt from stdin if omitted)
+
+Chat reads the API key from TINFOIL_API_KEY.
+`;
+
+const DEFAULT_MODEL = "llama3-3-70b";
+
+/**
+ * Where the CLI writes its output and reads its input.
+ */
+export interface CliIO {
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+  stdin: () => Promise<string>;
+}
+
+const processIO: CliIO = {
+  stdout: (text) => process.stdout.write(text),
+  stderr: (text) => process.stderr.write(text),
+  stdin: async () => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of process.stdin) {
+      chunks.push(chunk as Buffer);
+    }
+    return Buffer.concat(chunks).toString("utf8");
+  },
+};
+
+class UsageError extends Error {}
+
+/**
+ * Run the `tinfoil` command line.
+ *
+ * @param args - Arguments after the program name
+ * @param io - Output streams and input (default: the process's)
+ * @returns The exit code: 0 on success, 1 on failure, 2 on invalid usage
+ */
+export async function runCli(args: string[], io: CliIO = processIO): Promise<number> {
+  const [command, ...rest] = args;
+  try {
+    switch (command) {
+      case "verify":
+        return await verifyCommand(rest, io);
+      case "inspect-report":
+        return await inspectReportCommand(rest, io);
+      case "routers":
+        return await routersCommand(rest, io);
+      case "chat":
+        return await chatCommand(rest, io);
+      case "help":
+      case "--help":
+      case "-h":
+        io.stdout(USAGE);
+        return 0;
+      case undefined:
+        throw new UsageError("Missing command");
+      default:
+        throw new UsageError(`Unknown command: ${command}`);
+    }
+  } catch (error) {
+    if (error instanceof UsageError || (error as { code?: string }).code?.startsWith("ERR_PARSE_ARGS")) {
+      io.stderr(`${(error as Error).message}\n\n${USAGE}`);
+      return 2;
+    }
+    io.stderr(`Error: ${(error as Error).message}\n`);
+    return 1;
+  }
+}
+
+async function verifyCommand(args: string[], io: CliIO): Promise<number> {
+  const { values } = parseArgs({
+    args,
+    options: {
+      enclave: { type: "string" },
+      repo: { type: "string" },
+      challenge: { type: "boolean", default: false },
+      json: { type: "boolean", default: false },
+    },
+  });
+
+  const host = values.enclave ?? await fetchRouter();
+  const verifier = new Verifier({
+    serverURL: `https://${host}`,
+    configRepo: values.repo ?? TINFOIL_CONFIG.INFERENCE_PROXY_REPO,
+    ...(values.challenge && { challenge: true }),
+  });
+
+  let error: unknown;
+  try {
+    await verifier.verify();
+  } catch (e) {
+    error = e;
+  }
+  const doc = verifier.getVerificationDocument();
+  if (!doc) {
+    throw error;
+  }
+
+  io.stdout(values.json ? `${JSON.stringify(doc, null, 2)}\n` : formatDocument(doc));
+  if (error) {
+    io.stderr(`Error: ${(error as Error).message}\n`);
+    return 1;
+  }
+  return 0;
+}
+
+async function inspectReportCommand(args: string[], io: CliIO): Promise<number> {
+  const { positionals } = parseArgs({ args, allowPositionals: true });
+  if (positionals.length !== 1) {
+    throw new UsageError("inspect-report takes exactly one file");
+  }
+
+  const report = new Report(decodeReport(await readFile(positionals[0])));
+  io.stdout(`${JSON.stringify(report, null, 2)}\n`);
+  return 0;
+}
+
+async function routersCommand(args: string[], io: CliIO): Promise<number> {
+  const { values } = parseArgs({
+    args,
+    options: {
+      region: { type: "string" },
+      platform: { type: "string" },
+      json: { type: "boolean", default: false },
+    },
+  });
+
+  const { routers } = await discoverRouters({
+    region: values.region,
+    platform: values.platform as RouterPlatform | undefined,
+  });
+
+  if (values.json) {
+    io.stdout(`${JSON.stringify(routers, null, 2)}\n`);
+    return 0;
+  }
+  const rows = routers.map((r) => [
+    r.hostname,
+    r.region ?? "-",
+    r.platform ?? "-",
+    r.capacity?.toString() ?? "-",
+    r.models?.join(",") ?? "-",
+  ]);
+  io.stdout(formatTable(["HOSTNAME", "REGION", "PLATFORM", "CAPACITY", "MODELS"], rows));
+  return 0;
+}
+
+async function chatCommand(args: string[], io: CliIO): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      model: { type: "string", default: DEFAULT_MODEL },
+      enclave: { type: "string" },
+      repo: { type: "string" },
+    },
+  });
+
+  const prompt = positionals.length > 0 ? positionals.join(" ") : (await io.stdin()).trim();
+  if (!prompt) {
+    throw new UsageError("chat needs a prompt");
+  }
+
+  const client = new TinfoilAI({
+    ...(values.enclave && { enclaveURL: `https://${values.enclave}` }),
+    ...(values.repo && { configRepo: values.repo }),
+  });
+  try {
+    const completion = await client.chat.completions.create({
+      model: values.model,
+      messages: [{ role: "user", content: prompt }],
+    });
+    io.stdout(`${completion.choices[0]?.message?.content ?? ""}\n`);
+  } finally {
+    client.close();
+  }
+  return 0;
+}
+
+/**
+ * Unwrap a report from the encodings it is commonly stored in: the
+ * attestation document served by an enclave, base64 and gzip.
+ */
+function decodeReport(data: Uint8Array): Uint8Array {
+  if (data[0] === 0x1f && data[1] === 0x8b) {
+    return decodeReport(gunzipSync(data));
+  }
+
+  const text = new TextDecoder().decode(data).trim();
+  if (text.startsWith("{")) {
+    const doc = JSON.parse(text) as AttestationDocument;
+    if (doc.format !== PredicateType.SevGuestV2) {
+      throw new Error(`Not an SEV-SNP attestation: ${doc.format}`);
+    }
+    return decodeReport(Buffer.from(doc.body, "base64"));
+  }
+  if (/^[A-Za-z0-9+/=\s]+$/.test(text)) {
+    return decodeReport(Buffer.from(text, "base64"));
+  }
+  return data;
+}
+
+function formatDocument(doc: VerificationDocument): string {
+  const release = doc.releaseTag ? `${doc.releaseTag} (${doc.releaseDigest})` : doc.releaseDigest;
+  const lines = [
+    ["Enclave", doc.enclaveHost],
+    ["Repository", doc.configRepo],
+    ["Release", release],
+    ["Code fingerprint", doc.codeFingerprint],
+    ["Enclave fingerprint", doc.enclaveFingerprint],
+    ["TLS key fingerprint", doc.tlsPublicKey],
+    ["HPKE public key", doc.hpkePublicKey],
+    ["Platform", platformSummary(doc)],
+    ["Fresh report", doc.freshnessProven ? "yes (nonce challenge)" : ""],
+    ["Verified", doc.securityVerified ? "yes" : "no"],
+  ].filter(([, value]) => value);
+
+  const steps = Object.entries(doc.steps).flatMap(([step, state]) => state ? [[
+    step,
+    state.status,
+    state.durationMs !== undefined ? `${state.durationMs} ms` : "",
+    state.error ?? "",
+  ]] : []);
+
+  return `${lines.map(([label, value]) => `${`${label}:`.padEnd(21)}${value}`).join("\n")}\n\n${formatTable(["STEP", "STATUS", "DURATION", "ERROR"], steps)}`;
+}
+
+function platformSummary(doc: VerificationDocument): string | undefined {
+  const evidence = doc.platformEvidence;
+  if (!evidence) {
+    return undefined;
+  }
+  const { major, minor, build } = evidence.currentFirmware;
+  const tcb = evidence.reportedTcb;
+  const fmc = tcb.fmcSpl !== undefined ? ` fmc=${tcb.fmcSpl}` : "";
+  return `${evidence.productName}, firmware ${major}.${minor}.${build}, ` +
+    `TCB bl=${tcb.blSpl} tee=${tcb.teeSpl} snp=${tcb.snpSpl} ucode=${tcb.ucodeSpl}${fmc}`;
+}
+
+function formatTable(header: string[], rows: string[][]): string {
+  const widths = header.map((h, i) => Math.max(h.length, ...rows.map((row) => row[i].length)));
+  return [header, ...rows]
+    .map((row) => row.map((cell, i) => cell.padEnd(widths[i])).join("  ").trimEnd())
+    .join("\n") + "\n";
+}
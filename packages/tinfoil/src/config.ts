@@ -9,6 +9,7 @@ export const TINFOIL_CONFIG = {
 
   /**
    * The ATC (Attestation and Trust Center) API URL for fetching available routers
+   * @deprecated Set the `atc` endpoint and the `platform` option instead; this is only the default
    */
   ATC_API_URL: "https://atc.tinfoil.sh/routers?platform=snp",
 } as const;
@@ -1,30 +1,48 @@
 import type { Transport as EhbpTransport } from "ehbp";
 import { Identity, Transport, PROTOCOL } from "ehbp";
+import { getTracer, tracedRequest } from "./telemetry.js";
+import { HpkeKeyFetchError, HpkeKeyMismatchError, TransportInitError, withSpan } from "./verifier.js";
 
 /**
  * Fetch and parse server identity from the HPKE keys endpoint.
  * Returns the server Identity which can be used to create a Transport.
+ *
+ * @throws HpkeKeyFetchError if the keys cannot be retrieved or parsed
+ * @throws TransportInitError if the keys endpoint is not HTTPS
  */
 export async function getServerIdentity(enclaveURL: string): Promise<Identity> {
   const keysURL = new URL(PROTOCOL.KEYS_PATH, enclaveURL);
 
   if (keysURL.protocol !== 'https:') {
-    throw new Error(`HTTPS is required for remote key retrieval. Invalid protocol: ${keysURL.protocol}`);
+    throw new TransportInitError(`HTTPS is required for remote key retrieval. Invalid protocol: ${keysURL.protocol}`);
   }
 
-  const response = await fetch(keysURL.toString());
+  return withSpan('tinfoil.hpke.key_fetch', { 'server.address': keysURL.hostname }, async (span) => {
+    let response: Response;
+    try {
+      response = await fetch(keysURL.toString());
+    } catch (e) {
+      throw new HpkeKeyFetchError(`Failed to get server public key: ${(e as Error).message}`, { cause: e });
+    }
 
-  if (!response.ok) {
-    throw new Error(`Failed to get server public key: ${response.status}`);
-  }
+    if (!response.ok) {
+      throw new HpkeKeyFetchError(`Failed to get server public key: ${response.status}`);
+    }
 
-  const contentType = response.headers.get('content-type');
-  if (contentType !== PROTOCOL.KEYS_MEDIA_TYPE) {
-    throw new Error(`Invalid content type: ${contentType}`);
-  }
+    const contentType = response.headers.get('content-type');
+    if (contentType !== PROTOCOL.KEYS_MEDIA_TYPE) {
+      throw new HpkeKeyFetchError(`Invalid content type: ${contentType}`);
+    }
 
-  const keysData = new Uint8Array(await response.arrayBuffer());
-  return await Identity.unmarshalPublicConfig(keysData);
+    let identity: Identity;
+    try {
+      identity = await Identity.unmarshalPublicConfig(new Uint8Array(await response.arrayBuffer()));
+    } catch (e) {
+      throw new HpkeKeyFetchError('Failed to parse server public key', { cause: e });
+    }
+    span.setAttribute('tinfoil.hpke.public_key', await identity.getPublicKeyHex());
+    return identity;
+  }, { tracer: getTracer() });
 }
 
 export function normalizeEncryptedBodyRequestArgs(
@@ -83,7 +101,7 @@ export async function encryptedBodyRequest(
   if (hpkePublicKey) {
     const transportKeyHash = await actualTransport.getServerPublicKeyHex();
     if (transportKeyHash !== hpkePublicKey) {
-      throw new Error(`HPKE public key mismatch. Expected: ${hpkePublicKey}, Got: ${transportKeyHash}`);
+      throw new HpkeKeyMismatchError(hpkePublicKey, transportKeyHash);
     }
   }
 
@@ -120,10 +138,14 @@ export function createEncryptedBodyFetch(baseURL: string, hpkePublicKey?: string
     }
     const initWithEnclaveHeader = { ...normalized.init, headers };
 
-    // Get the dedicated transport instance for this fetch function
-    const transportInstance = await getOrCreateTransport();
+    const method = (initWithEnclaveHeader.method ?? 'GET').toUpperCase();
+    const attributes = hpkePublicKey ? { 'tinfoil.hpke.public_key': hpkePublicKey } : {};
+    return tracedRequest('ehbp', targetUrl, method, attributes, async () => {
+      // Get the dedicated transport instance for this fetch function
+      const transportInstance = await getOrCreateTransport();
 
-    return encryptedBodyRequest(targetUrl.toString(), hpkePublicKey, initWithEnclaveHeader, enclaveURL, transportInstance);
+      return encryptedBodyRequest(targetUrl.toString(), hpkePublicKey, initWithEnclaveHeader, enclaveURL, transportInstance);
+    });
   }) as FetchWithResponse;
 
   // Expose Response constructor for OpenAI SDK's FormData support detection
@@ -139,11 +161,15 @@ export async function getTransportForOrigin(origin: string, keyOrigin: string):
     const hasSubtle = !!(globalThis.crypto && (globalThis.crypto as Crypto).subtle);
     if (!isSecure || !hasSubtle) {
       const reason = !isSecure ? 'insecure context (use HTTPS or localhost)' : 'missing WebCrypto SubtleCrypto';
-      throw new Error(`EHBP requires a secure browser context: ${reason}`);
+      throw new TransportInitError(`EHBP requires a secure browser context: ${reason}`);
     }
   }
 
   const serverIdentity = await getServerIdentity(keyOrigin);
   const requestHost = new URL(origin).host;
-  return new Transport(serverIdentity, requestHost);
+  try {
+    return new Transport(serverIdentity, requestHost);
+  } catch (e) {
+    throw new TransportInitError(`Transport initialization failed: ${(e as Error).message}`, { cause: e });
+  }
 }
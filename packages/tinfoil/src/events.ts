@@ -0,0 +1,82 @@
+import type { AttestationMeasurement, VerificationDocument } from "./verifier.js";
+
+/**
+ * Background re-verification of the enclave. Without it the enclave is
+ * verified once and trusted for the life of the client.
+ */
+export interface ReattestationOptions {
+  intervalMs?: number; // Re-verify in the background at this interval
+  ttlMs?: number;      // Re-verify before the next request once the last verification is this old
+}
+
+export interface MeasurementChangeEvent {
+  previous: AttestationMeasurement;
+  current: AttestationMeasurement;
+  document: VerificationDocument;
+}
+
+export interface KeyChangeEvent {
+  previous: string;
+  current: string;
+  document: VerificationDocument;
+}
+
+export interface RouterChangeEvent {
+  previous: string;  // Router that failed
+  current: string;   // Verified router now serving requests
+  document: VerificationDocument;
+}
+
+/**
+ * Events emitted by SecureClient and TinfoilAI.
+ */
+export interface SecureClientEvents {
+  reattested: { document: VerificationDocument };
+  reattestationFailed: { error: Error; document: VerificationDocument };
+  measurementChanged: MeasurementChangeEvent;
+  tlsKeyChanged: KeyChangeEvent;
+  hpkeKeyChanged: KeyChangeEvent;
+  routerChanged: RouterChangeEvent;
+}
+
+export type Listener<T> = (event: T) => void;
+
+/**
+ * Minimal typed event emitter that works the same in Node.js and browsers.
+ */
+export class TypedEventEmitter<Events extends object> {
+  private listeners = new Map<keyof Events, Set<Listener<any>>>();
+
+  /**
+   * Register a listener.
+   *
+   * @returns A function that removes the listener
+   */
+  on<K extends keyof Events>(name: K, listener: Listener<Events[K]>): () => void {
+    let set = this.listeners.get(name);
+    if (!set) {
+      set = new Set();
+      this.listeners.set(name, set);
+    }
+    set.add(listener);
+    return () => this.off(name, listener);
+  }
+
+  off<K extends keyof Events>(name: K, listener: Listener<Events[K]>): void {
+    this.listeners.get(name)?.delete(listener);
+  }
+
+  emit<K extends keyof Events>(name: K, event: Events[K]): void {
+    for (const listener of this.listeners.get(name) ?? []) {
+      try {
+        listener(event);
+      } catch {
+        // A failing listener must not interrupt verification or other listeners
+      }
+    }
+  }
+
+  removeAllListeners(): void {
+    this.listeners.clear();
+  }
+}
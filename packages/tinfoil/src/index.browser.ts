@@ -6,4 +6,6 @@ export * from "./verifier.js";
 export * from "./ai-sdk-provider.browser.js";
 export * from "./config.js";
 export { SecureClient } from "./secure-client.browser.js";
-export { UnverifiedClient } from "./unverified-client.js";
\ No newline at end of file
+export { UnverifiedClient } from "./unverified-client.js";
+export type { ReattestationOptions, SecureClientEvents, MeasurementChangeEvent, KeyChangeEvent, RouterChangeEvent } from "./events.js";
+export type { RouterStats } from "./router-pool.js";
\ No newline at end of file
@@ -8,7 +8,9 @@ export * from "./ai-sdk-provider.js";
 export * from "./config.js";
 export { SecureClient} from "./secure-client.js";
 export { UnverifiedClient } from "./unverified-client.js";
-export { fetchRouter } from "./router.js";
+export type { ReattestationOptions, SecureClientEvents, MeasurementChangeEvent, KeyChangeEvent, RouterChangeEvent } from "./events.js";
+export type { RouterStats } from "./router-pool.js";
+export type { ConnectionPoolOptions, ConnectionStats } from "./pinned-tls-fetch.js";
 
 // Re-export OpenAI utility types and classes that users might need
 // Using public exports from the main OpenAI package instead of deep imports
@@ -1,11 +1,109 @@
 import https from "https";
+import http2 from "http2";
+import type { ClientRequest, IncomingMessage } from "http";
+import type { ClientHttp2Session, ClientHttp2Stream, IncomingHttpHeaders } from "http2";
+import zlib from "zlib";
 import tls, { checkServerIdentity as tlsCheckServerIdentity } from "tls";
 import { X509Certificate, createHash } from "crypto";
-import { Readable } from "stream";
+import { Readable, pipeline } from "stream";
+import type { Duplex, Writable } from "stream";
 import { ReadableStream as NodeReadableStream } from "stream/web";
+import { recordConnectionEvent, tracedRequest } from "./telemetry.js";
+import { TlsKeyMismatchError } from "./verifier.js";
+import { READ_TIMEOUT_CODE } from "./router-pool.js";
 
-export function createPinnedTlsFetch(baseURL: string, expectedFingerprintHex: string): typeof fetch {
-  return (async (input: RequestInfo | URL, init?: RequestInit) => {
+/**
+ * How a TLS-pinned transport opens and reuses its connections.
+ */
+export interface ConnectionPoolOptions {
+  keepAlive?: boolean;        // Keep idle connections open for later requests (default: true)
+  maxSockets?: number;        // Most HTTP/1.1 connections open at once per host (default: unlimited)
+  idleTimeoutMs?: number;     // Close connections idle for this long (default: 5000)
+  http2?: boolean;            // Multiplex requests over one HTTP/2 connection per host; the enclave must support HTTP/2
+  connectTimeoutMs?: number;  // Fail requests whose connection is not established after this long (default: 10000)
+  readTimeoutMs?: number;     // Fail requests when the server sends nothing for this long (default: 300000)
+}
+
+/**
+ * Connection counters of a TLS-pinned transport, since it was created.
+ */
+export interface ConnectionStats {
+  protocol: "http/1.1" | "h2";
+  open: number;         // Connections currently open
+  opened: number;       // Connections that passed the pin check
+  reused: number;       // Requests sent on a connection opened by an earlier request
+  closed: number;       // Pinned connections closed by either side
+  pinFailures: number;  // Handshakes rejected because the server key did not match the pin
+  requests: number;     // Requests sent
+}
+
+/**
+ * Fetch over TLS connections pinned to a verified key.
+ */
+export type PinnedTlsFetch = typeof fetch & {
+  connectionStats(): ConnectionStats;  // Snapshot of the connection counters
+  close(): void;                       // Close idle connections now and the others when their requests finish
+};
+
+const DEFAULT_IDLE_TIMEOUT_MS = 5000;
+const DEFAULT_CONNECT_TIMEOUT_MS = 10_000;
+const DEFAULT_READ_TIMEOUT_MS = 300_000;
+
+// Redirects fetch follows, and how many at most
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+const MAX_REDIRECTS = 20;
+
+// Responses that never have a body
+const NULL_BODY_STATUSES = new Set([101, 204, 205, 304]);
+
+// Headers that describe a request body, dropped when a redirect drops the body
+const BODY_HEADERS = ["content-type", "content-length", "content-encoding", "content-language", "content-location"];
+
+// Headers that are specific to HTTP/1.1 connections and rejected by HTTP/2
+const CONNECTION_HEADERS = new Set(["connection", "keep-alive", "proxy-connection", "transfer-encoding", "upgrade", "host"]);
+
+/**
+ * Create a fetch that only talks to servers presenting the pinned TLS key.
+ *
+ * The key is checked during each TLS handshake, so every pooled connection
+ * was pinned when it was opened. TLS session resumption is disabled so that
+ * each connection sees the server's certificate.
+ *
+ * Responses follow fetch: redirects are followed within the origin, whose
+ * connections hold the same pin, bodies are decoded, and `url` and
+ * `redirected` are set. Redirects to another origin are refused.
+ *
+ * @param baseURL - Base for relative request URLs
+ * @param expectedFingerprintHex - Hex SHA-256 fingerprint of the server's SPKI
+ * @param options - Connection reuse settings
+ */
+export function createPinnedTlsFetch(
+  baseURL: string,
+  expectedFingerprintHex: string,
+  options: ConnectionPoolOptions = {},
+): PinnedTlsFetch {
+  const stats: ConnectionStats = {
+    protocol: options.http2 ? "h2" : "http/1.1",
+    open: 0,
+    opened: 0,
+    reused: 0,
+    closed: 0,
+    pinFailures: 0,
+    requests: 0,
+  };
+  const checkServerIdentity = (host: string, cert: tls.PeerCertificate): Error | undefined => {
+    const error = checkPin(host, cert, expectedFingerprintHex);
+    if (error) {
+      stats.pinFailures++;
+      recordConnectionEvent("pin_failure", stats.protocol, host);
+    }
+    return error;
+  };
+  const pool = options.http2
+    ? new Http2SessionPool(stats, checkServerIdentity, options)
+    : new PinnedAgent(stats, checkServerIdentity, options);
+
+  const pinnedFetch = (async (input: RequestInfo | URL, init?: RequestInit) => {
     // Normalize URL with base URL support
     const makeURL = (value: RequestInfo | URL): URL => {
       if (typeof value === "string") return new URL(value, baseURL);
@@ -18,95 +116,461 @@ export function createPinnedTlsFetch(baseURL: string, expectedFingerprintHex: st
       throw new Error(`HTTP connections are not allowed. Use HTTPS. URL: ${url.toString()}`);
     }
 
+    const signal = init?.signal ?? (input instanceof Request ? input.signal : undefined);
+    signal?.throwIfAborted();
+    const redirect = init?.redirect ?? (input instanceof Request ? input.redirect : "follow");
+
     // Gather method and headers
-    const method = (init?.method || (input as any).method || "GET").toUpperCase();
+    let method = (init?.method || (input as any).method || "GET").toUpperCase();
     const headers = new Headers(init?.headers || (input as any)?.headers || {});
     const headerObj: Record<string, string> = {};
     headers.forEach((v, k) => {
       headerObj[k] = v;
     });
+    headerObj["accept-encoding"] ??= "br, gzip, deflate";
 
     // Resolve body
-    let body: any = init?.body;
-    if (!body && input instanceof Request) {
-      // If the original was a Request with a body, read it
-      try {
-        const buf = await (input as Request).arrayBuffer();
-        if (buf && (buf as ArrayBuffer).byteLength) body = Buffer.from(buf as ArrayBuffer);
-      } catch {}
+    let bodyInit: unknown = init?.body;
+    if (bodyInit == null && input instanceof Request && input.body !== null) {
+      // The Request already encoded its body and set its content type
+      bodyInit = Buffer.from(await input.arrayBuffer());
     }
-    // Convert web streams to Node streams if needed
-    if (body && typeof (body as any).getReader === "function") {
-      body = Readable.fromWeb(body as unknown as NodeReadableStream);
+    if (bodyInit != null && (method === "GET" || method === "HEAD")) {
+      throw new TypeError(`Request with ${method} method cannot have a body`);
     }
-    if (body instanceof ArrayBuffer) {
-      body = Buffer.from(body);
+    const extracted = await extractBody(bodyInit);
+    let body = extracted.body;
+    if (extracted.contentType !== undefined && !("content-type" in headerObj)) {
+      headerObj["content-type"] = extracted.contentType;
     }
-    if (ArrayBuffer.isView(body)) {
-      body = Buffer.from(body.buffer, body.byteOffset, body.byteLength);
+    if (Buffer.isBuffer(body) && !("content-length" in headerObj)) {
+      headerObj["content-length"] = String(body.byteLength);
     }
 
-    const requestOptions: https.RequestOptions & tls.ConnectionOptions = {
-      protocol: url.protocol,
-      hostname: url.hostname,
-      port: url.port ? Number(url.port) : 443,
-      path: `${url.pathname}${url.search}`,
-      method,
-      headers: headerObj,
-      checkServerIdentity: (host, cert): Error | undefined => {
-        const raw = (cert as any).raw as Buffer | undefined;
-        if (!raw) {
-          return new Error("Certificate raw bytes are unavailable for pinning");
+    return tracedRequest("tls-pinned", url, method, { "tinfoil.tls.fingerprint": expectedFingerprintHex }, async () => {
+      let current = url;
+      for (let redirects = 0; ; redirects++) {
+        signal?.throwIfAborted();
+        stats.requests++;
+        const res = await pool.send(current, method, headerObj, body, signal);
+        const location = res.headers.get("location");
+        if (!REDIRECT_STATUSES.has(res.status) || location === null || redirect === "manual") {
+          return toResponse(res, method, current, redirects > 0);
+        }
+
+        // Read the redirect's body to the end so that its connection can be reused
+        res.body.resume();
+        if (redirect === "error") {
+          throw new TypeError(`Redirected to ${location}, but the request's redirect mode is "error"`);
         }
-        const x509 = new X509Certificate(raw);
-        const publicKeyDer = x509.publicKey.export({ type: "spki", format: "der" });
-        const fp = createHash("sha256").update(publicKeyDer).digest("hex");
-        if (fp !== expectedFingerprintHex) {
-          return new Error(`Certificate public key fingerprint mismatch. Expected: ${expectedFingerprintHex}, Got: ${fp}`);
+        const next = new URL(location, current);
+        if (next.origin !== url.origin) {
+          throw new Error(`Refusing to follow a redirect to ${next.origin}: only ${url.origin} is pinned to the attested key`);
         }
-        return tlsCheckServerIdentity(host, cert);
-      },
-    };
+        if (redirects === MAX_REDIRECTS) {
+          throw new TypeError(`Too many redirects: more than ${MAX_REDIRECTS}`);
+        }
+        if ((res.status === 303 && method !== "GET" && method !== "HEAD") || ((res.status === 301 || res.status === 302) && method === "POST")) {
+          method = "GET";
+          body = undefined;
+          for (const name of BODY_HEADERS) {
+            delete headerObj[name];
+          }
+        } else if (body !== undefined && !Buffer.isBuffer(body)) {
+          throw new TypeError("Cannot follow a redirect that resends a streamed request body");
+        }
+        current = next;
+      }
+    });
+  }) as PinnedTlsFetch;
+
+  pinnedFetch.connectionStats = () => ({ ...stats });
+  pinnedFetch.close = () => pool.close();
+  return pinnedFetch;
+}
+
+function checkPin(host: string, cert: tls.PeerCertificate, expectedFingerprintHex: string): Error | undefined {
+  const raw = (cert as any).raw as Buffer | undefined;
+  if (!raw) {
+    return new Error("Certificate raw bytes are unavailable for pinning");
+  }
+  const x509 = new X509Certificate(raw);
+  const publicKeyDer = x509.publicKey.export({ type: "spki", format: "der" });
+  const fp = createHash("sha256").update(publicKeyDer).digest("hex");
+  if (fp !== expectedFingerprintHex) {
+    return new TlsKeyMismatchError(expectedFingerprintHex, fp);
+  }
+  return tlsCheckServerIdentity(host, cert);
+}
 
-    const { signal } = init || {};
+type CheckServerIdentity = (host: string, cert: tls.PeerCertificate) => Error | undefined;
 
-    const res = await new Promise<import("http").IncomingMessage>((resolve, reject) => {
-      const req = https.request(requestOptions, resolve);
-      req.on("error", reject);
-      if (signal) {
-        if ((signal as AbortSignal).aborted) {
-          req.destroy(new Error("Request aborted"));
+interface ConnectionPool {
+  send(url: URL, method: string, headers: Record<string, string>, body: Buffer | Readable | undefined, signal?: AbortSignal): Promise<RawResponse>;
+  close(): void;
+}
+
+// A response as received, before fetch semantics are applied
+interface RawResponse {
+  status: number;
+  statusText: string;
+  headers: Headers;
+  body: Readable;
+}
+
+/**
+ * HTTP/1.1 agent whose connections are all pinned. Each transport has its
+ * own agent, so a connection pinned to one key never serves another.
+ */
+class PinnedAgent extends https.Agent implements ConnectionPool {
+  private closing = false;
+  private readonly connectTimeoutMs: number;
+  private readonly readTimeoutMs: number;
+
+  constructor(
+    private readonly stats: ConnectionStats,
+    checkServerIdentity: CheckServerIdentity,
+    options: ConnectionPoolOptions,
+  ) {
+    super({
+      keepAlive: options.keepAlive ?? true,
+      maxSockets: options.maxSockets,
+      timeout: options.idleTimeoutMs ?? DEFAULT_IDLE_TIMEOUT_MS,
+      maxCachedSessions: 0,
+      checkServerIdentity,
+    });
+    this.connectTimeoutMs = options.connectTimeoutMs ?? DEFAULT_CONNECT_TIMEOUT_MS;
+    this.readTimeoutMs = options.readTimeoutMs ?? DEFAULT_READ_TIMEOUT_MS;
+  }
+
+  override createConnection(
+    options: https.RequestOptions,
+    callback?: (err: Error | null, stream: Duplex) => void,
+  ): Duplex | null | undefined {
+    const socket = super.createConnection(options, callback) as tls.TLSSocket;
+    socket.once("secureConnect", () => {
+      this.stats.opened++;
+      this.stats.open++;
+      recordConnectionEvent("opened", this.stats.protocol, options.hostname ?? undefined);
+      socket.once("close", () => {
+        this.stats.open--;
+        this.stats.closed++;
+        recordConnectionEvent("closed", this.stats.protocol, options.hostname ?? undefined);
+      });
+    });
+    return socket;
+  }
+
+  override reuseSocket(socket: Duplex, request: ClientRequest): void {
+    this.stats.reused++;
+    recordConnectionEvent("reused", this.stats.protocol, request.host);
+    super.reuseSocket(socket, request);
+  }
+
+  override keepSocketAlive(socket: Duplex): boolean {
+    // Returning false makes the agent destroy the socket
+    return !this.closing && (super.keepSocketAlive(socket) as unknown as boolean);
+  }
+
+  send(url: URL, method: string, headers: Record<string, string>, body: Buffer | Readable | undefined, signal?: AbortSignal): Promise<RawResponse> {
+    return new Promise<IncomingMessage>((resolve, reject) => {
+      let response: IncomingMessage | undefined;
+      const req = https.request({
+        agent: this,
+        protocol: url.protocol,
+        hostname: url.hostname,
+        port: url.port ? Number(url.port) : 443,
+        path: `${url.pathname}${url.search}`,
+        method,
+        headers,
+        // Applies while the request holds the socket; idle sockets use the agent's timeout
+        timeout: this.readTimeoutMs,
+      }, (res) => {
+        response = res;
+        res.once("close", stopListening);
+        resolve(res);
+      });
+      // Fail the response body too if headers have arrived
+      const fail = (error: Error) => {
+        response?.destroy(error);
+        req.destroy(error);
+      };
+      const stopListening = onAbort(signal, fail);
+      req.on("error", (error) => {
+        stopListening();
+        reject(error);
+      });
+      req.on("timeout", () => {
+        fail(timeoutError(`${url.host} sent nothing for ${this.readTimeoutMs} ms`, READ_TIMEOUT_CODE));
+      });
+      req.on("socket", (socket: tls.TLSSocket) => {
+        // Reused sockets completed their handshake, and with it the pin check
+        if (socket.authorized) {
           return;
         }
-        (signal as AbortSignal).addEventListener("abort", () => req.destroy(new Error("Request aborted")));
+        const timer = setTimeout(() => {
+          req.destroy(timeoutError(`Connecting to ${url.host} timed out after ${this.connectTimeoutMs} ms`, "ETIMEDOUT"));
+        }, this.connectTimeoutMs);
+        socket.once("secureConnect", () => clearTimeout(timer));
+        socket.once("close", () => clearTimeout(timer));
+      });
+      writeBody(req, body);
+    }).then((res) => {
+      const responseHeaders = new Headers();
+      for (const [k, v] of Object.entries(res.headers)) {
+        if (Array.isArray(v)) {
+          v.forEach(item => responseHeaders.append(k, item));
+        } else if (v != null) {
+          responseHeaders.set(k, String(v));
+        }
+      }
+      return { status: res.statusCode || 0, statusText: res.statusMessage || "", headers: responseHeaders, body: res };
+    });
+  }
+
+  close(): void {
+    this.closing = true;
+    for (const sockets of Object.values(this.freeSockets)) {
+      sockets?.forEach((socket) => socket.destroy());
+    }
+  }
+}
+
+/**
+ * One multiplexed HTTP/2 session per origin, opened on first use and
+ * replaced when the server closes it.
+ */
+class Http2SessionPool implements ConnectionPool {
+  private readonly sessions = new Map<string, ClientHttp2Session>();
+  private readonly activeStreams = new Map<ClientHttp2Session, number>();
+  private closing = false;
+
+  constructor(
+    private readonly stats: ConnectionStats,
+    private readonly checkServerIdentity: CheckServerIdentity,
+    private readonly options: ConnectionPoolOptions,
+  ) {}
+
+  private session(url: URL): ClientHttp2Session {
+    const existing = this.sessions.get(url.origin);
+    if (existing && !existing.closed && !existing.destroyed) {
+      this.stats.reused++;
+      recordConnectionEvent("reused", this.stats.protocol, url.hostname);
+      return existing;
+    }
+
+    const session = http2.connect(url.origin, { checkServerIdentity: this.checkServerIdentity });
+    const connectTimeoutMs = this.options.connectTimeoutMs ?? DEFAULT_CONNECT_TIMEOUT_MS;
+    const timer = setTimeout(() => {
+      session.destroy(timeoutError(`Connecting to ${url.host} timed out after ${connectTimeoutMs} ms`, "ETIMEDOUT"));
+    }, connectTimeoutMs);
+    session.once("connect", () => clearTimeout(timer));
+    session.once("close", () => clearTimeout(timer));
+    this.sessions.set(url.origin, session);
+    this.activeStreams.set(session, 0);
+    session.once("connect", () => {
+      this.stats.opened++;
+      this.stats.open++;
+      recordConnectionEvent("opened", this.stats.protocol, url.hostname);
+      session.once("close", () => {
+        this.stats.open--;
+        this.stats.closed++;
+        recordConnectionEvent("closed", this.stats.protocol, url.hostname);
+      });
+    });
+    session.once("close", () => {
+      if (this.sessions.get(url.origin) === session) {
+        this.sessions.delete(url.origin);
       }
-      if (body === undefined || body === null) {
-        req.end();
-      } else if (typeof body === "string" || Buffer.isBuffer(body) || ArrayBuffer.isView(body)) {
-        req.end(body as any);
-      } else if (typeof (body as any).pipe === "function") {
-        (body as any).pipe(req);
-      } else {
-        // Fallback: try to serialize objects
-        req.end(String(body));
+      this.activeStreams.delete(session);
+    });
+    // Session errors also fail the streams on it, which reject their requests
+    session.on("error", () => {});
+    const idleTimeoutMs = this.options.idleTimeoutMs ?? DEFAULT_IDLE_TIMEOUT_MS;
+    session.setTimeout(idleTimeoutMs, () => session.close());
+    if (this.options.keepAlive === false) {
+      // Open a new session for each request, as HTTP/1.1 does without keep-alive
+      this.sessions.delete(url.origin);
+    }
+    return session;
+  }
+
+  send(url: URL, method: string, headers: Record<string, string>, body: Buffer | Readable | undefined, signal?: AbortSignal): Promise<RawResponse> {
+    const session = this.session(url);
+    const requestHeaders: Record<string, string> = { ":method": method, ":path": `${url.pathname}${url.search}` };
+    for (const [k, v] of Object.entries(headers)) {
+      if (!CONNECTION_HEADERS.has(k)) {
+        requestHeaders[k] = v;
       }
+    }
+
+    const stream = session.request(requestHeaders);
+    this.track(session, stream);
+    const readTimeoutMs = this.options.readTimeoutMs ?? DEFAULT_READ_TIMEOUT_MS;
+    stream.setTimeout(readTimeoutMs, () => {
+      stream.destroy(timeoutError(`${url.host} sent nothing for ${readTimeoutMs} ms`, READ_TIMEOUT_CODE));
     });
+    stream.once("close", onAbort(signal, (reason) => stream.destroy(reason)));
+    return new Promise<IncomingHttpHeaders>((resolve, reject) => {
+      stream.once("response", resolve);
+      stream.once("error", (error: Error & { code?: string }) => {
+        // A failed handshake cancels the streams waiting on it; report why it failed
+        reject(error.code === "ERR_HTTP2_STREAM_CANCEL" && error.cause instanceof Error ? error.cause : error);
+      });
+      writeBody(stream, body);
+    }).then((res) => {
+      const responseHeaders = new Headers();
+      for (const [k, v] of Object.entries(res)) {
+        if (k.startsWith(":") || v == null) {
+          continue;
+        }
+        for (const item of Array.isArray(v) ? v : [v]) {
+          responseHeaders.append(k, String(item));
+        }
+      }
+      return { status: Number(res[":status"]), statusText: "", headers: responseHeaders, body: stream };
+    });
+  }
 
-    const responseHeaders = new Headers();
-    for (const [k, v] of Object.entries(res.headers)) {
-      if (Array.isArray(v)) {
-        v.forEach(item => responseHeaders.append(k, item));
-      } else if (v != null) {
-        responseHeaders.set(k, String(v));
+  /**
+   * Keep the process alive only while the session has requests in flight,
+   * and close it after the last one if the pool is closing.
+   */
+  private track(session: ClientHttp2Session, stream: ClientHttp2Stream): void {
+    this.activeStreams.set(session, (this.activeStreams.get(session) ?? 0) + 1);
+    session.ref();
+    stream.once("close", () => {
+      const active = (this.activeStreams.get(session) ?? 1) - 1;
+      this.activeStreams.set(session, active);
+      if (active > 0) {
+        return;
       }
+      if (this.closing || this.options.keepAlive === false) {
+        session.close();
+      } else if (!session.destroyed) {
+        session.unref();
+      }
+    });
+  }
+
+  close(): void {
+    this.closing = true;
+    for (const session of this.sessions.values()) {
+      // Streams in flight complete before the session closes
+      session.close();
     }
+    this.sessions.clear();
+  }
+}
 
-    // Convert Node stream to Web ReadableStream
-    const webStream = Readable.toWeb(res as unknown as import("stream").Readable) as unknown as ReadableStream;
-    return new Response(webStream, {
-      status: res.statusCode || 0,
-      statusText: res.statusMessage || "",
-      headers: responseHeaders,
+/**
+ * Encode a request body as fetch does: strings as UTF-8, URLSearchParams as
+ * a form, FormData as multipart with a boundary, and Blobs with their type.
+ * Streams are sent as they are read; other bodies are buffered so that the
+ * request carries their length.
+ *
+ * @returns The body to send, and the content type fetch would default to
+ */
+async function extractBody(init: unknown): Promise<{ body?: Buffer | Readable; contentType?: string }> {
+  if (init === undefined || init === null) {
+    return {};
+  }
+  if (typeof (init as any).getReader === "function") {
+    return { body: Readable.fromWeb(init as NodeReadableStream) };
+  }
+  if (typeof (init as any).pipe === "function") {
+    // Node.js streams are not a BodyInit, but are accepted like web streams
+    return { body: init as Readable };
+  }
+  if (Buffer.isBuffer(init)) {
+    return { body: init };
+  }
+  const extracted = new Response(init as BodyInit);
+  return {
+    body: Buffer.from(await extracted.arrayBuffer()),
+    contentType: extracted.headers.get("content-type") ?? undefined,
+  };
+}
+
+function writeBody(req: Writable, body: Buffer | Readable | undefined): void {
+  if (body === undefined) {
+    req.end();
+  } else if (Buffer.isBuffer(body)) {
+    req.end(body);
+  } else {
+    pipeline(body, req, (error) => {
+      if (error) {
+        req.destroy(error);
+      }
     });
-  }) as typeof fetch;
-}
\ No newline at end of file
+  }
+}
+
+/**
+ * Build the Response fetch would return: decoded, without a body for HEAD
+ * requests and null body statuses, and with the URL it was received from.
+ */
+function toResponse(raw: RawResponse, method: string, url: URL, redirected: boolean): Response {
+  let body: ReadableStream | null = null;
+  if (method === "HEAD" || NULL_BODY_STATUSES.has(raw.status)) {
+    raw.body.resume();
+  } else {
+    const decoders = contentDecoders(raw.headers.get("content-encoding"));
+    // pipeline destroys every stream on failure, so errors and aborts reach the reader
+    const decoded = decoders.length > 0 ? pipeline([raw.body, ...decoders], () => {}) as unknown as Readable : raw.body;
+    // Convert Node stream to Web ReadableStream
+    body = Readable.toWeb(decoded) as unknown as ReadableStream;
+  }
+
+  const response = new Response(body, { status: raw.status, statusText: raw.statusText, headers: raw.headers });
+  const responseURL = new URL(url);
+  responseURL.hash = "";
+  Object.defineProperties(response, {
+    url: { value: responseURL.toString() },
+    redirected: { value: redirected },
+  });
+  return response;
+}
+
+/**
+ * Streams that undo the content codings of a response, in the order to
+ * apply them. Bodies with a coding fetch does not decode are left as they are.
+ */
+function contentDecoders(contentEncoding: string | null): Duplex[] {
+  const codings = (contentEncoding ?? "").split(",").map((coding) => coding.trim().toLowerCase()).filter(Boolean);
+  const decoders: Duplex[] = [];
+  for (const coding of codings.reverse()) {
+    // Flush what has arrived, so streamed responses are readable as they arrive
+    if (coding === "gzip" || coding === "x-gzip") {
+      decoders.push(zlib.createGunzip({ flush: zlib.constants.Z_SYNC_FLUSH, finishFlush: zlib.constants.Z_SYNC_FLUSH }));
+    } else if (coding === "deflate") {
+      decoders.push(zlib.createInflate({ flush: zlib.constants.Z_SYNC_FLUSH, finishFlush: zlib.constants.Z_SYNC_FLUSH }));
+    } else if (coding === "br") {
+      decoders.push(zlib.createBrotliDecompress({
+        flush: zlib.constants.BROTLI_OPERATION_FLUSH,
+        finishFlush: zlib.constants.BROTLI_OPERATION_FLUSH,
+      }));
+    } else {
+      return [];
+    }
+  }
+  return decoders;
+}
+
+/**
+ * Call abort with the signal's reason if it aborts.
+ *
+ * @returns A function that stops listening
+ */
+function onAbort(signal: AbortSignal | undefined, abort: (reason: Error) => void): () => void {
+  if (!signal) {
+    return () => {};
+  }
+  const listener = () => abort(signal.reason);
+  signal.addEventListener("abort", listener, { once: true });
+  return () => signal.removeEventListener("abort", listener);
+}
+
+function timeoutError(message: string, code: "ETIMEDOUT" | typeof READ_TIMEOUT_CODE): Error {
+  return Object.assign(new Error(message), { code });
+}
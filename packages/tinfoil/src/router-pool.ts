@@ -0,0 +1,148 @@
+import { shuffleByCapacity } from "./verifier.js";
+import type { RouterInfo } from "./verifier.js";
+
+/**
+ * Health tracking for the routers a SecureClient can fail over between.
+ */
+
+export interface RouterStats {
+  address: string;
+  region?: string;
+  requests: number;             // Requests that reached the router
+  failures: number;             // Connection errors, 5xx responses and failed verifications
+  consecutiveFailures: number;  // Reset by the next success
+  latencyMs?: number;           // Moving average time to response headers
+  lastError?: string;           // Most recent failure
+}
+
+// Weight of the newest sample in the latency moving average
+const LATENCY_SMOOTHING = 0.3;
+
+// Code of the error TLS-pinned requests fail with when the server stops
+// responding, which unlike a connect timeout may come after the request was sent
+export const READ_TIMEOUT_CODE = "ERR_READ_TIMEOUT";
+
+// Error codes of Node.js sockets and undici for connections that could not
+// be established, so no part of the request reached the router
+const UNREACHABLE_ERROR_CODES = new Set([
+  "ECONNREFUSED",
+  "ENOTFOUND",
+  "ETIMEDOUT",
+  "EHOSTUNREACH",
+  "ENETUNREACH",
+  "EAI_AGAIN",
+  "UND_ERR_CONNECT_TIMEOUT",
+]);
+
+// Error codes for connections dropped after the request may have been sent
+const DROPPED_ERROR_CODES = new Set([
+  "ECONNRESET",
+  "EPIPE",
+  "UND_ERR_SOCKET",
+  READ_TIMEOUT_CODE,
+]);
+
+// Methods a server must treat the same however many times they are sent
+const IDEMPOTENT_METHODS = new Set(["GET", "HEAD", "OPTIONS", "TRACE", "PUT", "DELETE"]);
+
+export class RouterPool {
+  private readonly routers = new Map<string, RouterStats>();
+
+  /**
+   * @param routers - Routers from discovery; they are tried in random order,
+   * weighted by capacity, until latency measurements are available
+   */
+  constructor(routers: RouterInfo[]) {
+    for (const { hostname, region } of shuffleByCapacity(routers)) {
+      if (!this.routers.has(hostname)) {
+        this.routers.set(hostname, { address: hostname, ...(region && { region }), requests: 0, failures: 0, consecutiveFailures: 0 });
+      }
+    }
+  }
+
+  has(address: string): boolean {
+    return this.routers.has(address);
+  }
+
+  /**
+   * Routers to try, healthiest first: fewest consecutive failures, then
+   * lowest latency, then routers without measurements.
+   *
+   * @param exclude - Routers already tried
+   */
+  candidates(exclude: ReadonlySet<string> = new Set()): string[] {
+    return [...this.routers.values()]
+      .filter((router) => !exclude.has(router.address))
+      .sort((a, b) =>
+        a.consecutiveFailures - b.consecutiveFailures ||
+        (a.latencyMs ?? Infinity) - (b.latencyMs ?? Infinity) ||
+        0
+      )
+      .map((router) => router.address);
+  }
+
+  recordSuccess(address: string, latencyMs: number): void {
+    const router = this.routers.get(address);
+    if (!router) {
+      return;
+    }
+    router.requests++;
+    router.consecutiveFailures = 0;
+    router.latencyMs = router.latencyMs === undefined
+      ? latencyMs
+      : router.latencyMs + LATENCY_SMOOTHING * (latencyMs - router.latencyMs);
+  }
+
+  recordFailure(address: string, error: string): void {
+    const router = this.routers.get(address);
+    if (!router) {
+      return;
+    }
+    router.failures++;
+    router.consecutiveFailures++;
+    router.lastError = error;
+  }
+
+  stats(): RouterStats[] {
+    return [...this.routers.values()].map((router) => ({ ...router }));
+  }
+}
+
+/**
+ * Whether a fetch error is a failure of the connection to the router, as
+ * opposed to the request or its verification being rejected.
+ */
+export function isConnectionError(error: unknown): boolean {
+  for (let e = error; e instanceof Error; e = e.cause) {
+    // fetch rejects with a TypeError on network failures in browsers and Node.js
+    if (e instanceof TypeError || UNREACHABLE_ERROR_CODES.has(errorCode(e)) || DROPPED_ERROR_CODES.has(errorCode(e))) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Whether a fetch error means the router could not be reached at all, so
+ * the request was never sent and can be sent elsewhere whatever its method.
+ */
+export function isUnreachableError(error: unknown): boolean {
+  for (let e = error; e instanceof Error; e = e.cause) {
+    if (UNREACHABLE_ERROR_CODES.has(errorCode(e))) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Whether a request may be sent again after it possibly reached the server.
+ */
+export function isIdempotent(method: string): boolean {
+  return IDEMPOTENT_METHODS.has(method.toUpperCase());
+}
+
+function errorCode(error: Error): string {
+  const code = (error as { code?: unknown }).code;
+  return typeof code === "string" ? code : "";
+}
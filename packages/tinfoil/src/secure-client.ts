@@ -1,28 +1,86 @@
-import { Verifier } from "./verifier.js";
-import type { VerificationDocument } from "./verifier.js";
+import { Verifier, discoverRouters, shuffleByCapacity, signReceipt, HpkeKeyMismatchError, TinfoilError } from "./verifier.js";
+import type { VerificationDocument, VerificationReceipt, ReceiptSigningKey, VerificationPolicy, ReleaseSelector, TinfoilEndpoints, NetworkOptions, RouterPlatform, RouterPattern, RouterDiscoveryOptions, RejectedRouter, VerificationProgressEvent, VerificationProgressListener } from "./verifier.js";
 import { TINFOIL_CONFIG } from "./config.js";
 import { createSecureFetch } from "./secure-fetch.js";
-import { fetchRouter } from "./router.js";
+import { RouterPool, isConnectionError, isIdempotent, isUnreachableError } from "./router-pool.js";
+import type { RouterStats } from "./router-pool.js";
+import type { ConnectionPoolOptions, ConnectionStats, PinnedTlsFetch } from "./pinned-tls-fetch.js";
+import { TypedEventEmitter } from "./events.js";
+import type { Listener, ReattestationOptions, SecureClientEvents } from "./events.js";
 
 interface SecureClientOptions {
   baseURL?: string;
   enclaveURL?: string;
   configRepo?: string;
+  policy?: VerificationPolicy;
+  release?: ReleaseSelector;
+  endpoints?: Partial<TinfoilEndpoints>;
+  fetch?: typeof fetch;
+  reattestation?: ReattestationOptions;
+  region?: string;            // Only use routers in this region, e.g. "eu"
+  platform?: RouterPlatform;  // Only use routers on this hardware platform
+  allowedRouters?: readonly RouterPattern[];  // Hostnames discovered routers must match (default: *.tinfoil.sh)
+  onProgress?: VerificationProgressListener;  // Called as each verification step starts and finishes
+  challenge?: boolean;  // Challenge enclaves with a fresh nonce to prove their reports are not replayed
+  connectionPool?: ConnectionPoolOptions;  // Keep-alive and HTTP/2 settings of TLS-pinned connections (Node.js only)
+  retryNonIdempotent?: boolean;  // Also fail over POST and PATCH requests that may have reached the router (default: false)
 }
 
+type AttestationOutcome =
+  | { document: VerificationDocument; fetch: typeof fetch; verifier: Verifier }
+  | { document: VerificationDocument; error: unknown };
+
 export class SecureClient {
   private initPromise: Promise<void> | null = null;
   private verificationDocument: VerificationDocument | null = null;
+  private verifier: Verifier | null = null;
   private _fetch: typeof fetch | null = null;
   
   private baseURL?: string;
   private enclaveURL?: string;
   private readonly configRepo?: string;
+  private readonly policy?: VerificationPolicy;
+  private readonly release?: ReleaseSelector;
+  private readonly network: NetworkOptions;
+  private readonly routerDiscovery: RouterDiscoveryOptions;
+  private rejectedRouters: RejectedRouter[] = [];
+  private readonly reattestation?: ReattestationOptions;
+  private readonly onProgress?: VerificationProgressListener;
+  private readonly challenge?: boolean;
+  private readonly connectionPool?: ConnectionPoolOptions;
+  private readonly retryNonIdempotent: boolean;
+  private readonly events = new TypedEventEmitter<SecureClientEvents>();
+  private verifiedAt = 0;
+  private reattestPromise: Promise<void> | null = null;
+  private timer?: ReturnType<typeof setInterval>;
+  private closed = false;
+  private pool: RouterPool | null = null;
 
   constructor(options: SecureClientOptions = {}) {
     this.baseURL = options.baseURL;
     this.enclaveURL = options.enclaveURL;
     this.configRepo = options.configRepo || TINFOIL_CONFIG.INFERENCE_PROXY_REPO;
+    this.policy = options.policy;
+    this.release = options.release;
+    this.network = { endpoints: options.endpoints, fetch: options.fetch };
+    this.routerDiscovery = {
+      ...this.network,
+      region: options.region,
+      platform: options.platform,
+      allowedRouters: options.allowedRouters,
+    };
+
+    for (const name of ['intervalMs', 'ttlMs'] as const) {
+      const value = options.reattestation?.[name];
+      if (value !== undefined && !(value > 0)) {
+        throw new Error(`reattestation.${name} must be a positive number of milliseconds`);
+      }
+    }
+    this.reattestation = options.reattestation;
+    this.onProgress = options.onProgress;
+    this.challenge = options.challenge;
+    this.connectionPool = options.connectionPool;
+    this.retryNonIdempotent = options.retryNonIdempotent ?? false;
   }
 
   public async ready(): Promise<void> {
@@ -33,9 +91,21 @@ export class SecureClient {
   }
 
   private async initSecureClient(): Promise<void> {
+    if (!this.enclaveURL && !this.baseURL) {
+      // Neither URL is pinned, so fail over between the routers the ATC lists
+      const { routers, rejected } = await discoverRouters(this.routerDiscovery);
+      this.rejectedRouters = rejected;
+      this.pool = new RouterPool(routers);
+      await this.initRouterPool();
+      this.startReattestationTimer();
+      return;
+    }
+
     // Fetch router address if enclaveURL is not provided
     if (!this.enclaveURL) {
-      const routerAddress = await fetchRouter();
+      const { routers, rejected } = await discoverRouters(this.routerDiscovery);
+      this.rejectedRouters = rejected;
+      const routerAddress = shuffleByCapacity(routers)[0].hostname;
       this.enclaveURL = `https://${routerAddress}`;
 
       // Only set baseURL from router if not already provided
@@ -50,9 +120,86 @@ export class SecureClient {
       this.baseURL = `${enclaveUrl.origin}/v1/`;
     }
 
+    const outcome = await this.attest(this.enclaveURL, this.baseURL);
+    this.verificationDocument = outcome.document;
+    if ('error' in outcome) {
+      throw outcome.error;
+    }
+    this.useTransport(outcome.fetch);
+    this.verifier = outcome.verifier;
+    this.verifiedAt = Date.now();
+    this.startReattestationTimer();
+  }
+
+  /**
+   * Verify routers from the pool, healthiest first, until one passes.
+   *
+   * @throws Error from the last router tried if none verifies
+   */
+  private async initRouterPool(): Promise<void> {
+    let outcome: AttestationOutcome | undefined;
+    for (const address of this.pool!.candidates()) {
+      outcome = await this.attest(`https://${address}`, `https://${address}/v1/`);
+      if (!('error' in outcome)) {
+        this.useRouter(address, outcome);
+        return;
+      }
+      this.pool!.recordFailure(address, (outcome.error as Error).message);
+    }
+    this.verificationDocument = outcome!.document;
+    throw (outcome as { error: unknown }).error;
+  }
+
+  private useRouter(address: string, outcome: { document: VerificationDocument; fetch: typeof fetch; verifier: Verifier }): void {
+    this.enclaveURL = `https://${address}`;
+    this.baseURL = `https://${address}/v1/`;
+    this.useTransport(outcome.fetch);
+    this.verifier = outcome.verifier;
+    this.verificationDocument = outcome.document;
+    this.verifiedAt = Date.now();
+  }
+
+  /**
+   * Send requests over a new transport. The previous one closes its pooled
+   * connections once the requests still in flight on them finish.
+   */
+  private useTransport(transport: typeof fetch): void {
+    closeTransport(this._fetch);
+    this._fetch = transport;
+  }
+
+  private startReattestationTimer(): void {
+    if (this.reattestation?.intervalMs && !this.closed) {
+      this.timer = setInterval(() => {
+        // Failures are reported through the reattestationFailed event
+        this.reattest().catch(() => {});
+      }, this.reattestation.intervalMs);
+      // Do not keep Node.js processes alive just to re-verify
+      (this.timer as { unref?: () => void }).unref?.();
+    }
+  }
+
+  /**
+   * Verify the enclave and build a transport pinned to its keys, without
+   * touching the client's current state.
+   */
+  private async attest(enclaveURL: string, baseURL: string): Promise<AttestationOutcome> {
+    const outcome = await this.verifyEnclave(enclaveURL, baseURL);
+    if (this.rejectedRouters.length > 0) {
+      outcome.document.rejectedRouters = [...this.rejectedRouters];
+    }
+    return outcome;
+  }
+
+  private async verifyEnclave(enclaveURL: string, baseURL: string): Promise<AttestationOutcome> {
     const verifier = new Verifier({
-      serverURL: this.enclaveURL,
+      serverURL: enclaveURL,
       configRepo: this.configRepo,
+      policy: this.policy,
+      release: this.release,
+      onProgress: this.onProgress,
+      challenge: this.challenge,
+      ...this.network,
     });
 
     try {
@@ -61,29 +208,46 @@ export class SecureClient {
       if (!doc) {
         throw new Error("Verification document not available after successful verification");
       }
-      this.verificationDocument = doc;
 
       // Extract keys from the verification document
-      const { hpkePublicKey, tlsPublicKeyFingerprint } = this.verificationDocument.enclaveMeasurement;
+      const { hpkePublicKey, tlsPublicKeyFingerprint } = doc.enclaveMeasurement;
 
+      const enclaveHost = new URL(enclaveURL).host;
+      const startedAt = Date.now();
+      this.reportProgress({ step: 'createTransport', status: 'started', enclaveHost, timestamp: startedAt });
       try {
-        this._fetch = createSecureFetch(this.baseURL, this.enclaveURL, hpkePublicKey, tlsPublicKeyFingerprint);
+        const transport = createSecureFetch(baseURL, enclaveURL, hpkePublicKey, tlsPublicKeyFingerprint, this.connectionPool);
+        const now = Date.now();
+        doc.steps.createTransport = { status: 'success', durationMs: now - startedAt };
+        this.reportProgress({ step: 'createTransport', status: 'success', enclaveHost, timestamp: now, durationMs: now - startedAt });
+        return { document: doc, fetch: transport, verifier };
       } catch (transportError) {
-        this.verificationDocument.steps.createTransport = {
+        const now = Date.now();
+        doc.steps.createTransport = {
           status: 'failed',
-          error: (transportError as Error).message
+          error: (transportError as Error).message,
+          durationMs: now - startedAt
         };
-        this.verificationDocument.securityVerified = false;
+        doc.securityVerified = false;
+        this.reportProgress({
+          step: 'createTransport',
+          status: 'failed',
+          enclaveHost,
+          timestamp: now,
+          durationMs: now - startedAt,
+          error: (transportError as Error).message,
+        });
         throw transportError;
       }
     } catch (error) {
       const doc = verifier.getVerificationDocument();
       if (doc) {
-        this.verificationDocument = doc;
-      } else {
-        this.verificationDocument = {
+        return { document: doc, error };
+      }
+      return {
+        document: {
           configRepo: this.configRepo!,
-          enclaveHost: new URL(this.enclaveURL!).hostname,
+          enclaveHost: new URL(enclaveURL).host,
           releaseDigest: '',
           codeMeasurement: { type: '', registers: [] },
           enclaveMeasurement: { measurement: { type: '', registers: [] } },
@@ -92,7 +256,7 @@ export class SecureClient {
           hardwareMeasurement: undefined,
           codeFingerprint: '',
           enclaveFingerprint: '',
-          selectedRouterEndpoint: new URL(this.enclaveURL!).hostname,
+          selectedRouterEndpoint: new URL(enclaveURL).host,
           securityVerified: false,
           steps: {
             fetchDigest: { status: 'pending' },
@@ -103,10 +267,101 @@ export class SecureClient {
             verifyHPKEKey: undefined,
             otherError: { status: 'failed', error: (error as Error).message },
           }
-        };
+        },
+        error,
+      };
+    }
+  }
+
+  private reportProgress(event: VerificationProgressEvent): void {
+    try {
+      this.onProgress?.(event);
+    } catch {
+      // A failing listener must not interrupt verification
+    }
+  }
+
+  /**
+   * Verify the enclave again and, if it passes, switch to a transport pinned
+   * to the new keys. Requests already in flight finish on the previous
+   * transport. If verification fails, the current transport is kept.
+   *
+   * @throws Error if re-verification fails
+   */
+  public async reattest(): Promise<void> {
+    await this.ready();
+    if (!this.reattestPromise) {
+      this.reattestPromise = this.runReattestation().finally(() => {
+        this.reattestPromise = null;
+      });
+    }
+    return this.reattestPromise;
+  }
+
+  private async runReattestation(): Promise<void> {
+    const outcome = await this.attest(this.enclaveURL!, this.baseURL!);
+    if (this.closed) {
+      if ('fetch' in outcome) {
+        closeTransport(outcome.fetch);
       }
-      throw error;
+      return;
+    }
+    if ('error' in outcome) {
+      this.events.emit('reattestationFailed', { error: outcome.error as Error, document: outcome.document });
+      throw outcome.error;
+    }
+
+    const previous = this.verificationDocument!;
+    const current = outcome.document;
+    if (previous.history) {
+      current.history = [...previous.history, ...(current.history ?? [])];
+    }
+    this.useTransport(outcome.fetch);
+    this.verifier = outcome.verifier;
+    this.verificationDocument = current;
+    this.verifiedAt = Date.now();
+
+    if (previous.enclaveFingerprint !== current.enclaveFingerprint) {
+      this.events.emit('measurementChanged', {
+        previous: previous.enclaveMeasurement.measurement,
+        current: current.enclaveMeasurement.measurement,
+        document: current,
+      });
     }
+    const previousTls = previous.enclaveMeasurement.tlsPublicKeyFingerprint ?? '';
+    const currentTls = current.enclaveMeasurement.tlsPublicKeyFingerprint ?? '';
+    if (previousTls !== currentTls) {
+      this.events.emit('tlsKeyChanged', { previous: previousTls, current: currentTls, document: current });
+    }
+    const previousHpke = previous.enclaveMeasurement.hpkePublicKey ?? '';
+    const currentHpke = current.enclaveMeasurement.hpkePublicKey ?? '';
+    if (previousHpke !== currentHpke) {
+      this.events.emit('hpkeKeyChanged', { previous: previousHpke, current: currentHpke, document: current });
+    }
+    this.events.emit('reattested', { document: current });
+  }
+
+  /**
+   * Listen for re-attestation events.
+   *
+   * @returns A function that removes the listener
+   */
+  public on<K extends keyof SecureClientEvents>(event: K, listener: Listener<SecureClientEvents[K]>): () => void {
+    return this.events.on(event, listener);
+  }
+
+  /**
+   * Stop background re-attestation and close pooled connections once their
+   * requests finish. Requests made after closing are rejected.
+   */
+  public close(): void {
+    this.closed = true;
+    closeTransport(this._fetch);
+    if (this.timer !== undefined) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+    this.events.removeAllListeners();
   }
 
   public async getVerificationDocument(): Promise<VerificationDocument> {
@@ -122,6 +377,31 @@ export class SecureClient {
     return this.verificationDocument;
   }
 
+  /**
+   * Receipt for the verification the client's connection is currently
+   * pinned to, for recording which enclave served each request.
+   *
+   * @returns The verification receipt
+   * @throws Error from the verification if the client could not be verified
+   */
+  public async getVerificationReceipt(): Promise<VerificationReceipt> {
+    await this.ready();
+    if (!this.verifier) {
+      throw new Error("Verification receipt unavailable: client not verified yet");
+    }
+    return this.verifier.exportReceipt();
+  }
+
+  /**
+   * Signed receipt for the current verification, as a compact JWS.
+   *
+   * @param key - The key to sign with
+   * @returns The JWS, which verifyReceipt checks
+   */
+  public async getSignedVerificationReceipt(key: ReceiptSigningKey): Promise<string> {
+    return signReceipt(await this.getVerificationReceipt(), key);
+  }
+
   public getBaseURL(): string | undefined {
     return this.baseURL;
   }
@@ -129,42 +409,220 @@ export class SecureClient {
   get fetch(): typeof fetch {
     return async (input: RequestInfo | URL, init?: RequestInit) => {
       await this.ready();
+      if (this.closed) {
+        throw new Error("SecureClient has been closed");
+      }
 
-      try {
-        return await this._fetch!(input, init);
-      } catch (error) {
-        if (this.verificationDocument) {
-          const errorMessage = (error as Error).message;
-
-          if (errorMessage.includes('HPKE public key mismatch')) {
-            this.verificationDocument.steps.verifyHPKEKey = {
-              status: 'failed',
-              error: errorMessage
-            };
-            this.verificationDocument.securityVerified = false;
-          } else if (errorMessage.includes('Transport initialization failed') || errorMessage.includes('Request initialization failed')) {
-            this.verificationDocument.steps.createTransport = {
-              status: 'failed',
-              error: errorMessage
-            };
-            this.verificationDocument.securityVerified = false;
-          } else if (errorMessage.includes('Failed to get HPKE key')) {
-            this.verificationDocument.steps.verifyHPKEKey = {
-              status: 'failed',
-              error: errorMessage
-            };
-            this.verificationDocument.securityVerified = false;
-          } else {
-            this.verificationDocument.steps.otherError = {
-              status: 'failed',
-              error: errorMessage
-            };
-            this.verificationDocument.securityVerified = false;
+      const ttlMs = this.reattestation?.ttlMs;
+      if (ttlMs !== undefined && Date.now() - this.verifiedAt >= ttlMs) {
+        // The last verification has expired, so it must pass again before sending
+        await this.reattest();
+      }
+
+      if (!this.pool) {
+        return this.send(input, init);
+      }
+
+      const tried = new Set<string>();
+      const replayable = isReplayable(input, init);
+      // A request that may have reached the router is only sent again if that is safe
+      const resendable = replayable && (this.retryNonIdempotent || isIdempotent(requestMethod(input, init)));
+      for (;;) {
+        const router = new URL(this.enclaveURL!).host;
+        tried.add(router);
+        const started = Date.now();
+
+        let response: Response;
+        try {
+          response = await this.send(this.retarget(input), init);
+        } catch (error) {
+          if (!isConnectionError(error)) {
+            throw error;
+          }
+          this.pool.recordFailure(router, (error as Error).message);
+          const retry = isUnreachableError(error) ? replayable : resendable;
+          if (!retry || !(await this.failover(tried))) {
+            throw error;
           }
+          continue;
+        }
+
+        if (response.status < 500) {
+          this.pool.recordSuccess(router, Date.now() - started);
+          return response;
+        }
+        this.pool.recordFailure(router, `HTTP ${response.status}`);
+        if (!resendable || !(await this.failover(tried))) {
+          return response;
         }
+        await response.body?.cancel().catch(() => {});
+      }
+    };
+  }
 
+  /**
+   * Send a request over the current transport, recovering once from an
+   * enclave HPKE key rotation.
+   */
+  private async send(input: RequestInfo | URL, init?: RequestInit): Promise<Response> {
+    const transport = this._fetch!;
+    try {
+      return await transport(input, init);
+    } catch (error) {
+      if (!(error instanceof HpkeKeyMismatchError) || !(await this.recoverFromKeyRotation(transport, error))) {
+        this.recordFetchError(error as Error);
         throw error;
       }
+    }
+
+    // The key check fails before the body is sent, so the request can be retried as is
+    try {
+      return await this._fetch!(input, init);
+    } catch (error) {
+      this.recordFetchError(error as Error);
+      throw error;
+    }
+  }
+
+  /**
+   * Switch to the healthiest router not yet tried for this request that
+   * passes verification.
+   *
+   * @param tried - Routers already tried; updated with the routers verified here
+   * @returns Whether a router is available to retry on
+   */
+  private async failover(tried: Set<string>): Promise<boolean> {
+    const current = new URL(this.enclaveURL!).host;
+    if (!tried.has(current)) {
+      // Another request already moved to a different router
+      return true;
+    }
+
+    for (const address of this.pool!.candidates(tried)) {
+      tried.add(address);
+      const outcome = await this.attest(`https://${address}`, `https://${address}/v1/`);
+      if (this.closed) {
+        return false;
+      }
+      if ('error' in outcome) {
+        this.pool!.recordFailure(address, (outcome.error as Error).message);
+        continue;
+      }
+
+      const previous = this.verificationDocument!;
+      if (previous.history) {
+        outcome.document.history = [...previous.history];
+      }
+      this.useRouter(address, outcome);
+      this.events.emit('routerChanged', { previous: current, current: address, document: outcome.document });
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Point requests addressed to any router in the pool at the current one,
+   * since callers may have built URLs from an earlier getBaseURL().
+   */
+  private retarget(input: RequestInfo | URL): RequestInfo | URL {
+    let url: URL;
+    try {
+      url = new URL(input instanceof Request ? input.url : input);
+    } catch {
+      // Relative URLs are resolved against the current baseURL by the transport
+      return input;
+    }
+    const current = new URL(this.enclaveURL!);
+    if (url.host === current.host || !this.pool!.has(url.host)) {
+      return input;
+    }
+    url.protocol = current.protocol;
+    url.host = current.host;
+    return input instanceof Request ? new Request(url, input) : url.toString();
+  }
+
+  /**
+   * Health of each router in the pool, or an empty list when the client
+   * was configured with a fixed enclave.
+   */
+  public getRouterStats(): RouterStats[] {
+    return this.pool?.stats() ?? [];
+  }
+
+  /**
+   * Connection counters of the current transport, when it is TLS-pinned.
+   * Counters restart when re-attestation replaces the transport.
+   */
+  public getConnectionStats(): ConnectionStats | undefined {
+    return (this._fetch as Partial<PinnedTlsFetch> | null)?.connectionStats?.();
+  }
+
+  /**
+   * Handle an enclave that restarted with a new HPKE key: re-verify it and,
+   * if the new attestation verifies, switch to a transport pinned to the new key.
+   *
+   * @param transport - The transport whose request failed
+   * @param error - The key mismatch error
+   * @returns Whether the request can be retried
+   */
+  private async recoverFromKeyRotation(transport: typeof fetch, error: HpkeKeyMismatchError): Promise<boolean> {
+    if (this._fetch !== transport) {
+      // Another request already re-verified the enclave
+      return true;
+    }
+
+    const previousHpkePublicKey = this.verificationDocument?.enclaveMeasurement.hpkePublicKey;
+    try {
+      await this.reattest();
+    } catch {
+      return false;
+    }
+
+    const doc = this.verificationDocument!;
+    doc.history = [
+      ...(doc.history ?? []),
+      {
+        timestamp: new Date().toISOString(),
+        event: 'hpkeKeyRotation',
+        previousHpkePublicKey,
+        hpkePublicKey: doc.enclaveMeasurement.hpkePublicKey,
+        reason: error.message,
+      },
+    ];
+    return true;
+  }
+
+  private recordFetchError(error: Error): void {
+    if (!this.verificationDocument) {
+      return;
+    }
+    const code = error instanceof TinfoilError ? error.code : undefined;
+    const step = code === 'HPKE_KEY_MISMATCH' || code === 'HPKE_KEY_FETCH_FAILED' ? 'verifyHPKEKey'
+      : code === 'TRANSPORT_INIT_FAILED' ? 'createTransport'
+      : 'otherError';
+    this.verificationDocument.steps[step] = {
+      status: 'failed',
+      error: error.message
     };
+    this.verificationDocument.securityVerified = false;
   }
+}
+
+function closeTransport(transport: typeof fetch | null): void {
+  (transport as Partial<PinnedTlsFetch> | null)?.close?.();
+}
+
+/**
+ * Whether a request can be sent again after a failed attempt: streamed
+ * bodies are consumed by the first attempt.
+ */
+function isReplayable(input: RequestInfo | URL, init?: RequestInit): boolean {
+  if (init?.body instanceof ReadableStream) {
+    return false;
+  }
+  return !(input instanceof Request && input.body !== null && init?.body === undefined);
+}
+
+function requestMethod(input: RequestInfo | URL, init?: RequestInit): string {
+  return init?.method ?? (input instanceof Request ? input.method : "GET");
 }
\ No newline at end of file
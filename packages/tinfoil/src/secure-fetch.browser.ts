@@ -1,10 +1,12 @@
 import { createEncryptedBodyFetch } from "./encrypted-body-fetch.js";
+import { TransportInitError } from "./verifier.js";
+import type { ConnectionPoolOptions } from "./pinned-tls-fetch.js";
 
-export function createSecureFetch(baseURL: string, enclaveURL?: string, hpkePublicKey?: string, tlsPublicKeyFingerprint?: string): typeof fetch {
+export function createSecureFetch(baseURL: string, enclaveURL?: string, hpkePublicKey?: string, _tlsPublicKeyFingerprint?: string, _connectionPool?: ConnectionPoolOptions): typeof fetch {
     if (hpkePublicKey) {
         return createEncryptedBodyFetch(baseURL, hpkePublicKey, enclaveURL);
     } else {
-        throw new Error(
+        throw new TransportInitError(
             "HPKE public key not available and TLS-only verification is not supported in browsers. " +
             "Only HPKE-enabled enclaves can be used in browser environments."
         );
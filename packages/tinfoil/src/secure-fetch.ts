@@ -1,8 +1,10 @@
 import { createEncryptedBodyFetch } from "./encrypted-body-fetch.js";
+import { TransportInitError } from "./verifier.js";
 import { createPinnedTlsFetch } from "./pinned-tls-fetch.js";
+import type { ConnectionPoolOptions } from "./pinned-tls-fetch.js";
 import { isRealBrowser } from "./env.js";
 
-export function createSecureFetch(baseURL: string, enclaveURL?: string, hpkePublicKey?: string, tlsPublicKeyFingerprint?: string): typeof fetch {
+export function createSecureFetch(baseURL: string, enclaveURL?: string, hpkePublicKey?: string, tlsPublicKeyFingerprint?: string, connectionPool?: ConnectionPoolOptions): typeof fetch {
 let fetchFunction: typeof fetch;
 
     if (hpkePublicKey) {
@@ -10,7 +12,7 @@ let fetchFunction: typeof fetch;
     } else {
       // HPKE not available: check if we're in a browser
       if (isRealBrowser()) {
-        throw new Error(
+        throw new TransportInitError(
           "HPKE public key not available and TLS-only verification is not supported in browsers. " +
           "Only HPKE-enabled enclaves can be used in browser environments."
         );
@@ -18,11 +20,11 @@ let fetchFunction: typeof fetch;
       
       // Node.js environment: fall back to TLS-only verification using pinned TLS fetch
       if (!tlsPublicKeyFingerprint) {
-        throw new Error(
+        throw new TransportInitError(
           "Neither HPKE public key nor TLS public key fingerprint available for verification"
         );
       }
-      fetchFunction = createPinnedTlsFetch(baseURL, tlsPublicKeyFingerprint);
+      fetchFunction = createPinnedTlsFetch(baseURL, tlsPublicKeyFingerprint, connectionPool);
     }
     return fetchFunction
 }
\ No newline at end of file
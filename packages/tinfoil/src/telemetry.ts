@@ -0,0 +1,97 @@
+import { metrics, trace, SpanKind, SpanStatusCode } from "@opentelemetry/api";
+import type { Attributes } from "@opentelemetry/api";
+import { withSpan } from "./verifier.js";
+
+/**
+ * OpenTelemetry instrumentation for key retrieval and secure requests.
+ * @opentelemetry/api records nothing until the application registers an SDK.
+ *
+ * Attributes carry hosts, paths, status codes, fingerprints and public keys
+ * only. Request and response bodies are never recorded.
+ */
+
+const SCOPE = "tinfoil";
+
+export type TransportType = "ehbp" | "tls-pinned";
+
+export function getTracer() {
+  return trace.getTracer(SCOPE);
+}
+
+/**
+ * Trace a request sent through a verified transport and record its duration.
+ * The span ends when the response headers arrive.
+ *
+ * @param transport - How the request is protected
+ * @param url - Request URL; only the host and path are recorded
+ * @param method - HTTP method
+ * @param attributes - Key material the transport is pinned to
+ * @param send - Sends the request
+ */
+export async function tracedRequest(
+  transport: TransportType,
+  url: URL,
+  method: string,
+  attributes: Attributes,
+  send: () => Promise<Response>,
+): Promise<Response> {
+  const startedAt = Date.now();
+  const metricAttributes: Attributes = { "tinfoil.transport": transport, "http.request.method": method };
+  try {
+    const response = await withSpan(
+      "tinfoil.request",
+      {
+        ...metricAttributes,
+        "server.address": url.hostname,
+        "url.path": url.pathname,
+        ...attributes,
+      },
+      async (span) => {
+        const response = await send();
+        span.setAttribute("http.response.status_code", response.status);
+        if (response.status >= 400) {
+          span.setStatus({ code: SpanStatusCode.ERROR });
+        }
+        return response;
+      },
+      { tracer: getTracer(), kind: SpanKind.CLIENT },
+    );
+    recordRequestDuration(Date.now() - startedAt, { ...metricAttributes, "http.response.status_code": response.status });
+    return response;
+  } catch (e) {
+    recordRequestDuration(Date.now() - startedAt, { ...metricAttributes, "error.type": (e as Error).name });
+    throw e;
+  }
+}
+
+function recordRequestDuration(durationMs: number, attributes: Attributes): void {
+  metrics
+    .getMeter(SCOPE)
+    .createHistogram("tinfoil.request.duration", {
+      unit: "ms",
+      description: "Time until the response headers of requests through a verified transport",
+    })
+    .record(durationMs, attributes);
+}
+
+export type ConnectionEvent = "opened" | "reused" | "closed" | "pin_failure";
+
+/**
+ * Count a connection event of a TLS-pinned transport.
+ *
+ * @param event - What happened to the connection
+ * @param protocol - The ALPN protocol of the transport
+ * @param host - Server the connection is to
+ */
+export function recordConnectionEvent(event: ConnectionEvent, protocol: string, host?: string): void {
+  metrics
+    .getMeter(SCOPE)
+    .createCounter("tinfoil.connection.events", {
+      description: "Connection lifecycle events of TLS-pinned transports",
+    })
+    .add(1, {
+      "tinfoil.connection.event": event,
+      "network.protocol.name": protocol,
+      ...(host !== undefined && { "server.address": host }),
+    });
+}
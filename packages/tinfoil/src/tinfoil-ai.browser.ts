@@ -12,7 +12,9 @@ import type {
   Responses,
 } from "openai/resources";
 import { SecureClient } from "./secure-client.browser.js";
-import type { VerificationDocument } from "./verifier.js";
+import type { Listener, ReattestationOptions, SecureClientEvents } from "./events.js";
+import type { ConnectionPoolOptions, ConnectionStats } from "./pinned-tls-fetch.js";
+import type { VerificationDocument, VerificationReceipt, ReceiptSigningKey, VerificationPolicy, ReleaseSelector, TinfoilEndpoints, RouterPlatform, RouterPattern, VerificationProgressListener } from "./verifier.js";
 import { TINFOIL_CONFIG } from "./config.js";
 import { isRealBrowser } from "./env.js";
 
@@ -46,6 +48,18 @@ interface TinfoilAIOptions {
   baseURL?: string;
   enclaveURL?: string;
   configRepo?: string;
+  policy?: VerificationPolicy;
+  release?: ReleaseSelector;
+  endpoints?: Partial<TinfoilEndpoints>;
+  fetch?: typeof fetch; // Used for verification and router discovery, not for inference requests
+  reattestation?: ReattestationOptions;
+  region?: string;            // Only use routers in this region, e.g. "eu"
+  platform?: RouterPlatform;  // Only use routers on this hardware platform
+  allowedRouters?: readonly RouterPattern[];  // Hostnames discovered routers must match (default: *.tinfoil.sh)
+  onProgress?: VerificationProgressListener;  // Called as each verification step starts and finishes
+  challenge?: boolean;  // Challenge enclaves with a fresh nonce to prove their reports are not replayed
+  connectionPool?: ConnectionPoolOptions;  // Keep-alive and HTTP/2 settings of TLS-pinned connections (Node.js only)
+  retryNonIdempotent?: boolean;  // Also fail over POST and PATCH requests that may have reached the router (default: false)
   [key: string]: any; // Allow other OpenAI client options
 }
 
@@ -90,6 +104,18 @@ export class TinfoilAI {
       baseURL: this.baseURL,
       enclaveURL: this.enclaveURL,
       configRepo: this.configRepo,
+      policy: options.policy,
+      release: options.release,
+      endpoints: options.endpoints,
+      fetch: options.fetch,
+      reattestation: options.reattestation,
+      region: options.region,
+      platform: options.platform,
+      allowedRouters: options.allowedRouters,
+      onProgress: options.onProgress,
+      challenge: options.challenge,
+      connectionPool: options.connectionPool,
+      retryNonIdempotent: options.retryNonIdempotent,
     });
 
     this.clientPromise = this.createOpenAIClient(openAIOptions);
@@ -141,12 +167,55 @@ export class TinfoilAI {
 
   public async getVerificationDocument(): Promise<VerificationDocument> {
     await this.ready();
+    // Re-attestation may have replaced the document since the client was created
+    this.verificationDocument = await this.secureClient.getVerificationDocument();
     if (!this.verificationDocument) {
       throw new Error("Verification document unavailable: client not verified yet");
     }
     return this.verificationDocument;
   }
 
+  /**
+   * Receipt for the verification requests are currently pinned to.
+   */
+  public async getVerificationReceipt(): Promise<VerificationReceipt> {
+    await this.ready();
+    return this.secureClient.getVerificationReceipt();
+  }
+
+  /**
+   * Signed receipt for the current verification, as a compact JWS.
+   *
+   * @param key - The key to sign with
+   */
+  public async getSignedVerificationReceipt(key: ReceiptSigningKey): Promise<string> {
+    await this.ready();
+    return this.secureClient.getSignedVerificationReceipt(key);
+  }
+
+  /**
+   * Listen for re-attestation events.
+   *
+   * @returns A function that removes the listener
+   */
+  public on<K extends keyof SecureClientEvents>(event: K, listener: Listener<SecureClientEvents[K]>): () => void {
+    return this.secureClient.on(event, listener);
+  }
+
+  /**
+   * Connection counters of the TLS-pinned transport, if requests use one.
+   */
+  public getConnectionStats(): ConnectionStats | undefined {
+    return this.secureClient.getConnectionStats();
+  }
+
+  /**
+   * Stop background re-attestation and close pooled connections.
+   */
+  public close(): void {
+    this.secureClient.close();
+  }
+
   get chat(): Chat {
     return createAsyncProxy(this.ensureReady().then((client) => client.chat));
   }
@@ -1,9 +1,13 @@
 import { createEncryptedBodyFetch } from "./encrypted-body-fetch.js";
-import { fetchRouter } from "./router.js";
+import { fetchRouter } from "./verifier.js";
+import type { RouterPlatform, RouterPattern } from "./verifier.js";
 
 interface UnverifiedClientOptions {
   baseURL?: string;
   enclaveURL?: string;
+  region?: string;
+  platform?: RouterPlatform;
+  allowedRouters?: readonly RouterPattern[];
 }
 
 export class UnverifiedClient {
@@ -12,10 +16,16 @@ export class UnverifiedClient {
 
   private baseURL?: string;
   private enclaveURL?: string;
+  private readonly region?: string;
+  private readonly platform?: RouterPlatform;
+  private readonly allowedRouters?: readonly RouterPattern[];
 
   constructor(options: UnverifiedClientOptions = {}) {
     this.baseURL = options.baseURL;
     this.enclaveURL = options.enclaveURL;
+    this.region = options.region;
+    this.platform = options.platform;
+    this.allowedRouters = options.allowedRouters;
   }
 
   public async ready(): Promise<void> {
@@ -28,7 +38,7 @@ export class UnverifiedClient {
   private async initUnverifiedClient(): Promise<void> {
     // Only fetch router if neither baseURL nor enclaveURL is provided
     if (!this.baseURL && !this.enclaveURL) {
-      const routerAddress = await fetchRouter();
+      const routerAddress = await fetchRouter({ region: this.region, platform: this.platform, allowedRouters: this.allowedRouters });
       this.enclaveURL = `https://${routerAddress}`;
       this.baseURL = `https://${routerAddress}/v1/`;
     }
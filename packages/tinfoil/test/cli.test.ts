@@ -0,0 +1,187 @@
+import { describe, it, expect, vi, beforeEach, afterAll } from "vitest";
+import { mkdtempSync, writeFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { gzipSync } from "node:zlib";
+
+const REPORT_PREFIX = "AgAAAAAAAAAAAAMAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAQAAAAEAAAAHAAAAAAAOSAEAAAAAAAAAAAAAAAAAAAA2NTA4M2U1OTA0YzAyNzNiNjQ0YWQ5MGU1MWUxMmE4ZDc2ZmUwN2YyYWI4YWIxNGQ3NjAxMWIzZTljN2RjYWE3";
+const SEV_FORMAT = "https://tinfoil.sh/predicate/sev-snp-guest/v2";
+
+const mockVerificationDocument = {
+  configRepo: "tinfoilsh/confidential-model-router",
+  enclaveHost: "router.example.com",
+  releaseDigest: "d".repeat(64),
+  releaseTag: "v1.2.3",
+  codeFingerprint: "code-fingerprint",
+  enclaveFingerprint: "enclave-fingerprint",
+  tlsPublicKey: "tls-fingerprint",
+  hpkePublicKey: "hpke-key",
+  securityVerified: true,
+  platformEvidence: {
+    productName: "Genoa",
+    currentFirmware: { major: 1, minor: 55, build: 21 },
+    reportedTcb: { blSpl: 7, teeSpl: 0, snpSpl: 14, ucodeSpl: 72 },
+  },
+  steps: {
+    fetchDigest: { status: "success", durationMs: 12 },
+    verifyCode: { status: "success", durationMs: 34 },
+    verifyEnclave: { status: "success", durationMs: 56 },
+    compareMeasurements: { status: "success", durationMs: 0 },
+  },
+};
+
+const verifyMock = vi.fn(async () => {});
+const verifierConstructorMock = vi.fn();
+const discoverRoutersMock = vi.fn();
+const fetchRouterMock = vi.fn(async () => "router.example.com");
+
+vi.mock("../src/verifier.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../src/verifier.js")>()),
+  Verifier: class {
+    constructor(options: unknown) {
+      verifierConstructorMock(options);
+    }
+    verify() {
+      return verifyMock();
+    }
+    getVerificationDocument() {
+      return mockVerificationDocument;
+    }
+  },
+  discoverRouters: (...args: unknown[]) => discoverRoutersMock(...args),
+  fetchRouter: () => fetchRouterMock(),
+}));
+
+const { runCli } = await import("../src/cli.js");
+
+function capture() {
+  const output = { stdout: "", stderr: "" };
+  const io = {
+    stdout: (text: string) => {
+      output.stdout += text;
+    },
+    stderr: (text: string) => {
+      output.stderr += text;
+    },
+    stdin: async () => "",
+  };
+  return { output, io };
+}
+
+function reportBytes(): Uint8Array {
+  const bytes = new Uint8Array(0x4a0);
+  bytes.set(Buffer.from(REPORT_PREFIX, "base64"), 0);
+  return bytes;
+}
+
+const dir = mkdtempSync(join(tmpdir(), "tinfoil-cli-"));
+
+describe("tinfoil CLI", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("verifies a router from the ATC and prints the document", async () => {
+    const { output, io } = capture();
+
+    expect(await runCli(["verify"], io)).toBe(0);
+
+    expect(verifierConstructorMock).toHaveBeenCalledWith({
+      serverURL: "https://router.example.com",
+      configRepo: "tinfoilsh/confidential-model-router",
+    });
+    expect(output.stdout).toContain("Release:             v1.2.3 (" + "d".repeat(64) + ")");
+    expect(output.stdout).toContain("Platform:            Genoa, firmware 1.55.21, TCB bl=7 tee=0 snp=14 ucode=72");
+    expect(output.stdout).toContain("Verified:            yes");
+    expect(output.stdout).toMatch(/verifyEnclave\s+success\s+56 ms/);
+  });
+
+  it("prints the verification document as JSON and fails when verification fails", async () => {
+    verifyMock.mockRejectedValueOnce(new Error("Measurements do not match"));
+    const { output, io } = capture();
+
+    expect(await runCli(["verify", "--enclave", "enclave.example.com", "--repo", "org/repo", "--json"], io)).toBe(1);
+
+    expect(fetchRouterMock).not.toHaveBeenCalled();
+    expect(verifierConstructorMock).toHaveBeenCalledWith({ serverURL: "https://enclave.example.com", configRepo: "org/repo" });
+    expect(JSON.parse(output.stdout)).toEqual(mockVerificationDocument);
+    expect(output.stderr).toBe("Error: Measurements do not match\n");
+  });
+
+  it("challenges the enclave with a nonce when asked", async () => {
+    const { output, io } = capture();
+
+    expect(await runCli(["verify", "--enclave", "enclave.example.com", "--challenge"], io)).toBe(0);
+
+    expect(verifierConstructorMock).toHaveBeenCalledWith({
+      serverURL: "https://enclave.example.com",
+      configRepo: "tinfoilsh/confidential-model-router",
+      challenge: true,
+    });
+    expect(output.stdout).not.toContain("Fresh report:");
+  });
+
+  it("decodes raw and encoded SEV-SNP reports", async () => {
+    const raw = join(dir, "report.bin");
+    const document = join(dir, "attestation.json");
+    writeFileSync(raw, reportBytes());
+    writeFileSync(document, JSON.stringify({ format: SEV_FORMAT, body: gzipSync(reportBytes()).toString("base64") }));
+
+    const fromRaw = capture();
+    expect(await runCli(["inspect-report", raw], fromRaw.io)).toBe(0);
+    const fromDocument = capture();
+    expect(await runCli(["inspect-report", document], fromDocument.io)).toBe(0);
+
+    const report = JSON.parse(fromRaw.output.stdout);
+    expect(report.version).toBe(2);
+    expect(report.policy).toBe("0x0000000000030000");
+    expect(report.reportData).toHaveLength(128);
+    expect(report.signedData).toBeUndefined();
+    expect(fromDocument.output.stdout).toBe(fromRaw.output.stdout);
+  });
+
+  it("rejects attestation documents for other platforms", async () => {
+    const document = join(dir, "tdx.json");
+    writeFileSync(document, JSON.stringify({ format: "https://tinfoil.sh/predicate/tdx-guest/v2", body: "" }));
+    const { output, io } = capture();
+
+    expect(await runCli(["inspect-report", document], io)).toBe(1);
+    expect(output.stderr).toContain("Not an SEV-SNP attestation");
+  });
+
+  it("lists routers", async () => {
+    discoverRoutersMock.mockResolvedValue({
+      routers: [
+        { hostname: "r1.tinfoil.sh", region: "us-east", platform: "snp", capacity: 3, models: ["a", "b"] },
+        { hostname: "router-2.tinfoil.sh" },
+      ],
+      rejected: [],
+    });
+    const { output, io } = capture();
+
+    expect(await runCli(["routers", "--region", "us"], io)).toBe(0);
+
+    expect(discoverRoutersMock).toHaveBeenCalledWith({ region: "us", platform: undefined });
+    expect(output.stdout.split("\n")).toEqual([
+      "HOSTNAME             REGION   PLATFORM  CAPACITY  MODELS",
+      "r1.tinfoil.sh        us-east  snp       3         a,b",
+      "router-2.tinfoil.sh  -        -         -         -",
+      "",
+    ]);
+  });
+
+  it("reports usage errors", async () => {
+    const { output, io } = capture();
+
+    expect(await runCli(["verify", "--unknown"], io)).toBe(2);
+    expect(await runCli([], io)).toBe(2);
+    expect(await runCli(["chat"], io)).toBe(2);
+    expect(output.stderr).toContain("Missing command");
+    expect(output.stderr).toContain("chat needs a prompt");
+    expect(output.stderr).toContain("Usage: tinfoil <command>");
+  });
+});
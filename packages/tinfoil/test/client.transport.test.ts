@@ -35,7 +35,10 @@ const verifyMock = vi.fn(async () => ({
 const mockFetch = vi.fn(async () => new Response(null));
 const createSecureFetchMock = vi.fn(() => mockFetch);
 
-vi.mock("../src/verifier.js", () => ({
+vi.mock("../src/verifier.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../src/verifier.js")>()),
+  // Router discovery is offline in tests
+  discoverRouters: async () => ({ routers: [{ hostname: "test-router.tinfoil.sh" }], rejected: [] }),
   Verifier: class {
     verify() {
       return verifyMock();
@@ -73,7 +76,8 @@ describe("Secure transport integration", () => {
       testBaseURL,
       testEnclaveURL,
       "mock-hpke-public-key",
-      "fingerprint"
+      "fingerprint",
+      undefined
     );
   });
 
@@ -4,7 +4,10 @@ const createEncryptedBodyFetchMock = vi.fn(() => {
   return (async () => new Response(null)) as typeof fetch;
 });
 
-vi.mock("../src/verifier.js", () => ({
+vi.mock("../src/verifier.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../src/verifier.js")>()),
+  // Router discovery is offline in tests
+  discoverRouters: async () => ({ routers: [{ hostname: "test-router.tinfoil.sh" }], rejected: [] }),
   Verifier: class {
     verify() {
       throw new Error("verify failed");
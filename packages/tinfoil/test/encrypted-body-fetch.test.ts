@@ -1,6 +1,7 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 import { encryptedBodyRequest, normalizeEncryptedBodyRequestArgs, getServerIdentity, createEncryptedBodyFetch } from "../src/encrypted-body-fetch";
 import { Identity, PROTOCOL } from "ehbp";
+import { HpkeKeyFetchError } from "../src/verifier";
 
 describe("encrypted-body-fetch", () => {
   describe("getServerIdentity", () => {
@@ -45,6 +46,7 @@ describe("encrypted-body-fetch", () => {
         await expect(getServerIdentity("https://example.com/v1")).rejects.toThrow(
           /Failed to get server public key: 500/
         );
+        await expect(getServerIdentity("https://example.com/v1")).rejects.toBeInstanceOf(HpkeKeyFetchError);
       } finally {
         globalThis.fetch = originalFetch;
       }
@@ -156,6 +158,9 @@ describe("encrypted-body-fetch", () => {
       await expect(
         encryptedBodyRequest("https://example.com/test", expectedKey)
       ).rejects.toThrow(/HPKE public key mismatch/);
+      await expect(
+        encryptedBodyRequest("https://example.com/test", expectedKey)
+      ).rejects.toMatchObject({ code: "HPKE_KEY_MISMATCH", expected: expectedKey, actual: actualKeyHex });
     });
 
     it("fetches HPKE key from correct origin when enclaveURL provided", async () => {
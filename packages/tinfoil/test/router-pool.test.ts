@@ -0,0 +1,279 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { RouterPool, READ_TIMEOUT_CODE, isConnectionError, isUnreachableError } from "../src/router-pool";
+
+const MOCK_MEASUREMENT_TYPE = "https://tinfoil.sh/predicate/sev-snp-guest/v1";
+const ROUTERS = ["router-a.example.com", "router-b.example.com", "router-c.example.com"];
+
+// Verification outcome and request handler of each router, by hostname
+const failingVerification = new Set<string>();
+const routerHandlers = new Map<string, (url: string) => Promise<Response>>();
+const sentRequests: string[] = [];
+const discoverRoutersMock = vi.fn(async (_options: unknown) => ({
+  routers: ROUTERS.map((hostname) => ({ hostname })),
+  rejected: [] as { hostname: string; reason: string }[],
+}));
+
+function documentFor(host: string) {
+  return {
+    configRepo: "test-repo",
+    enclaveHost: host,
+    releaseDigest: "test-digest",
+    codeMeasurement: { type: MOCK_MEASUREMENT_TYPE, registers: [] },
+    enclaveMeasurement: {
+      hpkePublicKey: `hpke-${host}`,
+      measurement: { type: MOCK_MEASUREMENT_TYPE, registers: [] },
+    },
+    tlsPublicKey: "",
+    hpkePublicKey: `hpke-${host}`,
+    codeFingerprint: "",
+    enclaveFingerprint: "",
+    selectedRouterEndpoint: host,
+    securityVerified: !failingVerification.has(host),
+    steps: {
+      fetchDigest: { status: "success" },
+      verifyCode: { status: "success" },
+      verifyEnclave: { status: "success" },
+      compareMeasurements: { status: "success" },
+    },
+  };
+}
+
+vi.mock("../src/verifier.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../src/verifier.js")>()),
+  discoverRouters: (options: unknown) => discoverRoutersMock(options),
+  Verifier: class {
+    private readonly host: string;
+    constructor(options: { serverURL: string }) {
+      this.host = new URL(options.serverURL).host;
+    }
+    async verify() {
+      if (failingVerification.has(this.host)) {
+        throw new Error(`Verification failed for ${this.host}`);
+      }
+    }
+    getVerificationDocument() {
+      return documentFor(this.host);
+    }
+  },
+}));
+
+vi.mock("../src/secure-fetch.js", () => ({
+  createSecureFetch: (baseURL: string) => async (input: RequestInfo | URL) => {
+    const url = new URL(input.toString(), baseURL).toString();
+    sentRequests.push(url);
+    return routerHandlers.get(new URL(url).host)?.(url) ?? new Response("ok");
+  },
+}));
+
+const { SecureClient } = await import("../src/secure-client");
+
+const fetchFailed = (code: string) => new TypeError("fetch failed", { cause: Object.assign(new Error(code), { code }) });
+const connectionRefused = () => Promise.reject(fetchFailed("ECONNREFUSED"));
+const connectionReset = () => Promise.reject(fetchFailed("ECONNRESET"));
+
+describe("RouterPool", () => {
+  it("ranks routers by consecutive failures, then latency", () => {
+    const pool = new RouterPool(ROUTERS.map((hostname) => ({ hostname })));
+    pool.recordSuccess("router-a.example.com", 300);
+    pool.recordSuccess("router-b.example.com", 100);
+    pool.recordFailure("router-c.example.com", "HTTP 502");
+
+    expect(pool.candidates()).toEqual(["router-b.example.com", "router-a.example.com", "router-c.example.com"]);
+    expect(pool.candidates(new Set(["router-b.example.com"]))).toEqual(["router-a.example.com", "router-c.example.com"]);
+  });
+
+  it("tracks failures and a moving average of latency", () => {
+    const pool = new RouterPool([{ hostname: "router-a.example.com", region: "eu-west" }]);
+    pool.recordSuccess("router-a.example.com", 100);
+    pool.recordSuccess("router-a.example.com", 200);
+    pool.recordFailure("router-a.example.com", "HTTP 503");
+
+    expect(pool.stats()).toEqual([{
+      address: "router-a.example.com",
+      region: "eu-west",
+      requests: 2,
+      failures: 1,
+      consecutiveFailures: 1,
+      latencyMs: 130,
+      lastError: "HTTP 503",
+    }]);
+  });
+
+  it("recognizes connection errors", () => {
+    expect(isConnectionError(new TypeError("fetch failed"))).toBe(true);
+    expect(isConnectionError(Object.assign(new Error("socket hang up"), { code: "ECONNRESET" }))).toBe(true);
+    expect(isConnectionError(new Error("HPKE public key mismatch"))).toBe(false);
+  });
+
+  it("tells unreachable routers from connections dropped mid-request", () => {
+    expect(isUnreachableError(fetchFailed("ECONNREFUSED"))).toBe(true);
+    expect(isUnreachableError(fetchFailed("ETIMEDOUT"))).toBe(true);
+    for (const code of ["ECONNRESET", "EPIPE", READ_TIMEOUT_CODE]) {
+      expect(isConnectionError(fetchFailed(code))).toBe(true);
+      expect(isUnreachableError(fetchFailed(code))).toBe(false);
+    }
+    expect(isUnreachableError(new TypeError("fetch failed"))).toBe(false);
+  });
+});
+
+describe("SecureClient router failover", () => {
+  beforeEach(() => {
+    failingVerification.clear();
+    routerHandlers.clear();
+    sentRequests.length = 0;
+    // Fix the initial order of the pool
+    vi.spyOn(Math, "random").mockReturnValue(0.999);
+  });
+
+  it("moves to the next verified router on connection errors", async () => {
+    const client = new SecureClient();
+    await client.ready();
+    const first = (await client.getVerificationDocument()).selectedRouterEndpoint;
+    routerHandlers.set(first, connectionRefused);
+    const routerChanged = vi.fn();
+    client.on("routerChanged", routerChanged);
+
+    const response = await client.fetch(`${client.getBaseURL()}chat/completions`, { method: "POST", body: "{}" });
+
+    expect(await response.text()).toBe("ok");
+    const doc = await client.getVerificationDocument();
+    expect(doc.selectedRouterEndpoint).not.toBe(first);
+    expect(client.getBaseURL()).toBe(`https://${doc.selectedRouterEndpoint}/v1/`);
+    expect(sentRequests).toEqual([
+      `https://${first}/v1/chat/completions`,
+      `https://${doc.selectedRouterEndpoint}/v1/chat/completions`,
+    ]);
+    expect(routerChanged).toHaveBeenCalledWith(expect.objectContaining({ previous: first, current: doc.selectedRouterEndpoint }));
+
+    const stats = client.getRouterStats();
+    expect(stats.find((r) => r.address === first)).toMatchObject({ failures: 1, lastError: "fetch failed" });
+    expect(stats.find((r) => r.address === doc.selectedRouterEndpoint)).toMatchObject({ requests: 1, failures: 0 });
+  });
+
+  it("skips routers that fail verification and retries 5xx responses", async () => {
+    const client = new SecureClient();
+    await client.ready();
+    const [first, second, third] = client.getRouterStats().map((r) => r.address);
+    expect((await client.getVerificationDocument()).selectedRouterEndpoint).toBe(first);
+    routerHandlers.set(first, async () => new Response("unavailable", { status: 503 }));
+    failingVerification.add(second);
+
+    const response = await client.fetch(`https://${first}/v1/models`);
+
+    expect(response.status).toBe(200);
+    expect((await client.getVerificationDocument()).selectedRouterEndpoint).toBe(third);
+    expect(client.getRouterStats().find((r) => r.address === second)).toMatchObject({
+      failures: 1,
+      lastError: `Verification failed for ${second}`,
+    });
+  });
+
+  it("returns the last 5xx response when every router fails", async () => {
+    const client = new SecureClient();
+    await client.ready();
+    for (const router of ROUTERS) {
+      routerHandlers.set(router, async () => new Response("unavailable", { status: 502 }));
+    }
+
+    const response = await client.fetch("/v1/models");
+
+    expect(response.status).toBe(502);
+    expect(sentRequests).toHaveLength(ROUTERS.length);
+  });
+
+  it("does not retry requests with streamed bodies", async () => {
+    const client = new SecureClient();
+    await client.ready();
+    const first = (await client.getVerificationDocument()).selectedRouterEndpoint;
+    routerHandlers.set(first, connectionRefused);
+
+    await expect(client.fetch("/v1/chat/completions", { method: "POST", body: new ReadableStream() }))
+      .rejects.toThrow("fetch failed");
+    expect(sentRequests).toHaveLength(1);
+  });
+
+  it("does not resend non-idempotent requests that may have reached the router", async () => {
+    const client = new SecureClient();
+    await client.ready();
+    const first = (await client.getVerificationDocument()).selectedRouterEndpoint;
+    routerHandlers.set(first, connectionReset);
+
+    await expect(client.fetch("/v1/chat/completions", { method: "POST", body: "{}" })).rejects.toThrow("fetch failed");
+    routerHandlers.set(first, async () => new Response("unavailable", { status: 503 }));
+    const response = await client.fetch("/v1/chat/completions", { method: "POST", body: "{}" });
+
+    expect(response.status).toBe(503);
+    expect(sentRequests).toHaveLength(2);
+    expect((await client.getVerificationDocument()).selectedRouterEndpoint).toBe(first);
+    expect(client.getRouterStats().find((r) => r.address === first)).toMatchObject({ failures: 2 });
+  });
+
+  it("resends idempotent requests after a dropped connection", async () => {
+    const client = new SecureClient();
+    await client.ready();
+    const first = (await client.getVerificationDocument()).selectedRouterEndpoint;
+    routerHandlers.set(first, connectionReset);
+
+    const response = await client.fetch("/v1/models");
+
+    expect(response.status).toBe(200);
+    expect(sentRequests).toHaveLength(2);
+  });
+
+  it("resends non-idempotent requests when the caller opts in", async () => {
+    const client = new SecureClient({ retryNonIdempotent: true });
+    await client.ready();
+    const first = (await client.getVerificationDocument()).selectedRouterEndpoint;
+    routerHandlers.set(first, async () => new Response("unavailable", { status: 503 }));
+
+    const response = await client.fetch("/v1/chat/completions", { method: "POST", body: "{}" });
+
+    expect(response.status).toBe(200);
+    expect((await client.getVerificationDocument()).selectedRouterEndpoint).not.toBe(first);
+  });
+
+  it("verifies the next router when the first one fails verification at startup", async () => {
+    failingVerification.add(ROUTERS[0]);
+    const client = new SecureClient();
+    await client.ready();
+
+    const doc = await client.getVerificationDocument();
+    expect(doc.securityVerified).toBe(true);
+    expect(doc.selectedRouterEndpoint).toBe(ROUTERS[1]);
+  });
+
+  it("discovers routers with the configured preferences", async () => {
+    const client = new SecureClient({
+      region: "eu",
+      platform: "tdx",
+      allowedRouters: ["*.mirror.internal"],
+      endpoints: { atc: "https://atc.mirror.internal" },
+    });
+    await client.ready();
+
+    expect(discoverRoutersMock).toHaveBeenCalledWith(expect.objectContaining({
+      region: "eu",
+      platform: "tdx",
+      allowedRouters: ["*.mirror.internal"],
+      endpoints: { atc: "https://atc.mirror.internal" },
+    }));
+  });
+
+  it("reports routers rejected by the allowlist in the verification document", async () => {
+    const rejected = [{ hostname: "attacker.example.net", reason: "hostname not in the router allowlist" }];
+    discoverRoutersMock.mockResolvedValueOnce({ routers: ROUTERS.map((hostname) => ({ hostname })), rejected });
+    const client = new SecureClient();
+    await client.ready();
+
+    const doc = await client.getVerificationDocument();
+    expect(doc.rejectedRouters).toEqual(rejected);
+    expect(client.getRouterStats().map((r) => r.address)).not.toContain("attacker.example.net");
+  });
+
+  it("does not use a pool when the enclave is configured", async () => {
+    const client = new SecureClient({ enclaveURL: "https://enclave.example.com" });
+    await client.ready();
+
+    expect(client.getRouterStats()).toEqual([]);
+  });
+});
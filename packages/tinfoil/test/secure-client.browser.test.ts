@@ -27,7 +27,10 @@ const mockVerificationDocument = {
   },
 };
 
-vi.mock("../src/verifier.js", () => ({
+vi.mock("../src/verifier.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../src/verifier.js")>()),
+  // Router discovery is offline in tests
+  discoverRouters: async () => ({ routers: [{ hostname: "test-router.tinfoil.sh" }], rejected: [] }),
   Verifier: class {
     verify() {
       return verifyMock();
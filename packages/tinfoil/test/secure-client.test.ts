@@ -1,4 +1,5 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
+import { HpkeKeyMismatchError, TransportInitError } from "../src/verifier.js";
 
 const MOCK_MEASUREMENT_TYPE = "https://tinfoil.sh/predicate/sev-snp-guest/v1";
 
@@ -41,13 +42,26 @@ const createSecureFetchMock = vi.fn(
   },
 );
 
-vi.mock("../src/verifier.js", () => ({
+const verifierConstructorMock = vi.fn();
+const verificationDocumentMock = vi.fn(() => mockVerificationDocument);
+const mockReceipt = { version: 1, enclaveHost: "test-host", releaseDigest: "test-digest" };
+
+vi.mock("../src/verifier.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../src/verifier.js")>()),
+  // Router discovery is offline in tests
+  discoverRouters: async () => ({ routers: [{ hostname: "test-router.tinfoil.sh" }], rejected: [] }),
   Verifier: class {
+    constructor(options: unknown) {
+      verifierConstructorMock(options);
+    }
     verify() {
       return verifyMock();
     }
     getVerificationDocument() {
-      return mockVerificationDocument;
+      return verificationDocumentMock();
+    }
+    exportReceipt() {
+      return mockReceipt;
     }
   },
 }));
@@ -79,6 +93,7 @@ describe("SecureClient", () => {
       "https://keys.test.example.com/",
       "mock-hpke-public-key",
       undefined,
+      undefined,
     );
   });
 
@@ -118,6 +133,23 @@ describe("SecureClient", () => {
     expect(verificationDocument).toEqual(mockVerificationDocument);
   });
 
+  it("should sign receipts for the current verification", async () => {
+    const { SecureClient } = await import("../src/secure-client");
+    const { privateKey } = await crypto.subtle.generateKey({ name: "Ed25519" }, false, ["sign", "verify"]) as CryptoKeyPair;
+
+    const client = new SecureClient({
+      baseURL: "https://test.example.com/",
+      enclaveURL: "https://keys.test.example.com/",
+    });
+
+    expect(await client.getVerificationReceipt()).toBe(mockReceipt);
+    const jws = await client.getSignedVerificationReceipt({ privateKey, keyId: "audit" });
+    const [header, payload] = jws.split(".").slice(0, 2).map((part) => JSON.parse(Buffer.from(part, "base64url").toString()));
+    expect(header).toEqual({ alg: "EdDSA", kid: "audit", typ: "tinfoil-receipt+jws" });
+    expect(payload).toEqual(mockReceipt);
+    expect(verifyMock).toHaveBeenCalledTimes(1);
+  });
+
   it("should lazily initialize when fetch is first accessed", async () => {
     const { SecureClient } = await import("../src/secure-client");
 
@@ -136,4 +168,277 @@ describe("SecureClient", () => {
     expect(verifyMock).toHaveBeenCalledTimes(1);
     expect(createSecureFetchMock).toHaveBeenCalledTimes(1);
   });
+
+  it("should pass the verification policy to the verifier", async () => {
+    const { SecureClient } = await import("../src/secure-client");
+    const policy = { version: 1 as const, sevSnp: { guestPolicy: { smt: false } } };
+
+    const client = new SecureClient({
+      baseURL: "https://test.example.com/",
+      enclaveURL: "https://keys.test.example.com/",
+      policy,
+    });
+
+    await client.ready();
+
+    expect(verifierConstructorMock).toHaveBeenCalledWith(
+      expect.objectContaining({ serverURL: "https://keys.test.example.com/", policy }),
+    );
+  });
+
+  it("should pass endpoints and fetch to the verifier", async () => {
+    const { SecureClient } = await import("../src/secure-client");
+    const endpoints = { githubApi: "https://github-api.mirror.internal", kds: "https://kds.mirror.internal" };
+    const customFetch = vi.fn() as unknown as typeof fetch;
+
+    const client = new SecureClient({
+      baseURL: "https://test.example.com/",
+      enclaveURL: "https://keys.test.example.com:8443/",
+      endpoints,
+      fetch: customFetch,
+    });
+
+    await client.ready();
+
+    expect(verifierConstructorMock).toHaveBeenCalledWith(
+      expect.objectContaining({ serverURL: "https://keys.test.example.com:8443/", endpoints, fetch: customFetch }),
+    );
+  });
+
+  it("should report verification progress, including transport creation", async () => {
+    const { SecureClient } = await import("../src/secure-client");
+    const onProgress = vi.fn();
+
+    const client = new SecureClient({
+      baseURL: "https://test.example.com/",
+      enclaveURL: "https://keys.test.example.com/",
+      onProgress,
+    });
+    await client.ready();
+
+    expect(verifierConstructorMock).toHaveBeenCalledWith(expect.objectContaining({ onProgress }));
+    expect(onProgress.mock.calls.map(([event]) => `${event.step}:${event.status}`)).toEqual([
+      "createTransport:started",
+      "createTransport:success",
+    ]);
+    expect(onProgress).toHaveBeenLastCalledWith(expect.objectContaining({
+      enclaveHost: "keys.test.example.com",
+      durationMs: expect.any(Number),
+    }));
+  });
+
+  describe("re-attestation", () => {
+    const rotatedDocument = {
+      ...mockVerificationDocument,
+      enclaveMeasurement: {
+        ...mockVerificationDocument.enclaveMeasurement,
+        hpkePublicKey: "rotated-hpke-public-key",
+      },
+      hpkePublicKey: "rotated-hpke-public-key",
+    };
+
+    it("should re-verify on an interval and report key changes", async () => {
+      vi.useFakeTimers();
+      try {
+        const { SecureClient } = await import("../src/secure-client");
+        const client = new SecureClient({
+          baseURL: "https://test.example.com/",
+          enclaveURL: "https://keys.test.example.com/",
+          reattestation: { intervalMs: 1000 },
+        });
+        await client.ready();
+
+        const rotatedFetch = vi.fn(async () => new Response("rotated"));
+        createSecureFetchMock.mockReturnValueOnce(rotatedFetch);
+        verificationDocumentMock.mockReturnValueOnce(rotatedDocument);
+        const hpkeKeyChanged = vi.fn();
+        const measurementChanged = vi.fn();
+        const reattested = vi.fn();
+        client.on("hpkeKeyChanged", hpkeKeyChanged);
+        client.on("measurementChanged", measurementChanged);
+        client.on("reattested", reattested);
+
+        await vi.advanceTimersByTimeAsync(1000);
+
+        expect(verifyMock).toHaveBeenCalledTimes(2);
+        expect(hpkeKeyChanged).toHaveBeenCalledWith({
+          previous: "mock-hpke-public-key",
+          current: "rotated-hpke-public-key",
+          document: rotatedDocument,
+        });
+        expect(measurementChanged).not.toHaveBeenCalled();
+        expect(reattested).toHaveBeenCalledTimes(1);
+        expect(await client.getVerificationDocument()).toBe(rotatedDocument);
+
+        // Requests now go through the transport pinned to the new key
+        const response = await client.fetch("/test-endpoint");
+        expect(await response.text()).toBe("rotated");
+
+        client.close();
+        await vi.advanceTimersByTimeAsync(5000);
+        expect(verifyMock).toHaveBeenCalledTimes(2);
+        await expect(client.fetch("/test-endpoint")).rejects.toThrow("SecureClient has been closed");
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it("should keep the current transport when re-verification fails", async () => {
+      const { SecureClient } = await import("../src/secure-client");
+      const client = new SecureClient({
+        baseURL: "https://test.example.com/",
+        enclaveURL: "https://keys.test.example.com/",
+      });
+      await client.ready();
+
+      verifyMock.mockRejectedValueOnce(new Error("attestation expired"));
+      const reattestationFailed = vi.fn();
+      client.on("reattestationFailed", reattestationFailed);
+
+      await expect(client.reattest()).rejects.toThrow("attestation expired");
+
+      expect(reattestationFailed).toHaveBeenCalledWith(
+        expect.objectContaining({ error: expect.objectContaining({ message: "attestation expired" }) }),
+      );
+      expect(await client.getVerificationDocument()).toBe(mockVerificationDocument);
+      await client.fetch("/test-endpoint");
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("should close the connections of replaced transports", async () => {
+      const { SecureClient } = await import("../src/secure-client");
+      const pinnedFetch = Object.assign(vi.fn(async () => new Response("pinned")), {
+        connectionStats: vi.fn(() => ({ protocol: "http/1.1", open: 1, opened: 1, reused: 4, closed: 0, pinFailures: 0, requests: 5 })),
+        close: vi.fn(),
+      });
+      const rotatedFetch = Object.assign(vi.fn(async () => new Response("rotated")), { close: vi.fn() });
+      createSecureFetchMock.mockReturnValueOnce(pinnedFetch).mockReturnValueOnce(rotatedFetch);
+      const connectionPool = { http2: true };
+      const client = new SecureClient({
+        baseURL: "https://test.example.com/",
+        enclaveURL: "https://keys.test.example.com/",
+        connectionPool,
+      });
+      await client.ready();
+
+      expect(createSecureFetchMock.mock.calls[0][4]).toBe(connectionPool);
+      expect(client.getConnectionStats()).toMatchObject({ reused: 4, requests: 5 });
+
+      await client.reattest();
+      expect(pinnedFetch.close).toHaveBeenCalledTimes(1);
+      expect(client.getConnectionStats()).toBeUndefined();
+
+      client.close();
+      expect(rotatedFetch.close).toHaveBeenCalledTimes(1);
+    });
+
+    it("should re-verify before a request once the TTL has expired", async () => {
+      vi.useFakeTimers();
+      try {
+        const { SecureClient } = await import("../src/secure-client");
+        const client = new SecureClient({
+          baseURL: "https://test.example.com/",
+          enclaveURL: "https://keys.test.example.com/",
+          reattestation: { ttlMs: 60_000 },
+        });
+        await client.fetch("/test-endpoint");
+        expect(verifyMock).toHaveBeenCalledTimes(1);
+
+        vi.advanceTimersByTime(60_000);
+        await client.fetch("/test-endpoint");
+
+        expect(verifyMock).toHaveBeenCalledTimes(2);
+        expect(mockFetch).toHaveBeenCalledTimes(2);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it("should reject invalid re-attestation options", async () => {
+      const { SecureClient } = await import("../src/secure-client");
+      expect(() => new SecureClient({ reattestation: { intervalMs: 0 } }))
+        .toThrow("reattestation.intervalMs must be a positive number");
+    });
+  });
+
+  describe("HPKE key rotation", () => {
+    const documentWithKey = (hpkePublicKey: string) => ({
+      ...mockVerificationDocument,
+      enclaveMeasurement: { ...mockVerificationDocument.enclaveMeasurement, hpkePublicKey },
+      hpkePublicKey,
+      steps: { ...mockVerificationDocument.steps },
+    });
+    const mismatch = new HpkeKeyMismatchError("old-key", "new-key");
+
+    it("should re-verify and retry once when the enclave key changes", async () => {
+      const { SecureClient } = await import("../src/secure-client");
+      verificationDocumentMock.mockReturnValueOnce(documentWithKey("old-key"));
+      const client = new SecureClient({
+        baseURL: "https://test.example.com/",
+        enclaveURL: "https://keys.test.example.com/",
+      });
+      await client.ready();
+
+      mockFetch.mockRejectedValueOnce(mismatch);
+      const rotatedFetch = vi.fn(async () => new Response("rotated"));
+      createSecureFetchMock.mockReturnValueOnce(rotatedFetch);
+      verificationDocumentMock.mockReturnValueOnce(documentWithKey("new-key"));
+
+      const response = await client.fetch("/test-endpoint", { method: "POST", body: "hello" });
+
+      expect(await response.text()).toBe("rotated");
+      expect(verifyMock).toHaveBeenCalledTimes(2);
+      expect(rotatedFetch).toHaveBeenCalledWith("/test-endpoint", { method: "POST", body: "hello" });
+
+      const doc = await client.getVerificationDocument();
+      expect(doc.securityVerified).toBe(true);
+      expect(doc.history).toEqual([
+        expect.objectContaining({
+          event: "hpkeKeyRotation",
+          previousHpkePublicKey: "old-key",
+          hpkePublicKey: "new-key",
+          reason: mismatch.message,
+        }),
+      ]);
+    });
+
+    it("should fail without retrying when the new attestation does not verify", async () => {
+      const { SecureClient } = await import("../src/secure-client");
+      verificationDocumentMock.mockReturnValueOnce(documentWithKey("old-key"));
+      const client = new SecureClient({
+        baseURL: "https://test.example.com/",
+        enclaveURL: "https://keys.test.example.com/",
+      });
+      await client.ready();
+
+      mockFetch.mockRejectedValueOnce(mismatch);
+      verifyMock.mockRejectedValueOnce(new Error("measurement mismatch"));
+      verificationDocumentMock.mockReturnValueOnce(documentWithKey("new-key"));
+
+      await expect(client.fetch("/test-endpoint")).rejects.toBe(mismatch);
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      const doc = await client.getVerificationDocument();
+      expect(doc.securityVerified).toBe(false);
+      expect(doc.steps.verifyHPKEKey).toEqual({ status: "failed", error: mismatch.message });
+      expect(doc.history).toBeUndefined();
+    });
+  });
+
+  it("should record transport initialization failures under createTransport", async () => {
+    const { SecureClient } = await import("../src/secure-client");
+    verificationDocumentMock.mockReturnValueOnce({ ...mockVerificationDocument, steps: { ...mockVerificationDocument.steps } });
+    const client = new SecureClient({ baseURL: "https://test.example.com/" });
+    await client.ready();
+
+    const failure = new TransportInitError("EHBP requires a secure browser context: missing WebCrypto SubtleCrypto");
+    mockFetch.mockRejectedValueOnce(failure);
+
+    await expect(client.fetch("/test-endpoint")).rejects.toBe(failure);
+
+    const doc = await client.getVerificationDocument();
+    expect(doc.securityVerified).toBe(false);
+    expect(doc.steps.createTransport).toEqual({ status: "failed", error: failure.message });
+    expect(doc.steps.otherError).toBeUndefined();
+  });
 });
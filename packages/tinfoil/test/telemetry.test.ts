@@ -0,0 +1,127 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { trace, SpanKind, SpanStatusCode, TraceFlags } from "@opentelemetry/api";
+import type { Attributes, AttributeValue, Span, SpanOptions, SpanStatus, Tracer } from "@opentelemetry/api";
+import { Identity, PROTOCOL } from "ehbp";
+import { createEncryptedBodyFetch, getServerIdentity } from "../src/encrypted-body-fetch";
+
+interface RecordedSpan {
+  name: string;
+  kind?: SpanKind;
+  attributes: Attributes;
+  status?: SpanStatus;
+  ended: boolean;
+}
+
+const spans: RecordedSpan[] = [];
+
+function recordingSpan(name: string, options: SpanOptions = {}): Span {
+  const recorded: RecordedSpan = { name, kind: options.kind, attributes: { ...options.attributes }, ended: false };
+  spans.push(recorded);
+  const span: Span = {
+    spanContext: () => ({ traceId: "1", spanId: `${spans.length}`, traceFlags: TraceFlags.SAMPLED }),
+    setAttribute: (key: string, value: AttributeValue) => {
+      recorded.attributes[key] = value;
+      return span;
+    },
+    setAttributes: (attributes: Attributes) => {
+      Object.assign(recorded.attributes, attributes);
+      return span;
+    },
+    setStatus: (status: SpanStatus) => {
+      recorded.status = status;
+      return span;
+    },
+    addEvent: () => span,
+    addLink: () => span,
+    addLinks: () => span,
+    updateName: () => span,
+    recordException: () => {},
+    isRecording: () => true,
+    end: () => {
+      recorded.ended = true;
+    },
+  };
+  return span;
+}
+
+trace.setGlobalTracerProvider({
+  getTracer: () => ({ startSpan: recordingSpan }) as unknown as Tracer,
+});
+
+const SECRET = "my secret prompt";
+
+describe("telemetry", () => {
+  let originalFetch: typeof globalThis.fetch;
+  let publicConfig: Uint8Array;
+  let keyHex: string;
+
+  beforeEach(async () => {
+    spans.length = 0;
+    originalFetch = globalThis.fetch;
+    const serverIdentity = await Identity.generate();
+    publicConfig = await serverIdentity.marshalConfig();
+    keyHex = await serverIdentity.getPublicKeyHex();
+
+    globalThis.fetch = vi.fn(async (input: RequestInfo | URL) => {
+      const url = input instanceof Request ? input.url : input.toString();
+      if (url.includes("/.well-known/hpke-keys")) {
+        return new Response(publicConfig as unknown as BodyInit, {
+          status: 200,
+          headers: { "content-type": PROTOCOL.KEYS_MEDIA_TYPE },
+        });
+      }
+      // ehbp passes responses to bodyless requests through without decryption
+      return new Response("rate limited", { status: 429 });
+    }) as typeof fetch;
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  it("traces HPKE key retrieval", async () => {
+    await getServerIdentity("https://enclave.example.com/v1");
+
+    expect(spans).toEqual([
+      expect.objectContaining({
+        name: "tinfoil.hpke.key_fetch",
+        attributes: { "server.address": "enclave.example.com", "tinfoil.hpke.public_key": keyHex },
+        ended: true,
+      }),
+    ]);
+  });
+
+  it("traces encrypted requests", async () => {
+    const secureFetch = createEncryptedBodyFetch("https://enclave.example.com/v1/", keyHex);
+
+    const response = await secureFetch("models");
+    expect(response.status).toBe(429);
+
+    const request = spans.find((s) => s.name === "tinfoil.request")!;
+    expect(request.kind).toBe(SpanKind.CLIENT);
+    expect(request.ended).toBe(true);
+    expect(request.attributes).toEqual({
+      "tinfoil.transport": "ehbp",
+      "http.request.method": "GET",
+      "server.address": "enclave.example.com",
+      "url.path": "/v1/models",
+      "tinfoil.hpke.public_key": keyHex,
+      "http.response.status_code": 429,
+    });
+    expect(request.status?.code).toBe(SpanStatusCode.ERROR);
+  });
+
+  it("marks requests rejected by the transport as errors without recording bodies", async () => {
+    const secureFetch = createEncryptedBodyFetch("https://enclave.example.com/v1/", "wrongkey");
+
+    await expect(secureFetch("chat/completions", { method: "POST", body: SECRET })).rejects.toThrow(
+      /HPKE public key mismatch/
+    );
+
+    const request = spans.find((s) => s.name === "tinfoil.request")!;
+    expect(request.attributes["http.request.method"]).toBe("POST");
+    expect(request.status?.code).toBe(SpanStatusCode.ERROR);
+    expect(request.ended).toBe(true);
+    expect(JSON.stringify(spans)).not.toContain(SECRET);
+  });
+});
@@ -1,33 +1,109 @@
 import type { AttestationDocument, AttestationResponse } from './types.js';
 import { PredicateType } from './types.js';
+import { AttestationError, AttestationFetchError, CertificateChainError, CollateralFetchError, ReportValidationError, RevocationError } from './errors.js';
 import { Report } from './sev/report.js';
 import { CertificateChain } from './sev/cert-chain.js';
+import type { VlekOptions, ChainCertificates } from './sev/cert-chain.js';
 import { verifyAttestation as verifyAttestationInternal } from './sev/verify.js';
-import { bytesToHex } from './sev/utils.js';
-import { validateReport, defaultValidationOptions } from './sev/validation.js';
+import { bytesToHex, base64ToBytes, tcbFromInt } from './sev/utils.js';
+import type { FirmwareVersion, SevSnpPlatformEvidence } from './sev/types.js';
+import { validateReport, resolveTrustedKeyDigests, defaultValidationOptionsForProduct } from './sev/validation.js';
+import { checkRevocation, kdsCrlFetcher } from './sev/crl.js';
+import type { RevocationOptions } from './sev/crl.js';
+import type { CertificateCache } from './cache.js';
+import { networkFetch } from './endpoints.js';
+import type { NetworkOptions } from './endpoints.js';
+import { sevValidationOptionsFromPolicy } from './policy.js';
+import { attestedKeys } from './freshness.js';
+import type { VerificationPolicy } from './policy.js';
+import { Quote } from './tdx/quote.js';
+import { fetchCollateral } from './tdx/collateral.js';
+import { verifyQuote, parsePckExtensions } from './tdx/verify.js';
+import type { VerifiedCollateral } from './tdx/verify.js';
+import type { TdxCollateral } from './tdx/types.js';
+import { validateQuote, defaultTdxValidationOptions } from './tdx/validation.js';
+import { X509Certificate } from '@freedomofpress/sigstore-browser';
 
 const ATTESTATION_ENDPOINT = '/.well-known/tinfoil-attestation';
 
 /**
- * Retrieves the attestation document from a given enclave hostname.
+ * Options for verifying an attestation document.
+ */
+export interface VerifyAttestationOptions extends NetworkOptions {
+  // Fallback sources for the VLEK certificate when the document does not carry one
+  vlek?: VlekOptions;
+  // Check the AMD certificate chain against the ARK's CRL (SEV-SNP only)
+  revocation?: RevocationOptions;
+  // Where to cache VCEKs fetched from the KDS (default: localStorage in browsers, memory elsewhere)
+  certificateCache?: CertificateCache;
+  // Validation requirements replacing the defaults (SEV-SNP only)
+  policy?: VerificationPolicy;
+  // Certificates and collateral to use instead of fetching them
+  evidence?: AttestationEvidence;
+  // Time at which certificates and collateral must be valid (default: now)
+  now?: Date;
+  // Nonce passed to fetchAttestation, which the report must be bound to (SEV-SNP only)
+  nonce?: string;
+}
+
+/**
+ * Certificates and collateral that an attestation was verified against,
+ * beyond what the attestation document itself carries.
+ */
+export interface AttestationEvidence extends ChainCertificates {
+  tdxCollateral?: TdxCollateral;
+}
+
+/**
+ * Result of verifying an attestation together with the evidence it was checked against.
+ */
+export interface VerifiedAttestation {
+  response: AttestationResponse;
+  evidence: AttestationEvidence;
+}
+
+/**
+ * Retrieves the attestation document from a given enclave host.
+ *
+ * With a nonce, the enclave is challenged to produce a fresh report whose
+ * report_data binds the nonce to its keys (see challengeReportData). Pass the
+ * same nonce to verifyAttestation to check the binding.
  *
- * @param host - The hostname of the enclave
+ * @param host - The host of the enclave, with a port if it does not listen on 443
+ * @param network - The fetch to use
+ * @param nonce - Hex nonce from generateNonce
  * @returns The attestation document
- * @throws Error if the request fails
+ * @throws AttestationFetchError if the request fails
  */
-export async function fetchAttestation(host: string): Promise<AttestationDocument> {
-  const url = `https://${host}${ATTESTATION_ENDPOINT}`;
-  const response = await fetch(url);
+export async function fetchAttestation(host: string, network: NetworkOptions = {}, nonce?: string): Promise<AttestationDocument> {
+  const url = `https://${host}${ATTESTATION_ENDPOINT}${nonce !== undefined ? `?nonce=${encodeURIComponent(nonce)}` : ''}`;
+  let response: Response;
+  try {
+    response = await networkFetch(network)(url);
+  } catch (e) {
+    throw new AttestationFetchError(`Failed to fetch attestation: ${(e as Error).message}`, { cause: e });
+  }
 
   if (!response.ok) {
-    throw new Error(`Failed to fetch attestation: ${response.status} ${response.statusText}`);
+    throw new AttestationFetchError(`Failed to fetch attestation: ${response.status} ${response.statusText}`);
   }
 
-  const docDict = await response.json();
+  let docDict;
+  try {
+    docDict = await response.json();
+  } catch (e) {
+    throw new AttestationFetchError('Failed to parse attestation document', { cause: e });
+  }
 
   return {
     format: docDict.format as PredicateType,
     body: docDict.body,
+    ...(docDict.vlek_certificate && { vlekCertificate: docDict.vlek_certificate }),
+    ...(docDict.nonce && {
+      nonce: docDict.nonce,
+      tlsPublicKeyFingerprint: docDict.tls_public_key_fingerprint,
+      hpkePublicKey: docDict.hpke_public_key,
+    }),
   };
 }
 
@@ -36,40 +112,126 @@ export async function fetchAttestation(host: string): Promise<AttestationDocumen
  * and returns the inner measurements.
  *
  * @param doc - The attestation document to verify
+ * @param options - Verification options
  * @returns The verification result
  * @throws Error if verification fails or format is unsupported
  */
-export async function verifyAttestation(doc: AttestationDocument): Promise<AttestationResponse> {
+export async function verifyAttestation(
+  doc: AttestationDocument,
+  options: VerifyAttestationOptions = {}
+): Promise<AttestationResponse> {
+  return (await verifyAttestationWithEvidence(doc, options)).response;
+}
+
+/**
+ * Like verifyAttestation, but also returns the certificates and collateral
+ * the document was verified against so the verification can be replayed offline.
+ *
+ * @param doc - The attestation document to verify
+ * @param options - Verification options
+ * @returns The verification result and its evidence
+ * @throws AttestationError if verification fails or format is unsupported
+ */
+export async function verifyAttestationWithEvidence(
+  doc: AttestationDocument,
+  options: VerifyAttestationOptions = {}
+): Promise<VerifiedAttestation> {
   if (doc.format === PredicateType.SevGuestV2) {
-    return verifySevAttestationV2(doc.body);
+    const vlek: VlekOptions = doc.vlekCertificate
+      ? { ...options.vlek, certificate: base64ToBytes(doc.vlekCertificate) }
+      : { ...options.vlek };
+    return verifySevAttestationV2(doc, { ...options, vlek });
+  } else if (doc.format === PredicateType.TdxGuestV2) {
+    if (options.nonce !== undefined || doc.nonce !== undefined) {
+      throw new ReportValidationError('Attestation challenges are only supported for SEV-SNP');
+    }
+    return verifyTdxAttestationV2(doc.body, options);
   } else {
-    throw new Error(`Unsupported attestation format: ${doc.format}`);
+    throw new ReportValidationError(`Unsupported attestation format: ${doc.format}`);
   }
 }
 
 /**
  * Verify SEV attestation document and return verification result.
  *
- * @param attestationDoc - Base64 encoded attestation document
- * @returns Verification result
- * @throws Error if verification fails
+ * @param doc - The attestation document, with a base64 encoded, gzip compressed report
+ * @param options - Verification options, with the VLEK sources already resolved
+ * @returns Verification result and the endorsement certificates
+ * @throws RevocationError if the CRL check fails
+ * @throws AttestationError if verification fails
  */
-async function verifySevAttestationV2(attestationDoc: string): Promise<AttestationResponse> {
-  const report = await verifySevReport(attestationDoc, true);
+async function verifySevAttestationV2(
+  doc: AttestationDocument,
+  options: VerifyAttestationOptions
+): Promise<VerifiedAttestation> {
+  const { report, chain } = await verifySevReport(doc.body, true, options);
+  const keys = await attestedKeys(report.reportData, doc, options.nonce);
+
+  const revocation = options.revocation;
+  if (revocation) {
+    try {
+      await checkRevocation(chain, { ...revocation, fetcher: revocation.fetcher ?? kdsCrlFetcher(options) }, options.now, options.certificateCache);
+    } catch (e) {
+      if (e instanceof RevocationError) {
+        throw e;
+      }
+      throw new RevocationError((e as Error).message, { cause: e });
+    }
+  }
 
   const measurement = {
     type: PredicateType.SevGuestV2,
     registers: [bytesToHex(report.measurement)],
   };
 
-  const keys = report.reportData;
-  const tlsKeyFp = bytesToHex(keys.slice(0, 32));
-  const hpkePublicKey = bytesToHex(keys.slice(32, 64));
+  return {
+    response: {
+      measurement,
+      tlsPublicKeyFingerprint: keys.tlsPublicKeyFingerprint,
+      hpkePublicKey: keys.hpkePublicKey,
+      endorsementKey: chain.endorsementKey,
+      platformEvidence: sevPlatformEvidence(report, chain),
+      ...(revocation && { revocationChecked: true }),
+      ...(keys.freshnessProven && { freshnessProven: true }),
+    },
+    evidence: {
+      vcek: chain.vcek.root.toDER(),
+      ...(chain.endorsementKey === 'VLEK' && { asvk: chain.ask.root.toDER() }),
+    },
+  };
+}
 
+/**
+ * Collect the platform details of a verified report: the decoded TCB
+ * values, firmware versions, policy and the endorsement certificate's
+ * extensions.
+ */
+function sevPlatformEvidence(report: Report, chain: CertificateChain): SevSnpPlatformEvidence {
+  const tcb = (value: bigint) => tcbFromInt(value, report.productName);
+  const firmware = (major: number, minor: number, build: number): FirmwareVersion => ({ major, minor, build });
   return {
-    measurement,
-    tlsPublicKeyFingerprint: tlsKeyFp,
-    hpkePublicKey,
+    productName: report.productName,
+    reportVersion: report.version,
+    guestSvn: report.guestSvn,
+    vmpl: report.vmpl,
+    policy: report.policyParsed,
+    platformInfo: report.platformInfoParsed,
+    signerInfo: report.signerInfoParsed,
+    currentTcb: tcb(report.currentTcb),
+    reportedTcb: tcb(report.reportedTcb),
+    committedTcb: tcb(report.committedTcb),
+    launchTcb: tcb(report.launchTcb),
+    currentFirmware: firmware(report.currentMajor, report.currentMinor, report.currentBuild),
+    committedFirmware: firmware(report.committedMajor, report.committedMinor, report.committedBuild),
+    chipId: bytesToHex(report.chipId),
+    familyId: bytesToHex(report.familyId),
+    imageId: bytesToHex(report.imageId),
+    hostData: bytesToHex(report.hostData),
+    idKeyDigest: bytesToHex(report.idKeyDigest),
+    authorKeyDigest: bytesToHex(report.authorKeyDigest),
+    reportId: bytesToHex(report.reportId),
+    reportIdMa: bytesToHex(report.reportIdMa),
+    endorsementKey: { type: chain.endorsementKey, ...chain.extensions },
   };
 }
 
@@ -78,15 +240,20 @@ async function verifySevAttestationV2(attestationDoc: string): Promise<Attestati
  *
  * @param attestationDoc - Base64 encoded attestation document
  * @param isCompressed - Whether the document is gzip compressed
- * @returns The parsed and verified report
- * @throws Error if verification fails
+ * @param options - Verification options
+ * @returns The parsed and verified report with its certificate chain
+ * @throws AttestationError if verification fails
  */
-async function verifySevReport(attestationDoc: string, isCompressed: boolean): Promise<Report> {
+async function verifySevReport(
+  attestationDoc: string,
+  isCompressed: boolean,
+  options: VerifyAttestationOptions
+): Promise<{ report: Report; chain: CertificateChain }> {
   let attDocBytes: Uint8Array;
   try {
     attDocBytes = base64ToBytes(attestationDoc);
   } catch (e) {
-    throw new Error('Failed to decode base64', { cause: e });
+    throw new ReportValidationError('Failed to decode base64', { cause: e });
   }
 
   if (isCompressed) {
@@ -97,47 +264,163 @@ async function verifySevReport(attestationDoc: string, isCompressed: boolean): P
   try {
     report = new Report(attDocBytes);
   } catch (e) {
-    throw new Error('Failed to parse report', { cause: e });
+    throw new ReportValidationError('Failed to parse report', { cause: e });
   }
 
-  const chain = await CertificateChain.fromReport(report);
+  let chain: CertificateChain;
+  try {
+    chain = await CertificateChain.fromReport(report, options.vlek, options.certificateCache, options, options.evidence);
+  } catch (e) {
+    if (e instanceof AttestationError) {
+      throw e;
+    }
+    throw new CertificateChainError('Failed to build certificate chain', { cause: e });
+  }
 
   let res: boolean;
   try {
-    res = await verifyAttestationInternal(chain, report);
+    res = await verifyAttestationInternal(chain, report, options.now);
   } catch (e) {
-    throw new Error('Failed to verify attestation', { cause: e });
+    throw verificationError('Failed to verify attestation', e);
   }
 
   if (!res) {
-    throw new Error('Attestation verification failed!');
+    throw new ReportValidationError('Attestation verification failed!');
   }
 
   try {
-    validateReport(report, chain, defaultValidationOptions);
+    const validationOptions = options.policy
+      ? sevValidationOptionsFromPolicy(options.policy, report.productName)
+      : defaultValidationOptionsForProduct(report.productName);
+    validateReport(report, chain, await resolveTrustedKeyDigests(validationOptions));
   } catch (e) {
-    throw new Error('Failed to validate report', { cause: e });
+    throw verificationError('Failed to validate report', e);
   }
 
-  return report;
+  return { report, chain };
 }
 
-function base64ToBytes(base64: string): Uint8Array {
-  const binaryString = atob(base64);
-  const bytes = new Uint8Array(binaryString.length);
-  for (let i = 0; i < binaryString.length; i++) {
-    bytes[i] = binaryString.charCodeAt(i);
+/**
+ * Verify TDX attestation document and return verification result.
+ *
+ * @param attestationDoc - Base64 encoded, gzip compressed TDX quote
+ * @param options - Verification options
+ * @returns Verification result with registers [MRTD, RTMR0, RTMR1, RTMR2, RTMR3], and the Intel collateral
+ * @throws AttestationError if verification fails
+ */
+async function verifyTdxAttestationV2(
+  attestationDoc: string,
+  options: VerifyAttestationOptions
+): Promise<VerifiedAttestation> {
+  const { quote, collateral } = await verifyTdxQuote(attestationDoc, true, options);
+  const report = quote.report;
+
+  const measurement = {
+    type: PredicateType.TdxGuestV2,
+    registers: [
+      bytesToHex(report.mrTd),
+      bytesToHex(report.rtmr0),
+      bytesToHex(report.rtmr1),
+      bytesToHex(report.rtmr2),
+      bytesToHex(report.rtmr3),
+    ],
+  };
+
+  const keys = report.reportData;
+  const tlsKeyFp = bytesToHex(keys.slice(0, 32));
+  const hpkePublicKey = bytesToHex(keys.slice(32, 64));
+
+  return {
+    response: {
+      measurement,
+      tlsPublicKeyFingerprint: tlsKeyFp,
+      hpkePublicKey,
+    },
+    evidence: { tdxCollateral: collateral },
+  };
+}
+
+/**
+ * Verify TDX quote against the Intel collateral and return the parsed quote.
+ *
+ * @param attestationDoc - Base64 encoded quote
+ * @param isCompressed - Whether the quote is gzip compressed
+ * @param options - Verification options
+ * @returns The parsed and verified quote with the collateral it was checked against
+ * @throws AttestationError if verification fails
+ */
+async function verifyTdxQuote(
+  attestationDoc: string,
+  isCompressed: boolean,
+  options: VerifyAttestationOptions
+): Promise<{ quote: Quote; collateral: TdxCollateral }> {
+  let quoteBytes: Uint8Array;
+  try {
+    quoteBytes = base64ToBytes(attestationDoc);
+  } catch (e) {
+    throw new ReportValidationError('Failed to decode base64', { cause: e });
+  }
+
+  if (isCompressed) {
+    quoteBytes = await decompressGzip(quoteBytes);
+  }
+
+  let quote: Quote;
+  try {
+    quote = new Quote(quoteBytes);
+  } catch (e) {
+    throw new ReportValidationError('Failed to parse quote', { cause: e });
+  }
+
+  let collateral: TdxCollateral;
+  if (options.evidence?.tdxCollateral) {
+    collateral = options.evidence.tdxCollateral;
+  } else {
+    try {
+      const pckLeaf = X509Certificate.parse(quote.pckCertChain[0]);
+      collateral = await fetchCollateral(parsePckExtensions(pckLeaf).fmspc, options);
+    } catch (e) {
+      throw new CollateralFetchError('Failed to fetch TDX collateral', { cause: e });
+    }
   }
-  return bytes;
+
+  let verified: VerifiedCollateral;
+  try {
+    verified = await verifyQuote(quote, collateral, options.now);
+  } catch (e) {
+    throw verificationError('Failed to verify attestation', e);
+  }
+
+  try {
+    validateQuote(quote, verified, defaultTdxValidationOptions, options.now);
+  } catch (e) {
+    throw verificationError('Failed to validate quote', e);
+  }
+
+  return { quote, collateral };
+}
+
+/**
+ * Wrap a failed verification step, keeping whether the certificate chain or
+ * the report itself was rejected.
+ */
+function verificationError(message: string, cause: unknown): CertificateChainError | ReportValidationError {
+  return cause instanceof CertificateChainError
+    ? new CertificateChainError(message, { cause })
+    : new ReportValidationError(message, { cause });
 }
 
 async function decompressGzip(data: Uint8Array): Promise<Uint8Array> {
   const stream = new Response(data.buffer as ArrayBuffer).body;
   if (!stream) {
-    throw new Error('Failed to create stream from data');
+    throw new ReportValidationError('Failed to create stream from data');
   }
 
-  const decompressedStream = stream.pipeThrough(new DecompressionStream('gzip'));
-  const decompressed = await new Response(decompressedStream).arrayBuffer();
-  return new Uint8Array(decompressed);
+  try {
+    const decompressedStream = stream.pipeThrough(new DecompressionStream('gzip'));
+    const decompressed = await new Response(decompressedStream).arrayBuffer();
+    return new Uint8Array(decompressed);
+  } catch (e) {
+    throw new ReportValidationError('Failed to decompress attestation document', { cause: e });
+  }
 }
@@ -0,0 +1,205 @@
+import { verifyAttestation as verifyEnclaveAttestation } from './attestation.js';
+import type { AttestationEvidence } from './attestation.js';
+import { verifyAttestation as verifySigstoreAttestation, verifyHardwareMeasurements } from './sigstore.js';
+import { HARDWARE_MEASUREMENTS_REPO } from './hardware.js';
+import { compareMeasurements, matchHardwareMeasurement, verifiedDocument } from './types.js';
+import type { AttestationDocument, VerificationDocument } from './types.js';
+import type { TdxCollateral } from './tdx/types.js';
+import type { ReleaseCandidate } from './github.js';
+import { MemoryCertificateCache } from './cache.js';
+import { validateVerificationPolicy } from './policy.js';
+import type { VerificationPolicy } from './policy.js';
+import { bytesToBase64, base64ToBytes } from './sev/utils.js';
+import { EvidenceBundleError } from './errors.js';
+
+export const EVIDENCE_BUNDLE_VERSION = 1;
+
+/**
+ * Everything fetched during a verification, in a JSON-serializable form
+ * that verifyBundle can check again without network access.
+ */
+export interface EvidenceBundle {
+  version: typeof EVIDENCE_BUNDLE_VERSION;
+  createdAt: string;                // When the evidence was fetched (ISO 8601)
+  configRepo: string;
+  enclaveHost: string;
+  selectedRouterEndpoint: string;   // Router chosen through the ATC, or the configured enclave
+  release: ReleaseCandidate;
+  attestation: AttestationDocument; // As served by the enclave
+  vcek?: string;                    // Base64 DER of the VCEK, or of the VLEK for VLEK-signed reports
+  asvk?: string;                    // Base64 DER of the ASVK for VLEK-signed reports
+  tdxCollateral?: TdxCollateral;
+  sigstoreBundle: unknown;
+  // Release of Tinfoil's hardware measurements a TDX enclave was matched against
+  hardwareMeasurements?: { release: ReleaseCandidate; sigstoreBundle: unknown };
+}
+
+/**
+ * Options for verifying an evidence bundle.
+ */
+export interface VerifyBundleOptions {
+  // Validation requirements replacing the defaults (SEV-SNP only)
+  policy?: VerificationPolicy;
+  // Time at which certificates and collateral must be valid (default: the bundle's createdAt)
+  now?: Date;
+}
+
+/**
+ * Assemble an evidence bundle from the pieces of a successful verification.
+ *
+ * @param fields - The verification's context and fetched artifacts
+ * @param evidence - The certificates and collateral the attestation was verified against
+ * @returns The evidence bundle
+ */
+export function createEvidenceBundle(
+  fields: Omit<EvidenceBundle, 'version' | 'vcek' | 'asvk' | 'tdxCollateral'>,
+  evidence: AttestationEvidence
+): EvidenceBundle {
+  return {
+    version: EVIDENCE_BUNDLE_VERSION,
+    ...fields,
+    ...(evidence.vcek && { vcek: bytesToBase64(evidence.vcek) }),
+    ...(evidence.asvk && { asvk: bytesToBase64(evidence.asvk) }),
+    ...(evidence.tdxCollateral && { tdxCollateral: evidence.tdxCollateral }),
+  };
+}
+
+/**
+ * Check the shape of a decoded evidence bundle.
+ *
+ * @param doc - The decoded JSON bundle
+ * @returns The bundle, typed
+ * @throws EvidenceBundleError if the version is unsupported or a required field is missing
+ */
+export function validateEvidenceBundle(doc: unknown): EvidenceBundle {
+  if (typeof doc !== 'object' || doc === null || Array.isArray(doc)) {
+    throw new EvidenceBundleError('Invalid evidence bundle: not an object');
+  }
+  const bundle = doc as Record<string, unknown>;
+  if (bundle.version !== EVIDENCE_BUNDLE_VERSION) {
+    throw new EvidenceBundleError(`Unsupported evidence bundle version: ${JSON.stringify(bundle.version)}`);
+  }
+
+  const errors: string[] = [];
+  for (const name of ['createdAt', 'configRepo', 'enclaveHost', 'selectedRouterEndpoint'] as const) {
+    if (typeof bundle[name] !== 'string') {
+      errors.push(`${name} must be a string`);
+    }
+  }
+  if (typeof bundle.createdAt === 'string' && isNaN(Date.parse(bundle.createdAt))) {
+    errors.push('createdAt must be an ISO 8601 date');
+  }
+  const release = bundle.release as Record<string, unknown> | undefined;
+  if (typeof release?.digest !== 'string') {
+    errors.push('release.digest must be a string');
+  }
+  const attestation = bundle.attestation as Record<string, unknown> | undefined;
+  if (typeof attestation?.format !== 'string' || typeof attestation?.body !== 'string') {
+    errors.push('attestation must have a format and body');
+  }
+  for (const name of ['vcek', 'asvk'] as const) {
+    if (bundle[name] !== undefined && typeof bundle[name] !== 'string') {
+      errors.push(`${name} must be a base64 string`);
+    }
+  }
+  if (bundle.sigstoreBundle === undefined) {
+    errors.push('sigstoreBundle is required');
+  }
+  if (bundle.hardwareMeasurements !== undefined) {
+    const hardware = bundle.hardwareMeasurements as Record<string, unknown> | null;
+    const hardwareRelease = hardware?.release as Record<string, unknown> | undefined;
+    if (typeof hardwareRelease?.digest !== 'string' || hardware?.sigstoreBundle === undefined) {
+      errors.push('hardwareMeasurements must have a release digest and sigstoreBundle');
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new EvidenceBundleError(`Invalid evidence bundle: ${errors.join('; ')}`);
+  }
+  return doc as EvidenceBundle;
+}
+
+/**
+ * Parse and validate a JSON evidence bundle.
+ *
+ * @param json - The bundle file contents
+ * @returns The validated bundle
+ * @throws EvidenceBundleError if the JSON is malformed or the bundle is invalid
+ */
+export function parseEvidenceBundle(json: string): EvidenceBundle {
+  let doc: unknown;
+  try {
+    doc = JSON.parse(json);
+  } catch (e) {
+    throw new EvidenceBundleError('Failed to parse evidence bundle', { cause: e });
+  }
+  return validateEvidenceBundle(doc);
+}
+
+/**
+ * Re-run the full verification of an evidence bundle without network access:
+ * the attestation and its certificate chain or collateral, report validation,
+ * the release's Sigstore attestation and the measurement comparison.
+ *
+ * CRL revocation is not checked, as CRLs are not part of the bundle.
+ *
+ * @param bundle - The evidence bundle, as exported by Verifier.exportBundle
+ * @param options - Verification options
+ * @returns The verification document
+ * @throws EvidenceBundleError if the bundle is invalid
+ * @throws AttestationError if any verification step fails
+ */
+export async function verifyBundle(
+  bundle: EvidenceBundle,
+  options: VerifyBundleOptions = {}
+): Promise<VerificationDocument> {
+  validateEvidenceBundle(bundle);
+  const policy = options.policy && validateVerificationPolicy(options.policy);
+
+  const evidence: AttestationEvidence = {
+    ...(bundle.vcek && { vcek: base64ToBytes(bundle.vcek) }),
+    ...(bundle.asvk && { asvk: base64ToBytes(bundle.asvk) }),
+    ...(bundle.tdxCollateral && { tdxCollateral: bundle.tdxCollateral }),
+  };
+
+  // Anything missing from the bundle must fail rather than be fetched
+  const offlineFetch = (async (input: RequestInfo | URL) => {
+    throw new EvidenceBundleError(`Evidence bundle is incomplete: refusing to fetch ${input.toString()}`);
+  }) as typeof fetch;
+
+  const enclaveVerification = await verifyEnclaveAttestation(bundle.attestation, {
+    evidence,
+    policy,
+    now: options.now ?? new Date(bundle.createdAt),
+    fetch: offlineFetch,
+    certificateCache: new MemoryCertificateCache(),
+  });
+
+  const codeMeasurement = await verifySigstoreAttestation(bundle.sigstoreBundle, bundle.release.digest, bundle.configRepo);
+  compareMeasurements(codeMeasurement, enclaveVerification.measurement);
+  let trustedHardware = policy?.tdx?.hardwareMeasurements;
+  if (!trustedHardware && bundle.hardwareMeasurements) {
+    const { release, sigstoreBundle } = bundle.hardwareMeasurements;
+    trustedHardware = await verifyHardwareMeasurements(sigstoreBundle, release.digest, HARDWARE_MEASUREMENTS_REPO);
+  }
+  const hardwareMeasurement = matchHardwareMeasurement(trustedHardware, enclaveVerification.measurement);
+
+  return verifiedDocument(
+    {
+      configRepo: bundle.configRepo,
+      enclaveHost: bundle.enclaveHost,
+      selectedRouterEndpoint: bundle.selectedRouterEndpoint,
+      releaseDigest: bundle.release.digest,
+      releaseTag: bundle.release.tag,
+      steps: {
+        fetchDigest: { status: 'success' },
+        verifyCode: { status: 'success' },
+        verifyEnclave: { status: 'success' },
+        compareMeasurements: { status: 'success' },
+      },
+    },
+    codeMeasurement,
+    enclaveVerification,
+    hardwareMeasurement
+  );
+}
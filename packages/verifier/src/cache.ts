@@ -0,0 +1,295 @@
+/**
+ * Storage for DER-encoded certificates fetched during verification, such as
+ * VCEKs from the AMD KDS. Implementations must treat a missing or expired
+ * entry as a miss and never throw from get.
+ */
+export interface CertificateCache {
+  get(key: string): Promise<Uint8Array | undefined>;
+  set(key: string, value: Uint8Array): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * Limits shared by the built-in caches.
+ */
+export interface CertificateCacheOptions {
+  ttlMs?: number;       // Entries older than this are treated as misses (default: no expiry)
+  maxEntries?: number;  // Oldest entries are evicted beyond this count (default: 1000)
+}
+
+const DEFAULT_MAX_ENTRIES = 1000;
+
+interface CacheEntry {
+  value: Uint8Array;
+  storedAt: number;
+}
+
+function isExpired(storedAt: number, ttlMs?: number): boolean {
+  return ttlMs !== undefined && Date.now() - storedAt > ttlMs;
+}
+
+/**
+ * In-memory cache with least-recently-used eviction.
+ */
+export class MemoryCertificateCache implements CertificateCache {
+  private entries = new Map<string, CacheEntry>();
+  private ttlMs?: number;
+  private maxEntries: number;
+
+  constructor(options: CertificateCacheOptions = {}) {
+    this.ttlMs = options.ttlMs;
+    this.maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES;
+  }
+
+  async get(key: string): Promise<Uint8Array | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    this.entries.delete(key);
+    if (isExpired(entry.storedAt, this.ttlMs)) {
+      return undefined;
+    }
+    // Re-insert so the map stays ordered from least to most recently used
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  async set(key: string, value: Uint8Array): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, { value, storedAt: Date.now() });
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+}
+
+/**
+ * On-disk cache for Node.js, storing one DER file per entry so cached
+ * certificates survive process restarts. Expiry uses the file modification time.
+ */
+export class FileCertificateCache implements CertificateCache {
+  private directory: string;
+  private ttlMs?: number;
+  private maxEntries: number;
+
+  /**
+   * @param directory - Directory to store certificates in; created on first write
+   * @param options - TTL and size limits
+   */
+  constructor(directory: string, options: CertificateCacheOptions = {}) {
+    this.directory = directory;
+    this.ttlMs = options.ttlMs;
+    this.maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES;
+  }
+
+  async get(key: string): Promise<Uint8Array | undefined> {
+    const fs = await import('node:fs/promises');
+    const path = this.pathFor(key);
+    try {
+      const stats = await fs.stat(path);
+      if (isExpired(stats.mtimeMs, this.ttlMs)) {
+        await fs.rm(path, { force: true });
+        return undefined;
+      }
+      return new Uint8Array(await fs.readFile(path));
+    } catch {
+      return undefined;
+    }
+  }
+
+  async set(key: string, value: Uint8Array): Promise<void> {
+    const fs = await import('node:fs/promises');
+    await fs.mkdir(this.directory, { recursive: true });
+
+    // Write to a temporary file first so concurrent readers never see a partial certificate.
+    // The random part keeps concurrent writes of the same key in one process apart.
+    const path = this.pathFor(key);
+    const tmpPath = `${path}.${process.pid}.${Math.random().toString(36).slice(2)}.tmp`;
+    try {
+      await fs.writeFile(tmpPath, value);
+      await fs.rename(tmpPath, path);
+    } catch (e) {
+      await fs.rm(tmpPath, { force: true });
+      throw e;
+    }
+
+    await this.evict();
+  }
+
+  async delete(key: string): Promise<void> {
+    const fs = await import('node:fs/promises');
+    await fs.rm(this.pathFor(key), { force: true });
+  }
+
+  private async evict(): Promise<void> {
+    const fs = await import('node:fs/promises');
+    const names = (await fs.readdir(this.directory)).filter(name => name.endsWith('.der'));
+    if (names.length <= this.maxEntries) {
+      return;
+    }
+
+    const files = await Promise.all(names.map(async name => {
+      const path = `${this.directory}/${name}`;
+      const stats = await fs.stat(path).catch(() => undefined);
+      return { path, mtimeMs: stats?.mtimeMs ?? 0 };
+    }));
+    files.sort((a, b) => a.mtimeMs - b.mtimeMs);
+    for (const file of files.slice(0, files.length - this.maxEntries)) {
+      await fs.rm(file.path, { force: true });
+    }
+  }
+
+  private pathFor(key: string): string {
+    // Keys are built from product names and hex values, but never trust them as paths
+    return `${this.directory}/${key.replace(/[^A-Za-z0-9_-]/g, '_')}.der`;
+  }
+}
+
+/**
+ * IndexedDB-backed cache for browsers, which unlike localStorage can hold
+ * binary certificates and is not limited to a few megabytes.
+ */
+export class IndexedDbCertificateCache implements CertificateCache {
+  private static readonly STORE = 'certificates';
+  private databaseName: string;
+  private ttlMs?: number;
+  private maxEntries: number;
+  private db?: Promise<IDBDatabase>;
+
+  /**
+   * @param databaseName - Name of the IndexedDB database to use
+   * @param options - TTL and size limits
+   */
+  constructor(databaseName: string = 'tinfoil-certificates', options: CertificateCacheOptions = {}) {
+    this.databaseName = databaseName;
+    this.ttlMs = options.ttlMs;
+    this.maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES;
+  }
+
+  async get(key: string): Promise<Uint8Array | undefined> {
+    try {
+      const entry = await this.request<CacheEntry | undefined>('readonly', store => store.get(key));
+      if (!entry) {
+        return undefined;
+      }
+      if (isExpired(entry.storedAt, this.ttlMs)) {
+        await this.delete(key);
+        return undefined;
+      }
+      return entry.value;
+    } catch {
+      return undefined;
+    }
+  }
+
+  async set(key: string, value: Uint8Array): Promise<void> {
+    await this.request('readwrite', store => store.put({ value, storedAt: Date.now() }, key));
+    await this.evict();
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.request('readwrite', store => store.delete(key));
+  }
+
+  private async evict(): Promise<void> {
+    const count = await this.request<number>('readonly', store => store.count());
+    if (count <= this.maxEntries) {
+      return;
+    }
+
+    const keys = await this.request<IDBValidKey[]>('readonly', store => store.getAllKeys());
+    const entries = await this.request<CacheEntry[]>('readonly', store => store.getAll());
+    const byAge = keys.map((key, i) => ({ key, storedAt: entries[i].storedAt }))
+      .sort((a, b) => a.storedAt - b.storedAt);
+    for (const { key } of byAge.slice(0, count - this.maxEntries)) {
+      await this.request('readwrite', store => store.delete(key));
+    }
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+          reject(new Error('IndexedDB is not available in this environment'));
+          return;
+        }
+        const req = indexedDB.open(this.databaseName, 1);
+        req.onupgradeneeded = () => req.result.createObjectStore(IndexedDbCertificateCache.STORE);
+        req.onsuccess = () => resolve(req.result);
+        req.onerror = () => reject(req.error);
+      });
+    }
+    return this.db;
+  }
+
+  private async request<T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest
+  ): Promise<T> {
+    const db = await this.open();
+    return new Promise<T>((resolve, reject) => {
+      const store = db.transaction(IndexedDbCertificateCache.STORE, mode).objectStore(IndexedDbCertificateCache.STORE);
+      const req = operation(store);
+      req.onsuccess = () => resolve(req.result as T);
+      req.onerror = () => reject(req.error);
+    });
+  }
+}
+
+/**
+ * Adapter over browser localStorage, the cache used before caches were pluggable.
+ */
+export class LocalStorageCertificateCache implements CertificateCache {
+  async get(key: string): Promise<Uint8Array | undefined> {
+    let cached: string | null;
+    try {
+      cached = localStorage.getItem(key);
+    } catch {
+      // Storage is unavailable (disabled, or blocked by privacy settings)
+      return undefined;
+    }
+    if (!cached) {
+      return undefined;
+    }
+    try {
+      return Uint8Array.from(atob(cached), c => c.charCodeAt(0));
+    } catch {
+      // Invalid cache entry, drop it so it is re-fetched
+      await this.delete(key).catch(() => {});
+      return undefined;
+    }
+  }
+
+  async set(key: string, value: Uint8Array): Promise<void> {
+    try {
+      localStorage.setItem(key, btoa(String.fromCharCode(...value)));
+    } catch {
+      // Cache storage failed (quota exceeded, etc), continue anyway
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    localStorage.removeItem(key);
+  }
+}
+
+let defaultCache: CertificateCache | undefined;
+
+/**
+ * Returns the cache used when the caller does not provide one: localStorage
+ * in browsers and a process-wide in-memory cache elsewhere.
+ */
+export function defaultCertificateCache(): CertificateCache {
+  if (!defaultCache) {
+    defaultCache = typeof localStorage !== 'undefined'
+      ? new LocalStorageCertificateCache()
+      : new MemoryCertificateCache();
+  }
+  return defaultCache;
+}
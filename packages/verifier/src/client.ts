@@ -1,31 +1,167 @@
-import { verifyAttestation as verifyAmdAttestation, fetchAttestation } from './attestation.js';
-import { fetchLatestDigest, fetchAttestationBundle } from './github.js';
+import { verifyAttestationWithEvidence, fetchAttestation } from './attestation.js';
+import type { AttestationEvidence } from './attestation.js';
+import { fetchAttestationBundle, resolveReleaseCandidates, validateReleaseSelector } from './github.js';
+import type { ReleaseCandidate, ReleaseSelector } from './github.js';
 import { verifyAttestation as verifySigstoreAttestation } from './sigstore.js';
-import { compareMeasurements, FormatMismatchError, MeasurementMismatchError, measurementFingerprint } from './types.js';
-import type { AttestationDocument, AttestationMeasurement, AttestationResponse, VerificationDocument } from './types.js';
-import { getRouterAddress } from './router.js';
+import { PredicateType, compareMeasurements, matchHardwareMeasurement, verifiedDocument } from './types.js';
+import { fetchHardwareMeasurements } from './hardware.js';
+import type { HardwareMeasurementsRelease } from './hardware.js';
+import { ConfigurationError, RevocationError } from './errors.js';
+import type { AttestationDocument, AttestationMeasurement, AttestationResponse, HardwareMeasurement, SkippedRelease, VerificationDocument, VerificationStep, VerificationProgressListener } from './types.js';
+import { fetchRouter } from './router.js';
+import type { VlekOptions } from './sev/cert-chain.js';
+import type { RevocationOptions } from './sev/crl.js';
+import type { CertificateCache } from './cache.js';
+import { validateVerificationPolicy, checkConfigRepo } from './policy.js';
+import type { VerificationPolicy } from './policy.js';
+import { resolveEndpoints } from './endpoints.js';
+import type { NetworkOptions, TinfoilEndpoints } from './endpoints.js';
+import { createEvidenceBundle } from './bundle.js';
+import { generateNonce } from './freshness.js';
+import { getTracer, withSpan, failSpan, recordStepDuration } from './telemetry.js';
+import { context, trace } from '@opentelemetry/api';
+import type { Context, Span } from '@opentelemetry/api';
+import type { EvidenceBundle } from './bundle.js';
+import { createVerificationReceipt } from './receipt.js';
+import type { VerificationReceipt } from './receipt.js';
 
 const DEFAULT_CONFIG_REPO = 'tinfoilsh/confidential-model-router';
 
 export interface VerifierOptions {
   serverURL: string;
   configRepo?: string;
+  // Where to get the VLEK certificate if the enclave does not serve one
+  vlek?: VlekOptions;
+  // Check the AMD certificate chain against the ARK's CRL
+  revocation?: RevocationOptions;
+  // Where to cache VCEKs fetched from the KDS
+  certificateCache?: CertificateCache;
+  // Verification policy replacing the default validation requirements
+  policy?: VerificationPolicy;
+  // Releases the enclave may be running (default: the latest release)
+  release?: ReleaseSelector;
+  // Mirrors for GitHub, the AMD KDS, the Intel PCS and the ATC
+  endpoints?: Partial<TinfoilEndpoints>;
+  // Used for every request made during verification (default: global fetch)
+  fetch?: typeof fetch;
+  // Called as each verification step starts and finishes
+  onProgress?: VerificationProgressListener;
+  // Challenge the enclave with a fresh nonce to prove its report is not replayed (SEV-SNP only)
+  challenge?: boolean;
+}
+
+/**
+ * Records the outcome and duration of each step in the verification
+ * document and reports it to the progress listener.
+ */
+class StepTracker {
+  private readonly startedAt = new Map<VerificationStep, number>();
+  private readonly spans = new Map<VerificationStep, Span>();
+
+  constructor(
+    private readonly steps: VerificationDocument['steps'],
+    private readonly enclaveHost: string,
+    private readonly onProgress?: VerificationProgressListener,
+    private readonly parent?: Context
+  ) {}
+
+  start(step: VerificationStep): void {
+    if (this.startedAt.has(step)) {
+      // Steps repeated for each release candidate are reported once
+      return;
+    }
+    const now = Date.now();
+    this.startedAt.set(step, now);
+    this.spans.set(step, getTracer().startSpan(`tinfoil.verify.${step}`, {
+      attributes: { 'tinfoil.enclave.host': this.enclaveHost },
+    }, this.parent));
+    this.report({ step, status: 'started', enclaveHost: this.enclaveHost, timestamp: now });
+  }
+
+  succeed(step: VerificationStep): void {
+    const now = Date.now();
+    const durationMs = this.durationMs(step, now);
+    this.steps[step] = { status: 'success', ...(durationMs !== undefined && { durationMs }) };
+    this.finish(step, 'success', durationMs);
+    this.report({ step, status: 'success', enclaveHost: this.enclaveHost, timestamp: now, durationMs });
+  }
+
+  fail(step: VerificationStep, error: unknown): void {
+    const now = Date.now();
+    const durationMs = this.durationMs(step, now);
+    const message = (error as Error).message;
+    this.steps[step] = { status: 'failed', error: message, ...(durationMs !== undefined && { durationMs }) };
+    const span = this.spans.get(step);
+    if (span) {
+      failSpan(span, error);
+    }
+    this.finish(step, 'failed', durationMs);
+    this.report({ step, status: 'failed', enclaveHost: this.enclaveHost, timestamp: now, durationMs, error: message });
+  }
+
+  private finish(step: VerificationStep, status: 'success' | 'failed', durationMs: number | undefined): void {
+    this.spans.get(step)?.end();
+    this.spans.delete(step);
+    if (durationMs !== undefined) {
+      recordStepDuration(step, status, durationMs);
+    }
+  }
+
+  private durationMs(step: VerificationStep, now: number): number | undefined {
+    const startedAt = this.startedAt.get(step);
+    return startedAt === undefined ? undefined : now - startedAt;
+  }
+
+  private report(event: Parameters<VerificationProgressListener>[0]): void {
+    try {
+      this.onProgress?.(event);
+    } catch {
+      // A failing listener must not interrupt verification
+    }
+  }
 }
 
 export class Verifier {
   private enclave: string;
   private configRepo: string;
+  private vlek?: VlekOptions;
+  private revocation?: RevocationOptions;
+  private certificateCache?: CertificateCache;
+  private policy?: VerificationPolicy;
+  private release: ReleaseSelector;
+  private network: NetworkOptions;
   private verificationDocument?: VerificationDocument;
+  private evidenceBundle?: EvidenceBundle;
+  private skippedReleases: SkippedRelease[] = [];
+  private onProgress?: VerificationProgressListener;
+  private challenge: boolean;
 
   constructor(options: VerifierOptions) {
     if (!options.serverURL) {
-      throw new Error("serverURL is required for Verifier");
+      throw new ConfigurationError("serverURL is required for Verifier");
     }
-    this.enclave = new URL(options.serverURL).hostname;
+    // Keep the port so enclaves not listening on 443 can be attested
+    this.enclave = new URL(options.serverURL).host;
     this.configRepo = options.configRepo || DEFAULT_CONFIG_REPO;
+    this.vlek = options.vlek;
+    this.revocation = options.revocation;
+    this.certificateCache = options.certificateCache;
+    this.release = options.release ?? { latest: 1 };
+    validateReleaseSelector(this.release);
+    this.network = { endpoints: resolveEndpoints(options.endpoints), fetch: options.fetch };
+    this.onProgress = options.onProgress;
+    this.challenge = options.challenge ?? false;
+    if (options.policy) {
+      this.policy = validateVerificationPolicy(options.policy);
+      checkConfigRepo(this.policy, this.configRepo);
+    }
   }
 
   async verify(): Promise<AttestationResponse> {
+    return withSpan('tinfoil.verify', { 'tinfoil.config.repo': this.configRepo }, span => this.runVerification(span));
+  }
+
+  private async runVerification(span: Span): Promise<AttestationResponse> {
     const steps: VerificationDocument['steps'] = {
       fetchDigest: { status: 'pending' },
       verifyCode: { status: 'pending' },
@@ -33,80 +169,164 @@ export class Verifier {
       compareMeasurements: { status: 'pending' },
     };
 
+    const createdAt = new Date().toISOString();
+    this.evidenceBundle = undefined;
+    this.skippedReleases = [];
+
     try {
       if (!this.enclave) {
-        this.enclave = await getRouterAddress();
+        this.enclave = await fetchRouter(this.network);
       }
+      span.setAttribute('tinfoil.enclave.host', this.enclave);
+      const tracker = new StepTracker(steps, this.enclave, this.onProgress, trace.setSpan(context.active(), span));
 
       // Step 1: Verify Enclave
       let attestationDoc: AttestationDocument;
-      let amdVerification: AttestationResponse;
+      let enclaveVerification: AttestationResponse;
+      let evidence: AttestationEvidence;
+      tracker.start('verifyEnclave');
       try {
-        attestationDoc = await fetchAttestation(this.enclave);
-        amdVerification = await verifyAmdAttestation(attestationDoc);
-        steps.verifyEnclave = { status: 'success' };
+        const nonce = this.challenge ? generateNonce() : undefined;
+        attestationDoc = await fetchAttestation(this.enclave, this.network, nonce);
+        ({ response: enclaveVerification, evidence } = await verifyAttestationWithEvidence(attestationDoc, {
+          vlek: this.vlek,
+          revocation: this.revocation,
+          certificateCache: this.certificateCache,
+          policy: this.policy,
+          nonce,
+          ...this.network,
+        }));
+        tracker.succeed('verifyEnclave');
+        if (enclaveVerification.revocationChecked) {
+          tracker.succeed('checkRevocation');
+        }
       } catch (error) {
-        steps.verifyEnclave = { status: 'failed', error: (error as Error).message };
+        if (error instanceof RevocationError) {
+          // The report itself verified; only the CRL check failed
+          tracker.succeed('verifyEnclave');
+          tracker.fail('checkRevocation', error);
+        } else {
+          tracker.fail('verifyEnclave', error);
+        }
         this.saveFailedVerificationDocument(steps);
         throw error;
       }
 
       // Step 2: Fetch Digest
-      let digest: string;
+      let candidates: ReleaseCandidate[];
+      tracker.start('fetchDigest');
       try {
-        digest = await fetchLatestDigest(this.configRepo);
-        steps.fetchDigest = { status: 'success' };
+        ({ candidates, skipped: this.skippedReleases } = await resolveReleaseCandidates(this.configRepo, this.release, this.network));
+        tracker.succeed('fetchDigest');
       } catch (error) {
-        steps.fetchDigest = { status: 'failed', error: (error as Error).message };
+        tracker.fail('fetchDigest', error);
         this.saveFailedVerificationDocument(steps);
         throw error;
       }
 
-      // Step 3: Verify Code
-      let codeMeasurements: AttestationMeasurement;
-      try {
-        const sigstoreBundle = await fetchAttestationBundle(this.configRepo, digest);
-        codeMeasurements = await verifySigstoreAttestation(sigstoreBundle, digest, this.configRepo);
-        steps.verifyCode = { status: 'success' };
-      } catch (error) {
-        steps.verifyCode = { status: 'failed', error: (error as Error).message };
+      // Steps 3 and 4: Verify Code and Compare Measurements, stopping at the first matching release
+      let matched: { release: ReleaseCandidate; sigstoreBundle: unknown; codeMeasurements: AttestationMeasurement } | undefined;
+      let codeError: unknown;
+      let compareError: unknown;
+      tracker.start('verifyCode');
+      for (const release of candidates) {
+        let sigstoreBundle: unknown;
+        let codeMeasurements: AttestationMeasurement;
+        try {
+          sigstoreBundle = await fetchAttestationBundle(this.configRepo, release.digest, this.network);
+          codeMeasurements = await verifySigstoreAttestation(sigstoreBundle, release.digest, this.configRepo);
+        } catch (error) {
+          codeError ??= error;
+          continue;
+        }
+
+        tracker.start('compareMeasurements');
+        try {
+          compareMeasurements(codeMeasurements, enclaveVerification.measurement);
+        } catch (error) {
+          compareError ??= error;
+          continue;
+        }
+
+        matched = { release, sigstoreBundle, codeMeasurements };
+        break;
+      }
+
+      if (!matched) {
+        // A mismatch says more than a release that failed to verify; with one candidate there is only one error
+        if (compareError === undefined) {
+          tracker.fail('verifyCode', codeError);
+          this.saveFailedVerificationDocument(steps);
+          throw codeError;
+        }
+        tracker.succeed('verifyCode');
+        tracker.fail('compareMeasurements', compareError);
         this.saveFailedVerificationDocument(steps);
-        throw error;
+        throw compareError;
       }
+      tracker.succeed('verifyCode');
 
-      // Step 4: Compare Measurements
+      // MRTD and RTMR0 are not part of the release, so they are matched against the policy's
+      // hardware or, without one, against Tinfoil's published hardware measurements
+      let hardwareMeasurement: HardwareMeasurement | undefined;
+      let hardwareRelease: HardwareMeasurementsRelease | undefined;
       try {
-        compareMeasurements(codeMeasurements, amdVerification.measurement);
-        steps.compareMeasurements = { status: 'success' };
-      } catch (error) {
-        if (error instanceof FormatMismatchError) {
-          steps.compareMeasurements = { status: 'failed', error: error.message };
-        } else if (error instanceof MeasurementMismatchError) {
-          steps.compareMeasurements = { status: 'failed', error: error.message };
-        } else {
-          steps.compareMeasurements = { status: 'failed', error: (error as Error).message };
+        let trustedHardware = this.policy?.tdx?.hardwareMeasurements;
+        if (!trustedHardware && enclaveVerification.measurement.type === PredicateType.TdxGuestV2) {
+          hardwareRelease = await fetchHardwareMeasurements(this.network);
+          trustedHardware = hardwareRelease.measurements;
         }
+        hardwareMeasurement = matchHardwareMeasurement(trustedHardware, enclaveVerification.measurement);
+      } catch (error) {
+        tracker.fail('compareMeasurements', error);
         this.saveFailedVerificationDocument(steps);
         throw error;
       }
+      tracker.succeed('compareMeasurements');
+      const { release, sigstoreBundle, codeMeasurements } = matched;
 
       // Build successful verification document
-      this.verificationDocument = {
-        configRepo: this.configRepo,
-        enclaveHost: this.enclave,
-        releaseDigest: digest,
-        codeMeasurement: codeMeasurements,
-        enclaveMeasurement: amdVerification,
-        tlsPublicKey: amdVerification.tlsPublicKeyFingerprint || '',
-        hpkePublicKey: amdVerification.hpkePublicKey || '',
-        codeFingerprint: await measurementFingerprint(codeMeasurements),
-        enclaveFingerprint: await measurementFingerprint(amdVerification.measurement),
-        selectedRouterEndpoint: this.enclave,
-        securityVerified: true,
-        steps
-      };
-
-      return amdVerification;
+      this.verificationDocument = await verifiedDocument(
+        {
+          configRepo: this.configRepo,
+          enclaveHost: this.enclave,
+          selectedRouterEndpoint: this.enclave,
+          releaseDigest: release.digest,
+          releaseTag: release.tag,
+          steps,
+        },
+        codeMeasurements,
+        enclaveVerification,
+        hardwareMeasurement
+      );
+      if (this.skippedReleases.length > 0) {
+        this.verificationDocument.skippedReleases = this.skippedReleases;
+      }
+      this.evidenceBundle = createEvidenceBundle(
+        {
+          createdAt,
+          configRepo: this.configRepo,
+          enclaveHost: this.enclave,
+          selectedRouterEndpoint: this.enclave,
+          release,
+          attestation: attestationDoc,
+          sigstoreBundle,
+          ...(hardwareRelease && {
+            hardwareMeasurements: { release: hardwareRelease.release, sigstoreBundle: hardwareRelease.sigstoreBundle },
+          }),
+        },
+        evidence
+      );
+
+      const doc = this.verificationDocument;
+      span.setAttributes({
+        'tinfoil.release.digest': doc.releaseDigest,
+        'tinfoil.measurement.fingerprint': doc.enclaveFingerprint,
+        ...(doc.tlsPublicKey && { 'tinfoil.tls.fingerprint': doc.tlsPublicKey }),
+        ...(doc.hpkePublicKey && { 'tinfoil.hpke.public_key': doc.hpkePublicKey }),
+      });
+
+      return enclaveVerification;
     } catch (error) {
       if (!this.verificationDocument) {
         this.saveFailedVerificationDocument(steps);
@@ -128,11 +348,40 @@ export class Verifier {
       enclaveFingerprint: '',
       selectedRouterEndpoint: this.enclave || '',
       securityVerified: false,
-      steps
+      steps,
+      ...(this.skippedReleases.length > 0 && { skippedReleases: this.skippedReleases }),
     };
   }
 
   getVerificationDocument(): VerificationDocument | undefined {
     return this.verificationDocument;
   }
+
+  /**
+   * Export everything fetched by the last successful verify() as an
+   * evidence bundle, which verifyBundle can check again offline.
+   *
+   * @returns The evidence bundle
+   * @throws Error if the last verification did not succeed
+   */
+  exportBundle(): EvidenceBundle {
+    if (!this.evidenceBundle) {
+      throw new Error('No evidence to export: verification has not succeeded');
+    }
+    return this.evidenceBundle;
+  }
+
+  /**
+   * Record the last successful verify() as a receipt, which can be
+   * serialized, signed with signReceipt and stored with request logs.
+   *
+   * @returns The verification receipt
+   * @throws Error if the last verification did not succeed
+   */
+  exportReceipt(): VerificationReceipt {
+    if (!this.evidenceBundle || !this.verificationDocument?.securityVerified) {
+      throw new Error('No receipt to export: verification has not succeeded');
+    }
+    return createVerificationReceipt(this.verificationDocument, this.evidenceBundle);
+  }
 }
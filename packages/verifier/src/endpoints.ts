@@ -0,0 +1,67 @@
+import { ConfigurationError } from './errors.js';
+
+/**
+ * Base URLs of the services contacted during verification. Each one can be
+ * pointed at a mirror that serves the same paths as the default service.
+ */
+export interface TinfoilEndpoints {
+  githubApi: string;       // GitHub REST API (release metadata and attestations)
+  githubReleases: string;  // GitHub release asset downloads
+  kds: string;             // AMD Key Distribution Service (VCEKs, ASVKs and CRLs)
+  intelPcs: string;        // Intel PCS TDX certification API
+  atc: string;             // Router discovery service
+}
+
+export const DEFAULT_ENDPOINTS: TinfoilEndpoints = {
+  githubApi: 'https://api-github-proxy.tinfoil.sh',
+  githubReleases: 'https://github-proxy.tinfoil.sh',
+  kds: 'https://kds-proxy.tinfoil.sh',
+  intelPcs: 'https://api.trustedservices.intel.com/tdx/certification/v4',
+  atc: 'https://atc.tinfoil.sh',
+};
+
+/**
+ * Where and how verification reaches the network.
+ */
+export interface NetworkOptions {
+  // Overrides for individual endpoints; the rest keep their defaults
+  endpoints?: Partial<TinfoilEndpoints>;
+  // Used for every request made during verification (default: global fetch)
+  fetch?: typeof fetch;
+}
+
+/**
+ * Fill in the endpoints that were not overridden and drop trailing slashes
+ * so paths can be appended directly.
+ *
+ * @param overrides - Endpoints to replace
+ * @returns The complete endpoint configuration
+ * @throws ConfigurationError if an endpoint is not an http(s) URL
+ */
+export function resolveEndpoints(overrides: Partial<TinfoilEndpoints> = {}): TinfoilEndpoints {
+  const endpoints = { ...DEFAULT_ENDPOINTS };
+  for (const [name, value] of Object.entries(overrides) as [keyof TinfoilEndpoints, string | undefined][]) {
+    if (value === undefined) {
+      continue;
+    }
+    let url: URL;
+    try {
+      url = new URL(value);
+    } catch (e) {
+      throw new ConfigurationError(`Invalid ${name} endpoint: ${value}`, { cause: e });
+    }
+    if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+      throw new ConfigurationError(`Invalid ${name} endpoint: ${value} is not an http(s) URL`);
+    }
+    endpoints[name] = value.replace(/\/+$/, '');
+  }
+  return endpoints;
+}
+
+/**
+ * Returns the fetch to use for verification requests. The global fetch is
+ * looked up on every call so that it can be replaced after import.
+ */
+export function networkFetch(network: NetworkOptions = {}): typeof fetch {
+  return network.fetch ?? ((input, init) => fetch(input, init));
+}
@@ -0,0 +1,259 @@
+/**
+ * Errors thrown by the verifier and the secure transports. Each carries a
+ * stable code, so callers can branch on the failure without parsing messages,
+ * and keeps the underlying failure as its cause.
+ */
+
+export type TinfoilErrorCode =
+  | 'ATTESTATION_FAILED'
+  | 'ATTESTATION_FETCH_FAILED'
+  | 'VCEK_FETCH_FAILED'
+  | 'COLLATERAL_FETCH_FAILED'
+  | 'CERTIFICATE_CHAIN_INVALID'
+  | 'REPORT_INVALID'
+  | 'REVOCATION_CHECK_FAILED'
+  | 'RELEASE_FETCH_FAILED'
+  | 'SIGSTORE_VERIFICATION_FAILED'
+  | 'FORMAT_MISMATCH'
+  | 'MEASUREMENT_MISMATCH'
+  | 'ROUTER_DISCOVERY_FAILED'
+  | 'RECEIPT_INVALID'
+  | 'HPKE_KEY_FETCH_FAILED'
+  | 'HPKE_KEY_MISMATCH'
+  | 'TLS_KEY_MISMATCH'
+  | 'EVIDENCE_BUNDLE_INVALID'
+  | 'CONFIGURATION_INVALID'
+  | 'TRANSPORT_INIT_FAILED';
+
+export abstract class TinfoilError extends Error {
+  abstract readonly code: TinfoilErrorCode;
+}
+
+/**
+ * The enclave could not be verified. Subclasses tell which part of the
+ * verification failed.
+ */
+export class AttestationError extends TinfoilError {
+  readonly code: TinfoilErrorCode = 'ATTESTATION_FAILED';
+
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = 'AttestationError';
+  }
+}
+
+/**
+ * The attestation document could not be retrieved from the enclave.
+ */
+export class AttestationFetchError extends AttestationError {
+  readonly code: TinfoilErrorCode = 'ATTESTATION_FETCH_FAILED';
+
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = 'AttestationFetchError';
+  }
+}
+
+/**
+ * The endorsement key certificate (VCEK, or VLEK and ASVK) could not be
+ * retrieved.
+ */
+export class VcekFetchError extends AttestationError {
+  readonly code: TinfoilErrorCode = 'VCEK_FETCH_FAILED';
+
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = 'VcekFetchError';
+  }
+}
+
+/**
+ * The Intel collateral for a TDX quote could not be retrieved.
+ */
+export class CollateralFetchError extends AttestationError {
+  readonly code: TinfoilErrorCode = 'COLLATERAL_FETCH_FAILED';
+
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = 'CollateralFetchError';
+  }
+}
+
+/**
+ * The certificates endorsing the report do not chain to the hardware
+ * vendor's root.
+ */
+export class CertificateChainError extends AttestationError {
+  readonly code: TinfoilErrorCode = 'CERTIFICATE_CHAIN_INVALID';
+
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = 'CertificateChainError';
+  }
+}
+
+/**
+ * The attestation report or quote is malformed, its signature does not
+ * verify, or it does not meet the verification policy.
+ */
+export class ReportValidationError extends AttestationError {
+  readonly code: TinfoilErrorCode = 'REPORT_INVALID';
+
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = 'ReportValidationError';
+  }
+}
+
+export class RevocationError extends AttestationError {
+  readonly code: TinfoilErrorCode = 'REVOCATION_CHECK_FAILED';
+
+  constructor(message: string = 'Certificate revocation check failed', options?: ErrorOptions) {
+    super(message, options);
+    this.name = 'RevocationError';
+  }
+}
+
+/**
+ * The release digest or its Sigstore bundle could not be retrieved from
+ * GitHub.
+ */
+export class ReleaseFetchError extends AttestationError {
+  readonly code: TinfoilErrorCode = 'RELEASE_FETCH_FAILED';
+
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = 'ReleaseFetchError';
+  }
+}
+
+/**
+ * The Sigstore bundle for the release does not verify, or does not attest
+ * to the expected measurements.
+ */
+export class SigstoreVerificationError extends AttestationError {
+  readonly code: TinfoilErrorCode = 'SIGSTORE_VERIFICATION_FAILED';
+
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = 'SigstoreVerificationError';
+  }
+}
+
+export class FormatMismatchError extends AttestationError {
+  readonly code: TinfoilErrorCode = 'FORMAT_MISMATCH';
+
+  constructor(message: string = 'Attestation formats do not match') {
+    super(message);
+    this.name = 'FormatMismatchError';
+  }
+}
+
+export class MeasurementMismatchError extends AttestationError {
+  readonly code: TinfoilErrorCode = 'MEASUREMENT_MISMATCH';
+
+  constructor(message: string = 'Measurements do not match') {
+    super(message);
+    this.name = 'MeasurementMismatchError';
+  }
+}
+
+/**
+ * No usable router could be obtained from the ATC.
+ */
+export class RouterDiscoveryError extends TinfoilError {
+  readonly code: TinfoilErrorCode = 'ROUTER_DISCOVERY_FAILED';
+
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = 'RouterDiscoveryError';
+  }
+}
+
+/**
+ * A verification receipt is malformed or its signature does not verify.
+ */
+export class ReceiptVerificationError extends TinfoilError {
+  readonly code: TinfoilErrorCode = 'RECEIPT_INVALID';
+
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = 'ReceiptVerificationError';
+  }
+}
+
+/**
+ * The enclave's HPKE key configuration could not be retrieved.
+ */
+export class HpkeKeyFetchError extends TinfoilError {
+  readonly code: TinfoilErrorCode = 'HPKE_KEY_FETCH_FAILED';
+
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = 'HpkeKeyFetchError';
+  }
+}
+
+/**
+ * The enclave serves an HPKE key other than the attested one, typically
+ * because it restarted with a new key.
+ */
+export class HpkeKeyMismatchError extends TinfoilError {
+  readonly code: TinfoilErrorCode = 'HPKE_KEY_MISMATCH';
+
+  constructor(readonly expected: string, readonly actual: string) {
+    super(`HPKE public key mismatch. Expected: ${expected}, Got: ${actual}`);
+    this.name = 'HpkeKeyMismatchError';
+  }
+}
+
+/**
+ * The server presented a TLS certificate whose key is not the attested one.
+ */
+export class TlsKeyMismatchError extends TinfoilError {
+  readonly code: TinfoilErrorCode = 'TLS_KEY_MISMATCH';
+
+  constructor(readonly expected: string, readonly actual: string) {
+    super(`Certificate public key fingerprint mismatch. Expected: ${expected}, Got: ${actual}`);
+    this.name = 'TlsKeyMismatchError';
+  }
+}
+
+/**
+ * An evidence bundle is malformed, of an unsupported version, or lacks
+ * evidence its verification needs.
+ */
+export class EvidenceBundleError extends TinfoilError {
+  readonly code: TinfoilErrorCode = 'EVIDENCE_BUNDLE_INVALID';
+
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = 'EvidenceBundleError';
+  }
+}
+
+/**
+ * An option passed to the verifier, such as an endpoint override or a
+ * release selector, is invalid.
+ */
+export class ConfigurationError extends TinfoilError {
+  readonly code: TinfoilErrorCode = 'CONFIGURATION_INVALID';
+
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = 'ConfigurationError';
+  }
+}
+
+/**
+ * The secure transport to a verified enclave could not be set up, for
+ * example because the environment lacks WebCrypto.
+ */
+export class TransportInitError extends TinfoilError {
+  readonly code: TinfoilErrorCode = 'TRANSPORT_INIT_FAILED';
+
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = 'TransportInitError';
+  }
+}
@@ -0,0 +1,109 @@
+import type { AttestationDocument } from './types.js';
+import { ReportValidationError } from './errors.js';
+import { bytesToHex, hexToBytes } from './sev/utils.js';
+
+// Size in bytes of challenge nonces
+export const NONCE_SIZE = 32;
+
+// Prefix of the hashed report_data, so it cannot collide with other uses of the report
+const CHALLENGE_LABEL = 'tinfoil-attestation-challenge-v1';
+
+/**
+ * The keys an attestation report vouches for.
+ */
+export interface AttestedKeys {
+  tlsPublicKeyFingerprint: string;
+  hpkePublicKey: string;
+  freshnessProven: boolean;  // The report was bound to the nonce the client chose
+}
+
+/**
+ * Generate a random nonce for fetchAttestation.
+ *
+ * @returns The hex-encoded nonce
+ */
+export function generateNonce(): string {
+  return bytesToHex(crypto.getRandomValues(new Uint8Array(NONCE_SIZE)));
+}
+
+/**
+ * The report_data an enclave must request when answering a challenge:
+ * SHA-512 over a fixed label, the nonce, the TLS key fingerprint and the
+ * HPKE public key.
+ *
+ * @param nonce - Hex nonce sent by the client
+ * @param tlsPublicKeyFingerprint - Hex SHA-256 fingerprint of the enclave's TLS public key
+ * @param hpkePublicKey - Hex HPKE public key of the enclave
+ * @returns The 64 bytes of report_data
+ * @throws ReportValidationError if a value is not 32 bytes of hex
+ */
+export async function challengeReportData(
+  nonce: string,
+  tlsPublicKeyFingerprint: string,
+  hpkePublicKey: string
+): Promise<Uint8Array> {
+  const label = new TextEncoder().encode(CHALLENGE_LABEL);
+  const parts = [label, ...[nonce, tlsPublicKeyFingerprint, hpkePublicKey].map(hex32)];
+  const data = new Uint8Array(parts.reduce((n, part) => n + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    data.set(part, offset);
+    offset += part.length;
+  }
+  return new Uint8Array(await crypto.subtle.digest('SHA-512', data));
+}
+
+/**
+ * Read the keys a verified report attests to.
+ *
+ * Static documents carry the TLS key fingerprint and the HPKE key in
+ * report_data directly. Documents answering a challenge carry the keys and
+ * the nonce alongside the report, with their hash in report_data.
+ *
+ * @param reportData - The report_data of the verified report
+ * @param doc - The attestation document the report came from
+ * @param expectedNonce - The nonce this client sent, if it sent one
+ * @returns The attested keys, and whether the report is fresh
+ * @throws ReportValidationError if a nonce was sent and not answered, or the binding does not hold
+ */
+export async function attestedKeys(
+  reportData: Uint8Array,
+  doc: AttestationDocument,
+  expectedNonce?: string
+): Promise<AttestedKeys> {
+  if (doc.nonce === undefined) {
+    if (expectedNonce !== undefined) {
+      throw new ReportValidationError('Enclave did not answer the attestation challenge');
+    }
+    return {
+      tlsPublicKeyFingerprint: bytesToHex(reportData.slice(0, 32)),
+      hpkePublicKey: bytesToHex(reportData.slice(32, 64)),
+      freshnessProven: false,
+    };
+  }
+
+  if (expectedNonce !== undefined && doc.nonce !== expectedNonce) {
+    throw new ReportValidationError('Attestation answers a different challenge nonce');
+  }
+  const { tlsPublicKeyFingerprint, hpkePublicKey } = doc;
+  if (tlsPublicKeyFingerprint === undefined || hpkePublicKey === undefined) {
+    throw new ReportValidationError('Challenge attestation does not carry the attested keys');
+  }
+
+  const expected = await challengeReportData(doc.nonce, tlsPublicKeyFingerprint, hpkePublicKey);
+  if (bytesToHex(reportData) !== bytesToHex(expected)) {
+    throw new ReportValidationError('Report data does not bind the challenge nonce and keys');
+  }
+  return {
+    tlsPublicKeyFingerprint,
+    hpkePublicKey,
+    freshnessProven: expectedNonce !== undefined,
+  };
+}
+
+function hex32(value: string): Uint8Array {
+  if (!/^[0-9a-f]{64}$/.test(value)) {
+    throw new ReportValidationError(`Expected 32 bytes of lowercase hex, got ${JSON.stringify(value)}`);
+  }
+  return hexToBytes(value);
+}
@@ -1,8 +1,39 @@
+import { resolveEndpoints, networkFetch } from './endpoints.js';
+import type { NetworkOptions } from './endpoints.js';
+import type { SkippedRelease } from './types.js';
+import { ConfigurationError, ReleaseFetchError } from './errors.js';
+
 export interface Release {
   tag_name: string;
   body: string;
+  draft?: boolean;
+  prerelease?: boolean;
+}
+
+/**
+ * A release whose digest is a candidate for the enclave's code measurement.
+ */
+export interface ReleaseCandidate {
+  tag?: string;    // Unset when the digest was pinned directly
+  digest: string;
 }
 
+export interface ReleaseCandidates {
+  candidates: ReleaseCandidate[];  // In order of preference
+  skipped: SkippedRelease[];       // Releases in the window whose digest could not be resolved
+}
+
+// GitHub caps list endpoints at 100 items per page
+export const MAX_RELEASE_CANDIDATES = 100;
+
+/**
+ * Which releases of the config repo the enclave may be running.
+ */
+export type ReleaseSelector =
+  | { tag: string }       // Only this release
+  | { digest: string }    // Only this digest, without consulting the release list
+  | { latest: number };   // Any of the most recent N releases, newest first
+
 interface GitHubAttestationResponse {
   attestations: Array<{
     bundle: unknown;
@@ -13,20 +44,128 @@ interface GitHubAttestationResponse {
  * Gets the latest release and attestation digest of a repo.
  *
  * @param repo - The GitHub repository in format "owner/repo"
+ * @param network - Endpoints and fetch to use
+ * @returns The digest string
+ * @throws ReleaseFetchError if there's any error fetching or parsing the data
+ */
+export async function fetchLatestDigest(repo: string, network: NetworkOptions = {}): Promise<string> {
+  const release = await fetchRelease(repo, 'latest', network);
+  return releaseDigest(repo, release, network);
+}
+
+/**
+ * Gets the attestation digest of a release by tag.
+ *
+ * @param repo - The GitHub repository in format "owner/repo"
+ * @param tag - The release tag
+ * @param network - Endpoints and fetch to use
  * @returns The digest string
- * @throws Error if there's any error fetching or parsing the data
+ * @throws ReleaseFetchError if there's any error fetching or parsing the data
  */
-export async function fetchLatestDigest(repo: string): Promise<string> {
-  const url = `https://api-github-proxy.tinfoil.sh/repos/${repo}/releases/latest`;
-  const releaseResponse = await fetch(url);
+export async function fetchReleaseDigest(repo: string, tag: string, network: NetworkOptions = {}): Promise<string> {
+  const release = await fetchRelease(repo, `tags/${encodeURIComponent(tag)}`, network);
+  return releaseDigest(repo, release, network);
+}
 
-  if (!releaseResponse.ok) {
-    throw new Error(`Failed to fetch release: ${releaseResponse.status} ${releaseResponse.statusText}`);
+/**
+ * Gets the tags and attestation digests of the most recent published releases,
+ * newest first. Drafts and prereleases are skipped, as with the latest release.
+ * A release whose digest cannot be resolved is skipped rather than failing
+ * the others, and the reason is recorded.
+ *
+ * @param repo - The GitHub repository in format "owner/repo"
+ * @param count - How many releases to consider, at most MAX_RELEASE_CANDIDATES
+ * @param network - Endpoints and fetch to use
+ * @returns Up to count releases, and those that were skipped
+ * @throws ReleaseFetchError if the release list cannot be fetched or no release digest resolves
+ */
+export async function fetchRecentReleaseDigests(
+  repo: string,
+  count: number,
+  network: NetworkOptions = {}
+): Promise<ReleaseCandidates> {
+  const url = `${resolveEndpoints(network.endpoints).githubApi}/repos/${repo}/releases?per_page=${MAX_RELEASE_CANDIDATES}`;
+  const releases = await fetchJson<Release[]>(url, network, 'Failed to fetch releases');
+  const published = releases.filter(release => !release.draft && !release.prerelease).slice(0, count);
+  if (published.length === 0) {
+    throw new ReleaseFetchError(`No published releases found in ${repo}`);
   }
 
-  const responseData: Release = await releaseResponse.json();
-  const tagName = responseData.tag_name;
-  const body = responseData.body;
+  const candidates: ReleaseCandidate[] = [];
+  const skipped: SkippedRelease[] = [];
+  for (const release of published) {
+    try {
+      candidates.push({ tag: release.tag_name, digest: await releaseDigest(repo, release, network) });
+    } catch (e) {
+      skipped.push({ tag: release.tag_name, reason: (e as Error).message });
+    }
+  }
+  if (candidates.length === 0) {
+    const reasons = skipped.map(r => `${r.tag}: ${r.reason}`).join('; ');
+    throw new ReleaseFetchError(`No release digest could be resolved in ${repo} (${reasons})`);
+  }
+  return { candidates, skipped };
+}
+
+/**
+ * Resolve a release selector to the candidate digests to verify, in order of preference.
+ *
+ * @param repo - The GitHub repository in format "owner/repo"
+ * @param selector - Which releases to trust
+ * @param network - Endpoints and fetch to use
+ * @returns The candidate releases, and the releases of a window that were skipped
+ * @throws ReleaseFetchError if the releases cannot be fetched
+ */
+export async function resolveReleaseCandidates(
+  repo: string,
+  selector: ReleaseSelector,
+  network: NetworkOptions = {}
+): Promise<ReleaseCandidates> {
+  if ('digest' in selector) {
+    return { candidates: [{ digest: selector.digest.toLowerCase() }], skipped: [] };
+  }
+  if ('tag' in selector) {
+    return { candidates: [{ tag: selector.tag, digest: await fetchReleaseDigest(repo, selector.tag, network) }], skipped: [] };
+  }
+  if (selector.latest === 1) {
+    // The latest release endpoint resolves the same release without listing them all
+    const release = await fetchRelease(repo, 'latest', network);
+    return { candidates: [{ tag: release.tag_name, digest: await releaseDigest(repo, release, network) }], skipped: [] };
+  }
+  return fetchRecentReleaseDigests(repo, selector.latest, network);
+}
+
+/**
+ * Check that a release selector names exactly one valid way of choosing releases.
+ *
+ * @param selector - The selector to check
+ * @throws ConfigurationError if the selector is malformed
+ */
+export function validateReleaseSelector(selector: ReleaseSelector): void {
+  const kinds = (['tag', 'digest', 'latest'] as const).filter(kind => kind in selector);
+  if (kinds.length !== 1) {
+    throw new ConfigurationError('Release selector must set exactly one of tag, digest or latest');
+  }
+  if ('digest' in selector && !/^[a-fA-F0-9]{64}$/.test(selector.digest)) {
+    throw new ConfigurationError(`Pinned release digest must be 64 hex characters, got ${selector.digest}`);
+  }
+  if ('tag' in selector && !selector.tag) {
+    throw new ConfigurationError('Pinned release tag must not be empty');
+  }
+  if ('latest' in selector &&
+      (!Number.isInteger(selector.latest) || selector.latest < 1 || selector.latest > MAX_RELEASE_CANDIDATES)) {
+    throw new ConfigurationError(`Release count must be an integer between 1 and ${MAX_RELEASE_CANDIDATES}, got ${selector.latest}`);
+  }
+}
+
+async function fetchRelease(repo: string, path: string, network: NetworkOptions): Promise<Release> {
+  const url = `${resolveEndpoints(network.endpoints).githubApi}/repos/${repo}/releases/${path}`;
+  return fetchJson<Release>(url, network, 'Failed to fetch release');
+}
+
+async function releaseDigest(repo: string, release: Release, network: NetworkOptions): Promise<string> {
+  const tagName = release.tag_name;
+  const body = release.body ?? '';
 
   // Backwards compatibility for old EIF releases
   const eifRegex = /EIF hash: ([a-fA-F0-9]{64})/;
@@ -43,14 +182,13 @@ export async function fetchLatestDigest(repo: string): Promise<string> {
   }
 
   // Fallback option: fetch digest from github special endpoint
-  const digestUrl = `https://github-proxy.tinfoil.sh/${repo}/releases/download/${tagName}/tinfoil.hash`;
-  const response = await fetch(digestUrl);
-
-  if (!response.ok) {
-    throw new Error(`Failed to fetch attestation digest: ${response.status} ${response.statusText}`);
+  const digestUrl = `${resolveEndpoints(network.endpoints).githubReleases}/${repo}/releases/download/${tagName}/tinfoil.hash`;
+  const response = await fetchOk(digestUrl, network, 'Failed to fetch attestation digest');
+  try {
+    return (await response.text()).trim();
+  } catch (e) {
+    throw new ReleaseFetchError(`Failed to fetch attestation digest: ${(e as Error).message}`, { cause: e });
   }
-
-  return (await response.text()).trim();
 }
 
 /**
@@ -58,31 +196,39 @@ export async function fetchLatestDigest(repo: string): Promise<string> {
  *
  * @param repo - The GitHub repository in format "owner/repo"
  * @param digest - The EIF hash/digest
+ * @param network - Endpoints and fetch to use
  * @returns The sigstore bundle JSON object
- * @throws Error if there's any error fetching or parsing the data
+ * @throws ReleaseFetchError if there's any error fetching or parsing the data
  */
-export async function fetchAttestationBundle(repo: string, digest: string): Promise<unknown> {
-  const url = `https://api-github-proxy.tinfoil.sh/repos/${repo}/attestations/sha256:${digest}`;
+export async function fetchAttestationBundle(repo: string, digest: string, network: NetworkOptions = {}): Promise<unknown> {
+  const url = `${resolveEndpoints(network.endpoints).githubApi}/repos/${repo}/attestations/sha256:${digest}`;
 
-  let bundleResponse;
-  try {
-    bundleResponse = await fetch(url);
-    if (!bundleResponse.ok) {
-      throw new Error(`HTTP ${bundleResponse.status} ${bundleResponse.statusText}`);
-    }
-  } catch (e) {
-    throw new Error(`Error fetching attestation from ${url}`, { cause: e });
+  const responseData = await fetchJson<GitHubAttestationResponse>(url, network, `Error fetching attestation from ${url}`);
+
+  if (!responseData.attestations?.[0]?.bundle) {
+    throw new ReleaseFetchError(`Invalid attestation response format from ${url}. Response: ${JSON.stringify(responseData)}`);
   }
+  return responseData.attestations[0].bundle;
+}
 
-  let responseData: GitHubAttestationResponse;
+async function fetchOk(url: string, network: NetworkOptions, failure: string): Promise<Response> {
+  let response: Response;
   try {
-    responseData = await bundleResponse.json();
+    response = await networkFetch(network)(url);
   } catch (e) {
-    throw new Error(`Error decoding JSON response from ${url}`, { cause: e });
+    throw new ReleaseFetchError(`${failure}: ${(e as Error).message}`, { cause: e });
+  }
+  if (!response.ok) {
+    throw new ReleaseFetchError(`${failure}: ${response.status} ${response.statusText}`);
   }
+  return response;
+}
 
-  if (!responseData.attestations?.[0]?.bundle) {
-    throw new Error(`Invalid attestation response format from ${url}. Response: ${JSON.stringify(responseData)}`);
+async function fetchJson<T>(url: string, network: NetworkOptions, failure: string): Promise<T> {
+  const response = await fetchOk(url, network, failure);
+  try {
+    return await response.json();
+  } catch (e) {
+    throw new ReleaseFetchError(`${failure}: invalid JSON response`, { cause: e });
   }
-  return responseData.attestations[0].bundle;
 }
@@ -0,0 +1,34 @@
+import { fetchAttestationBundle, resolveReleaseCandidates } from './github.js';
+import type { ReleaseCandidate } from './github.js';
+import { verifyHardwareMeasurements } from './sigstore.js';
+import type { HardwareMeasurement } from './types.js';
+import type { NetworkOptions } from './endpoints.js';
+
+// Repo whose releases attest to the MRTD and RTMR0 of Tinfoil's TDX platforms
+export const HARDWARE_MEASUREMENTS_REPO = 'tinfoilsh/hardware-measurements';
+
+/**
+ * A verified release of the hardware measurements, with the bundle it was
+ * verified from so it can be checked again offline.
+ */
+export interface HardwareMeasurementsRelease {
+  release: ReleaseCandidate;
+  sigstoreBundle: unknown;
+  measurements: HardwareMeasurement[];
+}
+
+/**
+ * Fetch and verify the latest release of Tinfoil's hardware measurements,
+ * the same way the code measurements of a config repo are.
+ *
+ * @param network - Endpoints and fetch to use
+ * @returns The trusted MRTD and RTMR0 pairs and the release they come from
+ * @throws ReleaseFetchError if the release cannot be fetched
+ * @throws SigstoreVerificationError if the release does not verify
+ */
+export async function fetchHardwareMeasurements(network: NetworkOptions = {}): Promise<HardwareMeasurementsRelease> {
+  const { candidates: [release] } = await resolveReleaseCandidates(HARDWARE_MEASUREMENTS_REPO, { latest: 1 }, network);
+  const sigstoreBundle = await fetchAttestationBundle(HARDWARE_MEASUREMENTS_REPO, release.digest, network);
+  const measurements = await verifyHardwareMeasurements(sigstoreBundle, release.digest, HARDWARE_MEASUREMENTS_REPO);
+  return { release, sigstoreBundle, measurements };
+}
@@ -1,7 +1,34 @@
 export { verifyAttestation, fetchAttestation } from './attestation.js';
+export { verifyAttestationWithEvidence } from './attestation.js';
+export type { VerifyAttestationOptions, AttestationEvidence, VerifiedAttestation } from './attestation.js';
+export { EVIDENCE_BUNDLE_VERSION, verifyBundle, parseEvidenceBundle, validateEvidenceBundle } from './bundle.js';
+export type { EvidenceBundle, VerifyBundleOptions } from './bundle.js';
+export { RECEIPT_VERSION, RECEIPT_SCHEMA, RECEIPT_JWS_TYPE, createVerificationReceipt, serializeReceipt, receiptDigest, validateVerificationReceipt, parseVerificationReceipt, signReceipt, verifyReceipt } from './receipt.js';
+export type { VerificationReceipt, ReceiptSigningKey } from './receipt.js';
+export { VERIFIER_VERSION } from './version.js';
+export { NONCE_SIZE, generateNonce, challengeReportData } from './freshness.js';
+export type { VlekOptions, ChainCertificates } from './sev/cert-chain.js';
+export type { RevocationOptions, CrlFetcher } from './sev/crl.js';
+export type { EndorsementKeyType, SevSnpPlatformEvidence, EndorsementKeyExtensions, FirmwareVersion, TCBParts, SnpPolicy, SnpPlatformInfo, SignerInfo } from './sev/types.js';
 export { Verifier } from './client.js';
-export { getRouterAddress } from './router.js';
-export { fetchLatestDigest, fetchAttestationBundle } from './github.js';
-export { PredicateType, compareMeasurements, measurementFingerprint, AttestationError, FormatMismatchError, MeasurementMismatchError } from './types.js';
-export type { AttestationDocument, AttestationMeasurement, AttestationResponse, VerificationDocument, VerificationStepState, HardwareMeasurement } from './types.js';
+export { Report } from './sev/report.js';
+export type { ReportJSON } from './sev/report.js';
+export { MemoryCertificateCache, FileCertificateCache, IndexedDbCertificateCache, LocalStorageCertificateCache } from './cache.js';
+export type { CertificateCache, CertificateCacheOptions } from './cache.js';
+export { VERIFICATION_POLICY_VERSION, VERIFICATION_POLICY_SCHEMA, parseVerificationPolicy, validateVerificationPolicy } from './policy.js';
+export type { VerificationPolicy, SevSnpPolicy, TdxPolicy, ProductTcbs } from './policy.js';
+export { DEFAULT_ENDPOINTS, resolveEndpoints } from './endpoints.js';
+export type { TinfoilEndpoints, NetworkOptions } from './endpoints.js';
+export { DEFAULT_ALLOWED_ROUTERS, discoverRouters, fetchRouter, fetchRouters, selectRouters, shuffleByCapacity, matchesRouterPattern, getRouterAddress } from './router.js';
+export type { RouterInfo, RouterPlatform, RouterPreferences, RouterPattern, RouterDiscoveryOptions, RouterDiscovery } from './router.js';
+export { fetchLatestDigest, fetchReleaseDigest, fetchRecentReleaseDigests, fetchAttestationBundle, resolveReleaseCandidates, MAX_RELEASE_CANDIDATES } from './github.js';
+export type { Release, ReleaseCandidate, ReleaseCandidates, ReleaseSelector } from './github.js';
+export { HARDWARE_MEASUREMENTS_REPO, fetchHardwareMeasurements } from './hardware.js';
+export type { HardwareMeasurementsRelease } from './hardware.js';
+export { PredicateType, compareMeasurements, matchHardwareMeasurement, measurementFingerprint } from './types.js';
+export { TinfoilError, AttestationError, AttestationFetchError, VcekFetchError, CollateralFetchError, CertificateChainError, ReportValidationError, RevocationError, ReleaseFetchError, SigstoreVerificationError, FormatMismatchError, MeasurementMismatchError, RouterDiscoveryError, ReceiptVerificationError, HpkeKeyFetchError, HpkeKeyMismatchError, TlsKeyMismatchError, EvidenceBundleError, ConfigurationError, TransportInitError } from './errors.js';
+export type { TinfoilErrorCode } from './errors.js';
+export type { AttestationDocument, AttestationMeasurement, AttestationResponse, TdxMeasurement, VerificationDocument, VerificationStepState, HardwareMeasurement, VerificationHistoryEntry, RejectedRouter, SkippedRelease, VerificationStep, VerificationProgressEvent, VerificationProgressListener } from './types.js';
 export type { VerifierOptions } from './client.js';
+export { withSpan, failSpan } from './telemetry.js';
+export type { TracedSpanOptions } from './telemetry.js';
@@ -0,0 +1,232 @@
+import type { ValidationOptions } from './sev/validation.js';
+import { defaultValidationOptionsForProduct } from './sev/validation.js';
+import type { SnpPolicy, SnpPlatformInfo, TCBParts } from './sev/types.js';
+import { hexToBytes } from './sev/utils.js';
+import { schemaErrors } from './schema.js';
+import type { HardwareMeasurement } from './types.js';
+
+export const VERIFICATION_POLICY_VERSION = 1;
+
+/**
+ * TCB floors by the product line of the reporting chip. TCB values are only
+ * comparable within a product line, so each one is set separately.
+ */
+export type ProductTcbs = Partial<Record<'Milan' | 'Genoa' | 'Turin', TCBParts>>;
+
+/**
+ * SEV-SNP requirements in a verification policy. Fields that are left out
+ * keep the library defaults; fields that are present replace them.
+ */
+export interface SevSnpPolicy {
+  minimumTcb?: ProductTcbs;
+  minimumLaunchTcb?: ProductTcbs;
+  guestPolicy?: Partial<SnpPolicy>;
+  platformInfo?: Partial<SnpPlatformInfo>;
+  minimumBuild?: number;
+  minimumVersion?: string;   // Firmware API version as "major.minor"
+  minimumGuestSvn?: number;
+  chipIds?: string[];        // Hex CHIP_ID allowlist (64 bytes each)
+  trustedCspIds?: string[];
+}
+
+/**
+ * TDX requirements in a verification policy.
+ */
+export interface TdxPolicy {
+  hardwareMeasurements?: HardwareMeasurement[];  // Trusted MRTD and RTMR0 pairs; TDX enclaves are rejected without any
+}
+
+/**
+ * Versioned, JSON-serializable verification policy.
+ *
+ * Policies are meant to be kept as reviewed files and loaded with
+ * parseVerificationPolicy, which checks them against VERIFICATION_POLICY_SCHEMA.
+ */
+export interface VerificationPolicy {
+  version: typeof VERIFICATION_POLICY_VERSION;
+  configRepos?: string[];    // Config repos the verifier may be pointed at
+  sevSnp?: SevSnpPolicy;
+  tdx?: TdxPolicy;
+}
+
+const tcbSchema = {
+  type: 'object',
+  additionalProperties: false,
+  required: ['blSpl', 'teeSpl', 'snpSpl', 'ucodeSpl'],
+  properties: {
+    blSpl: { type: 'integer', minimum: 0, maximum: 255 },
+    teeSpl: { type: 'integer', minimum: 0, maximum: 255 },
+    snpSpl: { type: 'integer', minimum: 0, maximum: 255 },
+    ucodeSpl: { type: 'integer', minimum: 0, maximum: 255 },
+    fmcSpl: { type: 'integer', minimum: 0, maximum: 255 },
+  },
+} as const;
+
+const productTcbsSchema = {
+  type: 'object',
+  additionalProperties: false,
+  properties: { Milan: tcbSchema, Genoa: tcbSchema, Turin: tcbSchema },
+} as const;
+
+// A number from 0 to 255, as the firmware API major and minor versions are bytes
+const byteVersionPart = '(25[0-5]|2[0-4][0-9]|1[0-9]{2}|[1-9]?[0-9])';
+
+const tdxRegisterSchema = { type: 'string', pattern: '^[0-9a-fA-F]{96}$' } as const;
+
+const booleans = (...names: string[]) =>
+  Object.fromEntries(names.map(name => [name, { type: 'boolean' }]));
+
+/**
+ * JSON Schema (draft 2020-12) for version 1 verification policies.
+ */
+export const VERIFICATION_POLICY_SCHEMA = {
+  $schema: 'https://json-schema.org/draft/2020-12/schema',
+  $id: 'https://tinfoil.sh/schemas/verification-policy/v1.json',
+  title: 'Tinfoil verification policy',
+  type: 'object',
+  additionalProperties: false,
+  required: ['version'],
+  properties: {
+    version: { const: VERIFICATION_POLICY_VERSION },
+    configRepos: {
+      type: 'array',
+      items: { type: 'string', pattern: '^[A-Za-z0-9_.-]+/[A-Za-z0-9_.-]+$' },
+    },
+    sevSnp: {
+      type: 'object',
+      additionalProperties: false,
+      properties: {
+        minimumTcb: productTcbsSchema,
+        minimumLaunchTcb: productTcbsSchema,
+        guestPolicy: {
+          type: 'object',
+          additionalProperties: false,
+          properties: {
+            abiMajor: { type: 'integer', minimum: 0, maximum: 255 },
+            abiMinor: { type: 'integer', minimum: 0, maximum: 255 },
+            ...booleans('smt', 'migrateMa', 'debug', 'singleSocket', 'cxlAllowed', 'memAes256Xts',
+              'raplDis', 'ciphertextHidingDram', 'pageSwapDisabled'),
+          },
+        },
+        platformInfo: {
+          type: 'object',
+          additionalProperties: false,
+          properties: booleans('smtEnabled', 'tsmeEnabled', 'eccEnabled', 'raplDisabled',
+            'ciphertextHidingDramEnabled', 'aliasCheckComplete', 'tioEnabled'),
+        },
+        minimumBuild: { type: 'integer', minimum: 0, maximum: 255 },
+        minimumVersion: { type: 'string', pattern: `^${byteVersionPart}\\.${byteVersionPart}$` },
+        minimumGuestSvn: { type: 'integer', minimum: 0, maximum: 4294967295 },
+        chipIds: {
+          type: 'array',
+          items: { type: 'string', pattern: '^[0-9a-fA-F]{128}$' },
+        },
+        trustedCspIds: {
+          type: 'array',
+          items: { type: 'string' },
+        },
+      },
+    },
+    tdx: {
+      type: 'object',
+      additionalProperties: false,
+      properties: {
+        hardwareMeasurements: {
+          type: 'array',
+          items: {
+            type: 'object',
+            additionalProperties: false,
+            required: ['MRTD', 'RTMR0'],
+            properties: {
+              ID: { type: 'string' },
+              MRTD: tdxRegisterSchema,
+              RTMR0: tdxRegisterSchema,
+            },
+          },
+        },
+      },
+    },
+  },
+} as const;
+
+/**
+ * Check a decoded policy document against VERIFICATION_POLICY_SCHEMA.
+ *
+ * @param doc - The decoded JSON policy
+ * @returns The policy, typed
+ * @throws Error listing every schema violation
+ */
+export function validateVerificationPolicy(doc: unknown): VerificationPolicy {
+  const errors = schemaErrors(doc, VERIFICATION_POLICY_SCHEMA, '$');
+  if (errors.length > 0) {
+    throw new Error(`Invalid verification policy: ${errors.join('; ')}`);
+  }
+  return doc as VerificationPolicy;
+}
+
+/**
+ * Parse and validate a JSON verification policy.
+ *
+ * @param json - The policy file contents
+ * @returns The validated policy
+ * @throws Error if the JSON is malformed or does not match the schema
+ */
+export function parseVerificationPolicy(json: string): VerificationPolicy {
+  let doc: unknown;
+  try {
+    doc = JSON.parse(json);
+  } catch (e) {
+    throw new Error('Failed to parse verification policy', { cause: e });
+  }
+  return validateVerificationPolicy(doc);
+}
+
+/**
+ * Build SEV-SNP validation options from a policy, starting from the
+ * defaults for the report's product line.
+ *
+ * @param policy - A validated verification policy
+ * @param productName - The product name decoded from the report
+ * @returns Validation options for validateReport
+ */
+export function sevValidationOptionsFromPolicy(policy: VerificationPolicy, productName: string): ValidationOptions {
+  const defaults = defaultValidationOptionsForProduct(productName);
+  const snp = policy.sevSnp;
+  if (!snp) {
+    return defaults;
+  }
+
+  const options: ValidationOptions = { ...defaults };
+  const minimumTcb = snp.minimumTcb?.[productName as keyof ProductTcbs];
+  const minimumLaunchTcb = snp.minimumLaunchTcb?.[productName as keyof ProductTcbs];
+  if (minimumTcb) options.minimumTcb = minimumTcb;
+  if (minimumLaunchTcb) options.minimumLaunchTcb = minimumLaunchTcb;
+  if (snp.guestPolicy && defaults.guestPolicy) {
+    options.guestPolicy = { ...defaults.guestPolicy, ...snp.guestPolicy };
+  }
+  if (snp.platformInfo && defaults.platformInfo) {
+    options.platformInfo = { ...defaults.platformInfo, ...snp.platformInfo };
+  }
+  if (snp.minimumBuild !== undefined) options.minimumBuild = snp.minimumBuild;
+  if (snp.minimumVersion !== undefined) {
+    const [major, minor] = snp.minimumVersion.split('.').map(Number);
+    options.minimumVersion = (major << 8) | minor;
+  }
+  if (snp.minimumGuestSvn !== undefined) options.minimumGuestSvn = snp.minimumGuestSvn;
+  if (snp.chipIds) options.trustedChipIds = snp.chipIds.map(hexToBytes);
+  if (snp.trustedCspIds) options.trustedCspIds = snp.trustedCspIds;
+  return options;
+}
+
+/**
+ * Check that a config repo is allowed by the policy.
+ *
+ * @param policy - A validated verification policy
+ * @param configRepo - The config repo the verifier is pointed at
+ * @throws Error if the policy restricts config repos and this one is not listed
+ */
+export function checkConfigRepo(policy: VerificationPolicy, configRepo: string): void {
+  if (policy.configRepos && !policy.configRepos.includes(configRepo)) {
+    throw new Error(`Config repo ${configRepo} is not allowed by the verification policy`);
+  }
+}
@@ -0,0 +1,354 @@
+import type { AttestationDocument, AttestationMeasurement, VerificationDocument } from './types.js';
+import type { EndorsementKeyType } from './sev/types.js';
+import type { EvidenceBundle } from './bundle.js';
+import { schemaErrors } from './schema.js';
+import { ReceiptVerificationError } from './errors.js';
+import { bytesToBase64, base64ToBytes, bytesToHex } from './sev/utils.js';
+import { VERIFIER_VERSION } from './version.js';
+
+export const RECEIPT_VERSION = 1;
+
+// JWS "typ" header of signed receipts
+export const RECEIPT_JWS_TYPE = 'tinfoil-receipt+jws';
+
+/**
+ * Portable record of a successful verification: which enclave was attested,
+ * which release it runs, and the keys the connection to it was pinned to.
+ *
+ * Receipts are serialized as canonical JSON (sorted keys, no whitespace) so
+ * that their bytes, digest and signature are stable.
+ */
+export interface VerificationReceipt {
+  version: typeof RECEIPT_VERSION;
+  issuedAt: string;                       // When the receipt was created (ISO 8601)
+  attestedAt: string;                     // When the attestation was fetched (ISO 8601)
+  sdk: { name: string; version: string }; // Library that performed the verification
+  configRepo: string;
+  enclaveHost: string;
+  selectedRouterEndpoint: string;
+  releaseDigest: string;
+  releaseTag?: string;
+  codeMeasurement: AttestationMeasurement;
+  codeFingerprint: string;
+  enclaveMeasurement: AttestationMeasurement;
+  enclaveFingerprint: string;
+  tlsPublicKeyFingerprint: string;
+  hpkePublicKey: string;
+  endorsementKey?: EndorsementKeyType;
+  freshnessProven?: true;                 // Set when the report answered the verifier's nonce
+  attestation: AttestationDocument;       // The report or quote as served by the enclave
+}
+
+/**
+ * Key used to sign receipts.
+ */
+export interface ReceiptSigningKey {
+  privateKey: CryptoKey;  // ECDSA P-256 or P-384, or Ed25519
+  keyId?: string;         // Sent as the JWS "kid" header
+}
+
+const hex = { type: 'string', pattern: '^[0-9a-f]+$' } as const;
+const timestamp = { type: 'string', pattern: '^\\d{4}-\\d{2}-\\d{2}T\\d{2}:\\d{2}:\\d{2}(\\.\\d+)?Z$' } as const;
+
+const measurementSchema = {
+  type: 'object',
+  additionalProperties: false,
+  required: ['type', 'registers'],
+  properties: {
+    type: { type: 'string' },
+    registers: { type: 'array', items: hex },
+    tdxMeasurement: {
+      type: 'object',
+      additionalProperties: false,
+      required: ['rtmr1', 'rtmr2'],
+      properties: { rtmr1: hex, rtmr2: hex },
+    },
+  },
+} as const;
+
+/**
+ * JSON Schema (draft 2020-12) for version 1 verification receipts.
+ */
+export const RECEIPT_SCHEMA = {
+  $schema: 'https://json-schema.org/draft/2020-12/schema',
+  $id: 'https://tinfoil.sh/schemas/verification-receipt/v1.json',
+  title: 'Tinfoil verification receipt',
+  type: 'object',
+  additionalProperties: false,
+  required: [
+    'version', 'issuedAt', 'attestedAt', 'sdk', 'configRepo', 'enclaveHost', 'selectedRouterEndpoint',
+    'releaseDigest', 'codeMeasurement', 'codeFingerprint', 'enclaveMeasurement', 'enclaveFingerprint',
+    'tlsPublicKeyFingerprint', 'hpkePublicKey', 'attestation',
+  ],
+  properties: {
+    version: { const: RECEIPT_VERSION },
+    issuedAt: timestamp,
+    attestedAt: timestamp,
+    sdk: {
+      type: 'object',
+      additionalProperties: false,
+      required: ['name', 'version'],
+      properties: { name: { type: 'string' }, version: { type: 'string' } },
+    },
+    configRepo: { type: 'string', pattern: '^[A-Za-z0-9_.-]+/[A-Za-z0-9_.-]+$' },
+    enclaveHost: { type: 'string' },
+    selectedRouterEndpoint: { type: 'string' },
+    releaseDigest: { type: 'string', pattern: '^[0-9a-f]{64}$' },
+    releaseTag: { type: 'string' },
+    codeMeasurement: measurementSchema,
+    codeFingerprint: hex,
+    enclaveMeasurement: measurementSchema,
+    enclaveFingerprint: hex,
+    tlsPublicKeyFingerprint: hex,
+    hpkePublicKey: hex,
+    endorsementKey: { type: 'string', pattern: '^(VCEK|VLEK)$' },
+    freshnessProven: { const: true },
+    attestation: {
+      type: 'object',
+      additionalProperties: false,
+      required: ['format', 'body'],
+      properties: {
+        format: { type: 'string' },
+        body: { type: 'string' },
+        vlekCertificate: { type: 'string' },
+        nonce: hex,
+        tlsPublicKeyFingerprint: hex,
+        hpkePublicKey: hex,
+      },
+    },
+  },
+} as const;
+
+/**
+ * Build a receipt from a successful verification.
+ *
+ * @param doc - The verification document
+ * @param bundle - The evidence the document was verified from
+ * @param issuedAt - Time to record as the receipt's creation (default: now)
+ * @returns The receipt
+ * @throws Error if the document does not record a successful verification
+ */
+export function createVerificationReceipt(
+  doc: VerificationDocument,
+  bundle: EvidenceBundle,
+  issuedAt: Date = new Date()
+): VerificationReceipt {
+  if (!doc.securityVerified) {
+    throw new Error('Cannot create a receipt for a failed verification');
+  }
+  const { attestation } = bundle;
+  return {
+    version: RECEIPT_VERSION,
+    issuedAt: issuedAt.toISOString(),
+    attestedAt: bundle.createdAt,
+    sdk: { name: '@tinfoilsh/verifier', version: VERIFIER_VERSION },
+    configRepo: doc.configRepo,
+    enclaveHost: doc.enclaveHost,
+    selectedRouterEndpoint: doc.selectedRouterEndpoint,
+    releaseDigest: doc.releaseDigest,
+    ...(doc.releaseTag && { releaseTag: doc.releaseTag }),
+    codeMeasurement: copyMeasurement(doc.codeMeasurement),
+    codeFingerprint: doc.codeFingerprint,
+    enclaveMeasurement: copyMeasurement(doc.enclaveMeasurement.measurement),
+    enclaveFingerprint: doc.enclaveFingerprint,
+    tlsPublicKeyFingerprint: doc.tlsPublicKey,
+    hpkePublicKey: doc.hpkePublicKey,
+    ...(doc.endorsementKey && { endorsementKey: doc.endorsementKey }),
+    ...(doc.freshnessProven && { freshnessProven: true }),
+    attestation: {
+      format: attestation.format,
+      body: attestation.body,
+      ...(attestation.vlekCertificate && { vlekCertificate: attestation.vlekCertificate }),
+      ...(attestation.nonce && {
+        nonce: attestation.nonce,
+        tlsPublicKeyFingerprint: attestation.tlsPublicKeyFingerprint,
+        hpkePublicKey: attestation.hpkePublicKey,
+      }),
+    },
+  };
+}
+
+/**
+ * Serialize a receipt as canonical JSON.
+ */
+export function serializeReceipt(receipt: VerificationReceipt): string {
+  return canonicalJson(receipt);
+}
+
+/**
+ * SHA-256 of the receipt's canonical JSON, short enough to store alongside
+ * each request made over the verified connection.
+ *
+ * @returns The hex-encoded digest
+ */
+export async function receiptDigest(receipt: VerificationReceipt): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(serializeReceipt(receipt)));
+  return bytesToHex(new Uint8Array(digest));
+}
+
+/**
+ * Check the shape of a decoded receipt against RECEIPT_SCHEMA.
+ *
+ * @param doc - The decoded JSON receipt
+ * @returns The receipt, typed
+ * @throws ReceiptVerificationError listing every schema violation
+ */
+export function validateVerificationReceipt(doc: unknown): VerificationReceipt {
+  const errors = schemaErrors(doc, RECEIPT_SCHEMA, '$');
+  if (errors.length > 0) {
+    throw new ReceiptVerificationError(`Invalid verification receipt: ${errors.join('; ')}`);
+  }
+  return doc as VerificationReceipt;
+}
+
+/**
+ * Parse and validate a JSON receipt.
+ *
+ * @param json - The receipt's JSON
+ * @returns The validated receipt
+ * @throws ReceiptVerificationError if the JSON is malformed or does not match the schema
+ */
+export function parseVerificationReceipt(json: string): VerificationReceipt {
+  let doc: unknown;
+  try {
+    doc = JSON.parse(json);
+  } catch (e) {
+    throw new ReceiptVerificationError('Failed to parse verification receipt', { cause: e });
+  }
+  return validateVerificationReceipt(doc);
+}
+
+/**
+ * Sign a receipt as a JWS in compact serialization, with the receipt's
+ * canonical JSON as payload.
+ *
+ * @param receipt - The receipt to sign
+ * @param key - The signing key
+ * @returns The JWS
+ * @throws Error if the key type is not supported
+ */
+export async function signReceipt(receipt: VerificationReceipt, key: ReceiptSigningKey): Promise<string> {
+  const { alg, params } = jwsAlgorithm(key.privateKey);
+  const header = base64UrlEncode(canonicalJson({ alg, typ: RECEIPT_JWS_TYPE, ...(key.keyId && { kid: key.keyId }) }));
+  const payload = base64UrlEncode(serializeReceipt(receipt));
+  const signature = await crypto.subtle.sign(params, key.privateKey, new TextEncoder().encode(`${header}.${payload}`));
+  return `${header}.${payload}.${base64UrlEncode(new Uint8Array(signature))}`;
+}
+
+/**
+ * Verify a signed receipt and return its contents.
+ *
+ * Only the signature and the receipt's format are checked: the attestation
+ * inside can be re-verified with verifyAttestation.
+ *
+ * @param jws - The receipt as returned by signReceipt
+ * @param publicKey - Public key matching the signing key
+ * @returns The receipt
+ * @throws ReceiptVerificationError if the signature does not verify or the receipt is invalid
+ */
+export async function verifyReceipt(jws: string, publicKey: CryptoKey): Promise<VerificationReceipt> {
+  const parts = jws.split('.');
+  if (parts.length !== 3) {
+    throw new ReceiptVerificationError('Invalid receipt: not a compact JWS');
+  }
+  const [header, payload, signature] = parts;
+
+  let protectedHeader: Record<string, unknown>;
+  let json: string;
+  let signatureBytes: Uint8Array;
+  try {
+    protectedHeader = JSON.parse(base64UrlDecodeText(header));
+    json = base64UrlDecodeText(payload);
+    signatureBytes = base64UrlDecode(signature);
+  } catch (e) {
+    throw new ReceiptVerificationError('Invalid receipt: malformed JWS', { cause: e });
+  }
+
+  let expected: ReturnType<typeof jwsAlgorithm>;
+  try {
+    expected = jwsAlgorithm(publicKey);
+  } catch (e) {
+    throw new ReceiptVerificationError((e as Error).message, { cause: e });
+  }
+  // The algorithm comes from the caller's key, never from the token
+  if (protectedHeader.alg !== expected.alg) {
+    throw new ReceiptVerificationError(`Receipt is signed with ${protectedHeader.alg}, but the key uses ${expected.alg}`);
+  }
+  if (protectedHeader.typ !== RECEIPT_JWS_TYPE) {
+    throw new ReceiptVerificationError(`Unexpected receipt type: ${protectedHeader.typ}`);
+  }
+
+  const valid = await crypto.subtle.verify(
+    expected.params,
+    publicKey,
+    signatureBytes as Uint8Array<ArrayBuffer>,
+    new TextEncoder().encode(`${header}.${payload}`)
+  );
+  if (!valid) {
+    throw new ReceiptVerificationError('Receipt signature does not verify');
+  }
+
+  const receipt = parseVerificationReceipt(json);
+  if (serializeReceipt(receipt) !== json) {
+    throw new ReceiptVerificationError('Receipt payload is not canonical JSON');
+  }
+  return receipt;
+}
+
+function copyMeasurement(m: AttestationMeasurement): AttestationMeasurement {
+  return {
+    type: m.type,
+    registers: [...m.registers],
+    ...(m.tdxMeasurement && { tdxMeasurement: { rtmr1: m.tdxMeasurement.rtmr1, rtmr2: m.tdxMeasurement.rtmr2 } }),
+  };
+}
+
+/**
+ * JSON with object keys sorted and no whitespace (RFC 8785 for the values
+ * receipts contain). Properties set to undefined are left out.
+ */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (typeof value === 'object' && value !== null) {
+    const record = value as Record<string, unknown>;
+    const members = Object.keys(record)
+      .filter(name => record[name] !== undefined)
+      .sort()
+      .map(name => `${JSON.stringify(name)}:${canonicalJson(record[name])}`);
+    return `{${members.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function jwsAlgorithm(key: CryptoKey): { alg: string; params: AlgorithmIdentifier | EcdsaParams } {
+  const algorithm = key.algorithm as EcKeyAlgorithm;
+  if (algorithm.name === 'ECDSA' && algorithm.namedCurve === 'P-256') {
+    return { alg: 'ES256', params: { name: 'ECDSA', hash: 'SHA-256' } };
+  }
+  if (algorithm.name === 'ECDSA' && algorithm.namedCurve === 'P-384') {
+    return { alg: 'ES384', params: { name: 'ECDSA', hash: 'SHA-384' } };
+  }
+  if (algorithm.name === 'Ed25519') {
+    return { alg: 'EdDSA', params: { name: 'Ed25519' } };
+  }
+  throw new Error(`Unsupported receipt signing key: ${algorithm.name}${algorithm.namedCurve ? ` ${algorithm.namedCurve}` : ''}`);
+}
+
+function base64UrlEncode(data: string | Uint8Array): string {
+  const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data;
+  return bytesToBase64(bytes).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function base64UrlDecode(data: string): Uint8Array {
+  if (!/^[A-Za-z0-9_-]*$/.test(data)) {
+    throw new Error('Invalid base64url');
+  }
+  const base64 = data.replace(/-/g, '+').replace(/_/g, '/');
+  return base64ToBytes(base64.padEnd(base64.length + (4 - base64.length % 4) % 4, '='));
+}
+
+function base64UrlDecodeText(data: string): string {
+  return new TextDecoder('utf-8', { fatal: true }).decode(base64UrlDecode(data));
+}
@@ -1,16 +1,243 @@
-export async function getRouterAddress(): Promise<string> {
-  const url = 'https://atc.tinfoil.sh/routers?platform=snp';
-  const response = await fetch(url);
+import { resolveEndpoints, networkFetch } from './endpoints.js';
+import type { NetworkOptions } from './endpoints.js';
+import type { RejectedRouter } from './types.js';
+import { RouterDiscoveryError } from './errors.js';
 
-  if (!response.ok) {
-    throw new Error(`Failed to fetch routers: ${response.status} ${response.statusText}`);
+export type RouterPlatform = 'snp' | 'tdx';
+
+/**
+ * A router as listed by the ATC. Older ATC deployments list bare hostnames,
+ * which carry no metadata.
+ */
+export interface RouterInfo {
+  hostname: string;
+  region?: string;        // e.g. "eu-west" or "us-east"
+  platform?: RouterPlatform;
+  models?: string[];      // Models the router serves
+  capacity?: number;      // Relative share of traffic the router should receive
+}
+
+/**
+ * Constraints on the routers a client may use.
+ */
+export interface RouterPreferences {
+  // Only use routers in this region. "eu" matches "eu" and "eu-*" regions.
+  // Routers that do not report a region are never used when this is set.
+  region?: string;
+  // Hardware platform of the routers (default: "snp")
+  platform?: RouterPlatform;
+}
+
+/**
+ * A hostname a router may have: an exact hostname, "*.example.com" for any
+ * subdomain of example.com, "*" for any hostname, or a regular expression
+ * tested against the hostname without its port.
+ */
+export type RouterPattern = string | RegExp;
+
+export interface RouterDiscoveryOptions extends NetworkOptions, RouterPreferences {
+  // Hostnames routers listed by the ATC must match (default: DEFAULT_ALLOWED_ROUTERS)
+  allowedRouters?: readonly RouterPattern[];
+}
+
+export interface RouterDiscovery {
+  routers: RouterInfo[];        // Allowed routers that satisfy the preferences
+  rejected: RejectedRouter[];   // Entries that failed the allowlist
+}
+
+/**
+ * Tinfoil's routers are all served from tinfoil.sh. A tampered ATC response
+ * can still pick among them, but cannot send traffic to another domain.
+ */
+export const DEFAULT_ALLOWED_ROUTERS: readonly RouterPattern[] = ['*.tinfoil.sh'];
+
+const PLATFORMS: readonly RouterPlatform[] = ['snp', 'tdx'];
+
+/**
+ * Fetches the routers from the ATC, drops the entries whose hostname is not
+ * allowed and keeps those that satisfy the given preferences.
+ *
+ * @param options - Preferences, allowlist, and the ATC endpoint and fetch to use
+ * @returns The matching routers, in the order the ATC listed them, and the rejected entries
+ * @throws RouterDiscoveryError if the request fails or no router matches
+ */
+export async function discoverRouters(options: RouterDiscoveryOptions = {}): Promise<RouterDiscovery> {
+  const platform = options.platform ?? 'snp';
+  if (!PLATFORMS.includes(platform)) {
+    throw new RouterDiscoveryError(`Unsupported router platform: ${platform}`);
+  }
+
+  let routers: RouterInfo[];
+  try {
+    const url = new URL(`${resolveEndpoints(options.endpoints).atc}/routers`);
+    url.searchParams.set('platform', platform);
+    if (options.region) {
+      url.searchParams.set('region', options.region);
+    }
+    const response = await networkFetch(options)(url.toString());
+
+    if (!response.ok) {
+      throw new RouterDiscoveryError(`Failed to fetch routers: ${response.status} ${response.statusText}`);
+    }
+
+    routers = parseRouterList(await response.json());
+  } catch (e) {
+    if (e instanceof RouterDiscoveryError) {
+      throw e;
+    }
+    throw new RouterDiscoveryError(`Failed to fetch router: ${(e as Error).message}`, { cause: e });
+  }
+
+  const allowedRouters = options.allowedRouters ?? DEFAULT_ALLOWED_ROUTERS;
+  const rejected: RejectedRouter[] = [];
+  const allowed = routers.filter(router => {
+    const reason = checkRouterHostname(router.hostname, allowedRouters);
+    if (reason) {
+      rejected.push({ hostname: router.hostname, reason });
+    }
+    return !reason;
+  });
+
+  const matching = selectRouters(allowed, { ...options, platform });
+  if (matching.length === 0) {
+    const region = options.region ? ` in region ${options.region}` : '';
+    const rejections = rejected.length > 0
+      ? ` (rejected: ${rejected.map(r => `${r.hostname}: ${r.reason}`).join('; ')})`
+      : '';
+    throw new RouterDiscoveryError(`Failed to fetch router: no ${platform} routers available${region}${rejections}`);
   }
+  return { routers: matching, rejected };
+}
+
+/**
+ * Fetches the allowed routers from the ATC that satisfy the given preferences.
+ *
+ * @param options - Preferences, allowlist, and the ATC endpoint and fetch to use
+ * @returns The matching routers, in the order the ATC listed them
+ * @throws RouterDiscoveryError if the request fails or no router matches
+ */
+export async function fetchRouters(options: RouterDiscoveryOptions = {}): Promise<RouterInfo[]> {
+  return (await discoverRouters(options)).routers;
+}
+
+/**
+ * Fetches the routers from the ATC and returns one of them at random,
+ * weighted by capacity.
+ *
+ * @param options - Preferences, allowlist, and the ATC endpoint and fetch to use
+ * @returns The router hostname
+ * @throws RouterDiscoveryError if the request fails or no router matches
+ */
+export async function fetchRouter(options: RouterDiscoveryOptions = {}): Promise<string> {
+  return shuffleByCapacity(await fetchRouters(options))[0].hostname;
+}
 
-  const routers: string[] = await response.json();
+/**
+ * @deprecated Use fetchRouter, which also accepts router preferences.
+ */
+export async function getRouterAddress(network: NetworkOptions = {}): Promise<string> {
+  return fetchRouter(network);
+}
 
-  if (routers.length === 0) {
-    throw new Error('No routers found in the response');
+/**
+ * Whether a hostname matches an allowlist pattern.
+ *
+ * @param hostname - Hostname without port, in lower case
+ * @param pattern - The pattern to match
+ */
+export function matchesRouterPattern(hostname: string, pattern: RouterPattern): boolean {
+  if (pattern instanceof RegExp) {
+    return pattern.test(hostname);
+  }
+  const p = pattern.toLowerCase();
+  if (p === '*') {
+    return true;
+  }
+  if (p.startsWith('*.')) {
+    return hostname.endsWith(p.slice(1));
   }
+  return hostname === p;
+}
 
-  return routers[Math.floor(Math.random() * routers.length)];
+/**
+ * @returns Why the router must not be used, or undefined if it is allowed
+ */
+function checkRouterHostname(hostname: string, allowedRouters: readonly RouterPattern[]): string | undefined {
+  let url: URL;
+  try {
+    url = new URL(`https://${hostname}`);
+  } catch {
+    return 'not a valid hostname';
+  }
+  // Anything beyond host[:port], such as a path or credentials, could redirect the request
+  if (url.host !== hostname.toLowerCase()) {
+    return 'not a valid hostname';
+  }
+  if (!allowedRouters.some(pattern => matchesRouterPattern(url.hostname, pattern))) {
+    return 'hostname not in the router allowlist';
+  }
+  return undefined;
+}
+
+/**
+ * Keep the routers that satisfy the preferences. The ATC filters by platform
+ * and region as well, but the client checks again so a misconfigured mirror
+ * cannot route requests out of the requested region.
+ *
+ * @param routers - Routers listed by the ATC
+ * @param preferences - Constraints to apply
+ * @returns The matching routers
+ */
+export function selectRouters(routers: RouterInfo[], preferences: RouterPreferences): RouterInfo[] {
+  const region = preferences.region?.toLowerCase();
+  return routers.filter(router => {
+    if (preferences.platform && router.platform && router.platform !== preferences.platform) {
+      return false;
+    }
+    if (region) {
+      const routerRegion = router.region?.toLowerCase();
+      if (!routerRegion || (routerRegion !== region && !routerRegion.startsWith(`${region}-`))) {
+        return false;
+      }
+    }
+    return true;
+  });
+}
+
+/**
+ * Order routers randomly, with routers of higher capacity more likely to
+ * come first. Routers without a capacity count as capacity 1; routers with
+ * capacity 0 come last.
+ *
+ * @param routers - Routers to order
+ * @returns A new array with the routers in random order
+ */
+export function shuffleByCapacity(routers: RouterInfo[]): RouterInfo[] {
+  // Weighted random sampling without replacement (Efraimidis-Spirakis)
+  return routers
+    .map(router => ({ router, key: Math.random() ** (1 / Math.max(router.capacity ?? 1, 0)) }))
+    .sort((a, b) => b.key - a.key)
+    .map(({ router }) => router);
+}
+
+function parseRouterList(data: unknown): RouterInfo[] {
+  if (!Array.isArray(data)) {
+    throw new RouterDiscoveryError('Invalid router list: not an array');
+  }
+  return data.map((entry, i) => {
+    if (typeof entry === 'string') {
+      return { hostname: entry };
+    }
+    if (typeof entry !== 'object' || entry === null || typeof entry.hostname !== 'string') {
+      throw new RouterDiscoveryError(`Invalid router list: entry ${i} has no hostname`);
+    }
+    const { hostname, region, platform, models, capacity } = entry as Record<string, unknown>;
+    return {
+      hostname: hostname as string,
+      ...(typeof region === 'string' && { region }),
+      ...(typeof platform === 'string' && { platform: platform as RouterPlatform }),
+      ...(Array.isArray(models) && { models: models.filter((m): m is string => typeof m === 'string') }),
+      ...(typeof capacity === 'number' && capacity >= 0 && { capacity }),
+    };
+  });
 }
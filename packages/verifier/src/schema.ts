@@ -0,0 +1,78 @@
+/**
+ * The subset of JSON Schema used by the schemas in this package.
+ */
+export interface SchemaNode {
+  type?: string;
+  const?: unknown;
+  minimum?: number;
+  maximum?: number;
+  pattern?: string;
+  required?: readonly string[];
+  additionalProperties?: boolean;
+  properties?: Readonly<Record<string, SchemaNode>>;
+  items?: SchemaNode;
+}
+
+/**
+ * Check a value against a schema.
+ *
+ * @param value - The decoded JSON value
+ * @param schema - The schema to check against
+ * @param path - Location of the value, used in error messages (e.g. "$")
+ * @returns A message for each violation
+ */
+export function schemaErrors(value: unknown, schema: SchemaNode, path: string): string[] {
+  if (schema.const !== undefined && value !== schema.const) {
+    return [`${path} must be ${JSON.stringify(schema.const)}`];
+  }
+
+  switch (schema.type) {
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return [`${path} must be an object`];
+      }
+      const record = value as Record<string, unknown>;
+      const errors: string[] = [];
+      for (const name of schema.required ?? []) {
+        if (!(name in record)) {
+          errors.push(`${path}.${name} is required`);
+        }
+      }
+      for (const [name, child] of Object.entries(record)) {
+        const childSchema = schema.properties?.[name];
+        if (childSchema) {
+          errors.push(...schemaErrors(child, childSchema, `${path}.${name}`));
+        } else if (schema.additionalProperties === false) {
+          errors.push(`${path}.${name} is not allowed`);
+        }
+      }
+      return errors;
+    }
+    case 'array':
+      if (!Array.isArray(value)) {
+        return [`${path} must be an array`];
+      }
+      return value.flatMap((item, i) => schemaErrors(item, schema.items ?? {}, `${path}[${i}]`));
+    case 'integer':
+      if (typeof value !== 'number' || !Number.isInteger(value)) {
+        return [`${path} must be an integer`];
+      }
+      if ((schema.minimum !== undefined && value < schema.minimum) ||
+          (schema.maximum !== undefined && value > schema.maximum)) {
+        return [`${path} must be between ${schema.minimum} and ${schema.maximum}`];
+      }
+      return [];
+    case 'string':
+      if (typeof value !== 'string') {
+        return [`${path} must be a string`];
+      }
+      if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+        return [`${path} must match ${schema.pattern}`];
+      }
+      return [];
+    case 'boolean':
+      return typeof value === 'boolean' ? [] : [`${path} must be a boolean`];
+    default:
+      return [];
+  }
+}
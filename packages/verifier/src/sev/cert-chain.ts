@@ -1,8 +1,14 @@
 import type { Report } from './report.js';
-import type { TCBParts } from './types.js';
+import type { TCBParts, EndorsementKeyType, EndorsementKeyExtensions } from './types.js';
 import { ReportSigner } from './constants.js';
-import { ARK_CERT, ASK_CERT } from './certs.js';
+import { AMD_ROOT_CERTS } from './certs.js';
 import { tcbFromInt, bytesToHex } from './utils.js';
+import { defaultCertificateCache } from '../cache.js';
+import type { CertificateCache } from '../cache.js';
+import { DEFAULT_ENDPOINTS, resolveEndpoints, networkFetch } from '../endpoints.js';
+import type { NetworkOptions } from '../endpoints.js';
+import { withSpan } from '../telemetry.js';
+import { CertificateChainError, VcekFetchError } from '../errors.js';
 import { X509Certificate } from '@freedomofpress/sigstore-browser';
 import { ASN1Obj, uint8ArrayEqual } from '@freedomofpress/crypto-browser';
 
@@ -18,6 +24,7 @@ const SnpOid = {
   SPL6: '1.3.6.1.4.1.3704.1.3.6',
   SPL7: '1.3.6.1.4.1.3704.1.3.7',
   UCODE: '1.3.6.1.4.1.3704.1.3.8',
+  FMC_SPL: '1.3.6.1.4.1.3704.1.3.9',
   HWID: '1.3.6.1.4.1.3704.1.4',
   CSP_ID: '1.3.6.1.4.1.3704.1.5',
   // Aliases for compatibility
@@ -31,57 +38,118 @@ const OID_RSASSA_PSS = '1.2.840.113549.1.1.10';
 const OID_EC_PUBLIC_KEY = '1.2.840.10045.2.1';
 const OID_SECP384R1 = '1.3.132.0.34';
 
+const CHIP_ID_SIZE = 64;
+const TURIN_HWID_SIZE = 8;
+
+/**
+ * Sources for the VLEK certificate of VLEK-signed reports.
+ * VLEKs are provisioned by the cloud provider and are not served by the KDS,
+ * so the certificate must come from the attestation document or the caller.
+ */
+export interface VlekOptions {
+  certificate?: Uint8Array | string;  // DER bytes or PEM
+  fetchCertificate?: (report: Report) => Promise<Uint8Array | string>;
+}
+
+/**
+ * Certificates of the chain that are already at hand, such as those stored
+ * in an evidence bundle. They are used instead of the cache and the KDS.
+ */
+export interface ChainCertificates {
+  vcek?: Uint8Array;  // DER of the VCEK, or of the VLEK for VLEK-signed reports
+  asvk?: Uint8Array;  // DER of the ASVK for VLEK-signed reports
+}
+
+/**
+ * AMD certificate chain for an attestation report.
+ *
+ * For VCEK-signed reports the chain is ARK > ASK > VCEK. For VLEK-signed
+ * reports it is ARK > ASVK > VLEK, with the ASVK held in `ask` and the VLEK
+ * in `vcek`.
+ */
 export class CertificateChain {
   constructor(
     public ark: X509Certificate,
     public ask: X509Certificate,
-    public vcek: X509Certificate
+    public vcek: X509Certificate,
+    public productName: string = 'Genoa',
+    public endorsementKey: EndorsementKeyType = 'VCEK'
   ) {}
 
-  static async fromReport(report: Report): Promise<CertificateChain> {
-    if (report.productName !== 'Genoa') {
-      throw new Error('This implementation only supports Genoa processors');
+  static async fromReport(
+    report: Report,
+    vlekOptions?: VlekOptions,
+    cache: CertificateCache = defaultCertificateCache(),
+    network: NetworkOptions = {},
+    certificates: ChainCertificates = {}
+  ): Promise<CertificateChain> {
+    const roots = AMD_ROOT_CERTS[report.productName];
+    if (!roots) {
+      throw new CertificateChainError(`No AMD root certificates available for product: ${report.productName}`);
     }
 
+    const ark = X509Certificate.parse(roots.ark);
+
+    if (report.signerInfoParsed.signingKey === ReportSigner.VlekReportSigner) {
+      return CertificateChain.fromVlekReport(report, ark, vlekOptions, network, certificates);
+    }
     if (report.signerInfoParsed.signingKey !== ReportSigner.VcekReportSigner) {
-      throw new Error('This implementation only supports VCEK signed reports');
+      throw new CertificateChainError('This implementation only supports VCEK or VLEK signed reports');
     }
 
-    const ark = X509Certificate.parse(ARK_CERT);
-    const ask = X509Certificate.parse(ASK_CERT);
+    const ask = X509Certificate.parse(roots.ask);
+    if (certificates.vcek) {
+      return new CertificateChain(ark, ask, X509Certificate.parse(certificates.vcek), report.productName);
+    }
 
-    // Build cache key for VCEK
+    // A VCEK never changes for a given chip and TCB, so cached copies stay valid
     const chipHex = bytesToHex(report.chipId);
     const tcbHex = report.reportedTcb.toString(16).padStart(16, '0');
     const cacheKey = `VCEK_${report.productName}_${chipHex}_${tcbHex}`;
 
-    // Try to get from cache first (browser localStorage)
-    let vcekDer: Uint8Array;
-    if (typeof localStorage !== 'undefined') {
-      const cached = localStorage.getItem(cacheKey);
-      if (cached) {
-        try {
-          // Decode from base64 stored in cache
-          vcekDer = Uint8Array.from(atob(cached), c => c.charCodeAt(0));
-        } catch {
-          // Invalid cache, remove it and re-fetch
-          localStorage.removeItem(cacheKey);
-          vcekDer = await fetchAndCacheVCEK(report.productName, report.chipId, report.reportedTcb, cacheKey);
-        }
-      } else {
-        vcekDer = await fetchAndCacheVCEK(report.productName, report.chipId, report.reportedTcb, cacheKey);
+    let vcek = parseCachedCertificate(await cache.get(cacheKey));
+    if (!vcek) {
+      // Missing or corrupt entry: re-fetch and overwrite it
+      const kds = resolveEndpoints(network.endpoints).kds;
+      const vcekDer = await fetchVCEK(buildVCEKUrl(report.productName, report.chipId, report.reportedTcb, kds), networkFetch(network));
+      vcek = X509Certificate.parse(vcekDer);
+      try {
+        await cache.set(cacheKey, vcekDer);
+      } catch {
+        // Cache storage failed (quota exceeded, read-only disk, etc), continue anyway
       }
-    } else {
-      // No cache available, just fetch
-      const vcekUrl = buildVCEKUrl(report.productName, report.chipId, report.reportedTcb);
-      vcekDer = await fetchVCEK(vcekUrl);
     }
 
-    const vcek = X509Certificate.parse(vcekDer);
-    return new CertificateChain(ark, ask, vcek);
+    return new CertificateChain(ark, ask, vcek, report.productName);
   }
 
-  async verifyChain(): Promise<boolean> {
+  private static async fromVlekReport(
+    report: Report,
+    ark: X509Certificate,
+    vlekOptions: VlekOptions | undefined,
+    network: NetworkOptions,
+    certificates: ChainCertificates
+  ): Promise<CertificateChain> {
+    let vlekCert = certificates.vcek ?? vlekOptions?.certificate;
+    if (!vlekCert && vlekOptions?.fetchCertificate) {
+      try {
+        vlekCert = await vlekOptions.fetchCertificate(report);
+      } catch (e) {
+        throw new VcekFetchError('Failed to fetch VLEK certificate', { cause: e });
+      }
+    }
+    if (!vlekCert) {
+      throw new CertificateChainError('Report is VLEK signed but no VLEK certificate was provided');
+    }
+
+    const asvk = certificates.asvk
+      ? X509Certificate.parse(certificates.asvk)
+      : await fetchASVK(report.productName, ark, network);
+    const vlek = X509Certificate.parse(vlekCert);
+    return new CertificateChain(ark, asvk, vlek, report.productName, 'VLEK');
+  }
+
+  async verifyChain(now: Date = new Date()): Promise<boolean> {
     try {
       // Validate certificate formats
       this.validateArkFormat();
@@ -89,36 +157,35 @@ export class CertificateChain {
       this.validateVcekFormat();
 
       // Validate certificate validity periods
-      const now = new Date();
       if (!this.ark.validForDate(now)) {
-        throw new Error('ARK certificate is not valid for current date');
+        throw new CertificateChainError('ARK certificate is not valid for current date');
       }
       if (!this.ask.validForDate(now)) {
-        throw new Error('ASK certificate is not valid for current date');
+        throw new CertificateChainError(`${this.askName} certificate is not valid for current date`);
       }
       if (!this.vcek.validForDate(now)) {
-        throw new Error('VCEK certificate is not valid for current date');
+        throw new CertificateChainError(`${this.endorsementKey} certificate is not valid for current date`);
       }
 
       // Verify signature chain: ARK self-signed, ARK signs ASK, ASK signs VCEK
       const arkSelfSigned = await this.ark.verify();
       if (!arkSelfSigned) {
-        throw new Error('ARK certificate is not self-signed');
+        throw new CertificateChainError('ARK certificate is not self-signed');
       }
 
       const askSignedByArk = await this.ask.verify(this.ark);
       if (!askSignedByArk) {
-        throw new Error('ASK certificate is not signed by ARK');
+        throw new CertificateChainError(`${this.askName} certificate is not signed by ARK`);
       }
 
       const vcekSignedByAsk = await this.vcek.verify(this.ask);
       if (!vcekSignedByAsk) {
-        throw new Error('VCEK certificate is not signed by ASK');
+        throw new CertificateChainError(`${this.endorsementKey} certificate is not signed by ${this.askName}`);
       }
 
       return true;
     } catch (e) {
-      throw new Error('Certificate chain verification failed', { cause: e });
+      throw new CertificateChainError('Certificate chain verification failed', { cause: e });
     }
   }
 
@@ -126,154 +193,186 @@ export class CertificateChain {
     // Validate BL_SPL
     const blSplExt = this.vcek.extension(SnpOid.BL_SPL);
     if (!blSplExt) {
-      throw new Error('missing BL_SPL extension for VCEK certificate');
+      throw new CertificateChainError(`missing BL_SPL extension for ${this.endorsementKey} certificate`);
     }
     const blSpl = this.decodeExtensionInteger(blSplExt.value);
     if (blSpl !== tcb.blSpl) {
-      throw new Error(`BL_SPL extension in VCEK certificate does not match tcb.blSpl: ${blSpl} != ${tcb.blSpl}`);
+      throw new CertificateChainError(`BL_SPL extension in ${this.endorsementKey} certificate does not match tcb.blSpl: ${blSpl} != ${tcb.blSpl}`);
     }
 
     // Validate TEE_SPL
     const teeSplExt = this.vcek.extension(SnpOid.TEE_SPL);
     if (!teeSplExt) {
-      throw new Error('missing TEE_SPL extension for VCEK certificate');
+      throw new CertificateChainError(`missing TEE_SPL extension for ${this.endorsementKey} certificate`);
     }
     const teeSpl = this.decodeExtensionInteger(teeSplExt.value);
     if (teeSpl !== tcb.teeSpl) {
-      throw new Error(`TEE_SPL extension in VCEK certificate does not match tcb.teeSpl: ${teeSpl} != ${tcb.teeSpl}`);
+      throw new CertificateChainError(`TEE_SPL extension in ${this.endorsementKey} certificate does not match tcb.teeSpl: ${teeSpl} != ${tcb.teeSpl}`);
     }
 
     // Validate SNP_SPL
     const snpSplExt = this.vcek.extension(SnpOid.SNP_SPL);
     if (!snpSplExt) {
-      throw new Error('missing SNP_SPL extension for VCEK certificate');
+      throw new CertificateChainError(`missing SNP_SPL extension for ${this.endorsementKey} certificate`);
     }
     const snpSpl = this.decodeExtensionInteger(snpSplExt.value);
     if (snpSpl !== tcb.snpSpl) {
-      throw new Error(`SNP_SPL extension in VCEK certificate does not match tcb.snpSpl: ${snpSpl} != ${tcb.snpSpl}`);
+      throw new CertificateChainError(`SNP_SPL extension in ${this.endorsementKey} certificate does not match tcb.snpSpl: ${snpSpl} != ${tcb.snpSpl}`);
     }
 
     // Validate UCODE
     const ucodeExt = this.vcek.extension(SnpOid.UCODE);
     if (!ucodeExt) {
-      throw new Error('missing UCODE extension for VCEK certificate');
+      throw new CertificateChainError(`missing UCODE extension for ${this.endorsementKey} certificate`);
     }
     const ucodeSpl = this.decodeExtensionInteger(ucodeExt.value);
     if (ucodeSpl !== tcb.ucodeSpl) {
-      throw new Error(`UCODE extension in VCEK certificate does not match tcb.ucodeSpl: ${ucodeSpl} != ${tcb.ucodeSpl}`);
+      throw new CertificateChainError(`UCODE extension in ${this.endorsementKey} certificate does not match tcb.ucodeSpl: ${ucodeSpl} != ${tcb.ucodeSpl}`);
+    }
+
+    // Validate FMC_SPL (Turin and later)
+    if (tcb.fmcSpl !== undefined) {
+      const fmcSplExt = this.vcek.extension(SnpOid.FMC_SPL);
+      if (!fmcSplExt) {
+        throw new CertificateChainError(`missing FMC_SPL extension for ${this.endorsementKey} certificate`);
+      }
+      const fmcSpl = this.decodeExtensionInteger(fmcSplExt.value);
+      if (fmcSpl !== tcb.fmcSpl) {
+        throw new CertificateChainError(`FMC_SPL extension in ${this.endorsementKey} certificate does not match tcb.fmcSpl: ${fmcSpl} != ${tcb.fmcSpl}`);
+      }
     }
   }
 
   validateVcekHwid(chipId: Uint8Array): void {
     const hwidExt = this.vcek.extension(SnpOid.HWID);
     if (!hwidExt) {
-      throw new Error('missing HWID extension for VCEK certificate');
+      throw new CertificateChainError('missing HWID extension for VCEK certificate');
     }
 
-    // The HWID extension value is the raw chip ID bytes
-    if (!uint8ArrayEqual(hwidExt.value, chipId)) {
-      throw new Error(`HWID extension in VCEK certificate does not match chip_id: ${bytesToHex(hwidExt.value)} != ${bytesToHex(chipId)}`);
+    // The HWID extension value is the raw chip ID bytes (truncated on Turin)
+    const expectedHwid = hwidForProduct(this.productName, chipId);
+    if (!uint8ArrayEqual(hwidExt.value, expectedHwid)) {
+      throw new CertificateChainError(`HWID extension in VCEK certificate does not match chip_id: ${bytesToHex(hwidExt.value)} != ${bytesToHex(expectedHwid)}`);
     }
   }
 
   private validateArkFormat(): void {
     // Validate certificate version (must be v3)
     if (this.ark.version !== 'v3') {
-      throw new Error(`ARK certificate version is not v3 but ${this.ark.version}`);
+      throw new CertificateChainError(`ARK certificate version is not v3 but ${this.ark.version}`);
     }
 
     // Validate AMD location for issuer and subject
     if (!this.validateAmdLocation(this.ark.issuerDN)) {
-      throw new Error('ARK certificate issuer is not a valid AMD location');
+      throw new CertificateChainError('ARK certificate issuer is not a valid AMD location');
     }
     if (!this.validateAmdLocation(this.ark.subjectDN)) {
-      throw new Error('ARK certificate subject is not a valid AMD location');
+      throw new CertificateChainError('ARK certificate subject is not a valid AMD location');
     }
 
     // Check common name
     const cn = this.ark.subjectDN.get('CN');
-    if (cn !== 'ARK-Genoa') {
-      throw new Error(`ARK certificate subject common name is not ARK-Genoa but ${cn}`);
+    const expectedCn = `ARK-${this.productName}`;
+    if (cn !== expectedCn) {
+      throw new CertificateChainError(`ARK certificate subject common name is not ${expectedCn} but ${cn}`);
     }
   }
 
   private validateAskFormat(): void {
     // Validate certificate version (must be v3)
     if (this.ask.version !== 'v3') {
-      throw new Error(`ASK certificate version is not v3 but ${this.ask.version}`);
+      throw new CertificateChainError(`${this.askName} certificate version is not v3 but ${this.ask.version}`);
     }
 
     // Validate AMD location
     if (!this.validateAmdLocation(this.ask.issuerDN)) {
-      throw new Error('ASK certificate issuer is not a valid AMD location');
+      throw new CertificateChainError(`${this.askName} certificate issuer is not a valid AMD location`);
     }
     if (!this.validateAmdLocation(this.ask.subjectDN)) {
-      throw new Error('ASK certificate subject is not a valid AMD location');
+      throw new CertificateChainError(`${this.askName} certificate subject is not a valid AMD location`);
     }
 
-    // Check common name is exactly "SEV-Genoa" (ASK cert uses SEV-Genoa)
+    // Check common name is exactly "SEV-<product>" for the ASK (e.g. SEV-Genoa)
+    // and "SEV-VLEK-<product>" for the ASVK
     const cn = this.ask.subjectDN.get('CN');
-    if (cn !== 'SEV-Genoa') {
-      throw new Error(`ASK certificate subject common name is not SEV-Genoa but ${cn}`);
+    const expectedCn = this.endorsementKey === 'VLEK'
+      ? `SEV-VLEK-${this.productName}`
+      : `SEV-${this.productName}`;
+    if (cn !== expectedCn) {
+      throw new CertificateChainError(`${this.askName} certificate subject common name is not ${expectedCn} but ${cn}`);
     }
   }
 
   private validateVcekFormat(): void {
     // Validate certificate version (must be v3)
     if (this.vcek.version !== 'v3') {
-      throw new Error(`VCEK certificate version is not v3 but ${this.vcek.version}`);
+      throw new CertificateChainError(`${this.endorsementKey} certificate version is not v3 but ${this.vcek.version}`);
     }
 
     // Validate AMD location
     if (!this.validateAmdLocation(this.vcek.issuerDN)) {
-      throw new Error('VCEK certificate issuer is not a valid AMD location');
+      throw new CertificateChainError(`${this.endorsementKey} certificate issuer is not a valid AMD location`);
     }
     if (!this.validateAmdLocation(this.vcek.subjectDN)) {
-      throw new Error('VCEK certificate subject is not a valid AMD location');
+      throw new CertificateChainError(`${this.endorsementKey} certificate subject is not a valid AMD location`);
     }
 
     // Validate common name
     const cn = this.vcek.subjectDN.get('CN');
-    if (cn !== 'SEV-VCEK') {
-      throw new Error(`VCEK certificate subject common name is not SEV-VCEK but ${cn}`);
+    const expectedCn = `SEV-${this.endorsementKey}`;
+    if (cn !== expectedCn) {
+      throw new CertificateChainError(`${this.endorsementKey} certificate subject common name is not ${expectedCn} but ${cn}`);
     }
 
-    // Validate signature algorithm (must be RSASSA-PSS for VCEK signed by ASK)
+    // Validate signature algorithm (must be RSASSA-PSS for VCEK/VLEK signed by ASK/ASVK)
     const sigAlgOid = this.getSignatureAlgorithmOid(this.vcek);
     if (sigAlgOid !== OID_RSASSA_PSS) {
-      throw new Error(`VCEK certificate signature algorithm is not RSASSA-PSS but ${sigAlgOid}`);
+      throw new CertificateChainError(`${this.endorsementKey} certificate signature algorithm is not RSASSA-PSS but ${sigAlgOid}`);
     }
 
     // Validate public key algorithm and curve
     const { algorithm, curve } = this.getPublicKeyInfo(this.vcek);
     if (algorithm !== OID_EC_PUBLIC_KEY) {
-      throw new Error(`VCEK certificate public key algorithm is not ECDSA but ${algorithm}`);
+      throw new CertificateChainError(`${this.endorsementKey} certificate public key algorithm is not ECDSA but ${algorithm}`);
     }
     if (curve !== OID_SECP384R1) {
-      throw new Error(`VCEK certificate public key curve is not secp384r1 but ${curve}`);
+      throw new CertificateChainError(`${this.endorsementKey} certificate public key curve is not secp384r1 but ${curve}`);
     }
 
-    // CSP_ID must NOT be present (critical for VCEK vs VLEK distinction)
-    const cspIdExt = this.vcek.extension(SnpOid.CSP_ID);
-    if (cspIdExt) {
-      throw new Error(`unexpected CSP_ID in VCEK certificate: ${bytesToHex(cspIdExt.value)}`);
-    }
+    if (this.endorsementKey === 'VLEK') {
+      // VLEKs identify the cloud provider instead of the chip
+      if (!this.cspId) {
+        throw new CertificateChainError('missing or empty CSP_ID extension for VLEK certificate');
+      }
+      const hwidExt = this.vcek.extension(SnpOid.HWID);
+      if (hwidExt) {
+        throw new CertificateChainError(`unexpected HWID in VLEK certificate: ${bytesToHex(hwidExt.value)}`);
+      }
+    } else {
+      // CSP_ID must NOT be present (critical for VCEK vs VLEK distinction)
+      const cspIdExt = this.vcek.extension(SnpOid.CSP_ID);
+      if (cspIdExt) {
+        throw new CertificateChainError(`unexpected CSP_ID in VCEK certificate: ${bytesToHex(cspIdExt.value)}`);
+      }
 
-    // HWID must be present and correct length
-    const hwidExt = this.vcek.extension(SnpOid.HWID);
-    if (!hwidExt || hwidExt.value.length !== 64) {
-      throw new Error('missing or invalid HWID extension for VCEK certificate');
+      // HWID must be present and correct length
+      const hwidExt = this.vcek.extension(SnpOid.HWID);
+      const hwidLength = this.productName === 'Turin' ? TURIN_HWID_SIZE : CHIP_ID_SIZE;
+      if (!hwidExt || hwidExt.value.length !== hwidLength) {
+        throw new CertificateChainError('missing or invalid HWID extension for VCEK certificate');
+      }
     }
 
     // Product name validation
     const productNameExt = this.vcek.extension(SnpOid.PRODUCT_NAME);
     if (!productNameExt) {
-      throw new Error('missing PRODUCT_NAME extension for VCEK certificate');
+      throw new CertificateChainError(`missing PRODUCT_NAME extension for ${this.endorsementKey} certificate`);
     }
-    // The extension value should be DER-encoded IA5String: tag 0x16, length 0x05, value "Genoa"
-    const expectedProductName = new Uint8Array([0x16, 0x05, 0x47, 0x65, 0x6e, 0x6f, 0x61]);
+    // The extension value should be DER-encoded IA5String: tag 0x16, length, value (e.g. "Genoa")
+    const nameBytes = new TextEncoder().encode(this.productName);
+    const expectedProductName = new Uint8Array([0x16, nameBytes.length, ...nameBytes]);
     if (!uint8ArrayEqual(productNameExt.value, expectedProductName)) {
-      throw new Error(`unexpected PRODUCT_NAME in VCEK certificate: ${bytesToHex(productNameExt.value)}`);
+      throw new CertificateChainError(`unexpected PRODUCT_NAME in ${this.endorsementKey} certificate: ${bytesToHex(productNameExt.value)}`);
     }
   }
 
@@ -320,46 +419,152 @@ export class CertificateChain {
   get vcekPublicKey(): Promise<CryptoKey> {
     return this.vcek.publicKeyObj;
   }
-}
-
-async function fetchAndCacheVCEK(
-  productName: string,
-  chipId: Uint8Array,
-  reportedTcb: bigint,
-  cacheKey: string
-): Promise<Uint8Array> {
-  const vcekUrl = buildVCEKUrl(productName, chipId, reportedTcb);
-  const vcekDer = await fetchVCEK(vcekUrl);
 
-  // Cache for future use
-  if (typeof localStorage !== 'undefined') {
-    try {
-      // Store as base64 in cache
-      const base64 = btoa(String.fromCharCode(...vcekDer));
-      localStorage.setItem(cacheKey, base64);
-    } catch {
-      // Cache storage failed (quota exceeded, etc), continue anyway
+  /**
+   * The cloud service provider identifier from a VLEK certificate's CSP_ID
+   * extension, or undefined for VCEK chains.
+   */
+  get cspId(): string | undefined {
+    const cspIdExt = this.vcek.extension(SnpOid.CSP_ID);
+    if (!cspIdExt) {
+      return undefined;
     }
+    // Extension value is a DER-encoded UTF8String
+    const asn1 = ASN1Obj.parseBuffer(cspIdExt.value);
+    return new TextDecoder().decode(asn1.value) || undefined;
   }
 
-  return vcekDer;
+  /**
+   * The SPLs, product name and chip or provider identity carried in the
+   * VCEK or VLEK certificate's extensions.
+   *
+   * @throws CertificateChainError if an SPL extension is missing
+   */
+  get extensions(): EndorsementKeyExtensions {
+    const spl = (name: keyof typeof SnpOid): number => {
+      const ext = this.vcek.extension(SnpOid[name]);
+      if (!ext) {
+        throw new CertificateChainError(`missing ${name} extension for ${this.endorsementKey} certificate`);
+      }
+      return this.decodeExtensionInteger(ext.value);
+    };
+    const productNameExt = this.vcek.extension(SnpOid.PRODUCT_NAME);
+    const hwidExt = this.vcek.extension(SnpOid.HWID);
+    const fmcSplExt = this.vcek.extension(SnpOid.FMC_SPL);
+    const cspId = this.cspId;
+
+    return {
+      tcb: {
+        ucodeSpl: spl('UCODE'),
+        snpSpl: spl('SNP_SPL'),
+        teeSpl: spl('TEE_SPL'),
+        blSpl: spl('BL_SPL'),
+        ...(fmcSplExt && { fmcSpl: this.decodeExtensionInteger(fmcSplExt.value) }),
+      },
+      // DER-encoded IA5String
+      ...(productNameExt && { productName: new TextDecoder().decode(ASN1Obj.parseBuffer(productNameExt.value).value) }),
+      ...(hwidExt && { hwid: bytesToHex(hwidExt.value) }),
+      ...(cspId && { cspId }),
+    };
+  }
+
+  private get askName(): string {
+    return this.endorsementKey === 'VLEK' ? 'ASVK' : 'ASK';
+  }
 }
 
-function buildVCEKUrl(productName: string, chipId: Uint8Array, reportedTcb: bigint): string {
-  const tcb = tcbFromInt(reportedTcb);
-  const chipIdHex = bytesToHex(chipId);
-  const baseUrl = 'https://kds-proxy.tinfoil.sh/vcek/v1';
+/**
+ * Fetches the ASVK for a product line from the KDS and checks that the
+ * chain served alongside it ends at the embedded ARK.
+ *
+ * @param productName - The product name decoded from the report
+ * @param ark - The embedded ARK for the product line
+ * @param network - Endpoints and fetch to use
+ * @returns The ASVK certificate
+ * @throws VcekFetchError if the request fails
+ * @throws CertificateChainError if the chain does not match the ARK
+ */
+async function fetchASVK(productName: string, ark: X509Certificate, network: NetworkOptions): Promise<X509Certificate> {
+  const url = `${resolveEndpoints(network.endpoints).kds}/vlek/v1/${productName}/cert_chain`;
+  let response: Response;
+  try {
+    response = await networkFetch(network)(url);
+  } catch (e) {
+    throw new VcekFetchError(`Failed to fetch ASVK certificate: ${(e as Error).message}`, { cause: e });
+  }
 
-  return `${baseUrl}/${productName}/${chipIdHex}?blSPL=${tcb.blSpl}&teeSPL=${tcb.teeSpl}&snpSPL=${tcb.snpSpl}&ucodeSPL=${tcb.ucodeSpl}`;
+  if (!response.ok) {
+    throw new VcekFetchError(`Failed to fetch ASVK certificate: ${response.status} ${response.statusText}`);
+  }
+
+  // The KDS serves the ASVK followed by the ARK as PEM
+  const pems = (await response.text()).match(/-----BEGIN CERTIFICATE-----[\s\S]*?-----END CERTIFICATE-----/g) || [];
+  if (pems.length !== 2) {
+    throw new CertificateChainError(`Expected ASVK and ARK in certificate chain, got ${pems.length} certificates`);
+  }
+
+  const servedArk = X509Certificate.parse(pems[1]);
+  if (!servedArk.equals(ark)) {
+    throw new CertificateChainError(`ARK served with the ASVK does not match the embedded ARK-${productName}`);
+  }
+
+  return X509Certificate.parse(pems[0]);
 }
 
-async function fetchVCEK(url: string): Promise<Uint8Array> {
-  const response = await fetch(url);
+function parseCachedCertificate(der: Uint8Array | undefined): X509Certificate | undefined {
+  if (!der) {
+    return undefined;
+  }
+  try {
+    return X509Certificate.parse(der);
+  } catch {
+    return undefined;
+  }
+}
 
-  if (!response.ok) {
-    throw new Error(`Failed to fetch VCEK certificate: ${response.status} ${response.statusText}`);
+export function buildVCEKUrl(
+  productName: string,
+  chipId: Uint8Array,
+  reportedTcb: bigint,
+  kds: string = DEFAULT_ENDPOINTS.kds
+): string {
+  const tcb = tcbFromInt(reportedTcb, productName);
+  const hwidHex = bytesToHex(hwidForProduct(productName, chipId));
+  const baseUrl = `${kds}/vcek/v1`;
+
+  const params = `blSPL=${tcb.blSpl}&teeSPL=${tcb.teeSpl}&snpSPL=${tcb.snpSpl}&ucodeSPL=${tcb.ucodeSpl}`;
+  if (tcb.fmcSpl !== undefined) {
+    return `${baseUrl}/${productName}/${hwidHex}?fmcSPL=${tcb.fmcSpl}&${params}`;
   }
+  return `${baseUrl}/${productName}/${hwidHex}?${params}`;
+}
+
+/**
+ * KDS identifies Turin chips by the first 8 bytes of CHIP_ID; earlier
+ * product lines use the full 64 bytes.
+ */
+function hwidForProduct(productName: string, chipId: Uint8Array): Uint8Array {
+  return productName === 'Turin' ? chipId.slice(0, TURIN_HWID_SIZE) : chipId;
+}
+
+async function fetchVCEK(url: string, fetchFn: typeof fetch): Promise<Uint8Array> {
+  return withSpan('tinfoil.vcek.fetch', { 'url.full': url }, async span => {
+    let response: Response;
+    try {
+      response = await fetchFn(url);
+    } catch (e) {
+      throw new VcekFetchError(`Failed to fetch VCEK certificate: ${(e as Error).message}`, { cause: e });
+    }
+    span.setAttribute('http.response.status_code', response.status);
+
+    if (!response.ok) {
+      throw new VcekFetchError(`Failed to fetch VCEK certificate: ${response.status} ${response.statusText}`);
+    }
 
-  const arrayBuffer = await response.arrayBuffer();
-  return new Uint8Array(arrayBuffer);
+    try {
+      return new Uint8Array(await response.arrayBuffer());
+    } catch (e) {
+      throw new VcekFetchError('Failed to read VCEK certificate', { cause: e });
+    }
+  });
 }
@@ -0,0 +1,239 @@
+import type { CertificateChain } from './cert-chain.js';
+import { bytesToHex } from './utils.js';
+import { RevocationError } from '../errors.js';
+import { resolveEndpoints, networkFetch } from '../endpoints.js';
+import { defaultCertificateCache } from '../cache.js';
+import type { CertificateCache } from '../cache.js';
+import type { NetworkOptions } from '../endpoints.js';
+import type { X509Certificate } from '@freedomofpress/sigstore-browser';
+import { ASN1Obj, uint8ArrayEqual } from '@freedomofpress/crypto-browser';
+
+const OID_CRL_DISTRIBUTION_POINTS = '2.5.29.31';
+const OID_RSASSA_PSS = '1.2.840.113549.1.1.10';
+
+// AMD signs CRLs like its certificates: RSA-PSS with SHA-384 and a 48 byte salt
+const AMD_PSS_SALT_LENGTH = 48;
+
+// The KDS does not send CORS headers, so CRLs are fetched through the same proxy as VCEKs
+const KDS_ORIGIN = 'https://kdsintf.amd.com';
+
+/**
+ * Fetches the DER-encoded CRL at the given distribution point URL.
+ */
+export type CrlFetcher = (url: string) => Promise<Uint8Array>;
+
+/**
+ * Options for checking the AMD certificate chain against the ARK's CRL.
+ */
+export interface RevocationOptions {
+  fetcher?: CrlFetcher;
+}
+
+/**
+ * A CRL whose signature has been checked against its issuer.
+ */
+export interface RevocationList {
+  thisUpdate: Date;
+  nextUpdate?: Date;
+  revokedSerials: Uint8Array[];
+}
+
+/**
+ * Check that the ASK (or ASVK) of a verified chain has not been revoked by AMD.
+ *
+ * The CRL is located through the distribution point in the ARK and is signed
+ * by the ARK, so it only covers the certificates the ARK issues. VCEKs and
+ * VLEKs are issued by the ASK and ASVK, which publish no CRL.
+ *
+ * The CRL is kept in the certificate cache and verified against the ARK each
+ * time it is read, so an expired or foreign entry is fetched again.
+ *
+ * @param chain - A certificate chain that has passed verifyChain
+ * @param options - Revocation options
+ * @param now - The time at which the CRL must be current
+ * @param cache - Where the CRL is kept between checks
+ * @throws RevocationError if the CRL cannot be obtained or verified, or the ASK is revoked
+ */
+export async function checkRevocation(
+  chain: CertificateChain,
+  options: RevocationOptions = {},
+  now: Date = new Date(),
+  cache: CertificateCache = defaultCertificateCache()
+): Promise<void> {
+  const url = crlDistributionPoint(chain.ark);
+  if (!url) {
+    throw new RevocationError(`ARK-${chain.productName} certificate has no CRL distribution point`);
+  }
+
+  const cacheKey = `CRL_${url}`;
+  let crl = await verifyCachedCrl(await cache.get(cacheKey), chain.ark, now);
+  if (!crl) {
+    const fetcher = options.fetcher ?? kdsCrlFetcher();
+    let der: Uint8Array;
+    try {
+      der = await fetcher(url);
+    } catch (e) {
+      throw new RevocationError(`Failed to fetch CRL from ${url}`, { cause: e });
+    }
+    crl = await verifyCrl(der, chain.ark, now);
+    try {
+      await cache.set(cacheKey, der);
+    } catch {
+      // Cache storage failed (quota exceeded, read-only disk, etc), continue anyway
+    }
+  }
+
+  const askName = chain.endorsementKey === 'VLEK' ? 'ASVK' : 'ASK';
+  if (isRevoked(crl, chain.ask)) {
+    throw new RevocationError(`${askName} certificate ${bytesToHex(chain.ask.serialNumber)} has been revoked`);
+  }
+}
+
+async function verifyCachedCrl(
+  der: Uint8Array | undefined,
+  issuer: X509Certificate,
+  now: Date
+): Promise<RevocationList | undefined> {
+  if (!der) {
+    return undefined;
+  }
+  try {
+    return await verifyCrl(der, issuer, now);
+  } catch {
+    // Expired, corrupt or issued by another ARK: fetch it again
+    return undefined;
+  }
+}
+
+/**
+ * Parse a DER-encoded CRL and verify it was signed by the issuer and is current.
+ *
+ * @param der - The DER-encoded CRL
+ * @param issuer - The certificate that must have signed the CRL
+ * @param now - The time at which the CRL must be current
+ * @returns The verified revocation list
+ * @throws RevocationError if the CRL is malformed, not signed by the issuer or out of date
+ */
+export async function verifyCrl(der: Uint8Array, issuer: X509Certificate, now: Date = new Date()): Promise<RevocationList> {
+  let tbs: ASN1Obj;
+  let signatureAlgorithm: string;
+  let signature: Uint8Array;
+  try {
+    const crl = ASN1Obj.parseBuffer(der);
+    tbs = crl.subs[0];
+    signatureAlgorithm = crl.subs[1].subs[0].toOID();
+    // BIT STRING content starts with the number of unused bits
+    signature = crl.subs[2].value.subarray(1);
+  } catch (e) {
+    throw new RevocationError('Failed to parse CRL', { cause: e });
+  }
+
+  if (signatureAlgorithm !== OID_RSASSA_PSS) {
+    throw new RevocationError(`CRL signature algorithm is not RSASSA-PSS but ${signatureAlgorithm}`);
+  }
+
+  // TBSCertList: version?, signature, issuer, thisUpdate, nextUpdate?, revokedCertificates?, [0] extensions?
+  const fields = tbs.subs.filter(sub => !sub.tag.isContextSpecific());
+  const offset = fields[0]?.tag.isInteger() ? 1 : 0;
+  const crlIssuer = fields[offset + 1];
+  const thisUpdate = fields[offset + 2]?.toDate();
+  const nextField = fields[offset + 3];
+  const nextUpdate = nextField && (nextField.tag.isUTCTime() || nextField.tag.isGeneralizedTime())
+    ? nextField.toDate()
+    : undefined;
+  const revoked = fields[offset + (nextUpdate ? 4 : 3)];
+
+  if (!crlIssuer || !thisUpdate) {
+    throw new RevocationError('CRL is missing its issuer or update time');
+  }
+  if (!uint8ArrayEqual(crlIssuer.value, issuer.subject)) {
+    throw new RevocationError(`CRL issuer does not match ${issuer.subjectDN.get('CN')}`);
+  }
+
+  let key: CryptoKey;
+  try {
+    key = await crypto.subtle.importKey(
+      'spki',
+      issuer.publicKey.slice(),
+      { name: 'RSA-PSS', hash: 'SHA-384' },
+      false,
+      ['verify']
+    );
+  } catch (e) {
+    throw new RevocationError('Failed to import CRL issuer public key', { cause: e });
+  }
+  const valid = await crypto.subtle.verify(
+    { name: 'RSA-PSS', saltLength: AMD_PSS_SALT_LENGTH },
+    key,
+    signature.slice(),
+    tbs.toDER().slice()
+  );
+  if (!valid) {
+    throw new RevocationError(`CRL is not signed by ${issuer.subjectDN.get('CN')}`);
+  }
+
+  if (thisUpdate > now) {
+    throw new RevocationError(`CRL update time ${thisUpdate.toISOString()} is in the future`);
+  }
+  if (nextUpdate && nextUpdate < now) {
+    throw new RevocationError(`CRL expired at ${nextUpdate.toISOString()}`);
+  }
+
+  return {
+    thisUpdate,
+    nextUpdate,
+    revokedSerials: revoked ? revoked.subs.map(entry => entry.subs[0].value) : [],
+  };
+}
+
+/**
+ * Report whether a certificate's serial number appears in a revocation list.
+ */
+export function isRevoked(crl: RevocationList, cert: X509Certificate): boolean {
+  return crl.revokedSerials.some(serial => uint8ArrayEqual(serial, cert.serialNumber));
+}
+
+/**
+ * Read the first URI from a certificate's CRL distribution points extension.
+ *
+ * @param cert - The certificate to read
+ * @returns The distribution point URL, or undefined if there is none
+ */
+export function crlDistributionPoint(cert: X509Certificate): string | undefined {
+  const ext = cert.extension(OID_CRL_DISTRIBUTION_POINTS);
+  if (!ext) {
+    return undefined;
+  }
+
+  // DistributionPoint > [0] distributionPoint > [0] fullName > [6] uniformResourceIdentifier
+  const points = ASN1Obj.parseBuffer(ext.value);
+  for (const point of points.subs) {
+    const fullName = point.subs[0]?.subs[0];
+    const uri = fullName?.subs.find(name => name.tag.isContextSpecific(6));
+    if (uri) {
+      return new TextDecoder().decode(uri.value);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Returns a CRL fetcher that reads AMD distribution points through the
+ * configured KDS endpoint.
+ *
+ * @param network - Endpoints and fetch to use
+ * @returns The fetcher used when RevocationOptions does not provide one
+ */
+export function kdsCrlFetcher(network: NetworkOptions = {}): CrlFetcher {
+  const kds = resolveEndpoints(network.endpoints).kds;
+  const fetchFn = networkFetch(network);
+  return async (url: string): Promise<Uint8Array> => {
+    const response = await fetchFn(url.replace(KDS_ORIGIN, kds));
+
+    if (!response.ok) {
+      throw new RevocationError(`Failed to fetch CRL: ${response.status} ${response.statusText}`);
+    }
+
+    return new Uint8Array(await response.arrayBuffer());
+  };
+}
@@ -1,9 +1,12 @@
 export { Report } from './report.js';
-export { CertificateChain } from './cert-chain.js';
+export { CertificateChain, buildVCEKUrl } from './cert-chain.js';
+export type { VlekOptions } from './cert-chain.js';
+export { checkRevocation, verifyCrl, isRevoked, crlDistributionPoint } from './crl.js';
+export type { CrlFetcher, RevocationOptions, RevocationList } from './crl.js';
 export { verifyAttestation } from './verify.js';
-export { validateReport, defaultValidationOptions } from './validation.js';
+export { validateReport, defaultValidationOptions, defaultValidationOptionsForProduct, sevPublicKeyDigest, resolveTrustedKeyDigests } from './validation.js';
 export type { ValidationOptions } from './validation.js';
 export * from './types.js';
 export * from './constants.js';
 export { bytesToHex, hexToBytes, tcbFromInt, tcbMeetsMinimum, platformInfoFromInt, policyFromInt } from './utils.js';
-export { ARK_CERT, ASK_CERT } from './certs.js';
+export { ARK_CERT, ASK_CERT, ARK_MILAN_CERT, ASK_MILAN_CERT, AMD_ROOT_CERTS } from './certs.js';
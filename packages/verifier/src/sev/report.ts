@@ -11,7 +11,48 @@ import {
   TURIN_MODEL,
   ReportSigner
 } from './constants.js';
-import { policyFromInt, platformInfoFromInt } from './utils.js';
+import { policyFromInt, platformInfoFromInt, bytesToHex } from './utils.js';
+
+/**
+ * JSON form of a report: byte fields as hex, 64-bit fields as 0x-prefixed hex.
+ */
+export interface ReportJSON {
+  version: number;
+  guestSvn: number;
+  policy: string;
+  policyParsed: SnpPolicy;
+  familyId: string;
+  imageId: string;
+  vmpl: number;
+  signatureAlgo: number;
+  currentTcb: string;
+  platformInfo: string;
+  platformInfoParsed: SnpPlatformInfo;
+  signerInfo: number;
+  signerInfoParsed: SignerInfo;
+  reportData: string;
+  measurement: string;
+  hostData: string;
+  idKeyDigest: string;
+  authorKeyDigest: string;
+  reportId: string;
+  reportIdMa: string;
+  reportedTcb: string;
+  chipId: string;
+  committedTcb: string;
+  currentBuild: number;
+  currentMinor: number;
+  currentMajor: number;
+  committedBuild: number;
+  committedMinor: number;
+  committedMajor: number;
+  launchTcb: string;
+  signature: string;
+  family: number;
+  model: number;
+  stepping: number;
+  productName: string;
+}
 
 /**
  * SEV-SNP attestation report
@@ -73,6 +114,21 @@ export class Report {
     this.guestSvn = view.getUint32(0x04, true);
     this.policy = view.getBigUint64(0x08, true);
 
+    // Version specific parsing; the product line decides the TCB layout checked below
+    if (this.version >= 3) {  // Report Version 3
+      this.family = view.getUint8(0x188);
+      this.model = view.getUint8(0x189);
+      this.stepping = view.getUint8(0x18a);
+      this.productName = this.initProductName();
+    } else if (this.version === 2) {  // Report Version 2
+      this.family = ZEN3ZEN4_FAMILY;
+      this.model = GENOA_MODEL;
+      this.stepping = 0x01;
+      this.productName = 'Genoa';
+    } else {
+      throw new Error('Unknown report version');
+    }
+
     // Check reserved bit must be 1
     if (!(this.policy & (1n << BigInt(POLICY_RESERVED_1_BIT)))) {
       throw new Error(`policy[${POLICY_RESERVED_1_BIT}] is reserved, must be 1, got 0`);
@@ -90,7 +146,7 @@ export class Report {
     this.currentTcb = view.getBigUint64(0x38, true);
 
     try {
-      mbz64(this.currentTcb, 'current_tcb', 47, 16);
+      this.checkTcbReserved(this.currentTcb, 'current_tcb');
     } catch (e) {
       throw new Error('current_tcb not correctly formed', { cause: e });
     }
@@ -108,8 +164,8 @@ export class Report {
     }
 
     const signingKey = (this.signerInfo >> 2) & 7;
-    if (signingKey !== ReportSigner.VcekReportSigner) {
-      throw new Error(`This implementation only supports VCEK signed reports. Got ${signingKey}`);
+    if (signingKey !== ReportSigner.VcekReportSigner && signingKey !== ReportSigner.VlekReportSigner) {
+      throw new Error(`This implementation only supports VCEK or VLEK signed reports. Got ${signingKey}`);
     }
 
     this.signerInfoParsed = {
@@ -135,28 +191,12 @@ export class Report {
     this.reportedTcb = view.getBigUint64(0x180, true);
 
     try {
-      mbz64(this.reportedTcb, 'reported_tcb', 47, 16);
+      this.checkTcbReserved(this.reportedTcb, 'reported_tcb');
     } catch (e) {
       throw new Error('reported_tcb not correctly formed', { cause: e });
     }
 
-    let mbzLo = 0x188;
-    // Version specific parsing
-    if (this.version >= 3) {  // Report Version 3
-      this.family = view.getUint8(0x188);
-      this.model = view.getUint8(0x189);
-      this.stepping = view.getUint8(0x18a);
-      this.productName = this.initProductName();
-      mbzLo = 0x18b;
-    } else if (this.version === 2) {  // Report Version 2
-      this.family = ZEN3ZEN4_FAMILY;
-      this.model = GENOA_MODEL;
-      this.stepping = 0x01;
-      this.productName = 'Genoa';
-    } else {
-      throw new Error('Unknown report version');
-    }
-
+    const mbzLo = this.version >= 3 ? 0x18b : 0x188;
     try {
       mbz(data, mbzLo, 0x1a0);
     } catch (e) {
@@ -167,7 +207,7 @@ export class Report {
     this.committedTcb = view.getBigUint64(0x1e0, true);
 
     try {
-      mbz64(this.committedTcb, 'committed_tcb', 47, 16);
+      this.checkTcbReserved(this.committedTcb, 'committed_tcb');
     } catch (e) {
       throw new Error('committed_tcb not correctly formed', { cause: e });
     }
@@ -196,7 +236,7 @@ export class Report {
     this.launchTcb = view.getBigUint64(0x1f0, true);
 
     try {
-      mbz64(this.launchTcb, 'launch_tcb', 47, 16);
+      this.checkTcbReserved(this.launchTcb, 'launch_tcb');
     } catch (e) {
       throw new Error('launch_tcb not correctly formed', { cause: e });
     }
@@ -219,6 +259,63 @@ export class Report {
     this.signature = data.slice(SIGNATURE_OFFSET, REPORT_SIZE);
   }
 
+  /**
+   * Used by JSON.stringify, which cannot encode the bigint fields. The signed
+   * data is left out, as it is the report itself.
+   */
+  toJSON(): ReportJSON {
+    const hex64 = (value: bigint) => `0x${value.toString(16).padStart(16, '0')}`;
+    return {
+      version: this.version,
+      guestSvn: this.guestSvn,
+      policy: hex64(this.policy),
+      policyParsed: this.policyParsed,
+      familyId: bytesToHex(this.familyId),
+      imageId: bytesToHex(this.imageId),
+      vmpl: this.vmpl,
+      signatureAlgo: this.signatureAlgo,
+      currentTcb: hex64(this.currentTcb),
+      platformInfo: hex64(this.platformInfo),
+      platformInfoParsed: this.platformInfoParsed,
+      signerInfo: this.signerInfo,
+      signerInfoParsed: this.signerInfoParsed,
+      reportData: bytesToHex(this.reportData),
+      measurement: bytesToHex(this.measurement),
+      hostData: bytesToHex(this.hostData),
+      idKeyDigest: bytesToHex(this.idKeyDigest),
+      authorKeyDigest: bytesToHex(this.authorKeyDigest),
+      reportId: bytesToHex(this.reportId),
+      reportIdMa: bytesToHex(this.reportIdMa),
+      reportedTcb: hex64(this.reportedTcb),
+      chipId: bytesToHex(this.chipId),
+      committedTcb: hex64(this.committedTcb),
+      currentBuild: this.currentBuild,
+      currentMinor: this.currentMinor,
+      currentMajor: this.currentMajor,
+      committedBuild: this.committedBuild,
+      committedMinor: this.committedMinor,
+      committedMajor: this.committedMajor,
+      launchTcb: hex64(this.launchTcb),
+      signature: bytesToHex(this.signature),
+      family: this.family,
+      model: this.model,
+      stepping: this.stepping,
+      productName: this.productName,
+    };
+  }
+
+  /**
+   * Checks that the reserved bits of a TCB_VERSION value are zero.
+   * Milan and Genoa reserve bits 47-16; Turin reserves bits 55-32.
+   */
+  private checkTcbReserved(tcb: bigint, base: string): void {
+    if (this.productName === 'Turin') {
+      mbz64(tcb, base, 55, 32);
+    } else {
+      mbz64(tcb, base, 47, 16);
+    }
+  }
+
   private initProductName(): string {
     if (this.family === ZEN3ZEN4_FAMILY) {
       if (this.model === MILAN_MODEL) return 'Milan';
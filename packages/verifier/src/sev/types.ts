@@ -1,5 +1,8 @@
 import { ReportSigner } from './constants.js';
 
+// Key that signed the attestation report
+export type EndorsementKeyType = 'VCEK' | 'VLEK';
+
 export interface SignerInfo {
   signingKey: ReportSigner;
   maskChipKey: boolean;
@@ -11,6 +14,7 @@ export interface TCBParts {
   snpSpl: number;
   teeSpl: number;
   blSpl: number;
+  fmcSpl?: number;  // Turin and later only
 }
 
 export interface SnpPlatformInfo {
@@ -36,3 +40,48 @@ export interface SnpPolicy {
   ciphertextHidingDram: boolean;
   pageSwapDisabled: boolean;
 }
+
+export interface FirmwareVersion {
+  major: number;
+  minor: number;
+  build: number;
+}
+
+/**
+ * Values carried in the extensions of a VCEK or VLEK certificate.
+ */
+export interface EndorsementKeyExtensions {
+  tcb: TCBParts;         // SPLs the certificate was issued for
+  productName?: string;
+  hwid?: string;         // Hex chip ID the VCEK was issued for (VCEK only)
+  cspId?: string;        // Cloud provider the VLEK was issued to (VLEK only)
+}
+
+/**
+ * Decoded SEV-SNP report fields and endorsement certificate details,
+ * recorded so callers can see the TCB and firmware level of an enclave.
+ */
+export interface SevSnpPlatformEvidence {
+  productName: string;                    // e.g. "Genoa"
+  reportVersion: number;
+  guestSvn: number;
+  vmpl: number;
+  policy: SnpPolicy;
+  platformInfo: SnpPlatformInfo;
+  signerInfo: SignerInfo;
+  currentTcb: TCBParts;
+  reportedTcb: TCBParts;                  // TCB the report's endorsement key was derived from
+  committedTcb: TCBParts;
+  launchTcb: TCBParts;
+  currentFirmware: FirmwareVersion;
+  committedFirmware: FirmwareVersion;
+  chipId: string;                         // Hex; zero when the chip key is masked
+  familyId: string;                       // Hex
+  imageId: string;                        // Hex
+  hostData: string;                       // Hex
+  idKeyDigest: string;                    // Hex
+  authorKeyDigest: string;                // Hex
+  reportId: string;                       // Hex
+  reportIdMa: string;                     // Hex
+  endorsementKey: EndorsementKeyExtensions & { type: EndorsementKeyType };
+}
@@ -1,6 +1,23 @@
 import type { TCBParts, SnpPlatformInfo, SnpPolicy } from './types.js';
 
-export function tcbFromInt(tcb: bigint): TCBParts {
+/**
+ * Decode a TCB_VERSION value. Turin moved the SPL fields and added FMC_SPL,
+ * so the layout depends on the product line.
+ *
+ * @param tcb - The raw 64-bit TCB value
+ * @param productName - The product name decoded from the report
+ * @returns The decoded TCB parts
+ */
+export function tcbFromInt(tcb: bigint, productName: string = 'Genoa'): TCBParts {
+  if (productName === 'Turin') {
+    return {
+      ucodeSpl: Number((tcb >> 56n) & 0xffn),
+      snpSpl: Number((tcb >> 24n) & 0xffn),
+      teeSpl: Number((tcb >> 16n) & 0xffn),
+      blSpl: Number((tcb >> 8n) & 0xffn),
+      fmcSpl: Number(tcb & 0xffn),
+    };
+  }
   return {
     ucodeSpl: Number((tcb >> 56n) & 0xffn),
     snpSpl: Number((tcb >> 48n) & 0xffn),
@@ -14,7 +31,8 @@ export function tcbMeetsMinimum(tcb: TCBParts, minimum: TCBParts): boolean {
     tcb.blSpl >= minimum.blSpl &&
     tcb.teeSpl >= minimum.teeSpl &&
     tcb.snpSpl >= minimum.snpSpl &&
-    tcb.ucodeSpl >= minimum.ucodeSpl
+    tcb.ucodeSpl >= minimum.ucodeSpl &&
+    (minimum.fmcSpl === undefined || (tcb.fmcSpl ?? 0) >= minimum.fmcSpl)
   );
 }
 
@@ -65,3 +83,20 @@ export function hexToBytes(hex: string): Uint8Array {
   }
   return bytes;
 }
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binaryString = '';
+  for (const byte of bytes) {
+    binaryString += String.fromCharCode(byte);
+  }
+  return btoa(binaryString);
+}
+
+export function base64ToBytes(base64: string): Uint8Array {
+  const binaryString = atob(base64);
+  const bytes = new Uint8Array(binaryString.length);
+  for (let i = 0; i < binaryString.length; i++) {
+    bytes[i] = binaryString.charCodeAt(i);
+  }
+  return bytes;
+}
@@ -3,7 +3,18 @@ import { CertificateChain } from './cert-chain.js';
 import type { TCBParts, SnpPolicy, SnpPlatformInfo } from './types.js';
 import { tcbFromInt, tcbMeetsMinimum, bytesToHex } from './utils.js';
 import { ReportSigner } from './constants.js';
-import { uint8ArrayEqual } from '@freedomofpress/crypto-browser';
+import type { X509Certificate } from '@freedomofpress/sigstore-browser';
+import { ASN1Obj, uint8ArrayEqual } from '@freedomofpress/crypto-browser';
+
+// SEV-SNP only accepts ECDSA P-384 keys as ID and author keys
+const EC_PUBLIC_KEY_OID = '1.2.840.10045.2.1';
+const SECP384R1_OID = '1.3.132.0.34';
+
+// Size of an ECDSA public key in the SEV-SNP ABI format
+const SEV_ECDSA_PUBLIC_KEY_SIZE = 0x404;
+const SEV_ECDSA_CURVE_P384 = 2;
+const SEV_ECDSA_COORDINATE_SIZE = 72;
+const P384_COORDINATE_SIZE = 48;
 
 /**
  * Verification options for an SEV-SNP attestation report.
@@ -30,18 +41,25 @@ export interface ValidationOptions {
   reportIdMa?: Uint8Array;          // 32 bytes
   measurement?: Uint8Array;         // 48 bytes
   chipId?: Uint8Array;              // 64 bytes
+  trustedChipIds?: Uint8Array[];    // Allowlist of 64 byte chip IDs
 
   // Misc
   platformInfo?: SnpPlatformInfo;
   vmpl?: number;                    // Expected VMPL (0-3)
 
-  // TODO: ID-block / author key requirements
+  // VLEK requirements: cloud providers whose VLEK may sign the report
+  trustedCspIds?: string[];
+
+  // ID-block / author key requirements. Keys are P-384 certificates, which
+  // resolveTrustedKeyDigests turns into hashes: SHA-384 digests of the key in
+  // the SEV-SNP ABI public key format (48 bytes).
+  // The imageId and familyId checks above only carry weight with requireIdBlock.
   requireAuthorKey: boolean;
   requireIdBlock: boolean;
-  // trustedAuthorKeys: x509.Certificate[]
-  // trustedAuthorKeyHashes: Uint8Array[]
-  // trustedIdKeys: x509.Certificate[]
-  // trustedIdKeyHashes: Uint8Array[]
+  trustedAuthorKeys?: X509Certificate[];
+  trustedAuthorKeyHashes?: Uint8Array[];
+  trustedIdKeys?: X509Certificate[];
+  trustedIdKeyHashes?: Uint8Array[];
 
   // TODO: Extended certificate-table options
   // certTableOptions: Map<string, CertEntryOption>
@@ -91,6 +109,42 @@ export const defaultValidationOptions: ValidationOptions = {
   requireIdBlock: false,
 };
 
+// Minimum TCBs of the product lines other than Genoa, whose floors are in
+// defaultValidationOptions. The Milan microcode floor is the 0x0A0011D5 patch
+// of AMD-SB-3019; the bootloader and SNP SPLs are those of the MilanPI 1.0.0.F
+// firmware the bulletin ships it with. Turin has no floors until its roots are
+// embedded in AMD_ROOT_CERTS.
+const productMinimumTcbs: Record<string, TCBParts> = {
+  Milan: {
+    blSpl: 0x3,
+    teeSpl: 0,
+    snpSpl: 0x16,
+    ucodeSpl: 0xd5,
+  },
+};
+
+/**
+ * Returns the default validation options for a product line.
+ *
+ * SPL numbering is specific to each product line, so the minimum TCB and
+ * launch TCB are those of the report's product. Products without known
+ * floors are validated without them unless the caller provides them.
+ *
+ * @param productName - The product name decoded from the report
+ * @returns Validation options suitable for the product line
+ */
+export function defaultValidationOptionsForProduct(productName: string): ValidationOptions {
+  if (productName === 'Genoa') {
+    return defaultValidationOptions;
+  }
+  const minimumTcb = productMinimumTcbs[productName];
+  return {
+    ...defaultValidationOptions,
+    minimumTcb,
+    minimumLaunchTcb: minimumTcb,
+  };
+}
+
 /**
  * Validate policy with security-aware checks.
  *
@@ -172,16 +226,20 @@ function comparePolicyVersions(required: SnpPolicy, report: SnpPolicy): number {
 }
 
 function tcbPartsToString(tcb: TCBParts): string {
-  return `TCBParts(bootloader=${tcb.blSpl}, tee=${tcb.teeSpl}, snp=${tcb.snpSpl}, microcode=${tcb.ucodeSpl})`;
+  const fmc = tcb.fmcSpl !== undefined ? `fmc=${tcb.fmcSpl}, ` : '';
+  return `TCBParts(${fmc}bootloader=${tcb.blSpl}, tee=${tcb.teeSpl}, snp=${tcb.snpSpl}, microcode=${tcb.ucodeSpl})`;
 }
 
 /**
  * Validate the supplied SEV-SNP attestation report according to options.
  *
+ * Trusted ID and author key certificates must first be turned into digests
+ * with resolveTrustedKeyDigests, as hashing them is asynchronous.
+ *
  * @param report - The attestation report to validate
  * @param chain - The certificate chain
  * @param options - Validation options
- * @throws Error if validation fails
+ * @throws Error if validation fails or the options still hold key certificates
  */
 export function validateReport(report: Report, chain: CertificateChain, options: ValidationOptions): void {
   // Policy constraints
@@ -217,9 +275,9 @@ export function validateReport(report: Report, chain: CertificateChain, options:
 
   // TCB requirements
   if (options.minimumTcb) {
-    const currentTcbParts = tcbFromInt(report.currentTcb);
-    const committedTcbParts = tcbFromInt(report.committedTcb);
-    const reportedTcbParts = tcbFromInt(report.reportedTcb);
+    const currentTcbParts = tcbFromInt(report.currentTcb, report.productName);
+    const committedTcbParts = tcbFromInt(report.committedTcb, report.productName);
+    const reportedTcbParts = tcbFromInt(report.reportedTcb, report.productName);
 
     if (!tcbMeetsMinimum(currentTcbParts, options.minimumTcb)) {
       throw new Error(`Current TCB ${tcbPartsToString(currentTcbParts)} does not meet minimum requirements ${tcbPartsToString(options.minimumTcb)}`);
@@ -233,10 +291,10 @@ export function validateReport(report: Report, chain: CertificateChain, options:
   }
 
   // VCEK-specific TCB check
-  chain.validateVcekTcb(tcbFromInt(report.reportedTcb));
+  chain.validateVcekTcb(tcbFromInt(report.reportedTcb, report.productName));
 
   if (options.minimumLaunchTcb) {
-    const launchTcbParts = tcbFromInt(report.launchTcb);
+    const launchTcbParts = tcbFromInt(report.launchTcb, report.productName);
     if (!tcbMeetsMinimum(launchTcbParts, options.minimumLaunchTcb)) {
       throw new Error(`Launch TCB ${tcbPartsToString(launchTcbParts)} does not meet minimum requirements ${tcbPartsToString(options.minimumLaunchTcb)}`);
     }
@@ -279,6 +337,10 @@ export function validateReport(report: Report, chain: CertificateChain, options:
     }
   }
 
+  if (options.trustedChipIds && !options.trustedChipIds.some(id => uint8ArrayEqual(id, report.chipId))) {
+    throw new Error(`Chip ID ${bytesToHex(report.chipId)} is not in the trusted list`);
+  }
+
   if (options.imageId) {
     if (report.imageId.length !== 16) {
       throw new Error(`Image ID length is ${report.imageId.length}, expected 16 bytes`);
@@ -315,6 +377,20 @@ export function validateReport(report: Report, chain: CertificateChain, options:
     }
   }
 
+  // The chain must hold the key type the report claims to be signed by
+  const expectedKey = report.signerInfoParsed.signingKey === ReportSigner.VlekReportSigner ? 'VLEK' : 'VCEK';
+  if (chain.endorsementKey !== expectedKey) {
+    throw new Error(`Report is signed by ${expectedKey} but certificate chain holds a ${chain.endorsementKey}`);
+  }
+
+  // VLEK-specific CSP_ID check
+  if (expectedKey === 'VLEK' && options.trustedCspIds) {
+    const cspId = chain.cspId;
+    if (!cspId || !options.trustedCspIds.includes(cspId)) {
+      throw new Error(`VLEK CSP_ID ${cspId} is not in the trusted list: ${options.trustedCspIds.join(', ')}`);
+    }
+  }
+
   // VCEK-specific CHIP_ID ↔ HWID equality check
   if (report.signerInfoParsed.signingKey === ReportSigner.VcekReportSigner) {
     if (report.signerInfoParsed.maskChipKey && report.chipId.some(b => b !== 0)) {
@@ -360,8 +436,108 @@ export function validateReport(report: Report, chain: CertificateChain, options:
   }
 
   // ID-block / author key requirements
-  if (options.requireAuthorKey || options.requireIdBlock) {
-    throw new Error('ID-block and author key requirements are not supported yet');
+  validateKeyDigests(report, options);
+}
+
+/**
+ * Compute the digest SEV-SNP firmware records for an ID or author key.
+ *
+ * The firmware hashes the key in the SEV-SNP ABI public key format: a little
+ * endian curve identifier followed by the little endian X and Y coordinates,
+ * each zero-padded to 72 bytes, then reserved space up to 0x404 bytes.
+ *
+ * @param cert - Certificate holding a P-384 public key
+ * @returns SHA-384 digest comparable to ID_KEY_DIGEST or AUTHOR_KEY_DIGEST
+ * @throws Error if the certificate does not hold a P-384 key
+ */
+export async function sevPublicKeyDigest(cert: X509Certificate): Promise<Uint8Array> {
+  const spki = ASN1Obj.parseBuffer(cert.publicKey);
+  const [keyType, curve] = spki.subs[0].subs;
+  if (keyType.toOID() !== EC_PUBLIC_KEY_OID || curve?.toOID() !== SECP384R1_OID) {
+    throw new Error('ID and author keys must be ECDSA P-384 keys');
+  }
+
+  // BIT STRING holds an unused-bits byte, then the uncompressed point 0x04 || X || Y
+  const bits = spki.subs[1].value;
+  const point = bits.subarray(bits.length - (1 + 2 * P384_COORDINATE_SIZE));
+  if (point[0] !== 0x04) {
+    throw new Error('ID and author keys must be uncompressed P-384 points');
+  }
+  const x = point.slice(1, 1 + P384_COORDINATE_SIZE).reverse();
+  const y = point.slice(1 + P384_COORDINATE_SIZE).reverse();
+
+  const encoded = new Uint8Array(SEV_ECDSA_PUBLIC_KEY_SIZE);
+  new DataView(encoded.buffer).setUint32(0, SEV_ECDSA_CURVE_P384, true);
+  encoded.set(x, 4);
+  encoded.set(y, 4 + SEV_ECDSA_COORDINATE_SIZE);
+
+  return new Uint8Array(await crypto.subtle.digest('SHA-384', encoded));
+}
+
+/**
+ * Replace the trusted ID and author key certificates in validation options
+ * with their digests, so validateReport can check them synchronously.
+ *
+ * @param options - Validation options
+ * @returns The options with the certificates' digests added to the trusted hashes
+ * @throws Error if a certificate does not hold a P-384 key
+ */
+export async function resolveTrustedKeyDigests(options: ValidationOptions): Promise<ValidationOptions> {
+  const { trustedAuthorKeys, trustedIdKeys, ...rest } = options;
+  const digests = (keys?: X509Certificate[]) => Promise.all((keys ?? []).map(sevPublicKeyDigest));
+  return {
+    ...rest,
+    trustedAuthorKeyHashes: [...(options.trustedAuthorKeyHashes ?? []), ...await digests(trustedAuthorKeys)],
+    trustedIdKeyHashes: [...(options.trustedIdKeyHashes ?? []), ...await digests(trustedIdKeys)],
+  };
+}
+
+/**
+ * Validate the ID and author key digests against the trusted keys.
+ *
+ * Logic:
+ * - AUTHOR_KEY_DIGEST must be zero unless AUTHOR_KEY_EN is set
+ * - requireAuthorKey: AUTHOR_KEY_EN must be set and the author key trusted
+ * - requireIdBlock: an ID block must be present and either the ID key is
+ *   trusted or it is endorsed by a trusted author key
+ *
+ * @param report - The attestation report to validate
+ * @param options - Validation options
+ * @throws Error if validation fails
+ */
+function validateKeyDigests(report: Report, options: ValidationOptions) {
+  const authorKeyEn = report.signerInfoParsed.authorKeyEn;
+  if (!authorKeyEn && report.authorKeyDigest.some(b => b !== 0)) {
+    throw new Error(`AUTHOR_KEY_EN is not set but author key digest is not zero: ${bytesToHex(report.authorKeyDigest)}`);
+  }
+
+  if (!options.requireAuthorKey && !options.requireIdBlock) {
+    return;
+  }
+
+  if (options.trustedAuthorKeys?.length || options.trustedIdKeys?.length) {
+    throw new Error('Trusted ID and author key certificates must be resolved with resolveTrustedKeyDigests');
+  }
+
+  const authorKeyTrusted = authorKeyEn && (options.trustedAuthorKeyHashes ?? []).some(d => uint8ArrayEqual(d, report.authorKeyDigest));
+
+  if (options.requireAuthorKey) {
+    if (!authorKeyEn) {
+      throw new Error('Author key is required but AUTHOR_KEY_EN is not set');
+    }
+    if (!authorKeyTrusted) {
+      throw new Error(`Author key digest ${bytesToHex(report.authorKeyDigest)} is not trusted`);
+    }
+  }
+
+  if (options.requireIdBlock) {
+    if (report.idKeyDigest.every(b => b === 0)) {
+      throw new Error('ID block is required but the report has no ID key digest');
+    }
+    const idKeyTrusted = (options.trustedIdKeyHashes ?? []).some(d => uint8ArrayEqual(d, report.idKeyDigest));
+    if (!idKeyTrusted && !authorKeyTrusted) {
+      throw new Error(`ID key digest ${bytesToHex(report.idKeyDigest)} is not trusted and not endorsed by a trusted author key`);
+    }
   }
 }
 
@@ -2,6 +2,7 @@ import type { Report } from './report.js';
 import type { CertificateChain } from './cert-chain.js';
 import { POLICY_RESERVED_1_BIT } from './constants.js';
 import { KeyTypes, HashAlgorithms } from '@freedomofpress/crypto-browser';
+import { CertificateChainError, ReportValidationError } from '../errors.js';
 
 /**
  * Verify the attestation report signature using VCEK's public key.
@@ -9,7 +10,7 @@ import { KeyTypes, HashAlgorithms } from '@freedomofpress/crypto-browser';
  * @param vcekPublicKey - The VCEK public key
  * @param report - The attestation report
  * @returns True if signature is valid
- * @throws Error if validation fails
+ * @throws ReportValidationError if validation fails
  */
 async function verifyReportSignature(
   vcekPublicKey: CryptoKey,
@@ -17,22 +18,22 @@ async function verifyReportSignature(
 ): Promise<boolean> {
   // Validate Report Format
   if (report.version < 2) {
-    throw new Error(`Report version is lower than 2: is ${report.version}`);
+    throw new ReportValidationError(`Report version is lower than 2: is ${report.version}`);
   }
 
   // Check reserved bit must be 1
   if (!(report.policy & (1n << BigInt(POLICY_RESERVED_1_BIT)))) {
-    throw new Error(`policy[${POLICY_RESERVED_1_BIT}] is reserved, must be 1, got 0`);
+    throw new ReportValidationError(`policy[${POLICY_RESERVED_1_BIT}] is reserved, must be 1, got 0`);
   }
 
   // Check policy bits 63-26 must be zero
   if (report.policy >> 26n) {
-    throw new Error('policy bits 63-26 must be zero');
+    throw new ReportValidationError('policy bits 63-26 must be zero');
   }  
 
   // Check signature algorithm must be ECDSA
   if (report.signatureAlgo !== 1) { // 1 = SignEcdsaP384Sha384
-    throw new Error(`Unknown SignatureAlgo: ${report.signatureAlgo}`);
+    throw new ReportValidationError(`Unknown SignatureAlgo: ${report.signatureAlgo}`);
   }
 
   // Convert the signature from AMD's little-endian format to WebCrypto raw format
@@ -73,7 +74,7 @@ async function verifyReportSignature(
 
     return isValid;
   } catch (e) {
-    throw new Error('Attestation signature verification failed', { cause: e });
+    throw new ReportValidationError('Attestation signature verification failed', { cause: e });
   }
 }
 
@@ -82,16 +83,18 @@ async function verifyReportSignature(
  *
  * @param chain - The certificate chain (ARK > ASK > VCEK)
  * @param report - The attestation report
+ * @param now - The time at which the certificates must be valid
  * @returns True if verification succeeds
  */
 export async function verifyAttestation(
   chain: CertificateChain,
-  report: Report
+  report: Report,
+  now: Date = new Date()
 ): Promise<boolean> {
   // Verify certificate chain
-  const isChainValid = await chain.verifyChain();
+  const isChainValid = await chain.verifyChain(now);
   if (!isChainValid) {
-    throw new Error('Certificate chain verification returned false');
+    throw new CertificateChainError('Certificate chain verification returned false');
   }
 
   // Get the CryptoKey from VCEK certificate
@@ -99,7 +102,7 @@ export async function verifyAttestation(
   const vcekPublicKey = await chain.vcekPublicKey;
   const isSignatureValid = await verifyReportSignature(vcekPublicKey, report);
   if (!isSignatureValid) {
-    throw new Error('Report signature verification returned false');
+    throw new ReportValidationError('Report signature verification returned false');
   }
 
   return true;
@@ -1,7 +1,9 @@
 import { PredicateType } from './types.js';
-import type { AttestationMeasurement } from './types.js';
+import type { AttestationMeasurement, HardwareMeasurement, TdxMeasurement } from './types.js';
 import type { X509Certificate, VerificationPolicy } from '@freedomofpress/sigstore-browser';
 import sigstoreTrustedRoot from './sigstore-trusted-root.json' with { type: 'json' };
+import { withSpan } from './telemetry.js';
+import { SigstoreVerificationError } from './errors.js';
 
 class GitHubWorkflowRefPattern implements VerificationPolicy {
   private pattern: RegExp;
@@ -31,13 +33,106 @@ class GitHubWorkflowRefPattern implements VerificationPolicy {
  * @param digest - The expected hex-encoded SHA256 digest of the DSSE payload
  * @param repo - The repository name
  * @returns The verified measurement data
- * @throws Error if verification fails or digests don't match
+ * @throws SigstoreVerificationError if verification fails or digests don't match
  */
 export async function verifyAttestation(
   bundleJson: unknown,
   digest: string,
   repo: string
 ): Promise<AttestationMeasurement> {
+  return withSpan(
+    'tinfoil.sigstore.verify',
+    { 'tinfoil.config.repo': repo, 'tinfoil.release.digest': digest },
+    () => verifyBundle(bundleJson, digest, repo)
+  );
+}
+
+/**
+ * Verifies a release of Tinfoil's hardware measurements against a trusted
+ * root (Sigstore) and returns the MRTD and RTMR0 pairs of each platform.
+ *
+ * @param bundleJson - The bundle JSON data
+ * @param digest - The expected hex-encoded SHA256 digest of the DSSE payload
+ * @param repo - The repository name
+ * @returns The trusted hardware measurements, with IDs of the form platform@digest
+ * @throws SigstoreVerificationError if verification fails or the predicate is malformed
+ */
+export async function verifyHardwareMeasurements(
+  bundleJson: unknown,
+  digest: string,
+  repo: string
+): Promise<HardwareMeasurement[]> {
+  return withSpan(
+    'tinfoil.sigstore.verify',
+    { 'tinfoil.config.repo': repo, 'tinfoil.release.digest': digest },
+    async () => {
+      const { predicateType, predicate } = await verifyDsse(bundleJson, digest, repo);
+      try {
+        if (predicateType !== PredicateType.HardwareMeasurementsV1) {
+          throw new Error(`Unsupported predicate type: ${predicateType}`);
+        }
+        return Object.entries(predicate as Record<string, { mrtd?: unknown; rtmr0?: unknown }>).map(([platform, hw]) => {
+          if (typeof hw?.mrtd !== 'string' || typeof hw?.rtmr0 !== 'string') {
+            throw new Error(`Hardware measurement ${platform} must contain mrtd and rtmr0`);
+          }
+          return { ID: `${platform}@${digest}`, MRTD: hw.mrtd, RTMR0: hw.rtmr0 };
+        });
+      } catch (e) {
+        throw new SigstoreVerificationError('Hardware measurements processing failed', { cause: e });
+      }
+    }
+  );
+}
+
+async function verifyBundle(
+  bundleJson: unknown,
+  digest: string,
+  repo: string
+): Promise<AttestationMeasurement> {
+  const { predicateType, predicate: predicateFields } = await verifyDsse(bundleJson, digest, repo);
+
+  try {
+    // Convert predicate type to measurement type
+    let registers: string[];
+    let tdxMeasurement: TdxMeasurement | undefined;
+
+    if (predicateType === PredicateType.SnpTdxMultiplatformV1) {
+      if (!predicateFields.snp_measurement) {
+        throw new Error('SNP TDX Multiplatform V1 predicate does not contain snp_measurement');
+      }
+      registers = [predicateFields.snp_measurement];
+
+      const tdx = predicateFields.tdx_measurement;
+      if (tdx) {
+        if (!tdx.rtmr1 || !tdx.rtmr2) {
+          throw new Error('SNP TDX Multiplatform V1 predicate tdx_measurement must contain rtmr1 and rtmr2');
+        }
+        tdxMeasurement = { rtmr1: tdx.rtmr1, rtmr2: tdx.rtmr2 };
+      }
+    } else {
+      throw new Error(`Unsupported predicate type: ${predicateType}`);
+    }
+
+    return {
+      type: predicateType,
+      registers,
+      ...(tdxMeasurement && { tdxMeasurement }),
+    };
+
+  } catch (e) {
+    throw new SigstoreVerificationError('Attestation processing failed', { cause: e });
+  }
+}
+
+/**
+ * Verifies a DSSE bundle signed by a release workflow of the repo and
+ * returns the in-toto predicate it carries.
+ */
+async function verifyDsse(
+  bundleJson: unknown,
+  digest: string,
+  repo: string
+): Promise<{ predicateType: PredicateType; predicate: any }> {
 
   try {
     const {
@@ -74,9 +169,6 @@ export async function verifyAttestation(
       throw new Error(`Unsupported payload type: ${payloadType}. Only supports In-toto.`);
     }
 
-    const predicateType = payload.predicateType as PredicateType;
-    const predicateFields = payload.predicate;
-
     // Manual Payload Digest Verification
     // Now, verify that the provided external digest matches the
     // actual digest in the payload returned from the verified envelope
@@ -86,28 +178,12 @@ export async function verifyAttestation(
       );
     }
 
-    // Convert predicate type to measurement type
-    let registers: string[];
-
-    if (!predicateFields) {
+    if (!payload.predicate) {
       throw new Error('Payload does not contain predicate');
     }
 
-    if (predicateType === PredicateType.SnpTdxMultiplatformV1) {
-      if (!predicateFields.snp_measurement) {
-        throw new Error('SNP TDX Multiplatform V1 predicate does not contain snp_measurement');
-      }
-      registers = [predicateFields.snp_measurement];
-    } else {
-      throw new Error(`Unsupported predicate type: ${predicateType}`);
-    }
-
-    return {
-      type: predicateType,
-      registers,
-    };
-
+    return { predicateType: payload.predicateType as PredicateType, predicate: payload.predicate };
   } catch (e) {
-    throw new Error('Attestation processing failed', { cause: e });
+    throw new SigstoreVerificationError('Attestation processing failed', { cause: e });
   }
 }
@@ -0,0 +1,103 @@
+import type { TdxCollateral } from './types.js';
+import { bytesToHex } from '../sev/utils.js';
+import { resolveEndpoints, networkFetch } from '../endpoints.js';
+import type { NetworkOptions } from '../endpoints.js';
+
+/**
+ * Fetches the TCB info and QE identity collateral for a platform from the Intel PCS.
+ *
+ * @param fmspc - The 6 byte FMSPC taken from the PCK certificate
+ * @param network - Endpoints and fetch to use
+ * @returns The signed collateral
+ * @throws Error if a request fails or a response is malformed
+ */
+export async function fetchCollateral(fmspc: Uint8Array, network: NetworkOptions = {}): Promise<TdxCollateral> {
+  const pcs = resolveEndpoints(network.endpoints).intelPcs;
+  const fetchFn = networkFetch(network);
+  const [tcbInfo, qeIdentity] = await Promise.all([
+    fetchSignedJson(
+      `${pcs}/tcb?fmspc=${bytesToHex(fmspc)}`,
+      fetchFn,
+      'tcbInfo',
+      ['TCB-Info-Issuer-Chain', 'SGX-TCB-Info-Issuer-Chain']
+    ),
+    fetchSignedJson(
+      `${pcs}/qe/identity`,
+      fetchFn,
+      'enclaveIdentity',
+      ['SGX-Enclave-Identity-Issuer-Chain']
+    ),
+  ]);
+
+  return {
+    tcbInfoJson: tcbInfo.json,
+    tcbInfoSignature: tcbInfo.signature,
+    tcbInfoIssuerChain: tcbInfo.issuerChain,
+    qeIdentityJson: qeIdentity.json,
+    qeIdentitySignature: qeIdentity.signature,
+    qeIdentityIssuerChain: qeIdentity.issuerChain,
+  };
+}
+
+async function fetchSignedJson(
+  url: string,
+  fetchFn: typeof fetch,
+  field: string,
+  issuerChainHeaders: string[]
+): Promise<{ json: string; signature: string; issuerChain: string }> {
+  const response = await fetchFn(url);
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch ${field} collateral: ${response.status} ${response.statusText}`);
+  }
+
+  let issuerChain: string | null = null;
+  for (const header of issuerChainHeaders) {
+    issuerChain = response.headers.get(header);
+    if (issuerChain) break;
+  }
+  if (!issuerChain) {
+    throw new Error(`Response for ${field} collateral is missing the issuer chain header`);
+  }
+
+  const text = await response.text();
+  return {
+    ...extractSignedJson(text, field),
+    issuerChain: decodeURIComponent(issuerChain),
+  };
+}
+
+/**
+ * Extracts the signed JSON object and its signature from a PCS response.
+ * The signature covers the exact serialized bytes of the object, so it is
+ * sliced out of the response text rather than re-serialized.
+ *
+ * @param text - The raw response body
+ * @param field - The name of the signed field ("tcbInfo" or "enclaveIdentity")
+ * @returns The raw JSON of the signed field and the hex signature
+ * @throws Error if the response is malformed
+ */
+export function extractSignedJson(text: string, field: string): { json: string; signature: string } {
+  let parsed: Record<string, unknown>;
+  try {
+    parsed = JSON.parse(text);
+  } catch (e) {
+    throw new Error(`Failed to parse ${field} collateral`, { cause: e });
+  }
+
+  if (typeof parsed.signature !== 'string' || typeof parsed[field] !== 'object') {
+    throw new Error(`Collateral does not contain ${field} and signature`);
+  }
+
+  const fieldStart = text.indexOf(`"${field}"`);
+  const objectStart = text.indexOf('{', fieldStart);
+  const objectEnd = text.lastIndexOf(',"signature"');
+  if (fieldStart < 0 || objectStart < 0 || objectEnd < objectStart) {
+    throw new Error(`Unable to locate signed ${field} body in collateral`);
+  }
+
+  return {
+    json: text.slice(objectStart, objectEnd),
+    signature: parsed.signature,
+  };
+}
@@ -0,0 +1,32 @@
+export const QUOTE_HEADER_SIZE = 48;
+export const QUOTE_BODY_DESCRIPTOR_SIZE = 6;
+export const TD10_REPORT_SIZE = 584;
+export const TD15_REPORT_SIZE = 648;
+export const QE_REPORT_SIZE = 384;
+export const ECDSA_P256_SIGNATURE_SIZE = 64;
+export const ECDSA_P256_KEY_SIZE = 64;
+
+export const QUOTE_VERSION_V4 = 4;
+export const QUOTE_VERSION_V5 = 5;
+export const ATTESTATION_KEY_TYPE_ECDSA_P256 = 2;
+export const TEE_TYPE_TDX = 0x81;
+
+// Body types in the v5 quote body descriptor
+export const BODY_TYPE_TD10 = 2;
+export const BODY_TYPE_TD15 = 3;
+
+// Certification data types
+export const CERT_DATA_PCK_CHAIN = 5;
+export const CERT_DATA_QE_REPORT = 6;
+
+// Intel QE vendor ID: 939A7233-F79C-4CA9-940A-0DB3957F0607
+export const INTEL_QE_VENDOR_ID = new Uint8Array([
+  0x93, 0x9a, 0x72, 0x33, 0xf7, 0x9c, 0x4c, 0xa9,
+  0x94, 0x0a, 0x0d, 0xb3, 0x95, 0x7f, 0x06, 0x07,
+]);
+
+// TD attributes bit positions (64-bit little-endian field)
+export const TD_ATTRIBUTES_DEBUG_BIT = 0;
+export const TD_ATTRIBUTES_SEPT_VE_DISABLE_BIT = 28;
+
+export const RTMR_SIZE = 48;
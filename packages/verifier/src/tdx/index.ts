@@ -0,0 +1,9 @@
+export { Quote, splitPemChain } from './quote.js';
+export { fetchCollateral, extractSignedJson } from './collateral.js';
+export { verifyQuote, parsePckExtensions } from './verify.js';
+export type { VerifiedCollateral } from './verify.js';
+export { validateQuote, defaultTdxValidationOptions } from './validation.js';
+export type { TdxValidationOptions } from './validation.js';
+export * from './types.js';
+export * from './constants.js';
+export { INTEL_SGX_ROOT_CA } from './certs.js';
@@ -0,0 +1,204 @@
+import type { QuoteHeader, TdReport, QeReport } from './types.js';
+import {
+  QUOTE_HEADER_SIZE,
+  QUOTE_BODY_DESCRIPTOR_SIZE,
+  TD10_REPORT_SIZE,
+  TD15_REPORT_SIZE,
+  QE_REPORT_SIZE,
+  ECDSA_P256_SIGNATURE_SIZE,
+  ECDSA_P256_KEY_SIZE,
+  QUOTE_VERSION_V4,
+  QUOTE_VERSION_V5,
+  BODY_TYPE_TD10,
+  BODY_TYPE_TD15,
+  CERT_DATA_PCK_CHAIN,
+  CERT_DATA_QE_REPORT,
+} from './constants.js';
+
+/**
+ * Intel TDX DCAP quote (version 4 or 5)
+ */
+export class Quote {
+  header: QuoteHeader;
+  bodyType: number;
+  report: TdReport;
+  signedData: Uint8Array;         // Header (and v5 body descriptor) plus the TD report
+  signature: Uint8Array;          // 64 bytes, raw r||s
+  attestationKey: Uint8Array;     // 64 bytes, raw x||y
+  qeReportRaw: Uint8Array;        // 384 bytes
+  qeReport: QeReport;
+  qeReportSignature: Uint8Array;  // 64 bytes, raw r||s
+  qeAuthData: Uint8Array;
+  pckCertChain: string[];         // PEM certificates, leaf first
+
+  /**
+   * Parse a TDX quote from raw bytes in Intel DCAP format.
+   *
+   * @param data - Raw bytes of the quote
+   * @returns Quote object containing parsed data
+   * @throws Error if data is malformed
+   */
+  constructor(data: Uint8Array) {
+    if (data.length < QUOTE_HEADER_SIZE) {
+      throw new Error(`Quote size is ${data.length}, smaller than the ${QUOTE_HEADER_SIZE} byte header`);
+    }
+
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+
+    this.header = {
+      version: view.getUint16(0, true),
+      attestationKeyType: view.getUint16(2, true),
+      teeType: view.getUint32(4, true),
+      qeSvn: view.getUint16(8, true),
+      pceSvn: view.getUint16(10, true),
+      qeVendorId: data.slice(12, 28),
+      userData: data.slice(28, 48),
+    };
+
+    let offset = QUOTE_HEADER_SIZE;
+    let bodySize: number;
+    if (this.header.version === QUOTE_VERSION_V4) {
+      this.bodyType = BODY_TYPE_TD10;
+      bodySize = TD10_REPORT_SIZE;
+    } else if (this.header.version === QUOTE_VERSION_V5) {
+      ensureLength(data, offset + QUOTE_BODY_DESCRIPTOR_SIZE, 'body descriptor');
+      this.bodyType = view.getUint16(offset, true);
+      bodySize = view.getUint32(offset + 2, true);
+      offset += QUOTE_BODY_DESCRIPTOR_SIZE;
+
+      const expectedSize = this.bodyType === BODY_TYPE_TD10 ? TD10_REPORT_SIZE
+        : this.bodyType === BODY_TYPE_TD15 ? TD15_REPORT_SIZE
+        : undefined;
+      if (expectedSize === undefined) {
+        throw new Error(`Unsupported quote body type: ${this.bodyType}`);
+      }
+      if (bodySize !== expectedSize) {
+        throw new Error(`Quote body size is ${bodySize}, expected ${expectedSize} for body type ${this.bodyType}`);
+      }
+    } else {
+      throw new Error(`Unsupported quote version: ${this.header.version}`);
+    }
+
+    ensureLength(data, offset + bodySize, 'report body');
+    this.report = parseTdReport(data.slice(offset, offset + bodySize), this.bodyType);
+    offset += bodySize;
+    this.signedData = data.slice(0, offset);
+
+    ensureLength(data, offset + 4, 'auth data size');
+    const authDataSize = view.getUint32(offset, true);
+    offset += 4;
+    ensureLength(data, offset + authDataSize, 'auth data');
+    const authEnd = offset + authDataSize;
+
+    this.signature = data.slice(offset, offset + ECDSA_P256_SIGNATURE_SIZE);
+    offset += ECDSA_P256_SIGNATURE_SIZE;
+    this.attestationKey = data.slice(offset, offset + ECDSA_P256_KEY_SIZE);
+    offset += ECDSA_P256_KEY_SIZE;
+
+    // Outer certification data must carry the QE report
+    const outer = readCertificationData(data, view, offset, authEnd);
+    if (outer.type !== CERT_DATA_QE_REPORT) {
+      throw new Error(`Unsupported certification data type: ${outer.type}, expected ${CERT_DATA_QE_REPORT}`);
+    }
+
+    let inner = outer.start;
+    ensureLength(data, inner + QE_REPORT_SIZE + ECDSA_P256_SIGNATURE_SIZE + 2, 'QE report');
+    this.qeReportRaw = data.slice(inner, inner + QE_REPORT_SIZE);
+    this.qeReport = parseQeReport(this.qeReportRaw);
+    inner += QE_REPORT_SIZE;
+    this.qeReportSignature = data.slice(inner, inner + ECDSA_P256_SIGNATURE_SIZE);
+    inner += ECDSA_P256_SIGNATURE_SIZE;
+
+    const qeAuthDataSize = view.getUint16(inner, true);
+    inner += 2;
+    ensureLength(data, inner + qeAuthDataSize, 'QE auth data');
+    this.qeAuthData = data.slice(inner, inner + qeAuthDataSize);
+    inner += qeAuthDataSize;
+
+    // Inner certification data must carry the PCK certificate chain
+    const pck = readCertificationData(data, view, inner, outer.end);
+    if (pck.type !== CERT_DATA_PCK_CHAIN) {
+      throw new Error(`Unsupported PCK certification data type: ${pck.type}, expected ${CERT_DATA_PCK_CHAIN}`);
+    }
+    this.pckCertChain = splitPemChain(new TextDecoder().decode(data.slice(pck.start, pck.end)));
+    if (this.pckCertChain.length < 3) {
+      throw new Error(`PCK certificate chain has ${this.pckCertChain.length} certificates, expected 3`);
+    }
+  }
+}
+
+/**
+ * Split a concatenated PEM chain into individual certificates.
+ *
+ * @param pem - PEM text, possibly with trailing NUL bytes
+ * @returns PEM certificates in the order they appear
+ */
+export function splitPemChain(pem: string): string[] {
+  const matches = pem.match(/-----BEGIN CERTIFICATE-----[\s\S]*?-----END CERTIFICATE-----/g);
+  return matches ? matches.map(cert => cert.replace(/\r\n/g, '\n')) : [];
+}
+
+function readCertificationData(
+  data: Uint8Array,
+  view: DataView,
+  offset: number,
+  limit: number
+): { type: number; start: number; end: number } {
+  if (offset + 6 > limit) {
+    throw new Error('Quote truncated while reading certification data header');
+  }
+  const type = view.getUint16(offset, true);
+  const size = view.getUint32(offset + 2, true);
+  const start = offset + 6;
+  if (start + size > limit || start + size > data.length) {
+    throw new Error(`Certification data of type ${type} overruns the quote`);
+  }
+  return { type, start, end: start + size };
+}
+
+function parseTdReport(body: Uint8Array, bodyType: number): TdReport {
+  const report: TdReport = {
+    teeTcbSvn: body.slice(0, 16),
+    mrSeam: body.slice(16, 64),
+    mrSignerSeam: body.slice(64, 112),
+    seamAttributes: body.slice(112, 120),
+    tdAttributes: body.slice(120, 128),
+    xfam: body.slice(128, 136),
+    mrTd: body.slice(136, 184),
+    mrConfigId: body.slice(184, 232),
+    mrOwner: body.slice(232, 280),
+    mrOwnerConfig: body.slice(280, 328),
+    rtmr0: body.slice(328, 376),
+    rtmr1: body.slice(376, 424),
+    rtmr2: body.slice(424, 472),
+    rtmr3: body.slice(472, 520),
+    reportData: body.slice(520, 584),
+  };
+
+  if (bodyType === BODY_TYPE_TD15) {
+    report.teeTcbSvn2 = body.slice(584, 600);
+    report.mrServiceTd = body.slice(600, 648);
+  }
+
+  return report;
+}
+
+function parseQeReport(data: Uint8Array): QeReport {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  return {
+    cpuSvn: data.slice(0, 16),
+    miscSelect: view.getUint32(16, true),
+    attributes: data.slice(48, 64),
+    mrEnclave: data.slice(64, 96),
+    mrSigner: data.slice(128, 160),
+    isvProdId: view.getUint16(256, true),
+    isvSvn: view.getUint16(258, true),
+    reportData: data.slice(320, 384),
+  };
+}
+
+function ensureLength(data: Uint8Array, needed: number, field: string): void {
+  if (data.length < needed) {
+    throw new Error(`Quote truncated while reading ${field}: need ${needed} bytes, have ${data.length}`);
+  }
+}
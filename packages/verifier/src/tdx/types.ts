@@ -0,0 +1,123 @@
+export interface QuoteHeader {
+  version: number;
+  attestationKeyType: number;
+  teeType: number;
+  qeSvn: number;
+  pceSvn: number;
+  qeVendorId: Uint8Array;  // 16 bytes
+  userData: Uint8Array;    // 20 bytes
+}
+
+export interface TdReport {
+  teeTcbSvn: Uint8Array;      // 16 bytes
+  mrSeam: Uint8Array;         // 48 bytes
+  mrSignerSeam: Uint8Array;   // 48 bytes
+  seamAttributes: Uint8Array; // 8 bytes
+  tdAttributes: Uint8Array;   // 8 bytes
+  xfam: Uint8Array;           // 8 bytes
+  mrTd: Uint8Array;           // 48 bytes
+  mrConfigId: Uint8Array;     // 48 bytes
+  mrOwner: Uint8Array;        // 48 bytes
+  mrOwnerConfig: Uint8Array;  // 48 bytes
+  rtmr0: Uint8Array;          // 48 bytes
+  rtmr1: Uint8Array;          // 48 bytes
+  rtmr2: Uint8Array;          // 48 bytes
+  rtmr3: Uint8Array;          // 48 bytes
+  reportData: Uint8Array;     // 64 bytes
+  teeTcbSvn2?: Uint8Array;    // 16 bytes, TD 1.5 only
+  mrServiceTd?: Uint8Array;   // 48 bytes, TD 1.5 only
+}
+
+export interface QeReport {
+  cpuSvn: Uint8Array;      // 16 bytes
+  miscSelect: number;
+  attributes: Uint8Array;  // 16 bytes
+  mrEnclave: Uint8Array;   // 32 bytes
+  mrSigner: Uint8Array;    // 32 bytes
+  isvProdId: number;
+  isvSvn: number;
+  reportData: Uint8Array;  // 64 bytes
+}
+
+export interface TcbComponent {
+  svn: number;
+  category?: string;
+  type?: string;
+}
+
+export interface TcbLevel {
+  tcb: {
+    sgxtcbcomponents: TcbComponent[];
+    pcesvn: number;
+    tdxtcbcomponents?: TcbComponent[];
+  };
+  tcbDate: string;
+  tcbStatus: string;
+  advisoryIDs?: string[];
+}
+
+export interface TdxModule {
+  mrsigner: string;        // hex, 48 bytes
+  attributes: string;      // hex, 8 bytes
+  attributesMask: string;  // hex, 8 bytes
+}
+
+export interface TdxModuleIdentity extends TdxModule {
+  id: string;  // "TDX_" followed by the major version in two hex digits
+  tcbLevels: QeIdentityTcbLevel[];
+}
+
+export interface TcbInfo {
+  id: string;
+  version: number;
+  issueDate: string;
+  nextUpdate: string;
+  fmspc: string;
+  pceId: string;
+  tcbType: number;
+  tcbEvaluationDataNumber: number;
+  tdxModule?: TdxModule;                      // Identity of TDX modules with major version 0
+  tdxModuleIdentities?: TdxModuleIdentity[];  // Identities of later major versions
+  tcbLevels: TcbLevel[];
+}
+
+export interface QeIdentityTcbLevel {
+  tcb: { isvsvn: number };
+  tcbDate: string;
+  tcbStatus: string;
+  advisoryIDs?: string[];
+}
+
+export interface QeIdentity {
+  id: string;
+  version: number;
+  issueDate: string;
+  nextUpdate: string;
+  miscselect: string;
+  miscselectMask: string;
+  attributes: string;
+  attributesMask: string;
+  mrsigner: string;
+  isvprodid: number;
+  tcbLevels: QeIdentityTcbLevel[];
+}
+
+/**
+ * Signed collateral retrieved from the Intel PCS.
+ * The raw JSON text is kept because signatures cover the exact bytes served.
+ */
+export interface TdxCollateral {
+  tcbInfoJson: string;
+  tcbInfoSignature: string;       // hex-encoded raw r||s
+  tcbInfoIssuerChain: string;     // PEM chain (signing cert first)
+  qeIdentityJson: string;
+  qeIdentitySignature: string;    // hex-encoded raw r||s
+  qeIdentityIssuerChain: string;  // PEM chain (signing cert first)
+}
+
+export interface PckExtensions {
+  fmspc: Uint8Array;    // 6 bytes
+  pceId: Uint8Array;    // 2 bytes
+  cpuSvn: Uint8Array;   // 16 bytes
+  pceSvn: number;
+}
@@ -0,0 +1,268 @@
+import type { Quote } from './quote.js';
+import type { VerifiedCollateral } from './verify.js';
+import type { TcbInfo, QeIdentity, QeReport, PckExtensions, TdReport, TdxModule } from './types.js';
+import {
+  ATTESTATION_KEY_TYPE_ECDSA_P256,
+  TEE_TYPE_TDX,
+  INTEL_QE_VENDOR_ID,
+  TD_ATTRIBUTES_DEBUG_BIT,
+  TD_ATTRIBUTES_SEPT_VE_DISABLE_BIT,
+} from './constants.js';
+import { bytesToHex, hexToBytes } from '../sev/utils.js';
+import { ReportValidationError } from '../errors.js';
+import { uint8ArrayEqual } from '@freedomofpress/crypto-browser';
+
+/**
+ * Verification options for a TDX quote.
+ * Any attribute left as undefined will not be checked by the validation routine.
+ */
+export interface TdxValidationOptions {
+  // TCB statuses (from the Intel TCB info) that are accepted for the platform and QE
+  acceptedTcbStatuses: string[];
+
+  // Field equality checks
+  mrSeam?: Uint8Array[];          // Accepted TDX module measurements (48 bytes each)
+  tdAttributes?: Uint8Array;      // 8 bytes
+  xfam?: Uint8Array;              // 8 bytes
+  mrConfigId?: Uint8Array;        // 48 bytes
+  mrOwner?: Uint8Array;           // 48 bytes
+  mrOwnerConfig?: Uint8Array;     // 48 bytes
+  reportData?: Uint8Array;        // 64 bytes
+}
+
+// Default validation options
+export const defaultTdxValidationOptions: TdxValidationOptions = {
+  acceptedTcbStatuses: ['UpToDate'],
+};
+
+/**
+ * Validate a verified TDX quote against the Intel collateral and the given policy.
+ *
+ * @param quote - The quote, already checked by verifyQuote
+ * @param collateral - The authenticated collateral returned by verifyQuote
+ * @param options - Validation options
+ * @param now - The time at which the collateral must be current
+ * @throws ReportValidationError if validation fails
+ */
+export function validateQuote(
+  quote: Quote,
+  collateral: VerifiedCollateral,
+  options: TdxValidationOptions,
+  now: Date = new Date()
+): void {
+  validateHeader(quote);
+
+  validateTcbInfo(collateral.tcbInfo, collateral.pck, now);
+  validateQeIdentity(collateral.qeIdentity, now);
+
+  const qeStatus = matchQeTcbStatus(quote.qeReport, collateral.qeIdentity);
+  if (!options.acceptedTcbStatuses.includes(qeStatus)) {
+    throw new ReportValidationError(`QE TCB status ${qeStatus} is not accepted`);
+  }
+
+  const moduleStatus = matchTdxModule(quote.report, collateral.tcbInfo);
+  if (moduleStatus !== undefined && !options.acceptedTcbStatuses.includes(moduleStatus)) {
+    throw new ReportValidationError(`TDX module TCB status ${moduleStatus} is not accepted`);
+  }
+
+  const platformStatus = matchPlatformTcbStatus(quote.report, collateral.tcbInfo, collateral.pck);
+  if (!options.acceptedTcbStatuses.includes(platformStatus)) {
+    throw new ReportValidationError(`Platform TCB status ${platformStatus} is not accepted`);
+  }
+
+  validateTdAttributes(quote.report);
+  if (quote.report.mrServiceTd && quote.report.mrServiceTd.some(b => b !== 0)) {
+    throw new ReportValidationError(`MRSERVICETD is not zero: ${bytesToHex(quote.report.mrServiceTd)}`);
+  }
+
+  if (options.mrSeam && !options.mrSeam.some(m => uint8ArrayEqual(m, quote.report.mrSeam))) {
+    throw new ReportValidationError(`MRSEAM ${bytesToHex(quote.report.mrSeam)} is not in the accepted list`);
+  }
+  validateField('TD_ATTRIBUTES', quote.report.tdAttributes, options.tdAttributes);
+  validateField('XFAM', quote.report.xfam, options.xfam);
+  validateField('MRCONFIGID', quote.report.mrConfigId, options.mrConfigId);
+  validateField('MROWNER', quote.report.mrOwner, options.mrOwner);
+  validateField('MROWNERCONFIG', quote.report.mrOwnerConfig, options.mrOwnerConfig);
+  validateField('REPORT_DATA', quote.report.reportData, options.reportData);
+}
+
+function validateHeader(quote: Quote): void {
+  if (quote.header.teeType !== TEE_TYPE_TDX) {
+    throw new ReportValidationError(`Quote TEE type is 0x${quote.header.teeType.toString(16)}, expected TDX`);
+  }
+  if (quote.header.attestationKeyType !== ATTESTATION_KEY_TYPE_ECDSA_P256) {
+    throw new ReportValidationError(`Unsupported attestation key type: ${quote.header.attestationKeyType}`);
+  }
+  if (!uint8ArrayEqual(quote.header.qeVendorId, INTEL_QE_VENDOR_ID)) {
+    throw new ReportValidationError(`Unexpected QE vendor ID: ${bytesToHex(quote.header.qeVendorId)}`);
+  }
+}
+
+function validateTcbInfo(tcbInfo: TcbInfo, pck: PckExtensions, now: Date): void {
+  if (tcbInfo.id !== 'TDX' || tcbInfo.version < 3) {
+    throw new ReportValidationError(`TCB info is not TDX version 3 or later: ${tcbInfo.id} v${tcbInfo.version}`);
+  }
+  validateCollateralDates('TCB info', tcbInfo.issueDate, tcbInfo.nextUpdate, now);
+
+  if (tcbInfo.fmspc.toLowerCase() !== bytesToHex(pck.fmspc)) {
+    throw new ReportValidationError(`TCB info FMSPC ${tcbInfo.fmspc} does not match PCK certificate FMSPC ${bytesToHex(pck.fmspc)}`);
+  }
+  if (tcbInfo.pceId.toLowerCase() !== bytesToHex(pck.pceId)) {
+    throw new ReportValidationError(`TCB info PCEID ${tcbInfo.pceId} does not match PCK certificate PCEID ${bytesToHex(pck.pceId)}`);
+  }
+}
+
+function validateQeIdentity(qeIdentity: QeIdentity, now: Date): void {
+  if (qeIdentity.id !== 'TD_QE' || ![2, 3].includes(qeIdentity.version)) {
+    throw new ReportValidationError(`QE identity is not TD_QE version 2 or 3: ${qeIdentity.id} v${qeIdentity.version}`);
+  }
+  validateCollateralDates('QE identity', qeIdentity.issueDate, qeIdentity.nextUpdate, now);
+}
+
+function validateCollateralDates(name: string, issueDate: string, nextUpdate: string, now: Date): void {
+  if (new Date(issueDate) > now) {
+    throw new ReportValidationError(`${name} issue date ${issueDate} is in the future`);
+  }
+  if (new Date(nextUpdate) < now) {
+    throw new ReportValidationError(`${name} expired at ${nextUpdate}`);
+  }
+}
+
+/**
+ * Match the QE report against the QE identity and return the QE TCB status.
+ */
+function matchQeTcbStatus(qeReport: QeReport, qeIdentity: QeIdentity): string {
+  if (!uint8ArrayEqual(qeReport.mrSigner, hexToBytes(qeIdentity.mrsigner))) {
+    throw new ReportValidationError(`QE MRSIGNER mismatch: expected ${qeIdentity.mrsigner}, got ${bytesToHex(qeReport.mrSigner)}`);
+  }
+  if (qeReport.isvProdId !== qeIdentity.isvprodid) {
+    throw new ReportValidationError(`QE ISVPRODID mismatch: expected ${qeIdentity.isvprodid}, got ${qeReport.isvProdId}`);
+  }
+
+  const miscselect = new DataView(hexToBytes(qeIdentity.miscselect).buffer).getUint32(0, true);
+  const miscselectMask = new DataView(hexToBytes(qeIdentity.miscselectMask).buffer).getUint32(0, true);
+  if (((qeReport.miscSelect & miscselectMask) >>> 0) !== ((miscselect & miscselectMask) >>> 0)) {
+    throw new ReportValidationError('QE MISCSELECT does not match QE identity');
+  }
+
+  const attributes = hexToBytes(qeIdentity.attributes);
+  const attributesMask = hexToBytes(qeIdentity.attributesMask);
+  for (let i = 0; i < attributesMask.length; i++) {
+    if ((qeReport.attributes[i] & attributesMask[i]) !== (attributes[i] & attributesMask[i])) {
+      throw new ReportValidationError(`QE ATTRIBUTES mismatch at byte ${i}`);
+    }
+  }
+
+  // TCB levels are sorted from newest to oldest; the first level the QE meets applies
+  for (const level of qeIdentity.tcbLevels) {
+    if (qeReport.isvSvn >= level.tcb.isvsvn) {
+      return level.tcbStatus;
+    }
+  }
+  throw new ReportValidationError(`QE ISVSVN ${qeReport.isvSvn} is below every QE identity TCB level`);
+}
+
+/**
+ * Match the platform against the TCB info levels and return the platform TCB status.
+ */
+function matchPlatformTcbStatus(report: TdReport, tcbInfo: TcbInfo, pck: PckExtensions): string {
+  for (const level of tcbInfo.tcbLevels) {
+    if (pck.pceSvn < level.tcb.pcesvn) {
+      continue;
+    }
+    if (!svnsMeet(pck.cpuSvn, level.tcb.sgxtcbcomponents.map(c => c.svn))) {
+      continue;
+    }
+    // With a module of major version 1 or later, TEE_TCB_SVN[0..1] are the module's SVN and
+    // version, which are matched against its identity instead, as the DCAP quote verification library does
+    const tdxComponents = level.tcb.tdxtcbcomponents;
+    const firstComponent = report.teeTcbSvn[1] > 0 ? 2 : 0;
+    if (!tdxComponents || !svnsMeet(report.teeTcbSvn, tdxComponents.map(c => c.svn), firstComponent)) {
+      continue;
+    }
+    return level.tcbStatus;
+  }
+  throw new ReportValidationError('No matching TCB level found in TCB info');
+}
+
+/**
+ * Match the TDX module that produced the report against its identity in the
+ * TCB info, as the DCAP quote verification library does.
+ *
+ * @returns The module's TCB status, or undefined for major version 0 modules, which have no TCB levels
+ */
+function matchTdxModule(report: TdReport, tcbInfo: TcbInfo): string | undefined {
+  // TEE_TCB_SVN holds the module's minor version at index 0 and its major version at index 1
+  const majorVersion = report.teeTcbSvn[1];
+  if (majorVersion === 0) {
+    if (!tcbInfo.tdxModule) {
+      throw new ReportValidationError('TCB info does not contain the TDX module identity');
+    }
+    validateTdxModuleIdentity(report, tcbInfo.tdxModule);
+    return undefined;
+  }
+
+  const id = `TDX_${majorVersion.toString(16).toUpperCase().padStart(2, '0')}`;
+  const identity = tcbInfo.tdxModuleIdentities?.find(m => m.id.toUpperCase() === id);
+  if (!identity) {
+    throw new ReportValidationError(`TCB info does not contain TDX module identity ${id}`);
+  }
+  validateTdxModuleIdentity(report, identity);
+
+  // TCB levels are sorted from newest to oldest; the first level the module meets applies
+  for (const level of identity.tcbLevels) {
+    if (report.teeTcbSvn[0] >= level.tcb.isvsvn) {
+      return level.tcbStatus;
+    }
+  }
+  throw new ReportValidationError(`TDX module SVN ${report.teeTcbSvn[0]} is below every ${id} TCB level`);
+}
+
+function validateTdxModuleIdentity(report: TdReport, module: TdxModule): void {
+  if (!uint8ArrayEqual(report.mrSignerSeam, hexToBytes(module.mrsigner))) {
+    throw new ReportValidationError(`MRSIGNERSEAM mismatch: expected ${module.mrsigner}, got ${bytesToHex(report.mrSignerSeam)}`);
+  }
+
+  const attributes = hexToBytes(module.attributes);
+  const attributesMask = hexToBytes(module.attributesMask);
+  if (attributes.length !== report.seamAttributes.length || attributesMask.length !== report.seamAttributes.length) {
+    throw new ReportValidationError('TDX module attributes in TCB info are malformed');
+  }
+  for (let i = 0; i < attributesMask.length; i++) {
+    if ((report.seamAttributes[i] & attributesMask[i]) !== (attributes[i] & attributesMask[i])) {
+      throw new ReportValidationError(`SEAMATTRIBUTES mismatch at byte ${i}`);
+    }
+  }
+}
+
+function svnsMeet(actual: Uint8Array, required: number[], from: number = 0): boolean {
+  if (actual.length !== required.length) {
+    return false;
+  }
+  return required.every((svn, i) => i < from || actual[i] >= svn);
+}
+
+function validateTdAttributes(report: TdReport): void {
+  const attributes = new DataView(report.tdAttributes.buffer, report.tdAttributes.byteOffset, 8)
+    .getBigUint64(0, true);
+
+  if (attributes & (1n << BigInt(TD_ATTRIBUTES_DEBUG_BIT))) {
+    throw new ReportValidationError('TD is running in debug mode');
+  }
+
+  // Bits 1-7 (TUD), 8-27 and 29 (SEC) and 32-62 (OTHER) are reserved
+  const reservedMask = (((1n << 28n) - 1n) & ~1n) | (1n << 29n) | (((1n << 63n) - 1n) & ~((1n << 32n) - 1n));
+  if (attributes & reservedMask) {
+    throw new ReportValidationError(`Reserved TD attribute bits are set: ${bytesToHex(report.tdAttributes)}`);
+  }
+
+  if (!(attributes & (1n << BigInt(TD_ATTRIBUTES_SEPT_VE_DISABLE_BIT)))) {
+    throw new ReportValidationError('SEPT_VE_DISABLE is not set in TD attributes');
+  }
+}
+
+function validateField(name: string, actual: Uint8Array, expected?: Uint8Array): void {
+  if (expected && !uint8ArrayEqual(actual, expected)) {
+    throw new ReportValidationError(`${name} mismatch: expected ${bytesToHex(expected)}, got ${bytesToHex(actual)}`);
+  }
+}
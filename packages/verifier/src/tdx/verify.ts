@@ -0,0 +1,271 @@
+import type { Quote } from './quote.js';
+import { splitPemChain } from './quote.js';
+import type { TdxCollateral, TcbInfo, QeIdentity, PckExtensions } from './types.js';
+import { INTEL_SGX_ROOT_CA } from './certs.js';
+import { X509Certificate } from '@freedomofpress/sigstore-browser';
+import { ASN1Obj, KeyTypes, HashAlgorithms, EcdsaTypes, uint8ArrayEqual } from '@freedomofpress/crypto-browser';
+import { hexToBytes } from '../sev/utils.js';
+import { CertificateChainError, ReportValidationError } from '../errors.js';
+
+// Intel SGX PCK certificate extension OIDs
+const SgxOid = {
+  SGX_EXTENSION: '1.2.840.113741.1.13.1',
+  TCB: '1.2.840.113741.1.13.1.2',
+  PCESVN: '1.2.840.113741.1.13.1.2.17',
+  CPUSVN: '1.2.840.113741.1.13.1.2.18',
+  PCEID: '1.2.840.113741.1.13.1.3',
+  FMSPC: '1.2.840.113741.1.13.1.4',
+};
+
+const PCK_LEAF_CN = 'Intel SGX PCK Certificate';
+const PCK_INTERMEDIATE_CNS = ['Intel SGX PCK Platform CA', 'Intel SGX PCK Processor CA'];
+const TCB_SIGNING_CN = 'Intel SGX TCB Signing';
+const ROOT_CN = 'Intel SGX Root CA';
+
+/**
+ * Collateral that has been authenticated against the Intel SGX Root CA.
+ */
+export interface VerifiedCollateral {
+  tcbInfo: TcbInfo;
+  qeIdentity: QeIdentity;
+  pck: PckExtensions;
+}
+
+/**
+ * Verify a TDX quote and its collateral against the Intel SGX Root CA.
+ *
+ * This checks the PCK certificate chain, the TCB info and QE identity
+ * signatures, the QE report signature, the binding between the QE report
+ * and the attestation key, and finally the quote signature itself.
+ * Policy checks on the verified contents are done in validateQuote.
+ *
+ * @param quote - The parsed quote
+ * @param collateral - The collateral fetched for the quote's platform
+ * @param now - The time at which certificates must be valid
+ * @returns The authenticated collateral and PCK extension values
+ * @throws CertificateChainError if a certificate check fails
+ * @throws ReportValidationError if a signature check fails
+ */
+export async function verifyQuote(
+  quote: Quote,
+  collateral: TdxCollateral,
+  now: Date = new Date()
+): Promise<VerifiedCollateral> {
+  const root = X509Certificate.parse(INTEL_SGX_ROOT_CA);
+  await verifyRoot(root, now);
+
+  // PCK chain: leaf > platform/processor CA > root
+  const [pckLeafPem, pckIntermediatePem, pckRootPem] = quote.pckCertChain;
+  const pckLeaf = X509Certificate.parse(pckLeafPem);
+  const pckIntermediate = X509Certificate.parse(pckIntermediatePem);
+  const pckRoot = X509Certificate.parse(pckRootPem);
+
+  if (!pckRoot.equals(root)) {
+    throw new CertificateChainError('PCK certificate chain does not terminate at the Intel SGX Root CA');
+  }
+  const intermediateCn = pckIntermediate.subjectDN.get('CN') || '';
+  if (!PCK_INTERMEDIATE_CNS.includes(intermediateCn)) {
+    throw new CertificateChainError(`PCK intermediate certificate common name is unexpected: ${intermediateCn}`);
+  }
+  await verifyIssuedBy(pckIntermediate, root, 'PCK intermediate', now);
+  const leafCn = pckLeaf.subjectDN.get('CN');
+  if (leafCn !== PCK_LEAF_CN) {
+    throw new CertificateChainError(`PCK certificate common name is not ${PCK_LEAF_CN} but ${leafCn}`);
+  }
+  await verifyIssuedBy(pckLeaf, pckIntermediate, 'PCK', now);
+
+  const pck = parsePckExtensions(pckLeaf);
+
+  // TCB info and QE identity are signed by the TCB signing certificate
+  const tcbInfo = await verifySignedCollateral<TcbInfo>(
+    collateral.tcbInfoJson,
+    collateral.tcbInfoSignature,
+    collateral.tcbInfoIssuerChain,
+    root,
+    'TCB info',
+    now
+  );
+  const qeIdentity = await verifySignedCollateral<QeIdentity>(
+    collateral.qeIdentityJson,
+    collateral.qeIdentitySignature,
+    collateral.qeIdentityIssuerChain,
+    root,
+    'QE identity',
+    now
+  );
+
+  // QE report must be signed by the PCK key
+  const pckKey = await pckLeaf.publicKeyObj;
+  if (!await verifyP256Signature(pckKey, quote.qeReportSignature, quote.qeReportRaw)) {
+    throw new ReportValidationError('QE report signature verification failed');
+  }
+
+  // QE report data must bind the attestation key: sha256(attestationKey || qeAuthData)
+  const hashInput = new Uint8Array(quote.attestationKey.length + quote.qeAuthData.length);
+  hashInput.set(quote.attestationKey, 0);
+  hashInput.set(quote.qeAuthData, quote.attestationKey.length);
+  const expectedHash = new Uint8Array(await crypto.subtle.digest('SHA-256', hashInput));
+  if (!uint8ArrayEqual(expectedHash, quote.qeReport.reportData.slice(0, 32))) {
+    throw new ReportValidationError('QE report data does not match the attestation key hash');
+  }
+
+  // Quote must be signed by the attestation key
+  const attestationKey = await importRawP256Key(quote.attestationKey);
+  if (!await verifyP256Signature(attestationKey, quote.signature, quote.signedData)) {
+    throw new ReportValidationError('Quote signature verification failed');
+  }
+
+  return { tcbInfo, qeIdentity, pck };
+}
+
+/**
+ * Read the SGX extension values needed for TCB matching from a PCK certificate.
+ *
+ * @param cert - The PCK leaf certificate
+ * @returns The FMSPC, PCE ID, CPU SVN and PCE SVN
+ * @throws CertificateChainError if the extension is missing or malformed
+ */
+export function parsePckExtensions(cert: X509Certificate): PckExtensions {
+  const ext = cert.extension(SgxOid.SGX_EXTENSION);
+  if (!ext) {
+    throw new CertificateChainError('missing SGX extension in PCK certificate');
+  }
+
+  const entries = sgxEntries(ASN1Obj.parseBuffer(ext.value));
+  const tcb = entries.get(SgxOid.TCB);
+  const fmspc = entries.get(SgxOid.FMSPC);
+  const pceId = entries.get(SgxOid.PCEID);
+  if (!tcb || !fmspc || !pceId) {
+    throw new CertificateChainError('SGX extension in PCK certificate is missing TCB, FMSPC or PCEID');
+  }
+
+  const tcbEntries = sgxEntries(tcb);
+  const cpuSvn = tcbEntries.get(SgxOid.CPUSVN);
+  const pceSvn = tcbEntries.get(SgxOid.PCESVN);
+  if (!cpuSvn || !pceSvn) {
+    throw new CertificateChainError('SGX TCB extension in PCK certificate is missing CPUSVN or PCESVN');
+  }
+
+  if (fmspc.value.length !== 6) {
+    throw new CertificateChainError(`FMSPC length is ${fmspc.value.length}, expected 6`);
+  }
+  if (cpuSvn.value.length !== 16) {
+    throw new CertificateChainError(`CPUSVN length is ${cpuSvn.value.length}, expected 16`);
+  }
+
+  return {
+    fmspc: fmspc.value,
+    pceId: pceId.value,
+    cpuSvn: cpuSvn.value,
+    pceSvn: Number(pceSvn.toInteger()),
+  };
+}
+
+function sgxEntries(seq: ASN1Obj): Map<string, ASN1Obj> {
+  const entries = new Map<string, ASN1Obj>();
+  for (const entry of seq.subs) {
+    if (entry.subs.length === 2) {
+      entries.set(entry.subs[0].toOID(), entry.subs[1]);
+    }
+  }
+  return entries;
+}
+
+async function verifyRoot(root: X509Certificate, now: Date): Promise<void> {
+  if (root.subjectDN.get('CN') !== ROOT_CN) {
+    throw new CertificateChainError(`Root certificate common name is not ${ROOT_CN}`);
+  }
+  if (!root.validForDate(now)) {
+    throw new CertificateChainError('Intel SGX Root CA certificate is not valid for current date');
+  }
+  if (!await root.verify()) {
+    throw new CertificateChainError('Intel SGX Root CA certificate is not self-signed');
+  }
+}
+
+async function verifyIssuedBy(
+  cert: X509Certificate,
+  issuer: X509Certificate,
+  name: string,
+  now: Date
+): Promise<void> {
+  if (!cert.validForDate(now)) {
+    throw new CertificateChainError(`${name} certificate is not valid for current date`);
+  }
+  let valid: boolean;
+  try {
+    valid = await cert.verify(issuer);
+  } catch (e) {
+    throw new CertificateChainError(`${name} certificate signature verification failed`, { cause: e });
+  }
+  if (!valid) {
+    throw new CertificateChainError(`${name} certificate is not signed by ${issuer.subjectDN.get('CN')}`);
+  }
+}
+
+async function verifySignedCollateral<T>(
+  json: string,
+  signatureHex: string,
+  issuerChain: string,
+  root: X509Certificate,
+  name: string,
+  now: Date
+): Promise<T> {
+  const [signerPem, issuerRootPem] = splitPemChain(issuerChain);
+  if (!signerPem || !issuerRootPem) {
+    throw new CertificateChainError(`${name} issuer chain is too short`);
+  }
+
+  const signer = X509Certificate.parse(signerPem);
+  if (!X509Certificate.parse(issuerRootPem).equals(root)) {
+    throw new CertificateChainError(`${name} issuer chain does not terminate at the Intel SGX Root CA`);
+  }
+  if (signer.subjectDN.get('CN') !== TCB_SIGNING_CN) {
+    throw new CertificateChainError(`${name} signing certificate common name is not ${TCB_SIGNING_CN}`);
+  }
+  await verifyIssuedBy(signer, root, `${name} signing`, now);
+
+  const signerKey = await signer.publicKeyObj;
+  const data = new TextEncoder().encode(json);
+  if (!await verifyP256Signature(signerKey, hexToBytes(signatureHex), data)) {
+    throw new CertificateChainError(`${name} signature verification failed`);
+  }
+
+  try {
+    return JSON.parse(json) as T;
+  } catch (e) {
+    throw new CertificateChainError(`Failed to parse ${name}`, { cause: e });
+  }
+}
+
+async function importRawP256Key(key: Uint8Array): Promise<CryptoKey> {
+  // Attestation key is stored as raw x||y; WebCrypto expects the uncompressed point form
+  const point = new Uint8Array(1 + key.length);
+  point[0] = 0x04;
+  point.set(key, 1);
+  try {
+    return await crypto.subtle.importKey(
+      'raw',
+      point,
+      { name: KeyTypes.Ecdsa, namedCurve: EcdsaTypes.P256 },
+      false,
+      ['verify']
+    );
+  } catch (e) {
+    throw new ReportValidationError('Failed to import quote attestation key', { cause: e });
+  }
+}
+
+async function verifyP256Signature(
+  key: CryptoKey,
+  signature: Uint8Array,
+  data: Uint8Array
+): Promise<boolean> {
+  // DCAP signatures are raw r||s, which is the format WebCrypto expects
+  return crypto.subtle.verify(
+    { name: KeyTypes.Ecdsa, hash: HashAlgorithms.SHA256 },
+    key,
+    signature.slice(),
+    data.slice()
+  );
+}
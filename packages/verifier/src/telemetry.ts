@@ -0,0 +1,73 @@
+import { context, metrics, trace, SpanKind, SpanStatusCode } from '@opentelemetry/api';
+import type { Attributes, Context, Span, Tracer } from '@opentelemetry/api';
+
+/**
+ * OpenTelemetry instrumentation. @opentelemetry/api records nothing until the
+ * application registers an SDK, so spans and metrics are opt-in.
+ *
+ * Attributes carry hosts, digests, fingerprints and public keys only, never
+ * request or response bodies.
+ */
+
+const SCOPE = '@tinfoilsh/verifier';
+
+export function getTracer() {
+  return trace.getTracer(SCOPE);
+}
+
+/**
+ * Where and how withSpan starts its span.
+ */
+export interface TracedSpanOptions {
+  tracer?: Tracer;   // Tracer of the instrumenting package (default: this package's)
+  kind?: SpanKind;   // Default: internal
+  parent?: Context;  // Context to start the span in (default: the active context)
+}
+
+/**
+ * Run fn inside a new span, ending it when fn settles and marking it failed
+ * if fn throws.
+ *
+ * @param name - Span name
+ * @param attributes - Attributes known when the span starts
+ * @param fn - The work to trace; receives the span to add attributes to
+ * @param options - Tracer, kind and parent context of the span
+ */
+export async function withSpan<T>(
+  name: string,
+  attributes: Attributes,
+  fn: (span: Span) => Promise<T>,
+  options: TracedSpanOptions = {}
+): Promise<T> {
+  const { tracer = getTracer(), kind = SpanKind.INTERNAL, parent = context.active() } = options;
+  const span = tracer.startSpan(name, { attributes, kind }, parent);
+  try {
+    return await context.with(trace.setSpan(parent, span), () => fn(span));
+  } catch (e) {
+    failSpan(span, e);
+    throw e;
+  } finally {
+    span.end();
+  }
+}
+
+/**
+ * Mark a span failed with the error that ended it.
+ */
+export function failSpan(span: Span, error: unknown): void {
+  span.recordException(error as Error);
+  span.setStatus({ code: SpanStatusCode.ERROR, message: (error as Error).message });
+}
+
+/**
+ * Record how long a verification step took.
+ */
+export function recordStepDuration(step: string, status: 'success' | 'failed', durationMs: number): void {
+  metrics
+    .getMeter(SCOPE)
+    .createHistogram('tinfoil.verification.step.duration', {
+      unit: 'ms',
+      description: 'Duration of each enclave verification step',
+    })
+    .record(durationMs, { 'tinfoil.verification.step': step, 'tinfoil.verification.status': status });
+}
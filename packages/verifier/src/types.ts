@@ -1,44 +1,49 @@
+import type { EndorsementKeyType, SevSnpPlatformEvidence } from './sev/types.js';
+import { FormatMismatchError, MeasurementMismatchError } from './errors.js';
+
 export enum PredicateType {
   SevGuestV1 = 'https://tinfoil.sh/predicate/sev-snp-guest/v1', // Deprecated
   SevGuestV2 = 'https://tinfoil.sh/predicate/sev-snp-guest/v2',
   SnpTdxMultiplatformV1 = 'https://tinfoil.sh/predicate/snp-tdx-multiplatform/v1',
+  TdxGuestV2 = 'https://tinfoil.sh/predicate/tdx-guest/v2',
+  HardwareMeasurementsV1 = 'https://tinfoil.sh/predicate/hardware-measurements/v1',
 }
 
 export interface AttestationDocument {
   format: PredicateType;
   body: string;
+  // Base64 DER VLEK certificate, served by hosts whose reports are VLEK signed
+  vlekCertificate?: string;
+  // Set when the document answers a challenge: the nonce and the keys bound with it in report_data (hex)
+  nonce?: string;
+  tlsPublicKeyFingerprint?: string;
+  hpkePublicKey?: string;
+}
+
+export interface TdxMeasurement {
+  rtmr1: string;
+  rtmr2: string;
 }
 
 export interface AttestationMeasurement {
   type: string;
   registers: string[];
+  // Expected TDX runtime registers, only set for multiplatform code measurements
+  tdxMeasurement?: TdxMeasurement;
 }
 
 export interface AttestationResponse {
   tlsPublicKeyFingerprint?: string;
   hpkePublicKey?: string;
   measurement: AttestationMeasurement;
-}
-
-export class AttestationError extends Error {
-  constructor(message: string) {
-    super(message);
-    this.name = 'AttestationError';
-  }
-}
-
-export class FormatMismatchError extends AttestationError {
-  constructor(message: string = 'Attestation formats do not match') {
-    super(message);
-    this.name = 'FormatMismatchError';
-  }
-}
-
-export class MeasurementMismatchError extends AttestationError {
-  constructor(message: string = 'Measurements do not match') {
-    super(message);
-    this.name = 'MeasurementMismatchError';
-  }
+  // Key that signed an SEV-SNP report
+  endorsementKey?: EndorsementKeyType;
+  // Whether the AMD certificate chain was checked against the CRL
+  revocationChecked?: boolean;
+  // Whether the report was bound to a nonce chosen by the verifying client
+  freshnessProven?: boolean;
+  // Decoded report fields and endorsement certificate details (SEV-SNP only)
+  platformEvidence?: SevSnpPlatformEvidence;
 }
 
 /**
@@ -50,12 +55,48 @@ function isSnpCompatible(type: string): boolean {
          type === PredicateType.SnpTdxMultiplatformV1;
 }
 
+// RTMR3 is reserved for runtime extensions and must be left untouched
+const TDX_EMPTY_RTMR = '0'.repeat(96);
+
+/**
+ * Compares a multiplatform code measurement with a TDX enclave measurement.
+ * TDX registers are ordered [MRTD, RTMR0, RTMR1, RTMR2, RTMR3]; MRTD and RTMR0
+ * depend on the hardware platform, so only RTMR1, RTMR2 and RTMR3 are compared.
+ * MRTD and RTMR0 are checked separately by matchHardwareMeasurement.
+ */
+function compareMultiplatformTdx(code: AttestationMeasurement, tdx: AttestationMeasurement): void {
+  if (!code.tdxMeasurement) {
+    throw new FormatMismatchError('Multiplatform measurement does not contain a TDX measurement');
+  }
+  if (tdx.registers.length !== 5) {
+    throw new FormatMismatchError(
+      `TDX measurement has ${tdx.registers.length} registers, expected 5`
+    );
+  }
+  const [, , rtmr1, rtmr2, rtmr3] = tdx.registers;
+  if (code.tdxMeasurement.rtmr1 !== rtmr1 ||
+      code.tdxMeasurement.rtmr2 !== rtmr2 ||
+      rtmr3 !== TDX_EMPTY_RTMR) {
+    throw new MeasurementMismatchError(
+      `Measurement registers do not match`
+    );
+  }
+}
+
 /**
  * Compares two measurements for equality.
  * @throws FormatMismatchError if the measurement types are incompatible
  * @throws MeasurementMismatchError if the registers don't match
  */
 export function compareMeasurements(a: AttestationMeasurement, b: AttestationMeasurement): void {
+  // Multiplatform measurements carry both SNP and TDX expectations
+  if (a.type === PredicateType.SnpTdxMultiplatformV1 && b.type === PredicateType.TdxGuestV2) {
+    return compareMultiplatformTdx(a, b);
+  }
+  if (a.type === PredicateType.TdxGuestV2 && b.type === PredicateType.SnpTdxMultiplatformV1) {
+    return compareMultiplatformTdx(b, a);
+  }
+
   // Allow comparison between compatible SNP types
   const typesCompatible = a.type === b.type || (isSnpCompatible(a.type) && isSnpCompatible(b.type));
   if (!typesCompatible) {
@@ -71,6 +112,39 @@ export function compareMeasurements(a: AttestationMeasurement, b: AttestationMea
   }
 }
 
+/**
+ * Finds the trusted hardware platform a TDX enclave measurement was taken on.
+ * MRTD and RTMR0 measure the TD firmware and its configuration, which the
+ * release's code measurement does not cover, so they must match a trusted pair.
+ *
+ * @param trusted - Trusted MRTD and RTMR0 pairs
+ * @param enclave - The enclave's measurement
+ * @returns The matching hardware measurement, or undefined if the enclave is not TDX
+ * @throws MeasurementMismatchError if no hardware measurements are trusted or none match
+ */
+export function matchHardwareMeasurement(
+  trusted: readonly HardwareMeasurement[] | undefined,
+  enclave: AttestationMeasurement
+): HardwareMeasurement | undefined {
+  if (enclave.type !== PredicateType.TdxGuestV2) {
+    return undefined;
+  }
+  // Without a trusted set any TD firmware would pass, so TDX enclaves are rejected
+  if (!trusted || trusted.length === 0) {
+    throw new MeasurementMismatchError('No trusted TDX hardware measurements are configured');
+  }
+  const [mrtd, rtmr0] = enclave.registers;
+  const match = trusted.find(hw =>
+    hw.MRTD?.toLowerCase() === mrtd && hw.RTMR0?.toLowerCase() === rtmr0
+  );
+  if (!match) {
+    throw new MeasurementMismatchError(
+      `TDX hardware measurement (MRTD ${mrtd}, RTMR0 ${rtmr0}) does not match any trusted platform`
+    );
+  }
+  return { ...(match.ID !== undefined && { ID: match.ID }), MRTD: mrtd, RTMR0: rtmr0 };
+}
+
 /**
  * Computes the fingerprint of a measurement.
  * If there is only one register, returns that register directly.
@@ -91,23 +165,78 @@ export async function measurementFingerprint(m: AttestationMeasurement): Promise
 export interface VerificationStepState {
   status: 'pending' | 'success' | 'failed';
   error?: string;
+  durationMs?: number;  // Time the step took, once it has finished
+}
+
+export type VerificationStep =
+  | 'verifyEnclave'
+  | 'checkRevocation'
+  | 'fetchDigest'
+  | 'verifyCode'
+  | 'compareMeasurements'
+  | 'createTransport';
+
+/**
+ * Reported as each verification step starts and finishes.
+ */
+export interface VerificationProgressEvent {
+  step: VerificationStep;
+  status: 'started' | 'success' | 'failed';
+  enclaveHost: string;
+  timestamp: number;    // When the event occurred (milliseconds since the epoch)
+  durationMs?: number;  // Time since the step started, on success and failure
+  error?: string;       // On failure
 }
 
+export type VerificationProgressListener = (event: VerificationProgressEvent) => void;
+
 export interface HardwareMeasurement {
   ID?: string;
   MRTD?: string;
   RTMR0?: string;
 }
 
+/**
+ * A router listed by the ATC that the client refused to use.
+ */
+export interface RejectedRouter {
+  hostname: string;
+  reason: string;
+}
+
+/**
+ * A release in the trusted window that was not considered, such as one
+ * whose digest could not be resolved.
+ */
+export interface SkippedRelease {
+  tag: string;
+  reason: string;
+}
+
+/**
+ * A change to a verified connection after its initial verification.
+ */
+export interface VerificationHistoryEntry {
+  timestamp: string;               // When the change happened (ISO 8601)
+  event: 'hpkeKeyRotation';        // The enclave's HPKE key changed and the new key was verified
+  previousHpkePublicKey?: string;
+  hpkePublicKey?: string;
+  reason: string;                  // The error that triggered re-verification
+}
+
 export interface VerificationDocument {
   configRepo: string;
   enclaveHost: string;
   releaseDigest: string;
+  releaseTag?: string;  // Tag of the release that matched, unless the digest was pinned
   codeMeasurement: AttestationMeasurement;
   enclaveMeasurement: AttestationResponse;
   tlsPublicKey: string;
   hpkePublicKey: string;
   hardwareMeasurement?: HardwareMeasurement;
+  endorsementKey?: EndorsementKeyType;
+  platformEvidence?: SevSnpPlatformEvidence;  // TCB, firmware and policy of an SEV-SNP enclave
+  freshnessProven?: boolean;  // The report answered this client's nonce, so it was not replayed
   codeFingerprint: string;
   enclaveFingerprint: string;
   selectedRouterEndpoint: string;
@@ -116,10 +245,45 @@ export interface VerificationDocument {
     fetchDigest: VerificationStepState;
     verifyCode: VerificationStepState;
     verifyEnclave: VerificationStepState;
+    checkRevocation?: VerificationStepState;
     compareMeasurements: VerificationStepState;
     createTransport?: VerificationStepState;
     verifyHPKEKey?: VerificationStepState;
     otherError?: VerificationStepState;
   };
+  history?: VerificationHistoryEntry[];  // Oldest first, carried over across re-verifications
+  rejectedRouters?: RejectedRouter[];    // ATC entries that failed the router allowlist
+  skippedReleases?: SkippedRelease[];    // Releases in the trusted window whose digest could not be resolved
 }
 
+
+/**
+ * Build the document for a verification in which the code and enclave measurements matched.
+ *
+ * @param fields - Where the measurements came from and the state of each step
+ * @param codeMeasurement - The measurement from the release's Sigstore attestation
+ * @param enclaveVerification - The verified attestation of the enclave
+ * @param hardwareMeasurement - The trusted platform a TDX enclave matched
+ * @returns A document with securityVerified set
+ */
+export async function verifiedDocument(
+  fields: Pick<VerificationDocument, 'configRepo' | 'enclaveHost' | 'selectedRouterEndpoint' | 'releaseDigest' | 'releaseTag' | 'steps'>,
+  codeMeasurement: AttestationMeasurement,
+  enclaveVerification: AttestationResponse,
+  hardwareMeasurement?: HardwareMeasurement
+): Promise<VerificationDocument> {
+  return {
+    ...fields,
+    codeMeasurement,
+    enclaveMeasurement: enclaveVerification,
+    tlsPublicKey: enclaveVerification.tlsPublicKeyFingerprint || '',
+    hpkePublicKey: enclaveVerification.hpkePublicKey || '',
+    hardwareMeasurement,
+    endorsementKey: enclaveVerification.endorsementKey,
+    platformEvidence: enclaveVerification.platformEvidence,
+    freshnessProven: enclaveVerification.freshnessProven === true,
+    codeFingerprint: await measurementFingerprint(codeMeasurement),
+    enclaveFingerprint: await measurementFingerprint(enclaveVerification.measurement),
+    securityVerified: true,
+  };
+}
@@ -0,0 +1,2 @@
+// Version of this package, recorded in verification receipts. Must match package.json.
+export const VERIFIER_VERSION = '0.2.0';
@@ -0,0 +1,112 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { PredicateType } from '../src/types.js';
+import { MeasurementMismatchError, EvidenceBundleError } from '../src/errors.js';
+
+const verifyEnclaveMock = vi.fn();
+const verifySigstoreMock = vi.fn();
+
+vi.mock('../src/attestation.js', () => ({
+  fetchAttestation: async () => ATTESTATION,
+  verifyAttestation: async (...args: unknown[]) => (await verifyEnclaveMock(...args)).response,
+  verifyAttestationWithEvidence: (...args: unknown[]) => verifyEnclaveMock(...args),
+}));
+
+vi.mock('../src/sigstore.js', () => ({
+  verifyAttestation: (...args: unknown[]) => verifySigstoreMock(...args),
+}));
+
+const { Verifier } = await import('../src/client.js');
+const { verifyBundle, parseEvidenceBundle, validateEvidenceBundle, EVIDENCE_BUNDLE_VERSION } = await import('../src/bundle.js');
+
+const DIGEST = 'c'.repeat(64);
+const ATTESTATION = { format: PredicateType.SevGuestV2, body: 'H4sIAAAA' };
+const VCEK_DER = new Uint8Array([0x30, 0x82, 0x01, 0x02, 0xff]);
+const SIGSTORE_BUNDLE = { mediaType: 'application/vnd.dev.sigstore.bundle+json;version=0.3' };
+const MEASUREMENT = { type: PredicateType.SevGuestV2, registers: ['aa'] };
+
+function githubFetch() {
+  return (async (input: RequestInfo | URL) => {
+    const url = input.toString();
+    if (url.endsWith('/releases/latest')) {
+      return Response.json({ tag_name: 'v7', body: `Digest: \`${DIGEST}\`` });
+    }
+    if (url.includes('/attestations/')) {
+      return Response.json({ attestations: [{ bundle: SIGSTORE_BUNDLE }] });
+    }
+    return new Response('not found', { status: 404 });
+  }) as typeof fetch;
+}
+
+async function exportedBundle() {
+  const verifier = new Verifier({ serverURL: 'https://enclave.example.com:8443', fetch: githubFetch() });
+  await verifier.verify();
+  // Round-trip through JSON as a stored bundle would be
+  return parseEvidenceBundle(JSON.stringify(verifier.exportBundle()));
+}
+
+describe('evidence bundles', () => {
+  beforeEach(() => {
+    verifyEnclaveMock.mockReset();
+    verifySigstoreMock.mockReset();
+    verifyEnclaveMock.mockResolvedValue({
+      response: { measurement: MEASUREMENT, tlsPublicKeyFingerprint: 'tls', hpkePublicKey: 'hpke', endorsementKey: 'VCEK' },
+      evidence: { vcek: VCEK_DER },
+    });
+    verifySigstoreMock.mockResolvedValue(MEASUREMENT);
+  });
+
+  it('exports everything fetched during verification', async () => {
+    const bundle = await exportedBundle();
+
+    expect(bundle.version).toBe(EVIDENCE_BUNDLE_VERSION);
+    expect(bundle.enclaveHost).toBe('enclave.example.com:8443');
+    expect(bundle.selectedRouterEndpoint).toBe('enclave.example.com:8443');
+    expect(bundle.release).toEqual({ tag: 'v7', digest: DIGEST });
+    expect(bundle.attestation).toEqual(ATTESTATION);
+    expect(bundle.vcek).toBe(btoa(String.fromCharCode(...VCEK_DER)));
+    expect(bundle.sigstoreBundle).toEqual(SIGSTORE_BUNDLE);
+    expect(isNaN(Date.parse(bundle.createdAt))).toBe(false);
+  });
+
+  it('refuses to export before a successful verification', async () => {
+    const verifier = new Verifier({ serverURL: 'https://enclave.example.com' });
+    expect(() => verifier.exportBundle()).toThrow('verification has not succeeded');
+  });
+
+  it('replays the verification offline at the time it was captured', async () => {
+    const bundle = await exportedBundle();
+    verifyEnclaveMock.mockClear();
+    verifySigstoreMock.mockClear();
+
+    const doc = await verifyBundle(bundle);
+
+    expect(doc.securityVerified).toBe(true);
+    expect(doc.releaseTag).toBe('v7');
+    expect(doc.enclaveHost).toBe('enclave.example.com:8443');
+
+    const [attestation, options] = verifyEnclaveMock.mock.calls[0];
+    expect(attestation).toEqual(ATTESTATION);
+    expect(options.evidence.vcek).toEqual(VCEK_DER);
+    expect(options.now).toEqual(new Date(bundle.createdAt));
+    await expect(options.fetch('https://kds-proxy.tinfoil.sh/vcek')).rejects.toThrow('refusing to fetch');
+    expect(verifySigstoreMock).toHaveBeenCalledWith(SIGSTORE_BUNDLE, DIGEST, 'tinfoilsh/confidential-model-router');
+  });
+
+  it('fails when the stored measurements do not match', async () => {
+    const bundle = await exportedBundle();
+    verifySigstoreMock.mockResolvedValue({ type: PredicateType.SevGuestV2, registers: ['bb'] });
+
+    await expect(verifyBundle(bundle)).rejects.toBeInstanceOf(MeasurementMismatchError);
+  });
+
+  it('rejects malformed bundles', () => {
+    expect(() => parseEvidenceBundle('{')).toThrow('Failed to parse evidence bundle');
+    expect(() => validateEvidenceBundle({ version: 2 })).toThrow('Unsupported evidence bundle version: 2');
+    expect(() => validateEvidenceBundle({ version: 1, createdAt: 'yesterday', vcek: 5 }))
+      .toThrow(/createdAt must be an ISO 8601 date.*release\.digest must be a string.*vcek must be a base64 string/);
+    expect(() => validateEvidenceBundle(null)).toThrow(EvidenceBundleError);
+    expect(() => validateEvidenceBundle({ version: 1, hardwareMeasurements: { release: {} } }))
+      .toThrow('hardwareMeasurements must have a release digest and sigstoreBundle');
+    expect(() => parseEvidenceBundle('{')).toThrow(expect.objectContaining({ code: 'EVIDENCE_BUNDLE_INVALID' }));
+  });
+});
@@ -0,0 +1,160 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { mkdtemp, rm, utimes, readdir } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { X509Certificate } from '@freedomofpress/sigstore-browser';
+import { MemoryCertificateCache, FileCertificateCache, LocalStorageCertificateCache } from '../src/cache.js';
+import { CertificateChain } from '../src/sev/cert-chain.js';
+import { Report } from '../src/sev/report.js';
+import { ASK_CERT } from '../src/sev/certs.js';
+import { bytesToHex } from '../src/sev/utils.js';
+import { sampleReportBytes } from './fixtures/sev.js';
+
+const der = (n: number) => new Uint8Array([n, n, n]);
+
+describe('MemoryCertificateCache', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('returns stored certificates', async () => {
+    const cache = new MemoryCertificateCache();
+    await cache.set('a', der(1));
+    expect(await cache.get('a')).toEqual(der(1));
+    expect(await cache.get('b')).toBeUndefined();
+  });
+
+  it('expires entries after the TTL', async () => {
+    vi.useFakeTimers();
+    const cache = new MemoryCertificateCache({ ttlMs: 1000 });
+    await cache.set('a', der(1));
+    vi.advanceTimersByTime(1001);
+    expect(await cache.get('a')).toBeUndefined();
+  });
+
+  it('evicts the least recently used entry', async () => {
+    const cache = new MemoryCertificateCache({ maxEntries: 2 });
+    await cache.set('a', der(1));
+    await cache.set('b', der(2));
+    await cache.get('a');
+    await cache.set('c', der(3));
+    expect(await cache.get('a')).toEqual(der(1));
+    expect(await cache.get('b')).toBeUndefined();
+    expect(await cache.get('c')).toEqual(der(3));
+  });
+});
+
+describe('FileCertificateCache', () => {
+  let dir: string;
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('persists certificates across instances', async () => {
+    dir = await mkdtemp(join(tmpdir(), 'tinfoil-cache-'));
+    await new FileCertificateCache(dir).set('VCEK_Genoa_ab', der(1));
+    expect(await new FileCertificateCache(dir).get('VCEK_Genoa_ab')).toEqual(der(1));
+  });
+
+  it('expires entries after the TTL', async () => {
+    dir = await mkdtemp(join(tmpdir(), 'tinfoil-cache-'));
+    const cache = new FileCertificateCache(dir, { ttlMs: 60_000 });
+    await cache.set('a', der(1));
+    const old = new Date(Date.now() - 120_000);
+    await utimes(join(dir, 'a.der'), old, old);
+    expect(await cache.get('a')).toBeUndefined();
+  });
+
+  it('evicts the oldest files beyond the size limit', async () => {
+    dir = await mkdtemp(join(tmpdir(), 'tinfoil-cache-'));
+    const cache = new FileCertificateCache(dir, { maxEntries: 2 });
+    await cache.set('a', der(1));
+    const old = new Date(Date.now() - 60_000);
+    await utimes(join(dir, 'a.der'), old, old);
+    await cache.set('b', der(2));
+    await cache.set('c', der(3));
+    expect((await readdir(dir)).sort()).toEqual(['b.der', 'c.der']);
+  });
+
+  it('keeps concurrent writes of the same key apart', async () => {
+    dir = await mkdtemp(join(tmpdir(), 'tinfoil-cache-'));
+    const cache = new FileCertificateCache(dir);
+    await Promise.all([cache.set('a', der(1)), cache.set('a', der(1))]);
+    expect(await readdir(dir)).toEqual(['a.der']);
+  });
+
+  it('does not let keys escape the directory', async () => {
+    dir = await mkdtemp(join(tmpdir(), 'tinfoil-cache-'));
+    await new FileCertificateCache(dir).set('../evil', der(1));
+    expect(await readdir(dir)).toEqual(['___evil.der']);
+  });
+});
+
+describe('LocalStorageCertificateCache', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('treats storage that cannot be read as a miss', async () => {
+    vi.stubGlobal('localStorage', {
+      getItem: () => {
+        throw new DOMException('The operation is insecure.', 'SecurityError');
+      },
+    });
+    expect(await new LocalStorageCertificateCache().get('a')).toBeUndefined();
+  });
+});
+
+describe('VCEK caching', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('uses a cached VCEK instead of fetching from the KDS', async () => {
+    const report = new Report(sampleReportBytes());
+
+    // Any certificate will do; the chain is not verified here
+    const certDer = Uint8Array.from(atob(ASK_CERT.replace(/-----(BEGIN|END) CERTIFICATE-----|\s/g, '')), c => c.charCodeAt(0));
+    const cache = new MemoryCertificateCache();
+    const key = `VCEK_Genoa_${bytesToHex(report.chipId)}_${report.reportedTcb.toString(16).padStart(16, '0')}`;
+    await cache.set(key, certDer);
+
+    const fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+
+    const chain = await CertificateChain.fromReport(report, undefined, cache);
+    expect(chain.vcek.equals(X509Certificate.parse(ASK_CERT))).toBe(true);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('re-fetches and overwrites a corrupt cache entry', async () => {
+    const report = new Report(sampleReportBytes());
+
+    const certDer = Uint8Array.from(atob(ASK_CERT.replace(/-----(BEGIN|END) CERTIFICATE-----|\s/g, '')), c => c.charCodeAt(0));
+    const cache = new MemoryCertificateCache();
+    const key = `VCEK_Genoa_${bytesToHex(report.chipId)}_${report.reportedTcb.toString(16).padStart(16, '0')}`;
+    await cache.set(key, certDer.slice(0, 100));
+
+    const fetchMock = vi.fn(async () => new Response(certDer));
+    vi.stubGlobal('fetch', fetchMock);
+
+    await CertificateChain.fromReport(report, undefined, cache);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(await cache.get(key)).toEqual(certDer);
+  });
+
+  it('uses a supplied VCEK without consulting the cache or the KDS', async () => {
+    const report = new Report(sampleReportBytes());
+
+    const certDer = Uint8Array.from(atob(ASK_CERT.replace(/-----(BEGIN|END) CERTIFICATE-----|\s/g, '')), c => c.charCodeAt(0));
+    const cache = new MemoryCertificateCache();
+    const getSpy = vi.spyOn(cache, 'get');
+    const fetchMock = vi.fn();
+
+    const chain = await CertificateChain.fromReport(report, undefined, cache, { fetch: fetchMock }, { vcek: certDer });
+    expect(chain.vcek.root.toDER()).toEqual(certDer);
+    expect(getSpy).not.toHaveBeenCalled();
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
@@ -1,6 +1,13 @@
 import { describe, it, expect } from 'vitest';
 import { X509Certificate } from '@freedomofpress/sigstore-browser';
-import { ARK_CERT, ASK_CERT } from '../src/sev/certs.js';
+import { ARK_CERT, ASK_CERT, ARK_MILAN_CERT, ASK_MILAN_CERT } from '../src/sev/certs.js';
+import { CertificateChain, buildVCEKUrl } from '../src/sev/cert-chain.js';
+import { Report } from '../src/sev/report.js';
+import { ReportSigner } from '../src/sev/constants.js';
+import { validateReport } from '../src/sev/validation.js';
+import { base64ToBytes } from '../src/sev/utils.js';
+import { sampleReportBytes } from './fixtures/sev.js';
+import { VLEK_TEST_ARK, VLEK_TEST_ASVK, VLEK_TEST_VLEK, VLEK_TEST_VLEK_NO_CSP_ID } from './fixtures/vlek.js';
 
 describe('AMD Certificate Chain Verification', () => {
   it('parses ARK certificate correctly', () => {
@@ -40,3 +47,105 @@ describe('AMD Certificate Chain Verification', () => {
     expect(signedByArk).toBe(true);
   });
 });
+
+describe('AMD Milan Certificate Chain Verification', () => {
+  it('has Milan common names', () => {
+    expect(X509Certificate.parse(ARK_MILAN_CERT).subjectDN.get('CN')).toBe('ARK-Milan');
+    expect(X509Certificate.parse(ASK_MILAN_CERT).subjectDN.get('CN')).toBe('SEV-Milan');
+  });
+
+  it('verifies ARK self-signature with RSA-PSS', async () => {
+    const ark = X509Certificate.parse(ARK_MILAN_CERT);
+    expect(await ark.verify()).toBe(true);
+  });
+
+  it('verifies ASK signed by ARK with RSA-PSS', async () => {
+    const ark = X509Certificate.parse(ARK_MILAN_CERT);
+    const ask = X509Certificate.parse(ASK_MILAN_CERT);
+    expect(await ask.verify(ark)).toBe(true);
+  });
+});
+
+describe('VLEK Certificate Chain Verification', () => {
+  const now = new Date('2026-11-01T00:00:00Z');
+  const ark = X509Certificate.parse(VLEK_TEST_ARK);
+  const asvk = X509Certificate.parse(VLEK_TEST_ASVK);
+  const vlekChain = (vlek: string = VLEK_TEST_VLEK) =>
+    new CertificateChain(ark, asvk, X509Certificate.parse(vlek), 'Genoa', 'VLEK');
+
+  // Reads the reason out of the CertificateChainError verifyChain wraps it in
+  const chainFailure = (chain: CertificateChain) =>
+    chain.verifyChain(now).then(() => undefined, (e: Error) => (e.cause as Error).message);
+
+  it('verifies a VLEK signed by the ASVK', async () => {
+    expect(await vlekChain().verifyChain(now)).toBe(true);
+  });
+
+  it('reads the CSP_ID and SPLs from the VLEK', () => {
+    const chain = vlekChain();
+    expect(chain.cspId).toBe('Tinfoil');
+    expect(chain.extensions).toEqual({
+      tcb: { blSpl: 7, teeSpl: 0, snpSpl: 14, ucodeSpl: 72 },
+      productName: 'Genoa',
+      cspId: 'Tinfoil',
+    });
+  });
+
+  it('rejects a VLEK without a CSP_ID', async () => {
+    expect(await chainFailure(vlekChain(VLEK_TEST_VLEK_NO_CSP_ID))).toBe('missing or empty CSP_ID extension for VLEK certificate');
+  });
+
+  it('rejects a VLEK presented as a VCEK', async () => {
+    const chain = new CertificateChain(ark, asvk, X509Certificate.parse(VLEK_TEST_VLEK), 'Genoa', 'VCEK');
+    expect(await chainFailure(chain)).toBe('ASK certificate subject common name is not SEV-Genoa but SEV-VLEK-Genoa');
+  });
+
+  it('rejects a VLEK not signed by the ASVK', async () => {
+    // Flip the last byte, which falls in the signature
+    const der = base64ToBytes(VLEK_TEST_VLEK.replace(/-----[A-Z ]+-----|\s/g, ''));
+    der[der.length - 1] ^= 1;
+    const chain = new CertificateChain(ark, asvk, X509Certificate.parse(der), 'Genoa', 'VLEK');
+    expect(await chainFailure(chain)).toBe('VLEK certificate is not signed by ASVK');
+  });
+
+  it('rejects a VLEK outside its validity period', async () => {
+    await expect(vlekChain().verifyChain(new Date('2026-01-01T00:00:00Z'))).rejects.toThrow('Certificate chain verification failed');
+  });
+
+  describe('trusted CSP IDs', () => {
+    const reportBytes = sampleReportBytes(ReportSigner.VlekReportSigner);
+    // Report and commit the current TCB, which is the one the VLEK was issued for
+    reportBytes.set(reportBytes.subarray(0x38, 0x40), 0x180);
+    reportBytes.set(reportBytes.subarray(0x38, 0x40), 0x1e0);
+    const report = new Report(reportBytes);
+    const options = (trustedCspIds: string[]) =>
+      ({ permitProvisionalFirmware: false, requireAuthorKey: false, requireIdBlock: false, trustedCspIds });
+
+    it('accepts a VLEK issued to a trusted provider', () => {
+      expect(() => validateReport(report, vlekChain(), options(['AWS', 'Tinfoil']))).not.toThrow();
+    });
+
+    it('rejects a VLEK issued to another provider', () => {
+      expect(() => validateReport(report, vlekChain(), options(['AWS'])))
+        .toThrow('VLEK CSP_ID Tinfoil is not in the trusted list: AWS');
+    });
+  });
+});
+
+describe('VCEK URL', () => {
+  const chipId = new Uint8Array(64).map((_, i) => i);
+
+  it('uses the full chip ID for Genoa', () => {
+    const tcb = (0x48n << 56n) | (0x0en << 48n) | 0x07n;
+    const url = buildVCEKUrl('Genoa', chipId, tcb);
+    expect(url).toContain('/Genoa/000102030405060708090a0b0c0d0e0f');
+    expect(url).toContain('?blSPL=7&teeSPL=0&snpSPL=14&ucodeSPL=72');
+  });
+
+  it('uses the truncated chip ID and FMC SPL for Turin', () => {
+    const tcb = (0x4cn << 56n) | (0x03n << 24n) | (0x01n << 16n) | (0x02n << 8n) | 0x05n;
+    const url = buildVCEKUrl('Turin', chipId, tcb);
+    expect(url).toMatch(/\/Turin\/0001020304050607\?/);
+    expect(url).toContain('fmcSPL=5&blSPL=2&teeSPL=1&snpSPL=3&ucodeSPL=76');
+  });
+});
@@ -0,0 +1,164 @@
+import { describe, it, expect, vi } from 'vitest';
+import { X509Certificate } from '@freedomofpress/sigstore-browser';
+import { CertificateChain } from '../src/sev/cert-chain.js';
+import { checkRevocation, verifyCrl, isRevoked, crlDistributionPoint } from '../src/sev/crl.js';
+import { ARK_CERT } from '../src/sev/certs.js';
+import { MemoryCertificateCache } from '../src/cache.js';
+import { RevocationError } from '../src/errors.js';
+
+// Test CA that signs like AMD (RSA-PSS, SHA-384, 48 byte salt), with a CRL revoking serial 0x1000
+const TEST_ARK = `-----BEGIN CERTIFICATE-----
+MIIDmDCCAkygAwIBAgIUQn0nO1Wb3fcPZjVVBWs9lnyCnPEwQQYJKoZIhvcNAQEK
+MDSgDzANBglghkgBZQMEAgIFAKEcMBoGCSqGSIb3DQEBCDANBglghkgBZQMEAgIF
+AKIDAgEwMBMxETAPBgNVBAMMCEFSSy1UZXN0MCAXDTI2MTAxOTE3MTcyNVoYDzIx
+MjYwOTI1MTcxNzI1WjATMREwDwYDVQQDDAhBUkstVGVzdDCCASIwDQYJKoZIhvcN
+AQEBBQADggEPADCCAQoCggEBAN0FBBkVlv3sUhlMZtbp/KCrOhJKrNUH8BP0oSsv
+U+IUuGWvdP3CYs9HDQDKu5JrWojmr8KmYBAgg09s2+JBIbax87bDa0c9jatBuBWc
+arToZ5IHqaYtVvYc2B1s3Px0SUEfCuy7poH7wbOSbVGDwYBO8cxVjATH7IQD3JGl
+dd2PD3pj/RTKlBELluANKY6JaNtAEZ8KqoW2dSLwY6Oqn5/aa/nBhKOcK45/CYzv
+bZuzEHrqGlzrzMKfngJuUJLn3+bc+rGLIqKAFXISM+LJHpLd7X8FQv/3g8cuu3oa
+XESyDlEtv0zwfJq5R4RIcBQxjOivMzN8fzuRwBNMo7136WkCAwEAAaN6MHgwDwYD
+VR0TAQH/BAUwAwEB/zALBgNVHQ8EBAMCAQYwOQYDVR0fBDIwMDAuoCygKoYoaHR0
+cHM6Ly9rZHNpbnRmLmFtZC5jb20vdmNlay92MS9UZXN0L2NybDAdBgNVHQ4EFgQU
+R3bEFsUDO5KZ1FgJnYxCvZO0vLUwQQYJKoZIhvcNAQEKMDSgDzANBglghkgBZQME
+AgIFAKEcMBoGCSqGSIb3DQEBCDANBglghkgBZQMEAgIFAKIDAgEwA4IBAQAfZR2O
+wk8RrjJEYXoYI1lNNvzjamKFyUqmxENYE5sft7vJrdUIMygs7tEw96BNjeVgSxfJ
+8WrKF3s0/wRPoExeDF1plwlWt/tgN/J463+l/sc34OA3mlOOqvHhs/LQ7EIV6qCn
+l0gSlmhOM6iBlw/ardRzSWbibNefjiywsGN8Ou4EcfzeWwHtOM+C2k1Gm5pKStpK
+fjI4Lc6nTcNq5ONx/A2aGppv6QgOPio7zU5cffxqG+HGO44V7mDFzmfb5qafUUFB
+Tt8WoeKOtyV+VlJAYpjS7KmLKrUeOwaHH2gfrhzlYjYNw/6WDoiAHmWmPkWRBzk2
+LckMJMmMimAFfM20
+-----END CERTIFICATE-----`;
+
+const REVOKED_CERT = `-----BEGIN CERTIFICATE-----
+MIICqjCCAV6gAwIBAgICEAAwQQYJKoZIhvcNAQEKMDSgDzANBglghkgBZQMEAgIF
+AKEcMBoGCSqGSIb3DQEBCDANBglghkgBZQMEAgIFAKIDAgEwMBMxETAPBgNVBAMM
+CEFSSy1UZXN0MCAXDTI2MTAxOTE3MTcyNVoYDzIxMjYwOTI1MTcxNzI1WjASMRAw
+DgYDVQQDDAdyZXZva2VkMHYwEAYHKoZIzj0CAQYFK4EEACIDYgAEjscQtd/UL42+
+hBnB7KPiHBP90dvBg83qXzrAEHWUZGrQ4BGvFVKryTyeB9V428ZYmh7/DPmqpFo+
+8GU61AgLrciqWbQOrcaRON9JtCbabS/uCpOf3ZTqMOlOMBjWNJ8jo00wSzAJBgNV
+HRMEAjAAMB0GA1UdDgQWBBRx72U0xCvmJ6megChJ6X5njrv8bzAfBgNVHSMEGDAW
+gBRHdsQWxQM7kpnUWAmdjEK9k7S8tTBBBgkqhkiG9w0BAQowNKAPMA0GCWCGSAFl
+AwQCAgUAoRwwGgYJKoZIhvcNAQEIMA0GCWCGSAFlAwQCAgUAogMCATADggEBADRr
+JxeO3qt/FXUa3gKFHtrLx87ee2/b07pZNwI96XLCbtwIZqi/JMstRWsvgIze1eXC
+roG/rFAl3Yo3yDbWrRTd0mbgEx6xE9GhTnubUfp5U6YYNAug7PKl6ZFAkckAJsjV
+NrstJPqSQYkg5LsDaTFghzHgR+TUwlThL4ga/sQ+nlC3Un6ok4AUg6I+CCb+dTgQ
+LMVpeBfX8QElj4zN7tAPR4+qThWmPkAIYnHf8Pf2/KdJKlF+pIbaRGSxaFti8LaJ
+9hY9/fiKSxtuFa7Q5kBKlR51yuW/EWsy8lfCWMuCbTpfv13l7C2/44QG3hZnpa4G
+hsh5Q6qpaob5I3ekdpY=
+-----END CERTIFICATE-----`;
+
+const GOOD_CERT = `-----BEGIN CERTIFICATE-----
+MIICpzCCAVugAwIBAgICEAEwQQYJKoZIhvcNAQEKMDSgDzANBglghkgBZQMEAgIF
+AKEcMBoGCSqGSIb3DQEBCDANBglghkgBZQMEAgIFAKIDAgEwMBMxETAPBgNVBAMM
+CEFSSy1UZXN0MCAXDTI2MTAxOTE3MTcyNVoYDzIxMjYwOTI1MTcxNzI1WjAPMQ0w
+CwYDVQQDDARnb29kMHYwEAYHKoZIzj0CAQYFK4EEACIDYgAEX7r4IegLe//tXy5k
+tpL5HrkZfolzS1V1Z9YXnDZEGb54G+tZ8LRJofT99E1UktVWdP0OdmEYjbS9dbU0
+RF6TMcx0jH/P3p6HskTGMje2ZUt5BRb1u6El0GGZxU1xCtiho00wSzAJBgNVHRME
+AjAAMB0GA1UdDgQWBBQD1jv0IovZYmZrUiEszxciP3X4ajAfBgNVHSMEGDAWgBRH
+dsQWxQM7kpnUWAmdjEK9k7S8tTBBBgkqhkiG9w0BAQowNKAPMA0GCWCGSAFlAwQC
+AgUAoRwwGgYJKoZIhvcNAQEIMA0GCWCGSAFlAwQCAgUAogMCATADggEBALAIPLFw
+r9aT3mz+OmqAbRnSMZMgC89/+JoO2sJe6btLyVr1oEk+jgbeGmNsvF0iepusOWHF
+spvExBqhDW/QldDG5+E9WYUlRzlSsZ8+oFOGJhtSVHpdXMwqWvhQjBkyBWJCOSV1
+8XXKcXO/V88eKditASZ6kF6pr8xKxaqQFvXIU8jKrbTXPkBSHQNVPkXAVLbwgvx6
+6cjaH3QCaPkyvEZE/oL9P2WtwDQTPnDBBV4xpol9nmXRNEmyF/DoTW1TKTu3/67B
+n9wFbbUhBm+v7d0Qmz6E2nyUV8Xxu7T4lhv+fFpAmBZFg0DdBZ1UK5+WShlJZ1l5
+qKEZB/h68KwhqUE=
+-----END CERTIFICATE-----`;
+
+const TEST_CRL = `-----BEGIN X509 CRL-----
+MIIB7jCBowIBATBBBgkqhkiG9w0BAQowNKAPMA0GCWCGSAFlAwQCAgUAoRwwGgYJ
+KoZIhvcNAQEIMA0GCWCGSAFlAwQCAgUAogMCATAwEzERMA8GA1UEAwwIQVJLLVRl
+c3QXDTI2MTAxOTE3MTcyNVoYDzIxMjYwOTI1MTcxNzI1WjAVMBMCAhAAFw0yNjEw
+MTkxNzE3MjVaoA8wDTALBgNVHRQEBAICEAAwQQYJKoZIhvcNAQEKMDSgDzANBglg
+hkgBZQMEAgIFAKEcMBoGCSqGSIb3DQEBCDANBglghkgBZQMEAgIFAKIDAgEwA4IB
+AQBHIvzaZVTi1fDt1njvG0KnLlgJ8wgHcEExXZNPVqx08syvCjdlyQGJTS63FlVD
+kQBnlg9liW5ZcQG453xxe/mUi9OU0bHPbEqAcHHsyHtFMF7KDGDFAoRQjZhdJXzb
+zjwWDs7uI2jPuxYo54YIhQJlrI/pwwqSvZfNADqEQLpFxK2Pzl28EH47cGlQaTnb
+Tukcf03LiAkcRcUbRA5SFfjAWllAb0FmxwtrzMfLZQ3Je0yIR9/aJCXisf1v2I52
+MUWQCfJIhDYVooBunKPUEy3YC2PaVGdIZc7RxfsjDN5jrKoV9xTudggYcIQu+Fe9
+rmLQ3trD7BLDu3aBQVnU4JPf
+-----END X509 CRL-----`;
+
+function pemToDer(pem: string): Uint8Array {
+  const base64 = pem.replace(/-----(BEGIN|END) X509 CRL-----|\s/g, '');
+  return Uint8Array.from(atob(base64), c => c.charCodeAt(0));
+}
+
+describe('CRL Parsing', () => {
+  const ark = X509Certificate.parse(TEST_ARK);
+
+  it('reads the distribution point from the Genoa ARK', () => {
+    expect(crlDistributionPoint(X509Certificate.parse(ARK_CERT))).toBe('https://kdsintf.amd.com/vcek/v1/Genoa/crl');
+  });
+
+  it('verifies the CRL against its issuer and lists revoked serials', async () => {
+    const crl = await verifyCrl(pemToDer(TEST_CRL), ark);
+    expect(crl.revokedSerials).toHaveLength(1);
+    expect(isRevoked(crl, X509Certificate.parse(REVOKED_CERT))).toBe(true);
+    expect(isRevoked(crl, X509Certificate.parse(GOOD_CERT))).toBe(false);
+  });
+
+  it('rejects a CRL from another issuer', async () => {
+    await expect(verifyCrl(pemToDer(TEST_CRL), X509Certificate.parse(ARK_CERT))).rejects.toThrow('CRL issuer does not match ARK-Genoa');
+  });
+
+  it('rejects a tampered CRL', async () => {
+    const der = pemToDer(TEST_CRL);
+    der[60] ^= 0xff;
+    await expect(verifyCrl(der, ark)).rejects.toThrow();
+  });
+
+  it('rejects an expired CRL', async () => {
+    await expect(verifyCrl(pemToDer(TEST_CRL), ark, new Date('2200-01-01'))).rejects.toThrow('CRL expired');
+  });
+});
+
+describe('Certificate Chain Revocation', () => {
+  const ark = X509Certificate.parse(TEST_ARK);
+  const good = X509Certificate.parse(GOOD_CERT);
+  const revoked = X509Certificate.parse(REVOKED_CERT);
+
+  it('rejects a chain with a revoked ASK', async () => {
+    const fetcher = vi.fn(async () => pemToDer(TEST_CRL));
+    const chain = new CertificateChain(ark, revoked, good, 'Test');
+    await expect(checkRevocation(chain, { fetcher }, undefined, new MemoryCertificateCache())).rejects.toThrow('ASK certificate 1000 has been revoked');
+    await expect(checkRevocation(chain, { fetcher }, undefined, new MemoryCertificateCache())).rejects.toBeInstanceOf(RevocationError);
+    expect(fetcher).toHaveBeenCalledWith('https://kdsintf.amd.com/vcek/v1/Test/crl');
+  });
+
+  it('does not look up the VCEK in the ARK-issued CRL', async () => {
+    const chain = new CertificateChain(ark, good, revoked, 'Test');
+    await expect(checkRevocation(chain, { fetcher: async () => pemToDer(TEST_CRL) }, undefined, new MemoryCertificateCache()))
+      .resolves.toBeUndefined();
+  });
+
+  it('reuses the CRL kept in the certificate cache', async () => {
+    const cache = new MemoryCertificateCache();
+    const fetcher = vi.fn(async () => pemToDer(TEST_CRL));
+    const chain = new CertificateChain(ark, good, good, 'Test');
+    await checkRevocation(chain, { fetcher }, undefined, cache);
+    await checkRevocation(chain, { fetcher }, undefined, cache);
+    expect(fetcher).toHaveBeenCalledTimes(1);
+
+    // Another cache does not see it
+    await checkRevocation(chain, { fetcher }, undefined, new MemoryCertificateCache());
+    expect(fetcher).toHaveBeenCalledTimes(2);
+  });
+
+  it('fetches the CRL again once the cached copy has expired', async () => {
+    const cache = new MemoryCertificateCache();
+    const fetcher = vi.fn(async () => pemToDer(TEST_CRL));
+    const chain = new CertificateChain(ark, good, good, 'Test');
+    await checkRevocation(chain, { fetcher }, undefined, cache);
+    await expect(checkRevocation(chain, { fetcher }, new Date('2200-01-01'), cache)).rejects.toThrow('CRL expired');
+    expect(fetcher).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not trust a cached CRL from another ARK', async () => {
+    const cache = new MemoryCertificateCache();
+    await cache.set('CRL_https://kdsintf.amd.com/vcek/v1/Genoa/crl', pemToDer(TEST_CRL));
+    const chain = new CertificateChain(X509Certificate.parse(ARK_CERT), good, good);
+    await expect(checkRevocation(chain, { fetcher: async () => pemToDer(TEST_CRL) }, undefined, cache)).rejects.toThrow('CRL issuer does not match');
+  });
+});
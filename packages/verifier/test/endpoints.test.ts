@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_ENDPOINTS, resolveEndpoints } from '../src/endpoints.js';
+import { fetchLatestDigest, fetchAttestationBundle } from '../src/github.js';
+import { fetchRouter } from '../src/router.js';
+import { fetchAttestation } from '../src/attestation.js';
+import { buildVCEKUrl } from '../src/sev/cert-chain.js';
+import { Verifier } from '../src/client.js';
+import { ConfigurationError, ReleaseFetchError } from '../src/errors.js';
+
+const DIGEST = 'ab'.repeat(32);
+
+// Records every requested URL and answers from a path -> response table
+function recordingFetch(routes: Record<string, () => Response>) {
+  const urls: string[] = [];
+  const fetchFn = (async (input: RequestInfo | URL) => {
+    const url = input.toString();
+    urls.push(url);
+    const route = Object.keys(routes).find(path => url.includes(path));
+    return route ? routes[route]() : new Response('not found', { status: 404 });
+  }) as typeof fetch;
+  return { urls, fetchFn };
+}
+
+describe('resolveEndpoints', () => {
+  it('returns the defaults when nothing is overridden', () => {
+    expect(resolveEndpoints()).toEqual(DEFAULT_ENDPOINTS);
+  });
+
+  it('replaces individual endpoints and drops trailing slashes', () => {
+    const endpoints = resolveEndpoints({ kds: 'https://kds.mirror.internal:8443/', atc: undefined });
+    expect(endpoints.kds).toBe('https://kds.mirror.internal:8443');
+    expect(endpoints.atc).toBe(DEFAULT_ENDPOINTS.atc);
+  });
+
+  it('rejects endpoints that are not http(s) URLs', () => {
+    expect(() => resolveEndpoints({ githubApi: 'not a url' })).toThrow(ConfigurationError);
+    expect(() => resolveEndpoints({ githubApi: 'not a url' })).toThrow('Invalid githubApi endpoint');
+    expect(() => resolveEndpoints({ atc: 'ftp://atc.mirror.internal' })).toThrow('is not an http(s) URL');
+  });
+});
+
+describe('network requests', () => {
+  const endpoints = {
+    githubApi: 'https://github-api.mirror.internal',
+    githubReleases: 'https://github.mirror.internal/releases',
+    atc: 'http://atc.mirror.internal:8080',
+  };
+
+  it('fetches release digests from the configured GitHub mirrors', async () => {
+    const { urls, fetchFn } = recordingFetch({
+      '/releases/latest': () => Response.json({ tag_name: 'v1.2.3', body: 'no digest here' }),
+      '/tinfoil.hash': () => new Response(`${DIGEST}\n`),
+    });
+
+    const digest = await fetchLatestDigest('owner/repo', { endpoints, fetch: fetchFn });
+
+    expect(digest).toBe(DIGEST);
+    expect(urls).toEqual([
+      'https://github-api.mirror.internal/repos/owner/repo/releases/latest',
+      'https://github.mirror.internal/releases/owner/repo/releases/download/v1.2.3/tinfoil.hash',
+    ]);
+  });
+
+  it('fetches attestation bundles from the configured GitHub API mirror', async () => {
+    const { urls, fetchFn } = recordingFetch({
+      '/attestations/': () => Response.json({ attestations: [{ bundle: { ok: true } }] }),
+    });
+
+    const bundle = await fetchAttestationBundle('owner/repo', DIGEST, { endpoints, fetch: fetchFn });
+
+    expect(bundle).toEqual({ ok: true });
+    expect(urls).toEqual([`https://github-api.mirror.internal/repos/owner/repo/attestations/sha256:${DIGEST}`]);
+  });
+
+  it('fails with a ReleaseFetchError when the mirror has no attestation', async () => {
+    const { fetchFn } = recordingFetch({});
+
+    await expect(fetchAttestationBundle('owner/repo', DIGEST, { endpoints, fetch: fetchFn })).rejects.toEqual(
+      new ReleaseFetchError(`Error fetching attestation from https://github-api.mirror.internal/repos/owner/repo/attestations/sha256:${DIGEST}: 404 `),
+    );
+  });
+
+  it('discovers routers through the configured ATC', async () => {
+    const { urls, fetchFn } = recordingFetch({
+      '/routers': () => Response.json(['router.mirror.internal']),
+    });
+
+    expect(await fetchRouter({ endpoints, fetch: fetchFn, allowedRouters: ['*.mirror.internal'] })).toBe('router.mirror.internal');
+    expect(urls).toEqual(['http://atc.mirror.internal:8080/routers?platform=snp']);
+  });
+
+  it('builds VCEK URLs against the configured KDS', () => {
+    const url = buildVCEKUrl('Genoa', new Uint8Array(64), 0n, 'https://kds.mirror.internal');
+    expect(url.startsWith('https://kds.mirror.internal/vcek/v1/Genoa/')).toBe(true);
+  });
+
+  it('keeps the enclave port when fetching the attestation', async () => {
+    const { urls, fetchFn } = recordingFetch({
+      '/.well-known/tinfoil-attestation': () => Response.json({ format: 'https://tinfoil.sh/predicate/sev-snp-guest/v2', body: '' }),
+    });
+
+    await fetchAttestation('enclave.internal:8443', { fetch: fetchFn });
+
+    expect(urls).toEqual(['https://enclave.internal:8443/.well-known/tinfoil-attestation']);
+  });
+
+  it('threads the port and injected fetch through the Verifier', async () => {
+    const { urls, fetchFn } = recordingFetch({});
+    const verifier = new Verifier({ serverURL: 'https://enclave.internal:8443/', endpoints, fetch: fetchFn });
+
+    await expect(verifier.verify()).rejects.toThrow('Failed to fetch attestation: 404');
+
+    expect(urls).toEqual(['https://enclave.internal:8443/.well-known/tinfoil-attestation']);
+    expect(verifier.getVerificationDocument()?.enclaveHost).toBe('enclave.internal:8443');
+  });
+
+  it('rejects invalid endpoints when the Verifier is created', () => {
+    expect(() => new Verifier({ serverURL: 'https://enclave.internal', endpoints: { kds: 'kds' } }))
+      .toThrow(ConfigurationError);
+  });
+});
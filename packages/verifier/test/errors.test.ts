@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { fetchAttestation, verifyAttestation } from '../src/attestation.js';
+import { discoverRouters } from '../src/router.js';
+import { Report } from '../src/sev/report.js';
+import { CertificateChain } from '../src/sev/cert-chain.js';
+import { ReportSigner } from '../src/sev/constants.js';
+import { MemoryCertificateCache } from '../src/cache.js';
+import { PredicateType } from '../src/types.js';
+import {
+  TinfoilError,
+  AttestationError,
+  AttestationFetchError,
+  VcekFetchError,
+  CertificateChainError,
+  ReportValidationError,
+  RouterDiscoveryError,
+  HpkeKeyMismatchError,
+} from '../src/errors.js';
+import { sampleReportBytes } from './fixtures/sev.js';
+
+function sampleReport(signingKey: ReportSigner): Report {
+  return new Report(sampleReportBytes(signingKey));
+}
+
+const failingFetch = (async () => {
+  throw new TypeError('fetch failed');
+}) as typeof fetch;
+
+const statusFetch = (status: number) => (async () => new Response(null, { status })) as typeof fetch;
+
+describe('typed errors', () => {
+  it('carries a stable code and keeps the hierarchy', () => {
+    const error = new HpkeKeyMismatchError('old', 'new');
+
+    expect(error).toBeInstanceOf(TinfoilError);
+    expect(error.code).toBe('HPKE_KEY_MISMATCH');
+    expect(error.name).toBe('HpkeKeyMismatchError');
+    expect(error.message).toBe('HPKE public key mismatch. Expected: old, Got: new');
+    expect(new CertificateChainError('bad chain')).toBeInstanceOf(AttestationError);
+  });
+
+  it('throws AttestationFetchError when the attestation cannot be fetched', async () => {
+    await expect(fetchAttestation('enclave.example.com', { fetch: statusFetch(503) }))
+      .rejects.toMatchObject({ code: 'ATTESTATION_FETCH_FAILED', message: 'Failed to fetch attestation: 503 ' });
+
+    const error = await fetchAttestation('enclave.example.com', { fetch: failingFetch }).catch(e => e);
+    expect(error).toBeInstanceOf(AttestationFetchError);
+    expect(error.cause).toBeInstanceOf(TypeError);
+  });
+
+  it('throws ReportValidationError for malformed documents', async () => {
+    await expect(verifyAttestation({ format: 'unknown' as PredicateType, body: '' }))
+      .rejects.toBeInstanceOf(ReportValidationError);
+    await expect(verifyAttestation({ format: PredicateType.SevGuestV2, body: btoa('not gzip') }))
+      .rejects.toMatchObject({ code: 'REPORT_INVALID' });
+  });
+
+  it('throws VcekFetchError when the KDS is unavailable', async () => {
+    const report = sampleReport(ReportSigner.VcekReportSigner);
+
+    const error = await CertificateChain.fromReport(report, undefined, new MemoryCertificateCache(), { fetch: statusFetch(404) })
+      .catch(e => e);
+
+    expect(error).toBeInstanceOf(VcekFetchError);
+    expect(error.code).toBe('VCEK_FETCH_FAILED');
+  });
+
+  it('throws CertificateChainError when the chain cannot be built', async () => {
+    const report = sampleReport(ReportSigner.VlekReportSigner);
+
+    await expect(CertificateChain.fromReport(report)).rejects.toMatchObject({
+      code: 'CERTIFICATE_CHAIN_INVALID',
+      message: 'Report is VLEK signed but no VLEK certificate was provided',
+    });
+  });
+
+  it('throws RouterDiscoveryError when no router can be found', async () => {
+    await expect(discoverRouters({ fetch: failingFetch })).rejects.toBeInstanceOf(RouterDiscoveryError);
+    await expect(discoverRouters({ fetch: (async () => Response.json([])) as typeof fetch }))
+      .rejects.toMatchObject({ code: 'ROUTER_DISCOVERY_FAILED' });
+  });
+});
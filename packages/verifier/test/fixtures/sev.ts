@@ -0,0 +1,17 @@
+import { ReportSigner } from '../../src/sev/constants.js';
+import { base64ToBytes } from '../../src/sev/utils.js';
+
+// Start of a Genoa attestation report: version 2, policy 0x30000, a current TCB
+// of BL_SPL 7, SNP_SPL 14 and UCODE 72, and report data. The rest is zero.
+export const SAMPLE_REPORT_PREFIX = 'AgAAAAAAAAAAAAMAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAQAAAAEAAAAHAAAAAAAOSAEAAAAAAAAAAAAAAAAAAAA2NTA4M2U1OTA0YzAyNzNiNjQ0YWQ5MGU1MWUxMmE4ZDc2ZmUwN2YyYWI4YWIxNGQ3NjAxMWIzZTljN2RjYWE3';
+
+/**
+ * A full size report built from SAMPLE_REPORT_PREFIX and signed by the given
+ * endorsement key type.
+ */
+export function sampleReportBytes(signingKey: ReportSigner = ReportSigner.VcekReportSigner): Uint8Array {
+  const reportBytes = new Uint8Array(0x4a0);
+  reportBytes.set(base64ToBytes(SAMPLE_REPORT_PREFIX), 0);
+  reportBytes[0x48] = signingKey << 2;
+  return reportBytes;
+}
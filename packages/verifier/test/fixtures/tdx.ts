@@ -0,0 +1,147 @@
+import type { TdxCollateral } from '../../src/tdx/types.js';
+
+// Test CA named like the Intel SGX Root CA. It signs the PCK chain and the
+// TCB signing certificate of the quote and collateral below.
+export const TDX_TEST_ROOT_CA = `-----BEGIN CERTIFICATE-----
+MIIBozCCAUmgAwIBAgIBATAKBggqhkjOPQQDAjA4MRowGAYDVQQDDBFJbnRlbCBT
+R1ggUm9vdCBDQTENMAsGA1UECgwEVGVzdDELMAkGA1UEBhMCVVMwIBcNMjYxMDE5
+MTg0NTU0WhgPMjEyNjA5MjUxODQ1NTRaMDgxGjAYBgNVBAMMEUludGVsIFNHWCBS
+b290IENBMQ0wCwYDVQQKDARUZXN0MQswCQYDVQQGEwJVUzBZMBMGByqGSM49AgEG
+CCqGSM49AwEHA0IABIqxgwYzzAYm99NI8KvJ0Z4+Ru64Cwzz7RiEzLGK+4obOrbg
+HSeFiuLzGbWs+44aE8FLjweFpFXXgnzz4IHFlEWjQjBAMA8GA1UdEwEB/wQFMAMB
+Af8wDgYDVR0PAQH/BAQDAgEGMB0GA1UdDgQWBBTOJI81QHDIV95CqF2GWcDL0FNc
+MDAKBggqhkjOPQQDAgNIADBFAiBQMCzWoN5IoVw54ZahJnZgZXhoLVWKGfX3jhEq
+I9TIzAIhANGH+IghplVjys8q3mX21M3o4Rt2Pbkb0/sbk5HfJQWo
+-----END CERTIFICATE-----`;
+
+// Version 4 quote from a TD with module 1.5 (TEE_TCB_SVN 05 01 02), SEPT_VE_DISABLE set,
+// MRTD 11.., RTMR0 22.., RTMR1 33.., RTMR2 44.. and REPORTDATA aa..
+export const TDX_QUOTE = [
+  'BAACAIEAAAAEAA0Ak5pyM/ecTKmUCg2zlX8GBwAAAAAAAAAAAAAAAAAAAAAAAAAABQECAAAAAAAA',
+  'AAAAAAAAAF5eXl5eXl5eXl5eXl5eXl5eXl5eXl5eXl5eXl5eXl5eXl5eXl5eXl5eXl5eXl5eXgAA',
+  'AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA',
+  'EAAAAADnGgYAAAAAABERERERERERERERERERERERERERERERERERERERERERERERERERERERERER',
+  'EREREQAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA',
+  'AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA',
+  'AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAACIiIiIiIiIiIiIiIiIiIiIiIiIiIiIi',
+  'IiIiIiIiIiIiIiIiIiIiIiIiIiIiIiIiIjMzMzMzMzMzMzMzMzMzMzMzMzMzMzMzMzMzMzMzMzMz',
+  'MzMzMzMzMzMzMzMzMzMzM0RERERERERERERERERERERERERERERERERERERERERERERERERERERE',
+  'RERERERERAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAKqq',
+  'qqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqq',
+  'qqqqqqq0DAAAGOxwVUp4lUMppSU+iZb1nmMO35ynJEXxUfdo6y05ec1d6ofrEUexGZiPE+BgrY3s',
+  '9i+1dW8CUHxggaeJA1hIr595/PdsV4n2IMEmQ55EIx4vv7k2v5RsiX5I1NLtXseXuZCU5AMgq0Zt',
+  'PfK7O1C1kQHZfvlWnrUsIAlc4lM9HNEGAC4MAAADAwICAgEAAwAAAAAAAAAAAAAAAAAAAAAAAAAA',
+  'AAAAAAAAAAAAAAAAAAAAAAAAAAARAAAAAAAAAAAAAAAAAAAAPDw8PDw8PDw8PDw8PDw8PDw8PDw8',
+  'PDw8PDw8PDw8PDwAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAANzc3Nzc3Nzc3Nzc3Nzc',
+  '3Nzc3Nzc3Nzc3Nzc3Nzc3NzcAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA',
+  'AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA',
+  'AgAEAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA',
+  'AAAAAAAAAPyD/cDZ6ffIkVpPX9R1boMnbkU3tOwIX1SIY9iJ5SwlAAAAAAAAAAAAAAAAAAAAAAAA',
+  'AAAAAAAAAAAAAAAAAAARbsPdCej+vpwFXMbJ00i07gFGRpxuNM51s4jEKCD9gKXKMUHKmL7IHxvJ',
+  '5JxhLwoopNJWaRepLGx1Mjya2JOGIAAAAQIDBAUGBwgJCgsMDQ4PEBESExQVFhcYGRobHB0eHwUA',
+  'RgoAAC0tLS0tQkVHSU4gQ0VSVElGSUNBVEUtLS0tLQpNSUlEbkRDQ0EwS2dBd0lCQWdJQ0VKSXdD',
+  'Z1lJS29aSXpqMEVBd0l3UURFaU1DQUdBMVVFQXd3WlNXNTBaV3dnClUwZFlJRkJEU3lCUWJHRjBa',
+  'bTl5YlNCRFFURU5NQXNHQTFVRUNnd0VWR1Z6ZERFTE1Ba0dBMVVFQmhNQ1ZWTXcKSUJjTk1qWXhN',
+  'REU1TVRnME56RXlXaGdQTWpFeU5qQTVNalV4T0RRM01USmFNRUF4SWpBZ0JnTlZCQU1NR1VsdQpk',
+  'R1ZzSUZOSFdDQlFRMHNnUTJWeWRHbG1hV05oZEdVeERUQUxCZ05WQkFvTUJGUmxjM1F4Q3pBSkJn',
+  'TlZCQVlUCkFsVlRNRmt3RXdZSEtvWkl6ajBDQVFZSUtvWkl6ajBEQVFjRFFnQUVnYk1rZzZnQ3Nt',
+  'bWoxbG9FdDNpNGxpRkgKdUpRUDdSNFN0K2xQQVdQZUdMZnZXZ3FMdndKdnVZVFhsSVFZS0lzcEZB',
+  'clkzdDk1QjlZaWZDZjRWdUxHcUtPQwpBaWd3Z2dJa01Bd0dBMVVkRXdFQi93UUNNQUF3RGdZRFZS',
+  'MFBBUUgvQkFRREFnYkFNQjBHQTFVZERnUVdCQlM1CnJuUEo1by8zVDZKcEk5aVRLdklqNTBURExq',
+  'QWZCZ05WSFNNRUdEQVdnQlJKTUJ4bmVVWkJSQTZseUdERm9qQ3kKaHhBVkhUQ0NBY0lHQ1NxR1NJ',
+  'YjRUUUVOQVFTQ0FiTXdnZ0d2TUI0R0NpcUdTSWI0VFFFTkFRRUVFQUFSSWpORQpWV1ozaUptcXU4',
+  'emQ3djh3Z2dGakJnb3Foa2lHK0UwQkRRRUNNSUlCVXpBUUJnc3Foa2lHK0UwQkRRRUNBUUlCCkF6',
+  'QVFCZ3NxaGtpRytFMEJEUUVDQWdJQkF6QVFCZ3NxaGtpRytFMEJEUUVDQXdJQkFqQVFCZ3NxaGtp',
+  'RytFMEIKRFFFQ0JBSUJBakFRQmdzcWhraUcrRTBCRFFFQ0JRSUJBakFRQmdzcWhraUcrRTBCRFFF',
+  'Q0JnSUJBVEFRQmdzcQpoa2lHK0UwQkRRRUNCd0lCQURBUUJnc3Foa2lHK0UwQkRRRUNDQUlCQXpB',
+  'UUJnc3Foa2lHK0UwQkRRRUNDUUlCCkFEQVFCZ3NxaGtpRytFMEJEUUVDQ2dJQkFEQVFCZ3NxaGtp',
+  'RytFMEJEUUVDQ3dJQkFEQVFCZ3NxaGtpRytFMEIKRFFFQ0RBSUJBREFRQmdzcWhraUcrRTBCRFFF',
+  'Q0RRSUJBREFRQmdzcWhraUcrRTBCRFFFQ0RnSUJBREFRQmdzcQpoa2lHK0UwQkRRRUNEd0lCQURB',
+  'UUJnc3Foa2lHK0UwQkRRRUNFQUlCQURBUUJnc3Foa2lHK0UwQkRRRUNFUUlCCkRUQWZCZ3NxaGtp',
+  'RytFMEJEUUVDRWdRUUF3TUNBZ0lCQUFNQUFBQUFBQUFBQURBUUJnb3Foa2lHK0UwQkRRRUQKQkFJ',
+  'QUFEQVVCZ29xaGtpRytFMEJEUUVFQkFZQWdHOEZBQUF3Q2dZSUtvWkl6ajBFQXdJRFNBQXdSUUln',
+  'TUhaeAorWm9QdjY2T2ZDdG1oeDhxYXU0VEZwUkNxaTdpcVZMbXlkN0N5WnNDSVFDSmdnUE5yMTBF',
+  'aFJtT01rS1F2UkU3CkVDUnhRWkN2VnRMYWMwMUZTZjM3Umc9PQotLS0tLUVORCBDRVJUSUZJQ0FU',
+  'RS0tLS0tCi0tLS0tQkVHSU4gQ0VSVElGSUNBVEUtLS0tLQpNSUlCenpDQ0FYYWdBd0lCQWdJQ1p2',
+  'QXdDZ1lJS29aSXpqMEVBd0l3T0RFYU1CZ0dBMVVFQXd3UlNXNTBaV3dnClUwZFlJRkp2YjNRZ1Ew',
+  'RXhEVEFMQmdOVkJBb01CRlJsYzNReEN6QUpCZ05WQkFZVEFsVlRNQ0FYRFRJMk1UQXgKT1RFNE5E',
+  'VTFORm9ZRHpJeE1qWXdPVEkxTVRnME5UVTBXakJBTVNJd0lBWURWUVFEREJsSmJuUmxiQ0JUUjFn',
+  'ZwpVRU5MSUZCc1lYUm1iM0p0SUVOQk1RMHdDd1lEVlFRS0RBUlVaWE4wTVFzd0NRWURWUVFHRXdK',
+  'VlV6QlpNQk1HCkJ5cUdTTTQ5QWdFR0NDcUdTTTQ5QXdFSEEwSUFCSzl0alpkdjRGbUwyOEZyK3V5',
+  'Z2p3Vkh1bTlyczU5clcvVXYKU2ZZMmlvbGRkRnZyZU81ellTMTdnUzUydjFTcWVpUzZ4LzhwQStV',
+  'bkVxbjBIQnhOd0g2alpqQmtNQklHQTFVZApFd0VCL3dRSU1BWUJBZjhDQVFBd0RnWURWUjBQQVFI',
+  'L0JBUURBZ0VHTUIwR0ExVWREZ1FXQkJSSk1CeG5lVVpCClJBNmx5R0RGb2pDeWh4QVZIVEFmQmdO',
+  'VkhTTUVHREFXZ0JUT0pJODFRSERJVjk1Q3FGMkdXY0RMMEZOY01EQUsKQmdncWhrak9QUVFEQWdO',
+  'SEFEQkVBaUEvMDg2aDVMcnJ6ZWZQdk00MzcwMCt1bHNmZkx2bjFiYWlNR2JvNVVEZQoxUUlnUGJC',
+  'emxmSEhaemVIRHNEVFArNFduNXVLRlVEU2ZwdzZ5WjFyRjN1cGxkWT0KLS0tLS1FTkQgQ0VSVElG',
+  'SUNBVEUtLS0tLQotLS0tLUJFR0lOIENFUlRJRklDQVRFLS0tLS0KTUlJQm96Q0NBVW1nQXdJQkFn',
+  'SUJBVEFLQmdncWhrak9QUVFEQWpBNE1Sb3dHQVlEVlFRRERCRkpiblJsYkNCVApSMWdnVW05dmRD',
+  'QkRRVEVOTUFzR0ExVUVDZ3dFVkdWemRERUxNQWtHQTFVRUJoTUNWVk13SUJjTk1qWXhNREU1Ck1U',
+  'ZzBOVFUwV2hnUE1qRXlOakE1TWpVeE9EUTFOVFJhTURneEdqQVlCZ05WQkFNTUVVbHVkR1ZzSUZO',
+  'SFdDQlMKYjI5MElFTkJNUTB3Q3dZRFZRUUtEQVJVWlhOME1Rc3dDUVlEVlFRR0V3SlZVekJaTUJN',
+  'R0J5cUdTTTQ5QWdFRwpDQ3FHU000OUF3RUhBMElBQklxeGd3WXp6QVltOTlOSThLdkowWjQrUnU2',
+  'NEN3eno3UmlFekxHSys0b2JPcmJnCkhTZUZpdUx6R2JXcys0NGFFOEZMandlRnBGWFhnbnp6NElI',
+  'RmxFV2pRakJBTUE4R0ExVWRFd0VCL3dRRk1BTUIKQWY4d0RnWURWUjBQQVFIL0JBUURBZ0VHTUIw',
+  'R0ExVWREZ1FXQkJUT0pJODFRSERJVjk1Q3FGMkdXY0RMMEZOYwpNREFLQmdncWhrak9QUVFEQWdO',
+  'SUFEQkZBaUJRTUN6V29ONUlvVnc1NFphaEpuWmdaWGhvTFZXS0dmWDNqaEVxCkk5VEl6QUloQU5H',
+  'SCtJZ2hwbFZqeXM4cTNtWDIxTTNvNFJ0MlBia2IwL3NiazVIZkpRV28KLS0tLS1FTkQgQ0VSVElG',
+  'SUNBVEUtLS0tLQoA',
+].join('');
+
+// TCB info and QE identity for the quote's FMSPC, current on TDX_FIXTURE_DATE
+export const TDX_COLLATERAL: TdxCollateral = {
+  tcbInfoJson: '{"id":"TDX","version":3,"issueDate":"2026-10-20T00:00:00Z","nextUpdate":"2026-11-19T00:00:00Z","fmspc":"00806F050000","pceId":"0000","tcbType":0,"tcbEvaluationDataNumber":17,"tdxModule":{"mrsigner":"000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000","attributes":"0000000000000000","attributesMask":"FFFFFFFFFFFFFFFF"},"tdxModuleIdentities":[{"id":"TDX_01","mrsigner":"000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000","attributes":"0000000000000000","attributesMask":"FFFFFFFFFFFFFFFF","tcbLevels":[{"tcb":{"isvsvn":4},"tcbDate":"2026-08-13T00:00:00Z","tcbStatus":"UpToDate"},{"tcb":{"isvsvn":2},"tcbDate":"2025-02-12T00:00:00Z","tcbStatus":"OutOfDate"}]}],"tcbLevels":[{"tcb":{"sgxtcbcomponents":[{"svn":3},{"svn":3},{"svn":2},{"svn":2},{"svn":2},{"svn":1},{"svn":0},{"svn":3},{"svn":0},{"svn":0},{"svn":0},{"svn":0},{"svn":0},{"svn":0},{"svn":0},{"svn":0}],"pcesvn":13,"tdxtcbcomponents":[{"svn":5},{"svn":1},{"svn":2},{"svn":0},{"svn":0},{"svn":0},{"svn":0},{"svn":0},{"svn":0},{"svn":0},{"svn":0},{"svn":0},{"svn":0},{"svn":0},{"svn":0},{"svn":0}]},"tcbDate":"2026-08-13T00:00:00Z","tcbStatus":"UpToDate"},{"tcb":{"sgxtcbcomponents":[{"svn":0},{"svn":0},{"svn":0},{"svn":0},{"svn":0},{"svn":0},{"svn":0},{"svn":0},{"svn":0},{"svn":0},{"svn":0},{"svn":0},{"svn":0},{"svn":0},{"svn":0},{"svn":0}],"pcesvn":11,"tdxtcbcomponents":[{"svn":2},{"svn":1},{"svn":0},{"svn":0},{"svn":0},{"svn":0},{"svn":0},{"svn":0},{"svn":0},{"svn":0},{"svn":0},{"svn":0},{"svn":0},{"svn":0},{"svn":0},{"svn":0}]},"tcbDate":"2025-02-12T00:00:00Z","tcbStatus":"OutOfDate"}]}',
+  tcbInfoSignature: '05238f3053d9919707c453d108d34a9d23b1941168f3ad900e60f73545f82aa188fad5ad88a6338741d89c4906b7443475433c5e8f869b27f475cd80b7a5e323',
+  tcbInfoIssuerChain: `-----BEGIN CERTIFICATE-----
+MIIBxzCCAWygAwIBAgICBVswCgYIKoZIzj0EAwIwODEaMBgGA1UEAwwRSW50ZWwg
+U0dYIFJvb3QgQ0ExDTALBgNVBAoMBFRlc3QxCzAJBgNVBAYTAlVTMCAXDTI2MTAx
+OTE4NDU1NFoYDzIxMjYwOTI1MTg0NTU0WjA8MR4wHAYDVQQDDBVJbnRlbCBTR1gg
+VENCIFNpZ25pbmcxDTALBgNVBAoMBFRlc3QxCzAJBgNVBAYTAlVTMFkwEwYHKoZI
+zj0CAQYIKoZIzj0DAQcDQgAEs1O6KvMKLTpqyflFTQFJ4B9XnxiL/41Azoa89hlz
+BMZRn2PEjmPbXhsYUSWrbZgDFmZWTCzvbuFcmPDF3WjryqNgMF4wDAYDVR0TAQH/
+BAIwADAOBgNVHQ8BAf8EBAMCBsAwHQYDVR0OBBYEFDV5upkhyY0jzzvjWEdAfj17
+sI9UMB8GA1UdIwQYMBaAFM4kjzVAcMhX3kKoXYZZwMvQU1wwMAoGCCqGSM49BAMC
+A0kAMEYCIQDiPK3iuWgv52lo+v3Har8coNslkhMvmiwh54w+XPUFlwIhAJLm2Ncy
+CHoK+0IGN3y2WsMevc0jYO3fgsSBLYmRgZ+/
+-----END CERTIFICATE-----
+-----BEGIN CERTIFICATE-----
+MIIBozCCAUmgAwIBAgIBATAKBggqhkjOPQQDAjA4MRowGAYDVQQDDBFJbnRlbCBT
+R1ggUm9vdCBDQTENMAsGA1UECgwEVGVzdDELMAkGA1UEBhMCVVMwIBcNMjYxMDE5
+MTg0NTU0WhgPMjEyNjA5MjUxODQ1NTRaMDgxGjAYBgNVBAMMEUludGVsIFNHWCBS
+b290IENBMQ0wCwYDVQQKDARUZXN0MQswCQYDVQQGEwJVUzBZMBMGByqGSM49AgEG
+CCqGSM49AwEHA0IABIqxgwYzzAYm99NI8KvJ0Z4+Ru64Cwzz7RiEzLGK+4obOrbg
+HSeFiuLzGbWs+44aE8FLjweFpFXXgnzz4IHFlEWjQjBAMA8GA1UdEwEB/wQFMAMB
+Af8wDgYDVR0PAQH/BAQDAgEGMB0GA1UdDgQWBBTOJI81QHDIV95CqF2GWcDL0FNc
+MDAKBggqhkjOPQQDAgNIADBFAiBQMCzWoN5IoVw54ZahJnZgZXhoLVWKGfX3jhEq
+I9TIzAIhANGH+IghplVjys8q3mX21M3o4Rt2Pbkb0/sbk5HfJQWo
+-----END CERTIFICATE-----
+`,
+  qeIdentityJson: '{"id":"TD_QE","version":2,"issueDate":"2026-10-20T00:00:00Z","nextUpdate":"2026-11-19T00:00:00Z","tcbEvaluationDataNumber":17,"miscselect":"00000000","miscselectMask":"FFFFFFFF","attributes":"11000000000000000000000000000000","attributesMask":"FBFFFFFFFFFFFFFF0000000000000000","mrsigner":"DCDCDCDCDCDCDCDCDCDCDCDCDCDCDCDCDCDCDCDCDCDCDCDCDCDCDCDCDCDCDCDC","isvprodid":2,"tcbLevels":[{"tcb":{"isvsvn":4},"tcbDate":"2026-08-13T00:00:00Z","tcbStatus":"UpToDate"},{"tcb":{"isvsvn":0},"tcbDate":"2023-02-15T00:00:00Z","tcbStatus":"OutOfDate"}]}',
+  qeIdentitySignature: '74e19b4f78657a82070316897770674c91e6e9e526873d1d5f07a0dc3382a097ad045dc76e7b0f5d93aa70ce07f2fc5d5ce9cada82c4d54e15cdd38d2fb0c6a0',
+  qeIdentityIssuerChain: `-----BEGIN CERTIFICATE-----
+MIIBxzCCAWygAwIBAgICBVswCgYIKoZIzj0EAwIwODEaMBgGA1UEAwwRSW50ZWwg
+U0dYIFJvb3QgQ0ExDTALBgNVBAoMBFRlc3QxCzAJBgNVBAYTAlVTMCAXDTI2MTAx
+OTE4NDU1NFoYDzIxMjYwOTI1MTg0NTU0WjA8MR4wHAYDVQQDDBVJbnRlbCBTR1gg
+VENCIFNpZ25pbmcxDTALBgNVBAoMBFRlc3QxCzAJBgNVBAYTAlVTMFkwEwYHKoZI
+zj0CAQYIKoZIzj0DAQcDQgAEs1O6KvMKLTpqyflFTQFJ4B9XnxiL/41Azoa89hlz
+BMZRn2PEjmPbXhsYUSWrbZgDFmZWTCzvbuFcmPDF3WjryqNgMF4wDAYDVR0TAQH/
+BAIwADAOBgNVHQ8BAf8EBAMCBsAwHQYDVR0OBBYEFDV5upkhyY0jzzvjWEdAfj17
+sI9UMB8GA1UdIwQYMBaAFM4kjzVAcMhX3kKoXYZZwMvQU1wwMAoGCCqGSM49BAMC
+A0kAMEYCIQDiPK3iuWgv52lo+v3Har8coNslkhMvmiwh54w+XPUFlwIhAJLm2Ncy
+CHoK+0IGN3y2WsMevc0jYO3fgsSBLYmRgZ+/
+-----END CERTIFICATE-----
+-----BEGIN CERTIFICATE-----
+MIIBozCCAUmgAwIBAgIBATAKBggqhkjOPQQDAjA4MRowGAYDVQQDDBFJbnRlbCBT
+R1ggUm9vdCBDQTENMAsGA1UECgwEVGVzdDELMAkGA1UEBhMCVVMwIBcNMjYxMDE5
+MTg0NTU0WhgPMjEyNjA5MjUxODQ1NTRaMDgxGjAYBgNVBAMMEUludGVsIFNHWCBS
+b290IENBMQ0wCwYDVQQKDARUZXN0MQswCQYDVQQGEwJVUzBZMBMGByqGSM49AgEG
+CCqGSM49AwEHA0IABIqxgwYzzAYm99NI8KvJ0Z4+Ru64Cwzz7RiEzLGK+4obOrbg
+HSeFiuLzGbWs+44aE8FLjweFpFXXgnzz4IHFlEWjQjBAMA8GA1UdEwEB/wQFMAMB
+Af8wDgYDVR0PAQH/BAQDAgEGMB0GA1UdDgQWBBTOJI81QHDIV95CqF2GWcDL0FNc
+MDAKBggqhkjOPQQDAgNIADBFAiBQMCzWoN5IoVw54ZahJnZgZXhoLVWKGfX3jhEq
+I9TIzAIhANGH+IghplVjys8q3mX21M3o4Rt2Pbkb0/sbk5HfJQWo
+-----END CERTIFICATE-----
+`,
+};
+
+export const TDX_FIXTURE_DATE = new Date('2026-10-25T00:00:00Z');
@@ -0,0 +1,105 @@
+// Test chain standing in for AMD's: an ARK-Genoa, an ASVK (SEV-VLEK-Genoa) it signs and
+// VLEKs the ASVK signs with BL_SPL 7, TEE_SPL 0, SNP_SPL 14 and UCODE 72. All are valid
+// from 2026-10-19 for a hundred years.
+
+export const VLEK_TEST_ARK = `-----BEGIN CERTIFICATE-----
+MIIEGjCCAs6gAwIBAgIBATBBBgkqhkiG9w0BAQowNKAPMA0GCWCGSAFlAwQCAgUA
+oRwwGgYJKoZIhvcNAQEIMA0GCWCGSAFlAwQCAgUAogMCATAwezELMAkGA1UEBhMC
+VVMxFDASBgNVBAcMC1NhbnRhIENsYXJhMQswCQYDVQQIDAJDQTEfMB0GA1UECgwW
+QWR2YW5jZWQgTWljcm8gRGV2aWNlczEUMBIGA1UECwwLRW5naW5lZXJpbmcxEjAQ
+BgNVBAMMCUFSSy1HZW5vYTAgFw0yNjEwMTkxODU2MjdaGA8yMTI2MDkyNTE4NTYy
+N1owezELMAkGA1UEBhMCVVMxFDASBgNVBAcMC1NhbnRhIENsYXJhMQswCQYDVQQI
+DAJDQTEfMB0GA1UECgwWQWR2YW5jZWQgTWljcm8gRGV2aWNlczEUMBIGA1UECwwL
+RW5naW5lZXJpbmcxEjAQBgNVBAMMCUFSSy1HZW5vYTCCASIwDQYJKoZIhvcNAQEB
+BQADggEPADCCAQoCggEBALiMjSUTH8Mn8VpL+fIZVulTv5gNI8cNNMXuDE3KAKmL
+ksX+WXtlon6T/9kxar7p7OuJOWJyfdBPrkcbpXcrPujmekx8ye6ppqe1gciARshJ
+jLIzma9pzKdHdlWYWe8+MW0GxCmDxpzxMwxycFJnXYvqd5eucK7nPFjQ+MxKRJZ4
+C+OpCunj00Si6zyzfT/NgnWI2BavckiFKVLfvLydkFJc6xTl9YwRhwAVzA/PJcX8
+V4t4CnGe2agSgDbkOS+D88EQ1rZWv8rm6gR1ma7ror52c5r+TY3nCR2tvDuVAbUv
+ZD/cgn80jxxAITue8IjpIxOg2F1+Dj94nVF7jG1VwJECAwEAAaM/MD0wDwYDVR0T
+AQH/BAUwAwEB/zALBgNVHQ8EBAMCAQYwHQYDVR0OBBYEFPR978utGSTr0Z0wunrj
+A77HFKQkMEEGCSqGSIb3DQEBCjA0oA8wDQYJYIZIAWUDBAICBQChHDAaBgkqhkiG
+9w0BAQgwDQYJYIZIAWUDBAICBQCiAwIBMAOCAQEAVgXmxl44fGYFeBgXbF59B4UO
+Q6r6lkh8YImm6cqHy6rqx2rLvKxHnMas+8BWTqZn71GJfYyVdvK1toulYQSux7Qb
+VJdioMKDnHxTreztzYwSq01HSoDDFtlOESRgIJuBTwQ2w2W4/gtnXBUwN9HidBT0
+lSdfWv2h3ZupmF8rbNFn++nKthjFP9E7QC6zNaGDTMt/sX7J3k62An4GJ/MMT0q5
+l7GDlsi6PU9iOhdOAltDPK+k1ry8aN3Pdq021KMJ/eh2geCsVK/M9nsb1bSIecFl
+NJTJoKMzkGL8Cxku/LLN4cSz8s3dJh6idfisx2/ySAbMuqeLP2PGb3T3RtFAeA==
+-----END CERTIFICATE-----`;
+
+export const VLEK_TEST_ASVK = `-----BEGIN CERTIFICATE-----
+MIIEQTCCAvWgAwIBAgIBAjBBBgkqhkiG9w0BAQowNKAPMA0GCWCGSAFlAwQCAgUA
+oRwwGgYJKoZIhvcNAQEIMA0GCWCGSAFlAwQCAgUAogMCATAwezELMAkGA1UEBhMC
+VVMxFDASBgNVBAcMC1NhbnRhIENsYXJhMQswCQYDVQQIDAJDQTEfMB0GA1UECgwW
+QWR2YW5jZWQgTWljcm8gRGV2aWNlczEUMBIGA1UECwwLRW5naW5lZXJpbmcxEjAQ
+BgNVBAMMCUFSSy1HZW5vYTAgFw0yNjEwMTkxODU2MjdaGA8yMTI2MDkyNTE4NTYy
+N1owgYAxCzAJBgNVBAYTAlVTMRQwEgYDVQQHDAtTYW50YSBDbGFyYTELMAkGA1UE
+CAwCQ0ExHzAdBgNVBAoMFkFkdmFuY2VkIE1pY3JvIERldmljZXMxFDASBgNVBAsM
+C0VuZ2luZWVyaW5nMRcwFQYDVQQDDA5TRVYtVkxFSy1HZW5vYTCCASIwDQYJKoZI
+hvcNAQEBBQADggEPADCCAQoCggEBAOyXPkrGWWKymB4RGyiy+n2tlY4Lz5OlAJuT
+af/JvDAOEE2il61sthTiDNk9q8Mwl8dqk67sK9xKjSg4Xbq+WpLzuc+TfPshBxJw
+fcHHlo1rKJ5A8X9IXPlaX2jayRNGAVSmSagUoRXwXTnup/DcPDH4kNI89Wm9LBjv
+3TQitbBXpn/BKaSEXUyaGztXtBVgdOUrk3dzPwb93PjUqxeRp9UQ1u0Lgwr0rlAc
+FjQFDDxEJR8X7fGWQieVjolvHWVWEjeBhsJ3YFisXG4Mmn8md9IQlZVjPvPWi0DY
+2fsrnUaSoKCga9AtZnmXij00yz4FuILYqUbumRrcLzJuUL5RLMECAwEAAaNgMF4w
+DwYDVR0TAQH/BAUwAwEB/zALBgNVHQ8EBAMCAQYwHQYDVR0OBBYEFICgRGuyH69p
+0TLtoeis4NYoiiKyMB8GA1UdIwQYMBaAFPR978utGSTr0Z0wunrjA77HFKQkMEEG
+CSqGSIb3DQEBCjA0oA8wDQYJYIZIAWUDBAICBQChHDAaBgkqhkiG9w0BAQgwDQYJ
+YIZIAWUDBAICBQCiAwIBMAOCAQEAWoBd3MsUUnnJou5GsGq5IzKPjlWjHk+45pew
+AfXkVYRpgzjUyvtziNxIIlS7Rvm+0zBk3Ub3x7AlAx7EOMd2ApVEYiZWYTljR8Wb
+pAQVcuZY29OErqQMi6i+40UWp8b9xhyz9m/nvUKivkGSMHOG2I4DdnrZnIaeRJao
+WfvFS7FEIqXBC2FO84gpHvvjWkrAie9pzDoOz1GFvXAoK7zalR+6LLw2zhrqTwo2
+PWz+gwykK4eJqvPpxyAJsf1YbeBwtifx7OmgKWn8xda5YBwg4fWPgkSxPLT/7XaE
+cfNaKGrAu5rPbRk3gODArqgRrRZD79WgJqKmGQnc31ialf+boA==
+-----END CERTIFICATE-----`;
+
+// CSP_ID Tinfoil
+export const VLEK_TEST_VLEK = `-----BEGIN CERTIFICATE-----
+MIIEAjCCAragAwIBAgIBAzBBBgkqhkiG9w0BAQowNKAPMA0GCWCGSAFlAwQCAgUA
+oRwwGgYJKoZIhvcNAQEIMA0GCWCGSAFlAwQCAgUAogMCATAwgYAxCzAJBgNVBAYT
+AlVTMRQwEgYDVQQHDAtTYW50YSBDbGFyYTELMAkGA1UECAwCQ0ExHzAdBgNVBAoM
+FkFkdmFuY2VkIE1pY3JvIERldmljZXMxFDASBgNVBAsMC0VuZ2luZWVyaW5nMRcw
+FQYDVQQDDA5TRVYtVkxFSy1HZW5vYTAgFw0yNjEwMTkxODU2MjdaGA8yMTI2MDky
+NTE4NTYyN1owejELMAkGA1UEBhMCVVMxFDASBgNVBAcMC1NhbnRhIENsYXJhMQsw
+CQYDVQQIDAJDQTEfMB0GA1UECgwWQWR2YW5jZWQgTWljcm8gRGV2aWNlczEUMBIG
+A1UECwwLRW5naW5lZXJpbmcxETAPBgNVBAMMCFNFVi1WTEVLMHYwEAYHKoZIzj0C
+AQYFK4EEACIDYgAEcQOP2sYsz3vvpmZJ7ix/LK4qWknQBdt0mtGD+ufA8qoQTZgd
+NSOCPV1dYm33a4DNrJUXt2Gzp1pSjh5om+N5mS/YV8vvk44U/jPTETY19AOJZB5l
++bO+lJ5n6tgr16dvo4HPMIHMMBAGCSsGAQQBnHgBAQQDAgEBMBQGCSsGAQQBnHgB
+AgQHFgVHZW5vYTARBgorBgEEAZx4AQMBBAMCAQcwEQYKKwYBBAGceAEDAgQDAgEA
+MBEGCisGAQQBnHgBAwMEAwIBDjARBgorBgEEAZx4AQMIBAMCAUgwFgYJKwYBBAGc
+eAEFBAkMB1RpbmZvaWwwHQYDVR0OBBYEFABFx/UhBf2urY3+50FFL+xoVLGJMB8G
+A1UdIwQYMBaAFICgRGuyH69p0TLtoeis4NYoiiKyMEEGCSqGSIb3DQEBCjA0oA8w
+DQYJYIZIAWUDBAICBQChHDAaBgkqhkiG9w0BAQgwDQYJYIZIAWUDBAICBQCiAwIB
+MAOCAQEAAcgFoNi7QCOrUOdycnlDTZDQSconzT2WAbYLky0Lh2X3I2zK/vrYgNjJ
+aHI8szsM17o8bZG5hhe7dsIU3fNb/3QjQVV31gihdkpjARuB/Yqq+fDsh3S6L01V
+Vt65jx3Nzq7lxVCpehiEpzyl/jWyiLoREfLSIxToWXGGf9m5e+vLWr6ulGsTg9Jz
++VAlEFHwWGAeejuTz9ZZ+zF9lc51/3/yF2pE99ICOMs8pKUkC262bVYLXQwSO3Y8
+hbiFWeP57Vg66sDJaa3uAwgoDffT+TnoiQAXpADvnFj+oGqj4+YUC79MJNCwgGi6
+J2s7JK9Du4gUm4zaKrU0NLxZSdiOfg==
+-----END CERTIFICATE-----`;
+
+// Same key and SPLs, without the CSP_ID extension
+export const VLEK_TEST_VLEK_NO_CSP_ID = `-----BEGIN CERTIFICATE-----
+MIID6jCCAp6gAwIBAgIBBDBBBgkqhkiG9w0BAQowNKAPMA0GCWCGSAFlAwQCAgUA
+oRwwGgYJKoZIhvcNAQEIMA0GCWCGSAFlAwQCAgUAogMCATAwgYAxCzAJBgNVBAYT
+AlVTMRQwEgYDVQQHDAtTYW50YSBDbGFyYTELMAkGA1UECAwCQ0ExHzAdBgNVBAoM
+FkFkdmFuY2VkIE1pY3JvIERldmljZXMxFDASBgNVBAsMC0VuZ2luZWVyaW5nMRcw
+FQYDVQQDDA5TRVYtVkxFSy1HZW5vYTAgFw0yNjEwMTkxODU2MjdaGA8yMTI2MDky
+NTE4NTYyN1owejELMAkGA1UEBhMCVVMxFDASBgNVBAcMC1NhbnRhIENsYXJhMQsw
+CQYDVQQIDAJDQTEfMB0GA1UECgwWQWR2YW5jZWQgTWljcm8gRGV2aWNlczEUMBIG
+A1UECwwLRW5naW5lZXJpbmcxETAPBgNVBAMMCFNFVi1WTEVLMHYwEAYHKoZIzj0C
+AQYFK4EEACIDYgAEcQOP2sYsz3vvpmZJ7ix/LK4qWknQBdt0mtGD+ufA8qoQTZgd
+NSOCPV1dYm33a4DNrJUXt2Gzp1pSjh5om+N5mS/YV8vvk44U/jPTETY19AOJZB5l
++bO+lJ5n6tgr16dvo4G3MIG0MBAGCSsGAQQBnHgBAQQDAgEBMBQGCSsGAQQBnHgB
+AgQHFgVHZW5vYTARBgorBgEEAZx4AQMBBAMCAQcwEQYKKwYBBAGceAEDAgQDAgEA
+MBEGCisGAQQBnHgBAwMEAwIBDjARBgorBgEEAZx4AQMIBAMCAUgwHQYDVR0OBBYE
+FABFx/UhBf2urY3+50FFL+xoVLGJMB8GA1UdIwQYMBaAFICgRGuyH69p0TLtoeis
+4NYoiiKyMEEGCSqGSIb3DQEBCjA0oA8wDQYJYIZIAWUDBAICBQChHDAaBgkqhkiG
+9w0BAQgwDQYJYIZIAWUDBAICBQCiAwIBMAOCAQEASuwpgqktUQIdHVQeDMXuxJYV
+QVy2eSAug3iiA7bNapae3NTlDDFZYQqvHPMrIksiOFL3Rga1HDAdi14+e8w/VWC1
+YE1PfhTYXg56xS8jhMqN8Ldic9DT5ubRa+HRLV65sKDWMF1sPlVmj68wmbSRYgb0
+CNHarpec87BX3jY+Q44JAWIZ652CTs/68gHYUtfdtt8Kszn36fZaSQ4I5Rjwr6P7
+swWL7rnfjMLwr6WfmGTPPtM4XjkthRUV3o6wHQzcFDv1djt0Fj4qwRFwUTsfT3g6
+B9pVYOcIiOMBL5+DItbKzbbtzMMToT6XeolkcHQ8hb67fQbUrnMNn7jRuiDQ5w==
+-----END CERTIFICATE-----`;
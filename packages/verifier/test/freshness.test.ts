@@ -0,0 +1,150 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { createServer } from 'node:http';
+import type { Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { gzipSync, gunzipSync } from 'node:zlib';
+import { fetchAttestation, verifyAttestation } from '../src/attestation.js';
+import { generateNonce, challengeReportData, attestedKeys, NONCE_SIZE } from '../src/freshness.js';
+import { Report } from '../src/sev/report.js';
+import { PredicateType, verifiedDocument } from '../src/types.js';
+import { ReportValidationError } from '../src/errors.js';
+import { sampleReportBytes } from './fixtures/sev.js';
+
+const TLS_KEY = '1'.repeat(64);
+const HPKE_KEY = '2'.repeat(64);
+
+function reportWithData(reportData: Uint8Array): Uint8Array {
+  const bytes = sampleReportBytes();
+  bytes.set(reportData, 0x50);
+  return bytes;
+}
+
+/**
+ * Stand-in for an enclave: answers challenges with a report binding the
+ * nonce to its keys, and serves a static report otherwise.
+ */
+async function enclaveHandler(url: URL): Promise<Record<string, string>> {
+  const nonce = url.searchParams.get('nonce');
+  if (nonce === null) {
+    const keys = Buffer.from(TLS_KEY + HPKE_KEY, 'hex');
+    return { format: PredicateType.SevGuestV2, body: gzipSync(reportWithData(keys)).toString('base64') };
+  }
+  const reportData = await challengeReportData(nonce, TLS_KEY, HPKE_KEY);
+  return {
+    format: PredicateType.SevGuestV2,
+    body: gzipSync(reportWithData(reportData)).toString('base64'),
+    nonce,
+    tls_public_key_fingerprint: TLS_KEY,
+    hpke_public_key: HPKE_KEY,
+  };
+}
+
+let server: Server;
+let host: string;
+
+// The verifier always uses https; route its requests to the plain HTTP stand-in
+const localFetch = ((input: RequestInfo | URL, init?: RequestInit) =>
+  fetch(input.toString().replace(/^https:/, 'http:'), init)) as typeof fetch;
+
+function reportData(doc: { body: string }): Uint8Array {
+  return new Report(gunzipSync(Buffer.from(doc.body, 'base64'))).reportData;
+}
+
+describe('attestation challenges', () => {
+  beforeAll(async () => {
+    server = createServer(async (req, res) => {
+      const body = await enclaveHandler(new URL(req.url!, 'http://localhost'));
+      res.setHeader('content-type', 'application/json');
+      res.end(JSON.stringify(body));
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    host = `127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('generates random nonces', () => {
+    const nonce = generateNonce();
+    expect(nonce).toMatch(new RegExp(`^[0-9a-f]{${NONCE_SIZE * 2}}$`));
+    expect(generateNonce()).not.toBe(nonce);
+  });
+
+  it('proves freshness when the report binds the nonce', async () => {
+    const nonce = generateNonce();
+    const doc = await fetchAttestation(host, { fetch: localFetch }, nonce);
+
+    expect(doc).toMatchObject({ nonce, tlsPublicKeyFingerprint: TLS_KEY, hpkePublicKey: HPKE_KEY });
+    expect(await attestedKeys(reportData(doc), doc, nonce)).toEqual({
+      tlsPublicKeyFingerprint: TLS_KEY,
+      hpkePublicKey: HPKE_KEY,
+      freshnessProven: true,
+    });
+  });
+
+  it('reads the keys of static reports without proving freshness', async () => {
+    const doc = await fetchAttestation(host, { fetch: localFetch });
+
+    expect(doc.nonce).toBeUndefined();
+    expect(await attestedKeys(reportData(doc), doc)).toEqual({
+      tlsPublicKeyFingerprint: TLS_KEY,
+      hpkePublicKey: HPKE_KEY,
+      freshnessProven: false,
+    });
+  });
+
+  it('checks the binding of recorded challenges without claiming freshness', async () => {
+    const doc = await fetchAttestation(host, { fetch: localFetch }, generateNonce());
+
+    expect((await attestedKeys(reportData(doc), doc)).freshnessProven).toBe(false);
+  });
+
+  it('rejects replayed and unanswered challenges', async () => {
+    const nonce = generateNonce();
+    const replayed = await fetchAttestation(host, { fetch: localFetch }, generateNonce());
+    const unanswered = await fetchAttestation(host, { fetch: localFetch });
+
+    await expect(attestedKeys(reportData(replayed), replayed, nonce))
+      .rejects.toThrow('Attestation answers a different challenge nonce');
+    await expect(attestedKeys(reportData(unanswered), unanswered, nonce))
+      .rejects.toThrow('Enclave did not answer the attestation challenge');
+  });
+
+  it('rejects keys that are not the ones bound in the report', async () => {
+    const nonce = generateNonce();
+    const doc = await fetchAttestation(host, { fetch: localFetch }, nonce);
+    const swapped = { ...doc, hpkePublicKey: '3'.repeat(64) };
+
+    const error = await attestedKeys(reportData(doc), swapped, nonce).catch(e => e);
+    expect(error).toBeInstanceOf(ReportValidationError);
+    expect(error.message).toBe('Report data does not bind the challenge nonce and keys');
+  });
+
+  it('refuses challenges for TDX attestations', async () => {
+    await expect(verifyAttestation({ format: PredicateType.TdxGuestV2, body: '' }, { nonce: generateNonce() }))
+      .rejects.toThrow('Attestation challenges are only supported for SEV-SNP');
+  });
+
+  it('records freshness in the verification document', async () => {
+    const measurement = { type: PredicateType.SevGuestV2, registers: ['aa'] };
+    const fields = {
+      configRepo: 'org/repo',
+      enclaveHost: host,
+      selectedRouterEndpoint: host,
+      releaseDigest: 'c'.repeat(64),
+      steps: {
+        fetchDigest: { status: 'success' as const },
+        verifyCode: { status: 'success' as const },
+        verifyEnclave: { status: 'success' as const },
+        compareMeasurements: { status: 'success' as const },
+      },
+    };
+
+    const fresh = await verifiedDocument(fields, measurement, { measurement, freshnessProven: true });
+    const stale = await verifiedDocument(fields, measurement, { measurement });
+
+    expect(fresh.freshnessProven).toBe(true);
+    expect(stale.freshnessProven).toBe(false);
+  });
+});
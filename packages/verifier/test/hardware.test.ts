@@ -0,0 +1,107 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { PredicateType } from '../src/types.js';
+import { MeasurementMismatchError } from '../src/errors.js';
+
+const verifyCodeMock = vi.fn();
+const verifyHardwareMock = vi.fn();
+
+const rtmr1 = '33'.repeat(48);
+const rtmr2 = '44'.repeat(48);
+const TDX_ENCLAVE = {
+  measurement: {
+    type: PredicateType.TdxGuestV2,
+    registers: ['11'.repeat(48), '22'.repeat(48), rtmr1, rtmr2, '00'.repeat(48)],
+  },
+  tlsPublicKeyFingerprint: 'aa'.repeat(32),
+  hpkePublicKey: 'bb'.repeat(32),
+};
+
+vi.mock('../src/attestation.js', () => ({
+  fetchAttestation: async () => ({ format: PredicateType.TdxGuestV2, body: '' }),
+  verifyAttestationWithEvidence: async () => ({ response: TDX_ENCLAVE, evidence: {} }),
+}));
+
+vi.mock('../src/sigstore.js', () => ({
+  verifyAttestation: (...args: unknown[]) => verifyCodeMock(...args),
+  verifyHardwareMeasurements: (...args: unknown[]) => verifyHardwareMock(...args),
+}));
+
+const { Verifier } = await import('../src/client.js');
+const { HARDWARE_MEASUREMENTS_REPO } = await import('../src/hardware.js');
+
+const CODE_DIGEST = 'c'.repeat(64);
+const HARDWARE_DIGEST = 'd'.repeat(64);
+
+// Serves the latest release and attestation bundle of the config and hardware measurement repos
+function githubFetch() {
+  const urls: string[] = [];
+  const fetchFn = (async (input: RequestInfo | URL) => {
+    const url = input.toString();
+    urls.push(url);
+    if (url.endsWith(`/repos/${HARDWARE_MEASUREMENTS_REPO}/releases/latest`)) {
+      return Response.json({ tag_name: 'v0.0.5', body: `Digest: \`${HARDWARE_DIGEST}\`` });
+    }
+    if (url.endsWith('/releases/latest')) {
+      return Response.json({ tag_name: 'v1', body: `Digest: \`${CODE_DIGEST}\`` });
+    }
+    const attested = /attestations\/sha256:([0-9a-f]{64})$/.exec(url)?.[1];
+    if (attested) {
+      return Response.json({ attestations: [{ bundle: { digest: attested } }] });
+    }
+    return new Response('not found', { status: 404 });
+  }) as typeof fetch;
+  return { urls, fetchFn };
+}
+
+describe('TDX hardware measurements', () => {
+  beforeEach(() => {
+    verifyCodeMock.mockReset().mockResolvedValue({
+      type: PredicateType.SnpTdxMultiplatformV1,
+      registers: ['abc123'],
+      tdxMeasurement: { rtmr1, rtmr2 },
+    });
+    verifyHardwareMock.mockReset().mockResolvedValue([
+      { ID: `other@${HARDWARE_DIGEST}`, MRTD: 'ee'.repeat(48), RTMR0: 'ff'.repeat(48) },
+      { ID: `platform@${HARDWARE_DIGEST}`, MRTD: '11'.repeat(48), RTMR0: '22'.repeat(48) },
+    ]);
+  });
+
+  it('matches TDX enclaves against the published hardware measurements by default', async () => {
+    const { fetchFn } = githubFetch();
+    const verifier = new Verifier({ serverURL: 'https://enclave.example.com', fetch: fetchFn });
+
+    await verifier.verify();
+
+    expect(verifyHardwareMock).toHaveBeenCalledWith({ digest: HARDWARE_DIGEST }, HARDWARE_DIGEST, HARDWARE_MEASUREMENTS_REPO);
+    expect(verifier.getVerificationDocument()?.hardwareMeasurement?.ID).toBe(`platform@${HARDWARE_DIGEST}`);
+    expect(verifier.exportBundle().hardwareMeasurements).toEqual({
+      release: { tag: 'v0.0.5', digest: HARDWARE_DIGEST },
+      sigstoreBundle: { digest: HARDWARE_DIGEST },
+    });
+  });
+
+  it('rejects TDX enclaves on hardware that was not published', async () => {
+    verifyHardwareMock.mockResolvedValue([{ ID: `other@${HARDWARE_DIGEST}`, MRTD: 'ee'.repeat(48), RTMR0: 'ff'.repeat(48) }]);
+    const { fetchFn } = githubFetch();
+    const verifier = new Verifier({ serverURL: 'https://enclave.example.com', fetch: fetchFn });
+
+    await expect(verifier.verify()).rejects.toBeInstanceOf(MeasurementMismatchError);
+    expect(verifier.getVerificationDocument()?.steps.compareMeasurements.status).toBe('failed');
+  });
+
+  it('uses the policy hardware measurements instead of the published ones', async () => {
+    const { urls, fetchFn } = githubFetch();
+    const verifier = new Verifier({
+      serverURL: 'https://enclave.example.com',
+      fetch: fetchFn,
+      policy: { version: 1, tdx: { hardwareMeasurements: [{ ID: 'pinned', MRTD: '11'.repeat(48), RTMR0: '22'.repeat(48) }] } },
+    });
+
+    await verifier.verify();
+
+    expect(verifyHardwareMock).not.toHaveBeenCalled();
+    expect(urls.some(url => url.includes(HARDWARE_MEASUREMENTS_REPO))).toBe(false);
+    expect(verifier.getVerificationDocument()?.hardwareMeasurement?.ID).toBe('pinned');
+    expect(verifier.exportBundle().hardwareMeasurements).toBeUndefined();
+  });
+});
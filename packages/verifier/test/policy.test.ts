@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseVerificationPolicy,
+  validateVerificationPolicy,
+  sevValidationOptionsFromPolicy,
+  checkConfigRepo,
+} from '../src/policy.js';
+import { defaultValidationOptions, defaultValidationOptionsForProduct } from '../src/sev/validation.js';
+import { Verifier } from '../src/client.js';
+
+const strictPolicy = JSON.stringify({
+  version: 1,
+  configRepos: ['tinfoilsh/confidential-model-router'],
+  sevSnp: {
+    minimumTcb: { Genoa: { blSpl: 9, teeSpl: 0, snpSpl: 23, ucodeSpl: 72 } },
+    guestPolicy: { smt: false },
+    platformInfo: { smtEnabled: false },
+    minimumBuild: 22,
+    minimumVersion: '1.58',
+    chipIds: ['ab'.repeat(64)],
+  },
+});
+
+describe('Verification Policy Schema', () => {
+  it('accepts a valid policy', () => {
+    const policy = parseVerificationPolicy(strictPolicy);
+    expect(policy.version).toBe(1);
+    expect(policy.sevSnp?.guestPolicy?.smt).toBe(false);
+  });
+
+  it('accepts a policy with only a version', () => {
+    expect(() => validateVerificationPolicy({ version: 1 })).not.toThrow();
+  });
+
+  it('rejects unknown versions', () => {
+    expect(() => validateVerificationPolicy({ version: 2 })).toThrow('$.version must be 1');
+  });
+
+  it('reports every violation with its path', () => {
+    const doc = {
+      version: 1,
+      extra: true,
+      sevSnp: {
+        minimumTcb: { Genoa: { blSpl: 9, teeSpl: 0, snpSpl: 300 }, Rome: {} },
+        guestPolicy: { smt: 'no' },
+        chipIds: ['abcd'],
+      },
+    };
+    expect(() => validateVerificationPolicy(doc)).toThrow(
+      'Invalid verification policy: $.extra is not allowed; ' +
+      '$.sevSnp.minimumTcb.Genoa.ucodeSpl is required; ' +
+      '$.sevSnp.minimumTcb.Genoa.snpSpl must be between 0 and 255; ' +
+      '$.sevSnp.minimumTcb.Rome is not allowed; ' +
+      '$.sevSnp.guestPolicy.smt must be a boolean; ' +
+      '$.sevSnp.chipIds[0] must match ^[0-9a-fA-F]{128}$'
+    );
+  });
+
+  it('checks TDX hardware measurements', () => {
+    const hardwareMeasurements = [{ ID: 'platform', MRTD: 'ab'.repeat(48), RTMR0: 'cd'.repeat(48) }];
+    expect(() => validateVerificationPolicy({ version: 1, tdx: { hardwareMeasurements } })).not.toThrow();
+    expect(() => validateVerificationPolicy({ version: 1, tdx: { hardwareMeasurements: [{ MRTD: 'ab' }] } })).toThrow(
+      'Invalid verification policy: $.tdx.hardwareMeasurements[0].RTMR0 is required; ' +
+      '$.tdx.hardwareMeasurements[0].MRTD must match ^[0-9a-fA-F]{96}$'
+    );
+  });
+
+  it('only accepts firmware versions whose parts fit in a byte', () => {
+    const withVersion = (minimumVersion: string) => ({ version: 1, sevSnp: { minimumVersion } });
+    expect(() => validateVerificationPolicy(withVersion('255.0'))).not.toThrow();
+    expect(() => validateVerificationPolicy(withVersion('1.58'))).not.toThrow();
+    expect(() => validateVerificationPolicy(withVersion('1.256'))).toThrow('$.sevSnp.minimumVersion must match');
+    expect(() => validateVerificationPolicy(withVersion('999.0'))).toThrow('$.sevSnp.minimumVersion must match');
+    expect(() => validateVerificationPolicy(withVersion('01.5'))).toThrow('$.sevSnp.minimumVersion must match');
+  });
+
+  it('rejects malformed JSON', () => {
+    expect(() => parseVerificationPolicy('{')).toThrow('Failed to parse verification policy');
+  });
+});
+
+describe('Policy to Validation Options', () => {
+  const policy = parseVerificationPolicy(strictPolicy);
+
+  it('overrides the defaults with policy values', () => {
+    const options = sevValidationOptionsFromPolicy(policy, 'Genoa');
+    expect(options.minimumTcb).toEqual({ blSpl: 9, teeSpl: 0, snpSpl: 23, ucodeSpl: 72 });
+    expect(options.minimumBuild).toBe(22);
+    expect(options.minimumVersion).toBe((1 << 8) | 58);
+    expect(options.trustedChipIds).toEqual([new Uint8Array(64).fill(0xab)]);
+  });
+
+  it('applies each TCB floor to its own product line only', () => {
+    const milanTcb = { blSpl: 4, teeSpl: 0, snpSpl: 24, ucodeSpl: 220 };
+    const perProduct = validateVerificationPolicy({ version: 1, sevSnp: { minimumTcb: { Milan: milanTcb } } });
+    expect(sevValidationOptionsFromPolicy(perProduct, 'Milan').minimumTcb).toEqual(milanTcb);
+    expect(sevValidationOptionsFromPolicy(perProduct, 'Genoa').minimumTcb).toEqual(defaultValidationOptions.minimumTcb);
+  });
+
+  it('merges guest policy and platform info with the defaults', () => {
+    const options = sevValidationOptionsFromPolicy(policy, 'Genoa');
+    expect(options.guestPolicy).toEqual({ ...defaultValidationOptions.guestPolicy, smt: false });
+    expect(options.platformInfo).toEqual({ ...defaultValidationOptions.platformInfo, smtEnabled: false });
+  });
+
+  it('keeps the product defaults for omitted fields', () => {
+    const options = sevValidationOptionsFromPolicy(policy, 'Milan');
+    expect(options.minimumTcb).toEqual(defaultValidationOptionsForProduct('Milan').minimumTcb);
+    expect(options.minimumLaunchTcb).toEqual(defaultValidationOptionsForProduct('Milan').minimumLaunchTcb);
+    expect(options.minimumGuestSvn).toBe(defaultValidationOptions.minimumGuestSvn);
+  });
+});
+
+describe('Config Repo Policy', () => {
+  const policy = parseVerificationPolicy(strictPolicy);
+
+  it('allows listed config repos', () => {
+    expect(() => checkConfigRepo(policy, 'tinfoilsh/confidential-model-router')).not.toThrow();
+  });
+
+  it('rejects unlisted config repos in the verifier', () => {
+    expect(() => new Verifier({ serverURL: 'https://enclave.example.com', configRepo: 'evil/repo', policy }))
+      .toThrow('Config repo evil/repo is not allowed by the verification policy');
+  });
+});
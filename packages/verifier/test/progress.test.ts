@@ -0,0 +1,96 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { PredicateType } from '../src/types.js';
+import type { VerificationProgressEvent } from '../src/types.js';
+
+const verifyEnclaveMock = vi.fn();
+const verifySigstoreMock = vi.fn();
+
+vi.mock('../src/attestation.js', () => ({
+  fetchAttestation: async () => ({ format: PredicateType.SevGuestV2, body: '' }),
+  verifyAttestationWithEvidence: async (...args: unknown[]) => ({ response: await verifyEnclaveMock(...args), evidence: {} }),
+}));
+
+vi.mock('../src/sigstore.js', () => ({
+  verifyAttestation: (...args: unknown[]) => verifySigstoreMock(...args),
+}));
+
+const { Verifier } = await import('../src/client.js');
+
+const DIGEST = 'c'.repeat(64);
+const MEASUREMENT = { type: PredicateType.SevGuestV2, registers: ['aa'] };
+
+const githubFetch = (async (input: RequestInfo | URL) => {
+  const url = input.toString();
+  if (url.endsWith('/releases/latest')) {
+    return Response.json({ tag_name: 'v1', body: `Digest: \`${DIGEST}\`` });
+  }
+  return Response.json({ attestations: [{ bundle: {} }] });
+}) as typeof fetch;
+
+function recordProgress() {
+  const events: VerificationProgressEvent[] = [];
+  const verifier = new Verifier({
+    serverURL: 'https://enclave.example.com',
+    fetch: githubFetch,
+    onProgress: event => events.push(event),
+  });
+  return { events, verifier };
+}
+
+describe('verification progress', () => {
+  beforeEach(() => {
+    verifyEnclaveMock.mockReset();
+    verifySigstoreMock.mockReset();
+    verifyEnclaveMock.mockResolvedValue({ measurement: MEASUREMENT, tlsPublicKeyFingerprint: 'tls', hpkePublicKey: 'hpke' });
+    verifySigstoreMock.mockResolvedValue(MEASUREMENT);
+  });
+
+  it('reports each step as it starts and succeeds', async () => {
+    const { events, verifier } = recordProgress();
+
+    await verifier.verify();
+
+    expect(events.map(e => `${e.step}:${e.status}`)).toEqual([
+      'verifyEnclave:started',
+      'verifyEnclave:success',
+      'fetchDigest:started',
+      'fetchDigest:success',
+      'verifyCode:started',
+      'compareMeasurements:started',
+      'verifyCode:success',
+      'compareMeasurements:success',
+    ]);
+    expect(events.every(e => e.enclaveHost === 'enclave.example.com')).toBe(true);
+    expect(events.filter(e => e.status === 'success').every(e => e.durationMs! >= 0)).toBe(true);
+    expect(verifier.getVerificationDocument()!.steps.verifyEnclave.durationMs).toBeGreaterThanOrEqual(0);
+  });
+
+  it('reports the failing step with its error', async () => {
+    verifySigstoreMock.mockResolvedValue({ type: PredicateType.SevGuestV2, registers: ['bb'] });
+    const { events, verifier } = recordProgress();
+
+    await expect(verifier.verify()).rejects.toThrow();
+
+    const failed = events.find(e => e.status === 'failed')!;
+    expect(failed.step).toBe('compareMeasurements');
+    expect(failed.error).toBe('Measurement registers do not match');
+    expect(verifier.getVerificationDocument()!.steps.compareMeasurements).toMatchObject({
+      status: 'failed',
+      error: failed.error,
+    });
+  });
+
+  it('ignores listeners that throw', async () => {
+    const verifier = new Verifier({
+      serverURL: 'https://enclave.example.com',
+      fetch: githubFetch,
+      onProgress: () => {
+        throw new Error('listener failed');
+      },
+    });
+
+    await verifier.verify();
+
+    expect(verifier.getVerificationDocument()!.securityVerified).toBe(true);
+  });
+});
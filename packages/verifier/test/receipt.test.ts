@@ -0,0 +1,153 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { readFileSync } from 'node:fs';
+import { PredicateType } from '../src/types.js';
+import { ReceiptVerificationError } from '../src/errors.js';
+import { VERIFIER_VERSION } from '../src/version.js';
+
+const verifyEnclaveMock = vi.fn();
+const verifySigstoreMock = vi.fn();
+
+vi.mock('../src/attestation.js', () => ({
+  fetchAttestation: async () => ATTESTATION,
+  verifyAttestationWithEvidence: (...args: unknown[]) => verifyEnclaveMock(...args),
+}));
+
+vi.mock('../src/sigstore.js', () => ({
+  verifyAttestation: (...args: unknown[]) => verifySigstoreMock(...args),
+}));
+
+const { Verifier } = await import('../src/client.js');
+const {
+  RECEIPT_VERSION,
+  serializeReceipt,
+  receiptDigest,
+  parseVerificationReceipt,
+  signReceipt,
+  verifyReceipt,
+} = await import('../src/receipt.js');
+
+const DIGEST = 'c'.repeat(64);
+const ATTESTATION = { format: PredicateType.SevGuestV2, body: 'H4sIAAAA' };
+const MEASUREMENT = { type: PredicateType.SevGuestV2, registers: ['aa'] };
+const TLS_KEY = '1'.repeat(64);
+const HPKE_KEY = '2'.repeat(64);
+
+function githubFetch() {
+  return (async (input: RequestInfo | URL) => {
+    const url = input.toString();
+    if (url.endsWith('/releases/latest')) {
+      return Response.json({ tag_name: 'v7', body: `Digest: \`${DIGEST}\`` });
+    }
+    if (url.includes('/attestations/')) {
+      return Response.json({ attestations: [{ bundle: {} }] });
+    }
+    return new Response('not found', { status: 404 });
+  }) as typeof fetch;
+}
+
+async function exportedReceipt() {
+  const verifier = new Verifier({ serverURL: 'https://enclave.example.com', fetch: githubFetch() });
+  await verifier.verify();
+  return verifier.exportReceipt();
+}
+
+const signingKey = () =>
+  crypto.subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, false, ['sign', 'verify']) as Promise<CryptoKeyPair>;
+
+describe('verification receipts', () => {
+  beforeEach(() => {
+    verifyEnclaveMock.mockReset();
+    verifySigstoreMock.mockReset();
+    verifyEnclaveMock.mockResolvedValue({
+      response: { measurement: MEASUREMENT, tlsPublicKeyFingerprint: TLS_KEY, hpkePublicKey: HPKE_KEY, endorsementKey: 'VCEK' },
+      evidence: {},
+    });
+    verifySigstoreMock.mockResolvedValue(MEASUREMENT);
+  });
+
+  it('records the verified enclave and release', async () => {
+    const receipt = await exportedReceipt();
+
+    expect(receipt).toMatchObject({
+      version: RECEIPT_VERSION,
+      sdk: { name: '@tinfoilsh/verifier', version: VERIFIER_VERSION },
+      enclaveHost: 'enclave.example.com',
+      releaseDigest: DIGEST,
+      releaseTag: 'v7',
+      codeFingerprint: 'aa',
+      enclaveFingerprint: 'aa',
+      tlsPublicKeyFingerprint: TLS_KEY,
+      hpkePublicKey: HPKE_KEY,
+      endorsementKey: 'VCEK',
+      attestation: ATTESTATION,
+    });
+    expect(Date.parse(receipt.attestedAt)).toBeLessThanOrEqual(Date.parse(receipt.issuedAt));
+  });
+
+  it('refuses to export before a successful verification', () => {
+    const verifier = new Verifier({ serverURL: 'https://enclave.example.com' });
+    expect(() => verifier.exportReceipt()).toThrow('verification has not succeeded');
+  });
+
+  it('serializes canonically', async () => {
+    const receipt = await exportedReceipt();
+    const reordered = Object.fromEntries(Object.entries(receipt).reverse()) as typeof receipt;
+
+    const json = serializeReceipt(receipt);
+
+    expect(serializeReceipt(reordered)).toBe(json);
+    expect(json).not.toMatch(/\s/);
+    expect(json.startsWith('{"attestation":{"body":')).toBe(true);
+    expect(parseVerificationReceipt(json)).toEqual(receipt);
+    expect(await receiptDigest(reordered)).toMatch(/^[0-9a-f]{64}$/);
+    expect(await receiptDigest(reordered)).toBe(await receiptDigest(receipt));
+  });
+
+  it('rejects receipts that do not match the schema', async () => {
+    const receipt = { ...(await exportedReceipt()), releaseDigest: 'main', extra: true };
+
+    expect(() => parseVerificationReceipt(JSON.stringify(receipt))).toThrow(ReceiptVerificationError);
+    expect(() => parseVerificationReceipt(JSON.stringify(receipt))).toThrow(/\$\.releaseDigest .*; \$\.extra is not allowed/);
+    expect(() => parseVerificationReceipt('{')).toThrow('Failed to parse verification receipt');
+  });
+
+  it('signs receipts and verifies the signature', async () => {
+    const receipt = await exportedReceipt();
+    const { privateKey, publicKey } = await signingKey();
+
+    const jws = await signReceipt(receipt, { privateKey, keyId: 'audit-1' });
+
+    const [header] = jws.split('.');
+    expect(JSON.parse(atob(header.replace(/-/g, '+').replace(/_/g, '/')))).toEqual({
+      alg: 'ES256',
+      kid: 'audit-1',
+      typ: 'tinfoil-receipt+jws',
+    });
+    expect(await verifyReceipt(jws, publicKey)).toEqual(receipt);
+  });
+
+  it('rejects tampered receipts and other keys', async () => {
+    const receipt = await exportedReceipt();
+    const { privateKey, publicKey } = await signingKey();
+    const jws = await signReceipt(receipt, { privateKey });
+    const [header, , signature] = jws.split('.');
+
+    const forged = btoa(serializeReceipt({ ...receipt, enclaveHost: 'evil.example.com' }))
+      .replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+    await expect(verifyReceipt(`${header}.${forged}.${signature}`, publicKey))
+      .rejects.toThrow('Receipt signature does not verify');
+
+    const other = await signingKey();
+    await expect(verifyReceipt(jws, other.publicKey)).rejects.toMatchObject({ code: 'RECEIPT_INVALID' });
+
+    const p384 = await crypto.subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-384' }, false, ['sign', 'verify']) as CryptoKeyPair;
+    await expect(verifyReceipt(jws, p384.publicKey)).rejects.toThrow('Receipt is signed with ES256, but the key uses ES384');
+
+    await expect(verifyReceipt('not-a-jws', publicKey)).rejects.toBeInstanceOf(ReceiptVerificationError);
+  });
+
+  it('records the package version', () => {
+    const pkg = JSON.parse(readFileSync(new URL('../package.json', import.meta.url), 'utf8'));
+    expect(VERIFIER_VERSION).toBe(pkg.version);
+  });
+});
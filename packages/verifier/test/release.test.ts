@@ -0,0 +1,200 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { resolveReleaseCandidates, validateReleaseSelector } from '../src/github.js';
+import { PredicateType } from '../src/types.js';
+import { ConfigurationError, MeasurementMismatchError, ReleaseFetchError } from '../src/errors.js';
+
+const verifyEnclaveMock = vi.fn();
+const verifySigstoreMock = vi.fn();
+
+vi.mock('../src/attestation.js', () => ({
+  fetchAttestation: async () => ({ format: PredicateType.SevGuestV2, body: '' }),
+  verifyAttestationWithEvidence: async (...args: unknown[]) => ({ response: await verifyEnclaveMock(...args), evidence: {} }),
+}));
+
+vi.mock('../src/sigstore.js', () => ({
+  verifyAttestation: (...args: unknown[]) => verifySigstoreMock(...args),
+}));
+
+const { Verifier } = await import('../src/client.js');
+
+const digest = (c: string) => c.repeat(64);
+
+const RELEASES = [
+  { tag_name: 'v3-rc', body: `Digest: \`${digest('d')}\``, prerelease: true },
+  { tag_name: 'v3', body: `Digest: \`${digest('c')}\`` },
+  { tag_name: 'v2-draft', body: `Digest: \`${digest('e')}\``, draft: true },
+  { tag_name: 'v2', body: 'no digest in body' },
+  { tag_name: 'v1', body: `EIF hash: ${digest('a')}` },
+];
+
+// Serves the release list, single releases, tinfoil.hash assets and attestation bundles
+function githubFetch(hashStatus = 200) {
+  const urls: string[] = [];
+  const fetchFn = (async (input: RequestInfo | URL) => {
+    const url = input.toString();
+    urls.push(url);
+    if (url.includes('/releases?per_page=')) {
+      return Response.json(RELEASES);
+    }
+    const tag = /\/releases\/tags\/([^/]+)$/.exec(url)?.[1];
+    if (tag) {
+      const release = RELEASES.find(r => r.tag_name === tag);
+      return release ? Response.json(release) : new Response('not found', { status: 404 });
+    }
+    if (url.endsWith('/releases/latest')) {
+      return Response.json(RELEASES[1]);
+    }
+    if (url.endsWith('/v2/tinfoil.hash')) {
+      return new Response(digest('b'), { status: hashStatus });
+    }
+    const attested = /attestations\/sha256:([0-9a-f]{64})$/.exec(url)?.[1];
+    if (attested) {
+      return Response.json({ attestations: [{ bundle: { digest: attested } }] });
+    }
+    return new Response('not found', { status: 404 });
+  }) as typeof fetch;
+  return { urls, fetchFn };
+}
+
+describe('release selection', () => {
+  it('resolves a pinned digest without contacting GitHub', async () => {
+    const { urls, fetchFn } = githubFetch();
+    const { candidates } = await resolveReleaseCandidates('owner/repo', { digest: digest('A') }, { fetch: fetchFn });
+    expect(candidates).toEqual([{ digest: digest('a') }]);
+    expect(urls).toEqual([]);
+  });
+
+  it('resolves a pinned tag', async () => {
+    const { fetchFn } = githubFetch();
+    const { candidates } = await resolveReleaseCandidates('owner/repo', { tag: 'v2' }, { fetch: fetchFn });
+    expect(candidates).toEqual([{ tag: 'v2', digest: digest('b') }]);
+  });
+
+  it('resolves the last N published releases newest first', async () => {
+    const { fetchFn } = githubFetch();
+    const { candidates, skipped } = await resolveReleaseCandidates('owner/repo', { latest: 3 }, { fetch: fetchFn });
+    expect(candidates).toEqual([
+      { tag: 'v3', digest: digest('c') },
+      { tag: 'v2', digest: digest('b') },
+      { tag: 'v1', digest: digest('a') },
+    ]);
+    expect(skipped).toEqual([]);
+  });
+
+  it('skips releases whose digest cannot be resolved', async () => {
+    const { fetchFn } = githubFetch(404);
+    const { candidates, skipped } = await resolveReleaseCandidates('owner/repo', { latest: 3 }, { fetch: fetchFn });
+    expect(candidates).toEqual([
+      { tag: 'v3', digest: digest('c') },
+      { tag: 'v1', digest: digest('a') },
+    ]);
+    expect(skipped).toEqual([{ tag: 'v2', reason: 'Failed to fetch attestation digest: 404 ' }]);
+  });
+
+  it('uses the latest release endpoint for a single release', async () => {
+    const { urls, fetchFn } = githubFetch();
+    const { candidates } = await resolveReleaseCandidates('owner/repo', { latest: 1 }, { fetch: fetchFn });
+    expect(candidates).toEqual([{ tag: 'v3', digest: digest('c') }]);
+    expect(urls).toEqual(['https://api-github-proxy.tinfoil.sh/repos/owner/repo/releases/latest']);
+  });
+
+  it('fails with a ReleaseFetchError when GitHub cannot be reached', async () => {
+    const fetchFn = (async () => {
+      throw new TypeError('fetch failed');
+    }) as typeof fetch;
+    await expect(resolveReleaseCandidates('owner/repo', { latest: 1 }, { fetch: fetchFn }))
+      .rejects.toEqual(new ReleaseFetchError('Failed to fetch release: fetch failed'));
+    await expect(resolveReleaseCandidates('owner/repo', { tag: 'v4' }, { fetch: githubFetch().fetchFn }))
+      .rejects.toBeInstanceOf(ReleaseFetchError);
+  });
+
+  it('rejects malformed selectors', () => {
+    expect(() => validateReleaseSelector({ digest: 'abc' })).toThrow(ConfigurationError);
+    expect(() => validateReleaseSelector({ digest: 'abc' })).toThrow('64 hex characters');
+    expect(() => validateReleaseSelector({ tag: '' })).toThrow('must not be empty');
+    expect(() => validateReleaseSelector({ latest: 0 })).toThrow('between 1 and 100');
+    expect(() => validateReleaseSelector({ latest: 2, tag: 'v1' } as never)).toThrow('exactly one of');
+  });
+});
+
+describe('Verifier release matching', () => {
+  const enclaveMeasurement = (register: string) => ({
+    measurement: { type: PredicateType.SevGuestV2, registers: [register] },
+    tlsPublicKeyFingerprint: 'tls',
+    hpkePublicKey: 'hpke',
+  });
+
+  beforeEach(() => {
+    verifyEnclaveMock.mockReset();
+    verifySigstoreMock.mockReset();
+    // The code measurement of each release is derived from its digest
+    verifySigstoreMock.mockImplementation(async (bundle: { digest: string }) => ({
+      type: PredicateType.SevGuestV2,
+      registers: [`measurement-${bundle.digest[0]}`],
+    }));
+  });
+
+  it('records the older release the enclave is still running', async () => {
+    verifyEnclaveMock.mockResolvedValue(enclaveMeasurement('measurement-b'));
+    const { fetchFn } = githubFetch();
+    const verifier = new Verifier({ serverURL: 'https://enclave.example.com', release: { latest: 3 }, fetch: fetchFn });
+
+    await verifier.verify();
+
+    const doc = verifier.getVerificationDocument()!;
+    expect(doc.securityVerified).toBe(true);
+    expect(doc.releaseTag).toBe('v2');
+    expect(doc.releaseDigest).toBe(digest('b'));
+    expect(verifySigstoreMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('skips releases whose attestation does not verify', async () => {
+    verifyEnclaveMock.mockResolvedValue(enclaveMeasurement('measurement-a'));
+    verifySigstoreMock.mockRejectedValueOnce(new Error('bad bundle'));
+    const { fetchFn } = githubFetch();
+    const verifier = new Verifier({ serverURL: 'https://enclave.example.com', release: { latest: 3 }, fetch: fetchFn });
+
+    await verifier.verify();
+
+    expect(verifier.getVerificationDocument()!.releaseTag).toBe('v1');
+  });
+
+  it('verifies the newest release when an older one cannot be resolved', async () => {
+    verifyEnclaveMock.mockResolvedValue(enclaveMeasurement('measurement-c'));
+    const { fetchFn } = githubFetch(500);
+    const verifier = new Verifier({ serverURL: 'https://enclave.example.com', release: { latest: 3 }, fetch: fetchFn });
+
+    await verifier.verify();
+
+    const doc = verifier.getVerificationDocument()!;
+    expect(doc.securityVerified).toBe(true);
+    expect(doc.releaseTag).toBe('v3');
+    expect(doc.skippedReleases).toEqual([{ tag: 'v2', reason: 'Failed to fetch attestation digest: 500 ' }]);
+  });
+
+  it('fails when no candidate matches the enclave', async () => {
+    verifyEnclaveMock.mockResolvedValue(enclaveMeasurement('measurement-z'));
+    const { fetchFn } = githubFetch();
+    const verifier = new Verifier({ serverURL: 'https://enclave.example.com', release: { tag: 'v1' }, fetch: fetchFn });
+
+    await expect(verifier.verify()).rejects.toBeInstanceOf(MeasurementMismatchError);
+
+    const doc = verifier.getVerificationDocument()!;
+    expect(doc.securityVerified).toBe(false);
+    expect(doc.steps.verifyCode.status).toBe('success');
+    expect(doc.steps.compareMeasurements.status).toBe('failed');
+  });
+
+  it('trusts a pinned digest without a release tag', async () => {
+    verifyEnclaveMock.mockResolvedValue(enclaveMeasurement('measurement-f'));
+    const { urls, fetchFn } = githubFetch();
+    const verifier = new Verifier({ serverURL: 'https://enclave.example.com', release: { digest: digest('f') }, fetch: fetchFn });
+
+    await verifier.verify();
+
+    const doc = verifier.getVerificationDocument()!;
+    expect(doc.releaseDigest).toBe(digest('f'));
+    expect(doc.releaseTag).toBeUndefined();
+    expect(urls.every(url => url.includes('/attestations/'))).toBe(true);
+  });
+});
@@ -1,10 +1,29 @@
 import { describe, it, expect } from 'vitest';
 import { Report } from '../src/sev/report.js';
+import { CertificateChain } from '../src/sev/cert-chain.js';
+import { ReportSigner } from '../src/sev/constants.js';
+import { ARK_CERT, ASK_CERT } from '../src/sev/certs.js';
+import { X509Certificate } from '@freedomofpress/sigstore-browser';
+import { SAMPLE_REPORT_PREFIX, sampleReportBytes } from './fixtures/sev.js';
+
+// Self-signed stand-in for a VCEK, with BL_SPL 7, TEE_SPL 0, SNP_SPL 14, UCODE 72 and HWID aabbccdd
+const TEST_VCEK = `-----BEGIN CERTIFICATE-----
+MIIB/zCCAYWgAwIBAgIUVyNGMuoXOsf3RBny19qPEbDaNC4wCgYIKoZIzj0EAwIw
+EzERMA8GA1UEAwwIU0VWLVZDRUswIBcNMjYxMDE5MTgwNjIxWhgPMjEyNjA5MjUx
+ODA2MjFaMBMxETAPBgNVBAMMCFNFVi1WQ0VLMHYwEAYHKoZIzj0CAQYFK4EEACID
+YgAEqefsvPzVfm5rTXNt3chVPadRSfrurAlU3sCRHQN08irm78dIzQNjbfnq322V
+OUbD5BjdOqVjtblDororMfh03lEBv0/a9TzGWtASb2EaN3yaiFCpPTp8Hn+6Rhvh
+G2xJo4GXMIGUMBQGCSsGAQQBnHgBAgQHFgVHZW5vYTARBgorBgEEAZx4AQMBBAMC
+AQcwEQYKKwYBBAGceAEDAgQDAgEAMBEGCisGAQQBnHgBAwMEAwIBDjARBgorBgEE
+AZx4AQMIBAMCAUgwEQYJKwYBBAGceAEEBASqu8zdMB0GA1UdDgQWBBR08Qb22weL
+TBuxTmG+od/vXJfH5jAKBggqhkjOPQQDAgNoADBlAjBnicJY77pipS8+i0P/Oe1V
+WYLdWl87vVikf9SkZDqfmJENgJmF51OenHgj2d0og18CMQCiKux0bgco2rm1PQ0X
+iJzXl22Cf6KSoTVRBdsbdxeL9XThgxOwQqWp6Et6O4xUqi4=
+-----END CERTIFICATE-----`;
 
 describe('Report Parsing', () => {
   it('parses version 2 report correctly', () => {
-    const base64Data = 'AgAAAAAAAAAAAAMAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAQAAAAEAAAAHAAAAAAAOSAEAAAAAAAAAAAAAAAAAAAA2NTA4M2U1OTA0YzAyNzNiNjQ0YWQ5MGU1MWUxMmE4ZDc2ZmUwN2YyYWI4YWIxNGQ3NjAxMWIzZTljN2RjYWE3';
-    const binaryString = atob(base64Data);
+    const binaryString = atob(SAMPLE_REPORT_PREFIX);
     const testData = new Uint8Array(binaryString.length);
     for (let i = 0; i < binaryString.length; i++) {
       testData[i] = binaryString.charCodeAt(i);
@@ -23,4 +42,57 @@ describe('Report Parsing', () => {
     const tooSmall = new Uint8Array(100);
     expect(() => new Report(tooSmall)).toThrow('attestation report size');
   });
+
+  it('accepts VLEK signed reports', () => {
+    const report = new Report(sampleReportBytes(ReportSigner.VlekReportSigner));
+    expect(report.signerInfoParsed.signingKey).toBe(ReportSigner.VlekReportSigner);
+  });
+
+  it('rejects reports without an endorsement key', () => {
+    expect(() => new Report(sampleReportBytes(ReportSigner.NoneReportSigner))).toThrow('VCEK or VLEK');
+  });
+
+  it('serializes to JSON with hex encoded fields', () => {
+    const report = new Report(sampleReportBytes());
+
+    const json = JSON.parse(JSON.stringify(report));
+
+    expect(json.version).toBe(2);
+    expect(json.policy).toBe('0x0000000000030000');
+    expect(json.currentTcb).toMatch(/^0x[0-9a-f]{16}$/);
+    expect(json.policyParsed).toEqual(report.policyParsed);
+    expect(json.reportData).toHaveLength(128);
+    expect(json.chipId).toHaveLength(128);
+    expect(json.signature).toHaveLength(0x200 * 2);
+    expect(json.signedData).toBeUndefined();
+    expect(json.productName).toBe('Genoa');
+  });
+});
+
+describe('Endorsement key extensions', () => {
+  it('decodes the SPLs and identity of the endorsement certificate', () => {
+    const chain = new CertificateChain(
+      X509Certificate.parse(ARK_CERT),
+      X509Certificate.parse(ASK_CERT),
+      X509Certificate.parse(TEST_VCEK),
+    );
+
+    expect(chain.extensions).toEqual({
+      tcb: { blSpl: 7, teeSpl: 0, snpSpl: 14, ucodeSpl: 72 },
+      productName: 'Genoa',
+      hwid: 'aabbccdd',
+    });
+  });
+
+  it('rejects certificates without SPL extensions', () => {
+    const chain = new CertificateChain(X509Certificate.parse(ARK_CERT), X509Certificate.parse(ASK_CERT), X509Certificate.parse(ARK_CERT));
+    expect(() => chain.extensions).toThrow('missing UCODE extension for VCEK certificate');
+  });
+});
+
+describe('VLEK Certificate Chain', () => {
+  it('requires a VLEK certificate for VLEK signed reports', async () => {
+    const report = new Report(sampleReportBytes(ReportSigner.VlekReportSigner));
+    await expect(CertificateChain.fromReport(report)).rejects.toThrow('no VLEK certificate was provided');
+  });
 });
@@ -0,0 +1,116 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { discoverRouters, fetchRouter, fetchRouters, selectRouters, shuffleByCapacity, matchesRouterPattern } from '../src/router.js';
+import { RouterDiscoveryError } from '../src/errors.js';
+
+function atcFetch(body: unknown) {
+  const urls: string[] = [];
+  const fetchFn = (async (input: RequestInfo | URL) => {
+    urls.push(input.toString());
+    return Response.json(body);
+  }) as typeof fetch;
+  return { urls, fetchFn };
+}
+
+const ROUTERS = [
+  { hostname: 'eu1.example.com', region: 'eu-west', platform: 'snp', models: ['llama'], capacity: 2 },
+  { hostname: 'eu2.example.com', region: 'EU', platform: 'tdx' },
+  { hostname: 'us1.example.com', region: 'us-east', platform: 'snp' },
+  { hostname: 'europa.example.com', region: 'europa' },
+  'legacy.example.com',
+];
+
+describe('router discovery', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('requests the platform and region and parses router metadata', async () => {
+    const { urls, fetchFn } = atcFetch(ROUTERS);
+
+    const routers = await fetchRouters({ region: 'eu', fetch: fetchFn, allowedRouters: ['*'] });
+
+    expect(urls).toEqual(['https://atc.tinfoil.sh/routers?platform=snp&region=eu']);
+    expect(routers).toEqual([{ hostname: 'eu1.example.com', region: 'eu-west', platform: 'snp', models: ['llama'], capacity: 2 }]);
+  });
+
+  it('never selects routers outside the requested region', () => {
+    const routers = selectRouters(
+      ROUTERS.map(r => (typeof r === 'string' ? { hostname: r } : r)) as never,
+      { region: 'eu', platform: 'tdx' },
+    );
+    expect(routers.map(r => r.hostname)).toEqual(['eu2.example.com']);
+  });
+
+  it('accepts bare hostnames when no region is required', async () => {
+    const { fetchFn } = atcFetch(['a.example.com', 'b.example.com']);
+    const routers = await fetchRouters({ platform: 'tdx', fetch: fetchFn, allowedRouters: ['*'] });
+    expect(routers).toEqual([{ hostname: 'a.example.com' }, { hostname: 'b.example.com' }]);
+  });
+
+  it('fails when no router matches', async () => {
+    const { fetchFn } = atcFetch(['legacy.example.com']);
+    await expect(fetchRouters({ region: 'eu', fetch: fetchFn, allowedRouters: ['*'] }))
+      .rejects.toThrow('no snp routers available in region eu');
+    await expect(fetchRouters({ platform: 'sgx' as never, fetch: fetchFn }))
+      .rejects.toThrow('Unsupported router platform: sgx');
+  });
+
+  it('rejects malformed router lists', async () => {
+    const { fetchFn } = atcFetch([{ region: 'eu' }]);
+    await expect(fetchRouter({ fetch: fetchFn })).rejects.toThrow('entry 0 has no hostname');
+    await expect(fetchRouter({ fetch: atcFetch({ routers: [] }).fetchFn }))
+      .rejects.toEqual(new RouterDiscoveryError('Invalid router list: not an array'));
+  });
+
+  it('favors routers with more capacity and skips full ones', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.5);
+    const ordered = shuffleByCapacity([
+      { hostname: 'full', capacity: 0 },
+      { hostname: 'small' },
+      { hostname: 'large', capacity: 4 },
+    ]);
+    expect(ordered.map(r => r.hostname)).toEqual(['large', 'small', 'full']);
+  });
+});
+
+describe('router allowlist', () => {
+  it('rejects routers outside tinfoil.sh by default and reports them', async () => {
+    const { fetchFn } = atcFetch([
+      'router1.inf.tinfoil.sh',
+      'attacker.example.com',
+      'tinfoil.sh.attacker.example.com',
+      'evil.example.com/@router.tinfoil.sh',
+    ]);
+
+    const { routers, rejected } = await discoverRouters({ fetch: fetchFn });
+
+    expect(routers).toEqual([{ hostname: 'router1.inf.tinfoil.sh' }]);
+    expect(rejected).toEqual([
+      { hostname: 'attacker.example.com', reason: 'hostname not in the router allowlist' },
+      { hostname: 'tinfoil.sh.attacker.example.com', reason: 'hostname not in the router allowlist' },
+      { hostname: 'evil.example.com/@router.tinfoil.sh', reason: 'not a valid hostname' },
+    ]);
+  });
+
+  it('fails with the rejected entries when no router is allowed', async () => {
+    const { fetchFn } = atcFetch(['attacker.example.com']);
+    await expect(fetchRouter({ fetch: fetchFn }))
+      .rejects.toThrow('no snp routers available (rejected: attacker.example.com: hostname not in the router allowlist)');
+  });
+
+  it('accepts configured hostnames and patterns', async () => {
+    const { fetchFn } = atcFetch(['router.internal:8443', 'r7.mirror.internal', 'other.internal']);
+    const { routers } = await discoverRouters({
+      fetch: fetchFn,
+      allowedRouters: ['router.internal', /^r\d+\.mirror\.internal$/],
+    });
+    expect(routers.map(r => r.hostname)).toEqual(['router.internal:8443', 'r7.mirror.internal']);
+  });
+
+  it('matches wildcard patterns against subdomains only', () => {
+    expect(matchesRouterPattern('a.b.tinfoil.sh', '*.tinfoil.sh')).toBe(true);
+    expect(matchesRouterPattern('tinfoil.sh', '*.tinfoil.sh')).toBe(false);
+    expect(matchesRouterPattern('nottinfoil.sh', '*.tinfoil.sh')).toBe(false);
+    expect(matchesRouterPattern('anything.example', '*')).toBe(true);
+  });
+});
@@ -0,0 +1,169 @@
+import { describe, it, expect } from 'vitest';
+import { X509Certificate } from '@freedomofpress/sigstore-browser';
+import { Quote } from '../src/tdx/quote.js';
+import { INTEL_SGX_ROOT_CA } from '../src/tdx/certs.js';
+import { extractSignedJson } from '../src/tdx/collateral.js';
+import { compareMeasurements, matchHardwareMeasurement, PredicateType } from '../src/types.js';
+import { FormatMismatchError, MeasurementMismatchError } from '../src/errors.js';
+
+// Builds a structurally valid quote; signatures are zero and the PCK chain is a placeholder
+function buildQuote(version: number): Uint8Array {
+  const pem = new TextEncoder().encode(`${INTEL_SGX_ROOT_CA}\n`.repeat(3));
+  const bodyOffset = version === 5 ? 54 : 48;
+  const bodySize = 584;
+  const qeSection = 384 + 64 + 2 + 32 + 6 + pem.length;
+  const authSize = 64 + 64 + 6 + qeSection;
+  const data = new Uint8Array(bodyOffset + bodySize + 4 + authSize);
+  const view = new DataView(data.buffer);
+
+  view.setUint16(0, version, true);
+  view.setUint16(2, 2, true);
+  view.setUint32(4, 0x81, true);
+  if (version === 5) {
+    view.setUint16(48, 2, true);
+    view.setUint32(50, bodySize, true);
+  }
+
+  // MRTD and RTMR0-3 get distinct fill bytes
+  data.fill(0x11, bodyOffset + 136, bodyOffset + 184);
+  data.fill(0x22, bodyOffset + 328, bodyOffset + 376);
+  data.fill(0x33, bodyOffset + 376, bodyOffset + 424);
+  data.fill(0x44, bodyOffset + 424, bodyOffset + 472);
+  data.fill(0xaa, bodyOffset + 520, bodyOffset + 584);
+
+  let offset = bodyOffset + bodySize;
+  view.setUint32(offset, authSize, true);
+  offset += 4 + 128;
+  view.setUint16(offset, 6, true);
+  view.setUint32(offset + 2, qeSection, true);
+  offset += 6;
+  view.setUint16(offset + 256, 1, true);
+  offset += 384 + 64;
+  view.setUint16(offset, 32, true);
+  offset += 2 + 32;
+  view.setUint16(offset, 5, true);
+  view.setUint32(offset + 2, pem.length, true);
+  data.set(pem, offset + 6);
+
+  return data;
+}
+
+describe('TDX Quote Parsing', () => {
+  it('parses version 4 quote correctly', () => {
+    const quote = new Quote(buildQuote(4));
+
+    expect(quote.header.version).toBe(4);
+    expect(quote.header.teeType).toBe(0x81);
+    expect(quote.report.mrTd.every(b => b === 0x11)).toBe(true);
+    expect(quote.report.rtmr2.every(b => b === 0x44)).toBe(true);
+    expect(quote.report.rtmr3.every(b => b === 0)).toBe(true);
+    expect(quote.report.reportData.every(b => b === 0xaa)).toBe(true);
+    expect(quote.signedData.length).toBe(48 + 584);
+    expect(quote.qeReport.isvProdId).toBe(1);
+    expect(quote.qeAuthData.length).toBe(32);
+    expect(quote.pckCertChain).toHaveLength(3);
+    expect(X509Certificate.parse(quote.pckCertChain[0]).subjectDN.get('CN')).toBe('Intel SGX Root CA');
+  });
+
+  it('parses version 5 quote with body descriptor', () => {
+    const quote = new Quote(buildQuote(5));
+
+    expect(quote.header.version).toBe(5);
+    expect(quote.bodyType).toBe(2);
+    expect(quote.signedData.length).toBe(54 + 584);
+    expect(quote.report.rtmr0.every(b => b === 0x22)).toBe(true);
+  });
+
+  it('rejects unsupported quote version', () => {
+    const data = buildQuote(4);
+    new DataView(data.buffer).setUint16(0, 3, true);
+    expect(() => new Quote(data)).toThrow('Unsupported quote version');
+  });
+
+  it('rejects truncated quote', () => {
+    expect(() => new Quote(buildQuote(4).slice(0, 600))).toThrow('Quote truncated');
+  });
+});
+
+describe('TDX Collateral', () => {
+  it('extracts the exact signed body', () => {
+    const body = '{"id":"TDX","version":3,"tcbLevels":[]}';
+    const text = `{"tcbInfo":${body},"signature":"abcd"}`;
+    expect(extractSignedJson(text, 'tcbInfo')).toEqual({ json: body, signature: 'abcd' });
+  });
+});
+
+describe('TDX Measurement Comparison', () => {
+  const rtmr1 = '33'.repeat(48);
+  const rtmr2 = '44'.repeat(48);
+  const code = {
+    type: PredicateType.SnpTdxMultiplatformV1,
+    registers: ['abc123'],
+    tdxMeasurement: { rtmr1, rtmr2 },
+  };
+  const enclave = {
+    type: PredicateType.TdxGuestV2,
+    registers: ['11'.repeat(48), '22'.repeat(48), rtmr1, rtmr2, '00'.repeat(48)],
+  };
+
+  it('matches multiplatform measurement against TDX registers', () => {
+    expect(() => compareMeasurements(code, enclave)).not.toThrow();
+    expect(() => compareMeasurements(enclave, code)).not.toThrow();
+  });
+
+  it('rejects mismatched RTMR values', () => {
+    const tampered = { ...enclave, registers: [...enclave.registers.slice(0, 3), '55'.repeat(48), enclave.registers[4]] };
+    expect(() => compareMeasurements(code, tampered)).toThrow(MeasurementMismatchError);
+  });
+
+  it('rejects non-empty RTMR3', () => {
+    const extended = { ...enclave, registers: [...enclave.registers.slice(0, 4), '66'.repeat(48)] };
+    expect(() => compareMeasurements(code, extended)).toThrow(MeasurementMismatchError);
+  });
+
+  it('rejects multiplatform measurement without TDX values', () => {
+    expect(() => compareMeasurements({ ...code, tdxMeasurement: undefined }, enclave)).toThrow(FormatMismatchError);
+  });
+
+  it('rejects SNP measurement against TDX registers', () => {
+    expect(() => compareMeasurements({ type: PredicateType.SevGuestV2, registers: ['abc123'] }, enclave)).toThrow(FormatMismatchError);
+  });
+});
+
+describe('TDX Hardware Measurements', () => {
+  const enclave = {
+    type: PredicateType.TdxGuestV2,
+    registers: ['11'.repeat(48), '22'.repeat(48), '33'.repeat(48), '44'.repeat(48), '00'.repeat(48)],
+  };
+  const trusted = [
+    { ID: 'other@sha256:01', MRTD: 'ee'.repeat(48), RTMR0: 'ff'.repeat(48) },
+    { ID: 'platform@sha256:02', MRTD: '11'.repeat(48), RTMR0: '22'.repeat(48).toUpperCase() },
+  ];
+
+  it('returns the trusted platform matching MRTD and RTMR0', () => {
+    expect(matchHardwareMeasurement(trusted, enclave)).toEqual({
+      ID: 'platform@sha256:02',
+      MRTD: '11'.repeat(48),
+      RTMR0: '22'.repeat(48),
+    });
+  });
+
+  it('rejects firmware not in the trusted set', () => {
+    const firmware = { ...enclave, registers: ['55'.repeat(48), ...enclave.registers.slice(1)] };
+    expect(() => matchHardwareMeasurement(trusted, firmware)).toThrow('does not match any trusted platform');
+  });
+
+  it('rejects an RTMR0 paired with another MRTD', () => {
+    const mixed = [{ MRTD: '11'.repeat(48), RTMR0: 'ff'.repeat(48) }, { MRTD: 'ee'.repeat(48), RTMR0: '22'.repeat(48) }];
+    expect(() => matchHardwareMeasurement(mixed, enclave)).toThrow(MeasurementMismatchError);
+  });
+
+  it('fails closed without trusted measurements', () => {
+    expect(() => matchHardwareMeasurement(undefined, enclave)).toThrow('No trusted TDX hardware measurements');
+    expect(() => matchHardwareMeasurement([], enclave)).toThrow(MeasurementMismatchError);
+  });
+
+  it('ignores SEV-SNP enclaves', () => {
+    expect(matchHardwareMeasurement(undefined, { type: PredicateType.SevGuestV2, registers: ['abc123'] })).toBeUndefined();
+  });
+});
@@ -0,0 +1,214 @@
+import { describe, it, expect, vi, beforeAll } from 'vitest';
+import { Quote } from '../src/tdx/quote.js';
+import { verifyQuote } from '../src/tdx/verify.js';
+import type { VerifiedCollateral } from '../src/tdx/verify.js';
+import { validateQuote, defaultTdxValidationOptions } from '../src/tdx/validation.js';
+import { base64ToBytes, bytesToBase64 } from '../src/sev/utils.js';
+import { CertificateChainError, ReportValidationError } from '../src/errors.js';
+import { TDX_QUOTE, TDX_COLLATERAL, TDX_FIXTURE_DATE } from './fixtures/tdx.js';
+
+// The fixture is signed by a test root standing in for the Intel SGX Root CA
+vi.mock('../src/tdx/certs.js', async () => ({
+  INTEL_SGX_ROOT_CA: (await import('./fixtures/tdx.js')).TDX_TEST_ROOT_CA,
+}));
+
+const now = TDX_FIXTURE_DATE;
+
+function parseQuote(): Quote {
+  return new Quote(base64ToBytes(TDX_QUOTE));
+}
+
+// Flips the last byte of a certificate, which falls in its signature
+function tamperCertificate(pem: string): string {
+  const body = pem.replace(/-----[A-Z ]+-----|\s/g, '');
+  const der = base64ToBytes(body);
+  der[der.length - 1] ^= 1;
+  return `-----BEGIN CERTIFICATE-----\n${bytesToBase64(der)}\n-----END CERTIFICATE-----`;
+}
+
+describe('TDX Quote Verification', () => {
+  it('verifies the quote and its collateral', async () => {
+    const verified = await verifyQuote(parseQuote(), TDX_COLLATERAL, now);
+
+    expect(verified.tcbInfo.id).toBe('TDX');
+    expect(verified.qeIdentity.id).toBe('TD_QE');
+    expect(verified.pck.pceSvn).toBe(13);
+    expect(Array.from(verified.pck.fmspc)).toEqual([0x00, 0x80, 0x6f, 0x05, 0x00, 0x00]);
+  });
+
+  it('rejects a PCK chain that does not end at the root', async () => {
+    const quote = parseQuote();
+    quote.pckCertChain[2] = quote.pckCertChain[1];
+    await expect(verifyQuote(quote, TDX_COLLATERAL, now)).rejects.toThrow('does not terminate at the Intel SGX Root CA');
+  });
+
+  it('rejects a PCK certificate not signed by the intermediate', async () => {
+    const quote = parseQuote();
+    quote.pckCertChain[0] = tamperCertificate(quote.pckCertChain[0]);
+    await expect(verifyQuote(quote, TDX_COLLATERAL, now)).rejects.toThrow(CertificateChainError);
+  });
+
+  it('rejects a PCK leaf with the wrong common name', async () => {
+    const quote = parseQuote();
+    quote.pckCertChain[0] = quote.pckCertChain[1];
+    await expect(verifyQuote(quote, TDX_COLLATERAL, now)).rejects.toThrow('PCK certificate common name');
+  });
+
+  it('rejects certificates outside their validity period', async () => {
+    await expect(verifyQuote(parseQuote(), TDX_COLLATERAL, new Date('2026-01-01T00:00:00Z')))
+      .rejects.toThrow(CertificateChainError);
+  });
+
+  it('rejects TCB info with a bad signature', async () => {
+    const collateral = { ...TDX_COLLATERAL, tcbInfoJson: TDX_COLLATERAL.tcbInfoJson.replace('"tcbEvaluationDataNumber":17', '"tcbEvaluationDataNumber":18') };
+    await expect(verifyQuote(parseQuote(), collateral, now)).rejects.toThrow('TCB info signature verification failed');
+  });
+
+  it('rejects a QE identity with a bad signature', async () => {
+    const collateral = { ...TDX_COLLATERAL, qeIdentityJson: TDX_COLLATERAL.qeIdentityJson.replace('"isvprodid":2', '"isvprodid":3') };
+    await expect(verifyQuote(parseQuote(), collateral, now)).rejects.toThrow('QE identity signature verification failed');
+  });
+
+  it('rejects collateral signed by a certificate other than the TCB signing certificate', async () => {
+    const [pckLeaf, , root] = parseQuote().pckCertChain;
+    const collateral = { ...TDX_COLLATERAL, tcbInfoIssuerChain: `${pckLeaf}\n${root}\n` };
+    await expect(verifyQuote(parseQuote(), collateral, now)).rejects.toThrow('TCB info signing certificate common name');
+  });
+
+  it('rejects a QE report not signed by the PCK key', async () => {
+    const quote = parseQuote();
+    quote.qeReportRaw[100] ^= 1;
+    await expect(verifyQuote(quote, TDX_COLLATERAL, now)).rejects.toThrow('QE report signature verification failed');
+  });
+
+  it('rejects a QE report that does not bind the attestation key', async () => {
+    const quote = parseQuote();
+    quote.qeAuthData[0] ^= 1;
+    await expect(verifyQuote(quote, TDX_COLLATERAL, now)).rejects.toThrow('QE report data does not match the attestation key hash');
+  });
+
+  it('rejects a quote not signed by the attestation key', async () => {
+    const quote = parseQuote();
+    quote.signedData[600] ^= 1;
+    await expect(verifyQuote(quote, TDX_COLLATERAL, now)).rejects.toThrow(ReportValidationError);
+  });
+});
+
+describe('TDX Quote Validation', () => {
+  let verified: VerifiedCollateral;
+
+  beforeAll(async () => {
+    verified = await verifyQuote(parseQuote(), TDX_COLLATERAL, now);
+  });
+
+  const validate = (quote: Quote, collateral: VerifiedCollateral, at: Date = now) =>
+    validateQuote(quote, collateral, defaultTdxValidationOptions, at);
+
+  it('accepts an up to date TD', () => {
+    expect(() => validate(parseQuote(), verified)).not.toThrow();
+  });
+
+  it('rejects expired collateral', () => {
+    expect(() => validate(parseQuote(), verified, new Date('2026-12-01T00:00:00Z'))).toThrow('TCB info expired');
+  });
+
+  it('rejects TCB info for another platform', () => {
+    const collateral = structuredClone(verified);
+    collateral.tcbInfo.fmspc = '00906ED50000';
+    expect(() => validate(parseQuote(), collateral)).toThrow('does not match PCK certificate FMSPC');
+  });
+
+  it('rejects an out of date QE', () => {
+    const collateral = structuredClone(verified);
+    collateral.qeIdentity.tcbLevels[0].tcbStatus = 'OutOfDate';
+    expect(() => validate(parseQuote(), collateral)).toThrow('QE TCB status OutOfDate is not accepted');
+  });
+
+  it('rejects an out of date platform', () => {
+    const collateral = structuredClone(verified);
+    collateral.tcbInfo.tcbLevels[0].tcbStatus = 'OutOfDate';
+    expect(() => validate(parseQuote(), collateral)).toThrow('Platform TCB status OutOfDate is not accepted');
+  });
+
+  it('rejects a platform below every TCB level', () => {
+    const collateral = structuredClone(verified);
+    collateral.pck.pceSvn = 10;
+    expect(() => validate(parseQuote(), collateral)).toThrow(ReportValidationError);
+    expect(() => validate(parseQuote(), collateral)).toThrow('No matching TCB level found in TCB info');
+  });
+
+  it('leaves the TDX module SVN out of the platform TCB match', () => {
+    const collateral = structuredClone(verified);
+    const quote = parseQuote();
+    expect(quote.report.teeTcbSvn[1]).toBeGreaterThan(0);
+    collateral.tcbInfo.tcbLevels[0].tcb.tdxtcbcomponents![0].svn = 9;
+    expect(() => validate(quote, collateral)).not.toThrow();
+  });
+
+  it('matches the TDX module SVN of a major version 0 module against the TCB levels', () => {
+    const collateral = structuredClone(verified);
+    const quote = parseQuote();
+    quote.report.teeTcbSvn[1] = 0;
+    for (const level of collateral.tcbInfo.tcbLevels) {
+      level.tcb.tdxtcbcomponents![0].svn = 9;
+    }
+    expect(() => validate(quote, collateral)).toThrow('No matching TCB level found in TCB info');
+  });
+
+  it('rejects a TD in debug mode', () => {
+    const quote = parseQuote();
+    quote.report.tdAttributes[0] |= 1;
+    expect(() => validate(quote, verified)).toThrow('TD is running in debug mode');
+  });
+
+  it('rejects a TD without SEPT_VE_DISABLE', () => {
+    const quote = parseQuote();
+    quote.report.tdAttributes[3] = 0;
+    expect(() => validate(quote, verified)).toThrow('SEPT_VE_DISABLE is not set in TD attributes');
+  });
+
+  describe('TDX module identity', () => {
+    it('rejects a module signed by someone else', () => {
+      const quote = parseQuote();
+      quote.report.mrSignerSeam[0] = 1;
+      expect(() => validate(quote, verified)).toThrow('MRSIGNERSEAM mismatch');
+    });
+
+    it('rejects module attributes outside the mask', () => {
+      const quote = parseQuote();
+      quote.report.seamAttributes[7] = 0x80;
+      expect(() => validate(quote, verified)).toThrow('SEAMATTRIBUTES mismatch at byte 7');
+    });
+
+    it('ignores module attributes the mask leaves out', () => {
+      const collateral = structuredClone(verified);
+      collateral.tcbInfo.tdxModuleIdentities![0].attributesMask = 'FFFFFFFFFFFFFF7F';
+      const quote = parseQuote();
+      quote.report.seamAttributes[7] = 0x80;
+      expect(() => validate(quote, collateral)).not.toThrow();
+    });
+
+    it('rejects a module version without an identity', () => {
+      const quote = parseQuote();
+      quote.report.teeTcbSvn[1] = 2;
+      expect(() => validate(quote, verified)).toThrow('TCB info does not contain TDX module identity TDX_02');
+    });
+
+    it('rejects an out of date module', () => {
+      const collateral = structuredClone(verified);
+      collateral.tcbInfo.tdxModuleIdentities![0].tcbLevels[0].tcbStatus = 'OutOfDate';
+      expect(() => validate(parseQuote(), collateral)).toThrow('TDX module TCB status OutOfDate is not accepted');
+    });
+
+    it('checks major version 0 modules against tdxModule', () => {
+      const collateral = structuredClone(verified);
+      collateral.tcbInfo.tdxModule!.mrsigner = '01'.repeat(48);
+      const quote = parseQuote();
+      quote.report.teeTcbSvn[1] = 0;
+      expect(() => validate(quote, collateral)).toThrow('MRSIGNERSEAM mismatch');
+
+      delete collateral.tcbInfo.tdxModule;
+      expect(() => validate(quote, collateral)).toThrow('TCB info does not contain the TDX module identity');
+    });
+  });
+});
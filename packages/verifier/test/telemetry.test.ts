@@ -0,0 +1,131 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { trace, SpanStatusCode, TraceFlags } from '@opentelemetry/api';
+import type { Attributes, AttributeValue, Context, Span, SpanOptions, SpanStatus, Tracer } from '@opentelemetry/api';
+import { PredicateType } from '../src/types.js';
+
+interface RecordedSpan {
+  name: string;
+  parent?: string;
+  attributes: Attributes;
+  status?: SpanStatus;
+  ended: boolean;
+}
+
+const spans: RecordedSpan[] = [];
+
+function recordingSpan(name: string, options: SpanOptions = {}, ctx?: Context): Span {
+  const parent = ctx && trace.getSpan(ctx);
+  const recorded: RecordedSpan = {
+    name,
+    parent: parent ? spans[Number(parent.spanContext().spanId)]?.name : undefined,
+    attributes: { ...options.attributes },
+    ended: false,
+  };
+  const spanId = `${spans.length}`;
+  spans.push(recorded);
+  const span: Span = {
+    spanContext: () => ({ traceId: '1', spanId, traceFlags: TraceFlags.SAMPLED }),
+    setAttribute: (key: string, value: AttributeValue) => {
+      recorded.attributes[key] = value;
+      return span;
+    },
+    setAttributes: (attributes: Attributes) => {
+      Object.assign(recorded.attributes, attributes);
+      return span;
+    },
+    setStatus: (status: SpanStatus) => {
+      recorded.status = status;
+      return span;
+    },
+    addEvent: () => span,
+    addLink: () => span,
+    addLinks: () => span,
+    updateName: () => span,
+    recordException: () => {},
+    isRecording: () => true,
+    end: () => {
+      recorded.ended = true;
+    },
+  };
+  return span;
+}
+
+const tracer = {
+  startSpan: recordingSpan,
+  startActiveSpan: () => {
+    throw new Error('not used');
+  },
+} as unknown as Tracer;
+
+trace.setGlobalTracerProvider({ getTracer: () => tracer });
+
+const verifyEnclaveMock = vi.fn();
+const verifySigstoreMock = vi.fn();
+
+vi.mock('../src/attestation.js', () => ({
+  fetchAttestation: async () => ({ format: PredicateType.SevGuestV2, body: '' }),
+  verifyAttestationWithEvidence: async (...args: unknown[]) => ({ response: await verifyEnclaveMock(...args), evidence: {} }),
+}));
+
+vi.mock('../src/sigstore.js', () => ({
+  verifyAttestation: (...args: unknown[]) => verifySigstoreMock(...args),
+}));
+
+const { Verifier } = await import('../src/client.js');
+
+const DIGEST = 'c'.repeat(64);
+const MEASUREMENT = { type: PredicateType.SevGuestV2, registers: ['aa'] };
+
+const githubFetch = (async (input: RequestInfo | URL) => {
+  const url = input.toString();
+  if (url.endsWith('/releases/latest')) {
+    return Response.json({ tag_name: 'v1', body: `Digest: \`${DIGEST}\`` });
+  }
+  return Response.json({ attestations: [{ bundle: {} }] });
+}) as typeof fetch;
+
+describe('telemetry', () => {
+  beforeEach(() => {
+    spans.length = 0;
+    verifyEnclaveMock.mockReset();
+    verifySigstoreMock.mockReset();
+    verifyEnclaveMock.mockResolvedValue({ measurement: MEASUREMENT, tlsPublicKeyFingerprint: 'tls', hpkePublicKey: 'hpke' });
+    verifySigstoreMock.mockResolvedValue(MEASUREMENT);
+  });
+
+  it('traces verification and each step', async () => {
+    const verifier = new Verifier({ serverURL: 'https://enclave.example.com', fetch: githubFetch });
+
+    await verifier.verify();
+
+    const root = spans.find(s => s.name === 'tinfoil.verify')!;
+    expect(root.ended).toBe(true);
+    expect(root.attributes).toMatchObject({
+      'tinfoil.enclave.host': 'enclave.example.com',
+      'tinfoil.release.digest': DIGEST,
+      'tinfoil.tls.fingerprint': 'tls',
+      'tinfoil.hpke.public_key': 'hpke',
+    });
+    const steps = spans.filter(s => s.name.startsWith('tinfoil.verify.'));
+    expect(steps.map(s => s.name)).toEqual([
+      'tinfoil.verify.verifyEnclave',
+      'tinfoil.verify.fetchDigest',
+      'tinfoil.verify.verifyCode',
+      'tinfoil.verify.compareMeasurements',
+    ]);
+    expect(steps.every(s => s.ended && s.parent === 'tinfoil.verify')).toBe(true);
+    expect(steps.every(s => s.attributes['tinfoil.enclave.host'] === 'enclave.example.com')).toBe(true);
+  });
+
+  it('marks the failing step and the verification as errors', async () => {
+    verifySigstoreMock.mockResolvedValue({ type: PredicateType.SevGuestV2, registers: ['bb'] });
+    const verifier = new Verifier({ serverURL: 'https://enclave.example.com', fetch: githubFetch });
+
+    await expect(verifier.verify()).rejects.toThrow();
+
+    const compare = spans.find(s => s.name === 'tinfoil.verify.compareMeasurements')!;
+    expect(compare.status).toEqual({ code: SpanStatusCode.ERROR, message: 'Measurement registers do not match' });
+    expect(spans.find(s => s.name === 'tinfoil.verify')!.status?.code).toBe(SpanStatusCode.ERROR);
+    expect(spans.every(s => s.ended)).toBe(true);
+  });
+});
@@ -0,0 +1,145 @@
+import { describe, it, expect } from 'vitest';
+import { X509Certificate } from '@freedomofpress/sigstore-browser';
+import { Report } from '../src/sev/report.js';
+import type { CertificateChain } from '../src/sev/cert-chain.js';
+import { validateReport, resolveTrustedKeyDigests, sevPublicKeyDigest, defaultValidationOptions, defaultValidationOptionsForProduct } from '../src/sev/validation.js';
+import type { ValidationOptions } from '../src/sev/validation.js';
+import { ARK_CERT } from '../src/sev/certs.js';
+import { bytesToHex, hexToBytes, tcbFromInt, tcbMeetsMinimum } from '../src/sev/utils.js';
+import { sampleReportBytes } from './fixtures/sev.js';
+
+// Self-signed P-384 certificate standing in for an ID or author key
+const TEST_KEY_CERT = `-----BEGIN CERTIFICATE-----
+MIIBwDCCAUagAwIBAgIUE69AfV6WtlTnslInseo/0xlUikUwCgYIKoZIzj0EAwIw
+FjEUMBIGA1UEAwwLVGVzdCBJRCBLZXkwIBcNMjYxMDE5MTcxNTE5WhgPMjEyNjA5
+MjUxNzE1MTlaMBYxFDASBgNVBAMMC1Rlc3QgSUQgS2V5MHYwEAYHKoZIzj0CAQYF
+K4EEACIDYgAEbl2nP8SvJLbCOvuK9O0jB8k87dx0uVm+li7aczxgGpOHhwOKnhJa
+O7a4y0M9NUUt2lnSGQpN/ntzoSv40p+eIf2XFdGC65Cly2RqBKUbS17bIY4LlOLI
+eocon3eIiGzfo1MwUTAdBgNVHQ4EFgQU7nWcpwZSrX58aQ3VTKUYe1UInCgwHwYD
+VR0jBBgwFoAU7nWcpwZSrX58aQ3VTKUYe1UInCgwDwYDVR0TAQH/BAUwAwEB/zAK
+BggqhkjOPQQDAgNoADBlAjASAeN3BWLMsKaTcx/0QMSXVJbCTiMHB0sbAK6QIeUM
+5bBEgViJtfAUYyH4iTDadVECMQCDq+q+AKLkQUl0+vcXxyJ0VW1Nz0S1ca8sp4DP
+5HD3rvxMgNHtg7Q6NSe4K1lccr8=
+-----END CERTIFICATE-----`;
+const TEST_KEY_DIGEST = 'cd8f61256948653b9313f6060fd2682f761d8b50a5106e47d7ab1b1acdd147320fd562e9aab303ee3d3b264d000da727';
+
+// Only the checks that run before the ID-block checks need a chain
+const chain = {
+  endorsementKey: 'VCEK',
+  validateVcekTcb: () => {},
+  validateVcekHwid: () => {},
+} as unknown as CertificateChain;
+
+function reportWithKeys(idKeyDigest?: Uint8Array, authorKeyDigest?: Uint8Array): Report {
+  const reportBytes = sampleReportBytes();
+  // Committed TCB must equal the current TCB when provisional firmware is not permitted
+  reportBytes.copyWithin(0x1e0, 0x38, 0x40);
+  reportBytes[0x48] = authorKeyDigest ? 1 : 0;
+  if (idKeyDigest) reportBytes.set(idKeyDigest, 0xe0);
+  if (authorKeyDigest) reportBytes.set(authorKeyDigest, 0x110);
+  return new Report(reportBytes);
+}
+
+function options(overrides: Partial<ValidationOptions>): ValidationOptions {
+  return { permitProvisionalFirmware: false, requireAuthorKey: false, requireIdBlock: false, ...overrides };
+}
+
+describe('SEV Public Key Digest', () => {
+  it('hashes a P-384 key in the SEV-SNP ABI format', async () => {
+    const digest = await sevPublicKeyDigest(X509Certificate.parse(TEST_KEY_CERT));
+    expect(bytesToHex(digest)).toBe(TEST_KEY_DIGEST);
+  });
+
+  it('rejects non P-384 keys', async () => {
+    await expect(sevPublicKeyDigest(X509Certificate.parse(ARK_CERT))).rejects.toThrow('P-384');
+  });
+});
+
+describe('ID Block Validation', () => {
+  const trusted = hexToBytes(TEST_KEY_DIGEST);
+  const untrusted = new Uint8Array(48).fill(0x11);
+
+  it('passes without ID block requirements', () => {
+    expect(() => validateReport(reportWithKeys(), chain, options({}))).not.toThrow();
+  });
+
+  it('requires an ID block when configured', () => {
+    expect(() => validateReport(reportWithKeys(), chain, options({ requireIdBlock: true, trustedIdKeyHashes: [trusted] })))
+      .toThrow('no ID key digest');
+  });
+
+  it('accepts a trusted ID key certificate once resolved', async () => {
+    const report = reportWithKeys(trusted);
+    const resolved = await resolveTrustedKeyDigests(options({ requireIdBlock: true, trustedIdKeys: [X509Certificate.parse(TEST_KEY_CERT)] }));
+    expect(resolved.trustedIdKeys).toBeUndefined();
+    expect(() => validateReport(report, chain, resolved)).not.toThrow();
+  });
+
+  it('rejects key certificates that were not resolved', () => {
+    const report = reportWithKeys(trusted);
+    const trustedIdKeys = [X509Certificate.parse(TEST_KEY_CERT)];
+    expect(() => validateReport(report, chain, options({ requireIdBlock: true, trustedIdKeys })))
+      .toThrow('must be resolved with resolveTrustedKeyDigests');
+  });
+
+  it('rejects an untrusted ID key', () => {
+    expect(() => validateReport(reportWithKeys(untrusted), chain, options({ requireIdBlock: true, trustedIdKeyHashes: [trusted] })))
+      .toThrow('is not trusted');
+  });
+
+  it('accepts an ID key endorsed by a trusted author key', () => {
+    const report = reportWithKeys(untrusted, trusted);
+    expect(() => validateReport(report, chain, options({ requireIdBlock: true, trustedAuthorKeyHashes: [trusted] })))
+      .not.toThrow();
+  });
+
+  it('requires AUTHOR_KEY_EN when an author key is required', () => {
+    expect(() => validateReport(reportWithKeys(trusted), chain, options({ requireAuthorKey: true, trustedAuthorKeyHashes: [trusted] })))
+      .toThrow('AUTHOR_KEY_EN is not set');
+  });
+
+  it('rejects an untrusted author key', () => {
+    expect(() => validateReport(reportWithKeys(trusted, untrusted), chain, options({ requireAuthorKey: true, trustedAuthorKeyHashes: [trusted] })))
+      .toThrow('Author key digest');
+  });
+
+  it('rejects an author key digest without AUTHOR_KEY_EN', () => {
+    const report = reportWithKeys(trusted, trusted);
+    report.signerInfoParsed.authorKeyEn = false;
+    expect(() => validateReport(report, chain, options({}))).toThrow('AUTHOR_KEY_EN is not set');
+  });
+
+  it('enforces the family ID alongside the ID block', () => {
+    const report = reportWithKeys(trusted);
+    const familyId = new Uint8Array(16).fill(0x22);
+    expect(() => validateReport(report, chain, options({ requireIdBlock: true, trustedIdKeyHashes: [trusted], familyId })))
+      .toThrow('Family ID mismatch');
+  });
+});
+
+describe('Product Minimum TCBs', () => {
+  it('keeps the Genoa floors', () => {
+    expect(defaultValidationOptionsForProduct('Genoa')).toBe(defaultValidationOptions);
+  });
+
+  it('sets floors for Milan', () => {
+    const options = defaultValidationOptionsForProduct('Milan');
+    expect(options.minimumTcb).toEqual({ blSpl: 0x3, teeSpl: 0, snpSpl: 0x16, ucodeSpl: 0xd5 });
+    expect(options.minimumLaunchTcb).toEqual(options.minimumTcb);
+  });
+
+  it('compares Turin TCBs in the Turin layout', () => {
+    const minimum = { fmcSpl: 1, blSpl: 1, teeSpl: 1, snpSpl: 1, ucodeSpl: 1 };
+    // ucode 0x01, snp 0x01, tee 0x01, bl 0x01, fmc 0x01
+    const tcb = 0x01000000_01010101n;
+    expect(tcbMeetsMinimum(tcbFromInt(tcb, 'Turin'), minimum)).toBe(true);
+    expect(tcbMeetsMinimum(tcbFromInt(tcb & ~0xffn, 'Turin'), minimum)).toBe(false);
+    // Read in the Genoa layout the same value misses the SNP and microcode SPLs
+    expect(tcbMeetsMinimum(tcbFromInt(tcb, 'Genoa'), minimum)).toBe(false);
+  });
+
+  it('leaves Turin and unknown products without floors', () => {
+    expect(defaultValidationOptionsForProduct('Turin').minimumTcb).toBeUndefined();
+    expect(defaultValidationOptionsForProduct('Unknown').minimumTcb).toBeUndefined();
+  });
+});
@@ -1,6 +1,7 @@
 import { describe, it, expect } from 'vitest';
 import { Verifier } from '../src/client.js';
-import { compareMeasurements, measurementFingerprint, PredicateType, FormatMismatchError, MeasurementMismatchError } from '../src/types.js';
+import { compareMeasurements, measurementFingerprint, PredicateType } from '../src/types.js';
+import { FormatMismatchError, MeasurementMismatchError } from '../src/errors.js';
 
 const DEFAULT_ENCLAVE_URL = 'https://inference.tinfoil.sh';
 
@@ -2,7 +2,8 @@ import { describe, it, expect } from 'vitest';
 import { Report } from '../src/sev/report.js';
 import { bytesToHex } from '../src/sev/utils.js';
 import { Verifier } from '../src/client.js';
-import { compareMeasurements, measurementFingerprint, FormatMismatchError, MeasurementMismatchError } from '../src/types.js';
+import { compareMeasurements, measurementFingerprint } from '../src/types.js';
+import { FormatMismatchError, MeasurementMismatchError } from '../src/errors.js';
 
 describe('Browser Environment Verification', () => {
   it('confirms running in browser environment', () => {